@@ -1,16 +1,60 @@
-import { Body, Controller, Get, Post, Req, Res, UseGuards, UseInterceptors, UnauthorizedException } from '@nestjs/common';
+import {
+    BadRequestException,
+    Body,
+    ConflictException,
+    Controller,
+    Get,
+    HttpCode,
+    HttpException,
+    HttpStatus,
+    Post,
+    Req,
+    Res,
+    UseFilters,
+    UseGuards,
+    UseInterceptors,
+    UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
 import { UserService } from 'src/modules/user/user.service';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { JwtPayloadDto } from './dto/jwt-payload.dto';
-import { JwtPayload, OAuthRequest } from './interfaces';
+import { AuthenticatedRequest, JwtPayload, MfaChallenge, OAuthRequest } from './interfaces';
 import { AuthGuard } from '@nestjs/passport';
 import { OAuthUserInterceptor } from 'src/shared/interceptors/oauth-user.interceptor';
 import { Request, Response } from 'express';
 import { User } from 'src/modules/user/entities/user.entity';
 import { RateLimitGuard } from 'src/shared/guards/rate-limit.guard';
+import { EmailVerificationService } from './services/email-verification.service';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { PasswordResetService } from './services/password-reset.service';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { MfaService } from './services/mfa.service';
+import { MfaChallengeDto } from './dto/mfa.dto';
+import { clearRefreshTokenCookie, REFRESH_TOKEN_COOKIE, setRefreshTokenCookie } from './utils/refresh-token-cookie';
+import { getSessionContext } from './utils/session-context';
+import { MagicLinkService } from './services/magic-link.service';
+import { ConsumeMagicLinkDto, RequestMagicLinkDto } from './dto/magic-link.dto';
+import { IdentityService } from './services/identity.service';
+import { clearIdentityLinkCookie, IDENTITY_LINK_COOKIE } from './utils/identity-link-cookie';
+import { LoginHistoryService } from './services/login-history.service';
+import { LoginMethods } from './constants/login-history';
+import { TokenPolicyService } from './services/token-policy.service';
+import { CsrfGuard } from './guards/csrf.guard';
+import { CSRF_TOKEN_COOKIE } from './utils/csrf-token-cookie';
+import { SocialLoginService } from './services/social-login.service';
+import { SocialLoginCallbackGuard } from './guards/social-login-callback.guard';
+import { FacebookLoginEnabledGuard } from './guards/facebook-login-enabled.guard';
+import { SocialLoginExceptionFilter } from './filters/social-login-exception.filter';
+import { SocialLoginException } from './exceptions/social-login.exception';
+import { SocialLoginErrors, SocialLoginModes } from './constants/social-login';
+import { SocialLoginExchangeDto } from './dto/social-login.dto';
+import { NoImpersonationGuard } from './guards/no-impersonation.guard';
+import { ReauthenticateDto } from './dto/reauthenticate.dto';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -19,38 +63,84 @@ class AuthController {
         private userService: UserService,
         private authService: AuthService,
         private configService: ConfigService,
+        private emailVerificationService: EmailVerificationService,
+        private passwordResetService: PasswordResetService,
+        private mfaService: MfaService,
+        private magicLinkService: MagicLinkService,
+        private identityService: IdentityService,
+        private loginHistoryService: LoginHistoryService,
+        private tokenPolicyService: TokenPolicyService,
+        private socialLoginService: SocialLoginService,
     ) {}
 
     @Get('google')
     @UseGuards(AuthGuard('google'))
+    @ApiOperation({ summary: 'Start a Google login' })
+    @ApiQuery({ name: 'mode', required: false, enum: Object.values(SocialLoginModes) })
+    @ApiQuery({ name: 'returnTo', required: false, description: 'Frontend path to return to, one of OAUTH_RETURN_PATHS' })
+    @ApiQuery({
+        name: 'code_challenge',
+        required: false,
+        description: 'S256 PKCE challenge of the app, required by app mode',
+    })
     public async googleAuth(): Promise<void> {}
 
     @Get('google/callback')
-    @UseGuards(AuthGuard('google'))
+    @UseGuards(SocialLoginCallbackGuard, AuthGuard('google'))
+    @UseFilters(SocialLoginExceptionFilter)
     @UseInterceptors(OAuthUserInterceptor)
     public async googleAuthRedirect(@Req() req: OAuthRequest, @Res() res: Response): Promise<void> {
-        const user = await this.userService.getUserByEmail(req.user.email);
-        const frontendUrl = this.configService.get('frontend.url');
+        await this.completeOAuthLogin(req, res);
+    }
 
-        let refreshToken;
-        if (user) {
-            try {
-                refreshToken = await this.authService.createRefreshToken(user?.id);
-            } catch (error) {
-                res.redirect(`${frontendUrl}/login`);
-            }
+    @Get('facebook')
+    @UseGuards(FacebookLoginEnabledGuard, AuthGuard('facebook'))
+    @ApiOperation({ summary: 'Start a Facebook login' })
+    @ApiResponse({ status: 404, description: 'Facebook login is not configured' })
+    @ApiQuery({ name: 'mode', required: false, enum: Object.values(SocialLoginModes) })
+    @ApiQuery({ name: 'returnTo', required: false, description: 'Frontend path to return to, one of OAUTH_RETURN_PATHS' })
+    @ApiQuery({
+        name: 'code_challenge',
+        required: false,
+        description: 'S256 PKCE challenge of the app, required by app mode',
+    })
+    public async facebookAuth(): Promise<void> {}
+
+    @Get('facebook/callback')
+    @UseGuards(FacebookLoginEnabledGuard, SocialLoginCallbackGuard, AuthGuard('facebook'))
+    @UseFilters(SocialLoginExceptionFilter)
+    @UseInterceptors(OAuthUserInterceptor)
+    public async facebookAuthRedirect(@Req() req: OAuthRequest, @Res() res: Response): Promise<void> {
+        await this.completeOAuthLogin(req, res);
+    }
+
+    @Post('social/exchange')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Exchange the one-time code from a social login in the mobile app for a session' })
+    @ApiBody({ type: SocialLoginExchangeDto })
+    @ApiResponse({ status: 200, description: 'Login successful', type: JwtPayloadDto })
+    @ApiResponse({ status: 401, description: 'Invalid, expired or used login code' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async exchangeSocialLoginCode(
+        @Body() exchangeDto: SocialLoginExchangeDto,
+        @Req() request: Request,
+        @Res({ passthrough: true }) response: Response,
+    ): Promise<JwtPayload> {
+        const { userId, provider } = await this.socialLoginService.redeemAppCode(exchangeDto.code, exchangeDto.codeVerifier);
+
+        const user = await this.userService.getUserById(userId).catch(() => null);
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('Invalid login code');
         }
 
-        const isProduction = this.configService.get('nodeEnv') === 'production';
-        res.cookie('refreshToken', refreshToken, {
-            httpOnly: true,
-            secure: isProduction,
-            sameSite: 'strict',
-            maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-            path: '/',
-        });
+        const context = getSessionContext(request);
+        const tokenPayload = this.authService.createTokenForUser(user);
+        const refreshToken = await this.authService.createRefreshToken(user.id, context);
+        setRefreshTokenCookie(response, refreshToken, this.isProduction(), this.tokenPolicyService.getRefreshCookieMaxAge());
+        await this.loginHistoryService.recordSuccess(user, provider, context);
 
-        res.redirect(`${frontendUrl}/dashboard`);
+        return tokenPayload;
     }
 
     @Post('login')
@@ -62,28 +152,112 @@ class AuthController {
         description: 'Login successful',
         type: JwtPayloadDto,
     })
+    @ApiResponse({
+        status: 201,
+        description: 'Password accepted, second factor required at /auth/mfa/verify',
+        type: MfaChallengeDto,
+    })
     @ApiResponse({ status: 401, description: 'Invalid credentials' })
     @ApiResponse({ status: 429, description: 'Too many requests' })
-    public async login(@Body() loginDto: LoginDto, @Res({ passthrough: true }) response: Response): Promise<JwtPayload> {
-        const validatedUser = await this.userService.validateUserCredentials(loginDto.email, loginDto.password);
+    public async login(
+        @Body() loginDto: LoginDto,
+        @Req() request: Request,
+        @Res({ passthrough: true }) response: Response,
+    ): Promise<JwtPayload | MfaChallenge> {
+        const context = getSessionContext(request);
+        const validatedUser = await this.userService
+            .validateUserCredentials(loginDto.email, loginDto.password)
+            .catch(async (error) => {
+                // Only rejected credentials are login attempts, not outages
+                if (error instanceof HttpException) {
+                    const targetUser = await this.userService.getUserByEmail(loginDto.email);
+                    await this.loginHistoryService.recordFailure(
+                        targetUser?.id ?? null,
+                        LoginMethods.PASSWORD,
+                        context,
+                        error.message,
+                    );
+                }
+                throw error;
+            });
+
+        // Tokens are only issued once the second factor is verified
+        if (await this.mfaService.isEnabled(validatedUser.id)) {
+            await this.loginHistoryService.recordMfaRequired(validatedUser, LoginMethods.PASSWORD, context);
+            return this.mfaService.createChallenge(validatedUser, LoginMethods.PASSWORD);
+        }
+
         const tokenPayload = this.authService.createTokenForUser(validatedUser);
 
         // Create and set refresh token in httpOnly cookie
-        const refreshToken = await this.authService.createRefreshToken(validatedUser.id);
-        const isProduction = this.configService.get('nodeEnv') === 'production';
-
-        response.cookie('refreshToken', refreshToken, {
-            httpOnly: true,
-            secure: isProduction, // Only secure in production (HTTPS)
-            sameSite: 'strict',
-            maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-            path: '/',
+        const refreshToken = await this.authService.createRefreshToken(validatedUser.id, context);
+        setRefreshTokenCookie(response, refreshToken, this.isProduction(), this.tokenPolicyService.getRefreshCookieMaxAge());
+        await this.loginHistoryService.recordSuccess(validatedUser, LoginMethods.PASSWORD, context);
+
+        return tokenPayload;
+    }
+
+    @Post('magic-link')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Email a one-time sign-in link' })
+    @ApiBody({ type: RequestMagicLinkDto })
+    @ApiResponse({ status: 200, description: 'Sign-in link sent if the account exists' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async requestMagicLink(
+        @Body() requestMagicLinkDto: RequestMagicLinkDto,
+        @Req() request: Request,
+    ): Promise<{ message: string }> {
+        await this.magicLinkService.requestLink(requestMagicLinkDto.email, getSessionContext(request));
+        return { message: 'If an account exists for this email, a sign-in link has been sent' };
+    }
+
+    @Post('magic-link/consume')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Sign in with the token from a magic link' })
+    @ApiBody({ type: ConsumeMagicLinkDto })
+    @ApiResponse({ status: 200, description: 'Login successful', type: JwtPayloadDto })
+    @ApiResponse({ status: 401, description: 'Invalid or expired sign-in link' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async consumeMagicLink(
+        @Body() consumeMagicLinkDto: ConsumeMagicLinkDto,
+        @Req() request: Request,
+        @Res({ passthrough: true }) response: Response,
+    ): Promise<JwtPayload | MfaChallenge> {
+        const context = getSessionContext(request);
+        const user = await this.magicLinkService.consumeLink(consumeMagicLinkDto.token).catch(async (error) => {
+            // The link is stored hashed, so a rejected one cannot be traced to an account
+            if (error instanceof HttpException) {
+                await this.loginHistoryService.recordFailure(null, LoginMethods.MAGIC_LINK, context, error.message);
+            }
+            throw error;
         });
 
+        // The link only proves control of the mailbox, so the second factor still applies
+        if (await this.mfaService.isEnabled(user.id)) {
+            await this.loginHistoryService.recordMfaRequired(user, LoginMethods.MAGIC_LINK, context);
+            return this.mfaService.createChallenge(user, LoginMethods.MAGIC_LINK);
+        }
+
+        const tokenPayload = this.authService.createTokenForUser(user);
+        const refreshToken = await this.authService.createRefreshToken(user.id, context);
+        setRefreshTokenCookie(response, refreshToken, this.isProduction(), this.tokenPolicyService.getRefreshCookieMaxAge());
+        await this.loginHistoryService.recordSuccess(user, LoginMethods.MAGIC_LINK, context);
+
         return tokenPayload;
     }
 
+    @Get('csrf-token')
+    @ApiOperation({ summary: 'Get the CSRF token that refresh and logout requests must send' })
+    @ApiResponse({ status: 200, description: 'The CSRF token of the current session, null when signed out' })
+    public getCsrfToken(@Req() request: Request): { csrfToken: string | null } {
+        // Only the frontend origin can read the response, as CORS withholds it from other sites
+        return { csrfToken: request.cookies?.[CSRF_TOKEN_COOKIE] || null };
+    }
+
     @Post('refresh')
+    @UseGuards(CsrfGuard)
     @ApiOperation({ summary: 'Refresh access token using httpOnly cookie' })
     @ApiResponse({
         status: 200,
@@ -91,41 +265,58 @@ class AuthController {
         type: JwtPayloadDto,
     })
     @ApiResponse({ status: 401, description: 'Invalid or expired refresh token' })
+    @ApiResponse({ status: 403, description: 'Missing or invalid CSRF token, or a foreign origin' })
     public async refresh(@Req() request: Request, @Res({ passthrough: true }) response: Response): Promise<JwtPayload> {
-        const refreshToken = request.cookies?.refreshToken;
+        const refreshToken = request.cookies?.[REFRESH_TOKEN_COOKIE];
 
         if (!refreshToken) {
             throw new UnauthorizedException('Refresh token not found');
         }
 
-        // Validate refresh token and get user
-        const user = await this.authService.validateRefreshToken(refreshToken);
+        // Rotate the refresh token within its family and get user
+        const context = getSessionContext(request);
+        const {
+            user,
+            refreshToken: newRefreshToken,
+            authTime,
+        } = await this.authService.rotateRefreshToken(refreshToken, context).catch(async (error) => {
+            if (error instanceof UnauthorizedException) {
+                const storedToken = await this.authService.findRefreshToken(refreshToken);
+                await this.loginHistoryService.recordFailure(
+                    storedToken?.userId ?? null,
+                    LoginMethods.REFRESH,
+                    context,
+                    error.message,
+                );
+            }
+            throw error;
+        });
+        await this.loginHistoryService.recordSuccess(user, LoginMethods.REFRESH, context);
 
-        // Create new tokens
-        const tokenPayload = this.authService.createTokenForUser(user);
-        const newRefreshToken = await this.authService.createRefreshToken(user.id);
+        // The new access token keeps the sign-in time of the session, a refresh is not a proof of identity
+        const tokenPayload = this.authService.createTokenForUser(user, undefined, authTime);
 
         // Set new refresh token in httpOnly cookie
-        const isProduction = this.configService.get('nodeEnv') === 'production';
-        response.cookie('refreshToken', newRefreshToken, {
-            httpOnly: true,
-            secure: isProduction,
-            sameSite: 'strict',
-            maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
-            path: '/',
-        });
+        setRefreshTokenCookie(
+            response,
+            newRefreshToken,
+            this.isProduction(),
+            this.tokenPolicyService.getRefreshCookieMaxAge(),
+        );
 
         return tokenPayload;
     }
 
     @Post('logout')
-    @ApiOperation({ summary: 'Logout user and revoke refresh token' })
+    @UseGuards(CsrfGuard)
+    @ApiOperation({ summary: 'Logout user and end the current session' })
     @ApiResponse({ status: 200, description: 'Logout successful' })
+    @ApiResponse({ status: 403, description: 'Missing or invalid CSRF token, or a foreign origin' })
     public async logout(
         @Req() request: Request,
         @Res({ passthrough: true }) response: Response,
     ): Promise<{ message: string }> {
-        const refreshToken = request.cookies?.refreshToken;
+        const refreshToken = request.cookies?.[REFRESH_TOKEN_COOKIE];
 
         if (refreshToken) {
             // Revoke the refresh token
@@ -133,21 +324,186 @@ class AuthController {
         }
 
         // Clear the httpOnly cookie
-        response.clearCookie('refreshToken', {
-            httpOnly: true,
-            secure: this.configService.get('nodeEnv') === 'production',
-            sameSite: 'strict',
-            path: '/',
-        });
+        clearRefreshTokenCookie(response, this.isProduction());
 
         return { message: 'Logout successful' };
     }
 
+    @Post('verify-email')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Confirm an email address with the token from the verification link' })
+    @ApiBody({ type: VerifyEmailDto })
+    @ApiResponse({ status: 200, description: 'Email verified' })
+    @ApiResponse({ status: 400, description: 'Invalid or expired verification token' })
+    public async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto): Promise<{ message: string }> {
+        await this.emailVerificationService.verifyEmail(verifyEmailDto.token);
+        return { message: 'Email verified successfully' };
+    }
+
+    @Post('resend-verification')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Send a new verification email' })
+    @ApiBody({ type: ResendVerificationDto })
+    @ApiResponse({ status: 200, description: 'Verification email sent if the account needs one' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async resendVerification(@Body() resendDto: ResendVerificationDto): Promise<{ message: string }> {
+        await this.emailVerificationService.resendVerification(resendDto.email);
+        return { message: 'If the account exists and is unverified, a verification email has been sent' };
+    }
+
+    @Post('forgot-password')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Request a password reset email' })
+    @ApiBody({ type: ForgotPasswordDto })
+    @ApiResponse({ status: 200, description: 'Reset email sent if the account exists' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async forgotPassword(
+        @Body() forgotPasswordDto: ForgotPasswordDto,
+        @Req() request: Request,
+    ): Promise<{ message: string }> {
+        await this.passwordResetService.requestReset(forgotPasswordDto.email, getSessionContext(request));
+        return { message: 'If an account exists for this email, a password reset link has been sent' };
+    }
+
+    @Post('reset-password')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Set a new password with the token from the reset email' })
+    @ApiBody({ type: ResetPasswordDto })
+    @ApiResponse({ status: 200, description: 'Password reset, all sessions signed out' })
+    @ApiResponse({ status: 400, description: 'Invalid or expired password reset token' })
+    public async resetPassword(@Body() resetPasswordDto: ResetPasswordDto): Promise<{ message: string }> {
+        await this.passwordResetService.resetPassword(resetPasswordDto.token, resetPasswordDto.newPassword);
+        return { message: 'Password reset successfully' };
+    }
+
+    @Post('reauthenticate')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RateLimitGuard)
+    @ApiOperation({ summary: 'Confirm the identity of the signed-in user before a sensitive account change' })
+    @ApiBody({ type: ReauthenticateDto })
+    @ApiResponse({
+        status: 200,
+        description: 'A short-lived access token accepted for sensitive changes',
+        type: JwtPayloadDto,
+    })
+    @ApiResponse({ status: 400, description: 'The account has no password or MFA to confirm, sign in again instead' })
+    @ApiResponse({ status: 401, description: 'Invalid password or MFA code' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async reauthenticate(
+        @Req() request: AuthenticatedRequest,
+        @Body() reauthenticateDto: ReauthenticateDto,
+    ): Promise<JwtPayload> {
+        const user = await this.userService.getUserById(request.user.userId);
+        const mfaEnabled = await this.mfaService.isEnabled(user.id);
+
+        if (!user.hashedPassword && !mfaEnabled) {
+            throw new BadRequestException('This account has no password or MFA to confirm, sign in again instead');
+        }
+
+        // Every factor the account has must be presented again, as at login
+        if (user.hashedPassword) {
+            if (!reauthenticateDto.password) {
+                throw new UnauthorizedException('Password is required');
+            }
+            await this.userService.validateUserCredentials(user.email, reauthenticateDto.password);
+        }
+
+        if (mfaEnabled) {
+            if (!reauthenticateDto.mfaCode) {
+                throw new UnauthorizedException('MFA code is required');
+            }
+            await this.mfaService.verifyUserCode(user.id, reauthenticateDto.mfaCode);
+        }
+
+        return this.authService.createReauthenticatedToken(user);
+    }
+
     @Get('validate')
     @UseGuards(AuthGuard('jwt'))
     public async validateToken(@Req() req: any): Promise<User> {
         return this.userService.getUserById(req.user.userId);
     }
+
+    /**
+     * Shared by the OAuth provider callbacks. Links the identity when the signed-in user started
+     * a link from their account settings; otherwise signs in the account the identity is linked
+     * to and answers in the mode the login was started with. Failures are thrown as
+     * SocialLoginException for the SocialLoginExceptionFilter to answer with a reason code.
+     */
+    private async completeOAuthLogin(req: OAuthRequest, res: Response): Promise<void> {
+        const pendingLogin = req.authInfo.state;
+        const identity = { provider: req.user.provider, subject: req.user.providerId, email: req.user.email };
+
+        const linkingUserId = this.identityService.verifyLinkToken(req.cookies?.[IDENTITY_LINK_COOKIE], identity.provider);
+        if (linkingUserId !== null) {
+            clearIdentityLinkCookie(res, this.isProduction());
+
+            let linkResult: Record<string, string> = { linked: identity.provider };
+            try {
+                await this.identityService.linkIdentity(linkingUserId, identity);
+            } catch (error) {
+                if (!(error instanceof ConflictException)) {
+                    throw error;
+                }
+                linkResult = { link_error: 'identity_in_use' };
+            }
+
+            this.socialLoginService.sendResult(res, pendingLogin, linkResult);
+            return;
+        }
+
+        const user = await this.identityService.findUser(identity);
+        const context = getSessionContext(req);
+
+        if (!user) {
+            await this.loginHistoryService.recordFailure(
+                null,
+                identity.provider,
+                context,
+                'The identity is not linked to an account',
+            );
+            throw new SocialLoginException(SocialLoginErrors.ACCOUNT_NOT_LINKED);
+        }
+
+        if (!user.isActive) {
+            await this.loginHistoryService.recordFailure(user.id, identity.provider, context, 'The account is disabled');
+            throw new SocialLoginException(SocialLoginErrors.ACCOUNT_DISABLED);
+        }
+
+        // The app redeems the code with its PKCE verifier, so the session never passes through the deep link
+        if (pendingLogin.mode === SocialLoginModes.APP) {
+            this.socialLoginService.sendResult(res, pendingLogin, {
+                code: this.socialLoginService.createAppCode(user.id, pendingLogin),
+            });
+            return;
+        }
+
+        let refreshToken: string;
+        try {
+            refreshToken = await this.authService.createRefreshToken(user.id, context);
+        } catch {
+            await this.loginHistoryService.recordFailure(
+                user.id,
+                identity.provider,
+                context,
+                'The session could not be created',
+            );
+            throw new SocialLoginException(SocialLoginErrors.SESSION_FAILED);
+        }
+
+        setRefreshTokenCookie(res, refreshToken, this.isProduction(), this.tokenPolicyService.getRefreshCookieMaxAge());
+        await this.loginHistoryService.recordSuccess(user, identity.provider, context);
+
+        this.socialLoginService.sendResult(res, pendingLogin, {});
+    }
+
+    private isProduction(): boolean {
+        return this.configService.get('nodeEnv') === 'production';
+    }
 }
 
 export { AuthController };
@@ -1,18 +1,104 @@
 import { Module, forwardRef } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthController } from './auth.controller';
 import { PassportModule } from '@nestjs/passport';
 import { AuthService } from './auth.service';
-import { GoogleStrategy, JwtStrategy } from './strategies';
+import {
+    FacebookStrategyProvider,
+    GoogleStrategy,
+    JwtStrategy,
+    OAuthAccessTokenStrategy,
+    PersonalAccessTokenStrategy,
+} from './strategies';
 import { JwtModule } from '@nestjs/jwt';
 import { UserModule } from 'src/modules/user/user.module';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { Role } from './entities/role.entity';
+import { Permission } from './entities/permission.entity';
+import { User } from 'src/modules/user/entities/user.entity';
+import { RoleService } from './services/role.service';
+import { SecurityEvent } from './entities/security-event.entity';
+import { SecurityEventService } from './services/security-event.service';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { UserSession } from './entities/user-session.entity';
+import { SessionService } from './services/session.service';
+import { SessionController } from './controllers/session.controller';
+import { EmailVerificationToken } from './entities/email-verification-token.entity';
+import { EmailVerificationService } from './services/email-verification.service';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { PasswordResetService } from './services/password-reset.service';
+import { UserMfa } from './entities/user-mfa.entity';
+import { MfaRecoveryCode } from './entities/mfa-recovery-code.entity';
+import { MfaService } from './services/mfa.service';
+import { MfaController } from './controllers/mfa.controller';
+import { WebAuthnCredential } from './entities/web-authn-credential.entity';
+import { WebAuthnChallenge } from './entities/web-authn-challenge.entity';
+import { WebAuthnService } from './services/web-authn.service';
+import { WebAuthnController } from './controllers/web-authn.controller';
+import { MagicLinkToken } from './entities/magic-link-token.entity';
+import { MagicLinkService } from './services/magic-link.service';
+import { OidcService } from './services/oidc.service';
+import { OidcController } from './controllers/oidc.controller';
+import { UserIdentity } from './entities/user-identity.entity';
+import { IdentityService } from './services/identity.service';
+import { IdentityController } from './controllers/identity.controller';
+import { PersonalAccessToken } from './entities/personal-access-token.entity';
+import { PersonalAccessTokenService } from './services/personal-access-token.service';
+import { PersonalAccessTokenController } from './controllers/personal-access-token.controller';
+import { SigningKey } from './entities/signing-key.entity';
+import { SigningKeyService } from './services/signing-key.service';
+import { JwksController } from './controllers/jwks.controller';
+import { OAuthClient } from './entities/oauth-client.entity';
+import { RevokedAccessToken } from './entities/revoked-access-token.entity';
+import { OAuthClientService } from './services/oauth-client.service';
+import { AccessTokenDenylistService } from './services/access-token-denylist.service';
+import { TokenIntrospectionService } from './services/token-introspection.service';
+import { OAuthController } from './controllers/oauth.controller';
+import { OAuthClientController } from './controllers/oauth-client.controller';
+import { OAuthConsent } from './entities/oauth-consent.entity';
+import { OAuthAuthorizationCode } from './entities/oauth-authorization-code.entity';
+import { OAuthAuthorizationService } from './services/oauth-authorization.service';
+import { OAuthTokenService } from './services/oauth-token.service';
+import { OAuthAuthorizationController } from './controllers/oauth-authorization.controller';
+import { ImpersonationService } from './services/impersonation.service';
+import { ImpersonationController } from './controllers/impersonation.controller';
+import { ImpersonationAuditInterceptor } from './interceptors/impersonation-audit.interceptor';
+import { KnownDevice } from './entities/known-device.entity';
+import { LoginHistoryService } from './services/login-history.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { TokenPolicyService } from './services/token-policy.service';
+import { SocialLoginService } from './services/social-login.service';
+import { LdapService } from './services/ldap.service';
 
 @Module({
     imports: [
         forwardRef(() => UserModule),
-        TypeOrmModule.forFeature([RefreshToken]),
+        TypeOrmModule.forFeature([
+            RefreshToken,
+            UserSession,
+            EmailVerificationToken,
+            PasswordResetToken,
+            MagicLinkToken,
+            UserMfa,
+            MfaRecoveryCode,
+            WebAuthnCredential,
+            WebAuthnChallenge,
+            UserIdentity,
+            PersonalAccessToken,
+            SigningKey,
+            OAuthClient,
+            RevokedAccessToken,
+            OAuthConsent,
+            OAuthAuthorizationCode,
+            KnownDevice,
+            Role,
+            Permission,
+            SecurityEvent,
+            User,
+        ]),
         PassportModule,
 
         JwtModule.registerAsync({
@@ -20,15 +106,69 @@ import { RefreshToken } from './entities/refresh-token.entity';
             useFactory: async (configService: ConfigService) => ({
                 secret: configService.get('JWT_SECRET_KEY'),
                 signOptions: {
-                    expiresIn: configService.get('JWT_EXPIRATION_TIME', '60s'),
+                    expiresIn: configService.get('jwt.accessTokenLifetimeSeconds', 15 * 60),
                 },
             }),
 
             inject: [ConfigService],
         }),
     ],
-    providers: [AuthService, JwtStrategy, GoogleStrategy],
-    controllers: [AuthController],
-    exports: [AuthService],
+    providers: [
+        AuthService,
+        RoleService,
+        SecurityEventService,
+        SessionService,
+        EmailVerificationService,
+        PasswordResetService,
+        PasswordPolicyService,
+        MagicLinkService,
+        OidcService,
+        IdentityService,
+        PersonalAccessTokenService,
+        SigningKeyService,
+        TokenPolicyService,
+        OAuthClientService,
+        AccessTokenDenylistService,
+        TokenIntrospectionService,
+        OAuthAuthorizationService,
+        OAuthTokenService,
+        ImpersonationService,
+        LoginHistoryService,
+        SocialLoginService,
+        LdapService,
+        MfaService,
+        WebAuthnService,
+        NotificationService,
+        AppLoggerService,
+        JwtStrategy,
+        PersonalAccessTokenStrategy,
+        OAuthAccessTokenStrategy,
+        GoogleStrategy,
+        FacebookStrategyProvider,
+        { provide: APP_INTERCEPTOR, useClass: ImpersonationAuditInterceptor },
+    ],
+    controllers: [
+        AuthController,
+        SessionController,
+        MfaController,
+        WebAuthnController,
+        OidcController,
+        IdentityController,
+        PersonalAccessTokenController,
+        JwksController,
+        OAuthController,
+        OAuthClientController,
+        OAuthAuthorizationController,
+        ImpersonationController,
+    ],
+    exports: [
+        AuthService,
+        RoleService,
+        SecurityEventService,
+        EmailVerificationService,
+        NotificationService,
+        PasswordPolicyService,
+        LdapService,
+    ],
 })
 export class AuthModule {}
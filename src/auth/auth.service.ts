@@ -1,14 +1,20 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan } from 'typeorm';
+import { Repository, LessThan, Not } from 'typeorm';
 import { User } from 'src/modules/user/entities/user.entity';
 import { UserService } from 'src/modules/user/user.service';
-import { JwtPayload } from './interfaces';
-import { OAuthUserDto } from 'src/modules/user/dto/oauth-user-dto';
-import { TokenCreationException } from 'src/shared/exceptions/common.exception';
+import { Impersonator, JwtPayload, OAuthGrant, SessionContext } from './interfaces';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { SecurityEventService } from './services/security-event.service';
+import { SessionService } from './services/session.service';
+import { SigningKeyService } from './services/signing-key.service';
+import { TokenPolicyService } from './services/token-policy.service';
+import { SecurityEventTypes } from './constants/security-events';
+import { hashTokenWithKey } from './utils/tokens';
 
 @Injectable()
 class AuthService {
@@ -17,6 +23,11 @@ class AuthService {
         private readonly jwtService: JwtService,
         @InjectRepository(RefreshToken)
         private readonly refreshTokenRepository: Repository<RefreshToken>,
+        private readonly securityEventService: SecurityEventService,
+        private readonly sessionService: SessionService,
+        private readonly signingKeyService: SigningKeyService,
+        private readonly configService: ConfigService,
+        private readonly tokenPolicyService: TokenPolicyService,
     ) {}
 
     public async validateUser(email: string, password: string): Promise<User> {
@@ -29,31 +40,241 @@ class AuthService {
     }
 
     /**
-     * Validates the OAuth login by checking if the user exists in the database.
-     * If the user does not exist, a new OAuth user is created. Finally, a JWT token is created for the user.
+     * Issues an access token for a user. Tokens of the user themselves carry an auth_time claim
+     * with when they last proved their identity, which the RecentAuthGuard checks.
      *
-     * @param profile - The OAuth user profile.
+     * @param user The user the token is issued to.
+     * @param impersonator The admin acting as the user, which makes the token a short-lived impersonation token.
+     * @param authTime When the user signed in, now unless the token continues an existing session.
+     * @returns The access token and a summary of the user.
+     */
+    public createTokenForUser(user: User, impersonator?: Impersonator, authTime: Date = new Date()): JwtPayload {
+        // An impersonation token must not pass as proof that the user themselves signed in
+        const claims = impersonator
+            ? { act: { sub: impersonator.userId, username: impersonator.username } }
+            : { auth_time: Math.floor(authTime.getTime() / 1000) };
+
+        return this.buildAccessToken(user, claims, this.tokenPolicyService.getAccessTokenLifetime(!!impersonator));
+    }
+
+    /**
+     * Issues the short-lived access token returned once the user proved their identity again,
+     * which lets them make sensitive account changes until it expires.
+     *
+     * @param user The user who reauthenticated.
+     * @returns The access token and a summary of the user.
+     */
+    public createReauthenticatedToken(user: User): JwtPayload {
+        const claims = { auth_time: Math.floor(Date.now() / 1000) };
+        return this.buildAccessToken(user, claims, this.tokenPolicyService.getReauthenticationTokenLifetime());
+    }
+
+    /**
+     * Starts a new session for a fresh login and issues the first refresh token of its rotation family.
+     * Other sessions of the user are left untouched so each device stays signed in.
      *
-     * @returns A promise that resolves to the access token.
-     * @throws NotFoundException if failed to validate OAuth login.
+     * @param userId The ID of the user the token is issued to.
+     * @param context The client the login came from.
+     * @param grant The OAuth client and scopes the token is delegated to, omitted for a first-party login.
+     * @returns The signed refresh token.
      */
-    public async validateOAuthLogin(profile: OAuthUserDto): Promise<string> {
-        let user = await this.userService.getUserByEmail(profile.email);
-        if (!user) {
-            user = await this.userService.createOAuthUser(profile);
+    public async createRefreshToken(
+        userId: number,
+        context: SessionContext = {},
+        grant: OAuthGrant | null = null,
+    ): Promise<string> {
+        const session = await this.sessionService.createSession(userId, context);
+        return await this.issueRefreshToken(userId, session.id, new Date(), null, grant);
+    }
+
+    /**
+     * Exchanges a refresh token for a new one in the same family. The presented token is revoked,
+     * so presenting it again is treated as reuse by validateRefreshToken. The new token expires
+     * a full refresh lifetime from now, capped by the maximum age of the session.
+     *
+     * @param token The refresh token presented by the client.
+     * @param context The client the refresh came from.
+     * @param clientId The OAuth client presenting the token, null for a first-party refresh.
+     * @returns The token owner, the new refresh token, the delegated scopes and when the session signed in.
+     * @throws UnauthorizedException if the token is invalid, expired, revoked, reused or issued to another client.
+     */
+    public async rotateRefreshToken(
+        token: string,
+        context: SessionContext = {},
+        clientId: number | null = null,
+    ): Promise<{ user: User; refreshToken: string; scopes: string[] | null; authTime: Date }> {
+        const currentToken = await this.findValidRefreshToken(token);
+
+        // A token delegated to an OAuth client must never yield a first-party session, nor the reverse
+        if (currentToken.clientId !== clientId) {
+            throw new UnauthorizedException('Invalid refresh token');
         }
 
-        const accessToken = this.createTokenForUser(user).accessToken;
-        if (!accessToken) {
-            throw new TokenCreationException('Failed to validate OAuth login');
+        // Only one caller may rotate a token; losing the race means the token was presented twice
+        const rotation = await this.refreshTokenRepository.update(
+            { id: currentToken.id, isRevoked: false },
+            { isRevoked: true },
+        );
+        if (rotation.affected === 0) {
+            await this.handleRefreshTokenReuse(currentToken);
         }
 
-        return accessToken;
+        const grant = currentToken.clientId ? { clientId: currentToken.clientId, scopes: currentToken.scopes || [] } : null;
+        const refreshToken = await this.issueRefreshToken(
+            currentToken.userId,
+            currentToken.familyId,
+            currentToken.session.createdAt,
+            currentToken.id,
+            grant,
+        );
+        await this.sessionService.touchSession(currentToken.familyId, context);
+
+        return {
+            user: currentToken.user,
+            refreshToken,
+            scopes: currentToken.scopes,
+            authTime: currentToken.session.createdAt,
+        };
     }
 
-    public createTokenForUser(user: User): JwtPayload {
-        const payload = { username: user.email, sub: user.id };
-        const accessToken = this.jwtService.sign(payload, { expiresIn: '15m' });
+    public async validateRefreshToken(token: string): Promise<User> {
+        const refreshToken = await this.findValidRefreshToken(token);
+        return refreshToken.user;
+    }
+
+    /**
+     * Ends the session the refresh token belongs to, revoking every token in its family.
+     *
+     * @param token The refresh token presented by the client.
+     */
+    public async revokeRefreshToken(token: string): Promise<void> {
+        const refreshToken = await this.refreshTokenRepository.findOne({
+            where: { tokenHash: this.hashRefreshToken(token) },
+        });
+        if (refreshToken) {
+            await this.revokeTokenFamily(refreshToken.familyId);
+        }
+    }
+
+    public async revokeTokenFamily(familyId: string): Promise<void> {
+        await this.refreshTokenRepository.update({ familyId, isRevoked: false }, { isRevoked: true });
+        await this.sessionService.markRevoked(familyId);
+    }
+
+    /**
+     * Revokes every refresh token and session of a user.
+     *
+     * @param userId The ID of the user.
+     * @param exceptSessionId Optional session to keep, used to sign out everywhere else.
+     */
+    public async revokeAllUserRefreshTokens(userId: number, exceptSessionId?: string): Promise<void> {
+        await this.refreshTokenRepository.update(
+            {
+                userId,
+                isRevoked: false,
+                ...(exceptSessionId ? { familyId: Not(exceptSessionId) } : {}),
+            },
+            { isRevoked: true },
+        );
+        await this.sessionService.markAllRevoked(userId, exceptSessionId);
+    }
+
+    /**
+     * Signs a single session out after checking that it belongs to the user.
+     *
+     * @param userId The ID of the session owner.
+     * @param sessionId The ID of the session to revoke.
+     * @throws NotFoundException if the user has no such active session.
+     */
+    public async revokeSession(userId: number, sessionId: string): Promise<void> {
+        const session = await this.sessionService.getActiveSession(userId, sessionId);
+        await this.revokeTokenFamily(session.id);
+    }
+
+    /**
+     * Revokes every session an OAuth client holds for a user, used when the user withdraws consent.
+     *
+     * @param userId The ID of the user.
+     * @param clientId The ID of the OAuth client.
+     */
+    public async revokeClientRefreshTokens(userId: number, clientId: number): Promise<void> {
+        const refreshTokens = await this.refreshTokenRepository.find({ where: { userId, clientId, isRevoked: false } });
+        for (const familyId of new Set(refreshTokens.map((refreshToken) => refreshToken.familyId))) {
+            await this.revokeTokenFamily(familyId);
+        }
+    }
+
+    public async getSessionIdForRefreshToken(token: string): Promise<string | null> {
+        const refreshToken = await this.findRefreshToken(token);
+        return refreshToken?.familyId || null;
+    }
+
+    /**
+     * Looks up a stored refresh token without checking whether it is still valid.
+     *
+     * @param token The refresh token.
+     * @returns The stored token with its OAuth client, or null if it is unknown.
+     */
+    public async findRefreshToken(token: string): Promise<RefreshToken | null> {
+        return await this.refreshTokenRepository.findOne({
+            where: { tokenHash: this.hashRefreshToken(token) },
+            relations: ['client'],
+        });
+    }
+
+    /**
+     * Looks up a refresh token that could still be used, without rotating it or treating a
+     * revoked token as reuse, so inspecting a token never changes the session it belongs to.
+     *
+     * @param token The refresh token.
+     * @returns The stored token with its user and OAuth client, or null if it is invalid, revoked or expired.
+     */
+    public async findActiveRefreshToken(token: string): Promise<RefreshToken | null> {
+        try {
+            this.jwtService.verify(token, { clockTolerance: this.tokenPolicyService.getClockTolerance() });
+        } catch {
+            return null;
+        }
+
+        const refreshToken = await this.refreshTokenRepository.findOne({
+            where: { tokenHash: this.hashRefreshToken(token), isRevoked: false },
+            relations: ['user', 'session', 'client'],
+        });
+
+        if (
+            !refreshToken ||
+            refreshToken.expiresAt < new Date() ||
+            this.tokenPolicyService.isSessionExpired(refreshToken.session.createdAt)
+        ) {
+            return null;
+        }
+
+        return refreshToken;
+    }
+
+    public async cleanupExpiredTokens(): Promise<void> {
+        await this.refreshTokenRepository.delete({
+            expiresAt: LessThan(new Date()),
+        });
+        await this.sessionService.revokeSessionsWithoutActiveTokens();
+    }
+
+    @Cron(process.env.NODE_ENV === 'production' ? CronExpression.EVERY_DAY_AT_MIDNIGHT : CronExpression.EVERY_HOUR)
+    public async scheduledTokenCleanup(): Promise<void> {
+        await this.cleanupExpiredTokens();
+    }
+
+    private buildAccessToken(user: User, claims: Record<string, unknown>, lifetime: number): JwtPayload {
+        const roles = (user.roles || []).map((role) => role.name);
+        // The jti lets a single access token be revoked through the denylist
+        const payload = {
+            username: user.email,
+            sub: user.id,
+            roles,
+            jti: randomUUID(),
+            ...claims,
+        };
+        const accessToken = this.signingKeyService.signAccessToken(payload, `${lifetime}s`);
 
         return {
             accessToken,
@@ -66,20 +287,27 @@ class AuthService {
         };
     }
 
-    public async createRefreshToken(userId: number): Promise<string> {
-        // Revoke existing refresh tokens for this user
-        await this.refreshTokenRepository.update({ userId, isRevoked: false }, { isRevoked: true });
+    private async issueRefreshToken(
+        userId: number,
+        familyId: string,
+        sessionStartedAt: Date,
+        parentId: number | null,
+        grant: OAuthGrant | null = null,
+    ): Promise<string> {
+        const expiresAt = this.tokenPolicyService.getRefreshTokenExpiry(sessionStartedAt);
+        const expiresIn = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
 
-        // Create new refresh token
-        const payload = { sub: userId, type: 'refresh' };
-        const token = this.jwtService.sign(payload, { expiresIn: '30d' });
-
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 30);
+        // The jti keeps tokens issued within the same second unique
+        const payload = { sub: userId, type: 'refresh', jti: randomUUID() };
+        const token = this.jwtService.sign(payload, { expiresIn });
 
         const refreshToken = this.refreshTokenRepository.create({
-            token,
+            tokenHash: this.hashRefreshToken(token),
             userId,
+            familyId,
+            parentId,
+            clientId: grant?.clientId ?? null,
+            scopes: grant?.scopes ?? null,
             expiresAt,
         });
 
@@ -87,50 +315,63 @@ class AuthService {
         return token;
     }
 
-    public async validateRefreshToken(token: string): Promise<User> {
+    private async findValidRefreshToken(token: string): Promise<RefreshToken> {
         // Verify JWT signature and expiration
         try {
-            this.jwtService.verify(token);
+            this.jwtService.verify(token, { clockTolerance: this.tokenPolicyService.getClockTolerance() });
         } catch {
             throw new UnauthorizedException('Invalid refresh token');
         }
 
-        // Check if token exists in database and is not revoked
         const refreshToken = await this.refreshTokenRepository.findOne({
-            where: { token, isRevoked: false },
-            relations: ['user'],
+            where: { tokenHash: this.hashRefreshToken(token) },
+            relations: ['user', 'session'],
         });
 
         if (!refreshToken) {
             throw new UnauthorizedException('Refresh token not found or revoked');
         }
 
-        // Check if token is expired
-        if (refreshToken.expiresAt < new Date()) {
+        if (refreshToken.isRevoked) {
+            await this.handleRefreshTokenReuse(refreshToken);
+        }
+
+        // The session age is checked too, so lowering the maximum age also ends older sessions
+        if (
+            refreshToken.expiresAt < new Date() ||
+            this.tokenPolicyService.isSessionExpired(refreshToken.session.createdAt)
+        ) {
             await this.refreshTokenRepository.update({ id: refreshToken.id }, { isRevoked: true });
             throw new UnauthorizedException('Refresh token expired');
         }
 
-        return refreshToken.user;
+        return refreshToken;
     }
 
-    public async revokeRefreshToken(token: string): Promise<void> {
-        await this.refreshTokenRepository.update({ token }, { isRevoked: true });
+    private hashRefreshToken(token: string): string {
+        return hashTokenWithKey(token, this.configService.get('jwt.refreshTokenHashKey', ''));
     }
 
-    public async revokeAllUserRefreshTokens(userId: number): Promise<void> {
-        await this.refreshTokenRepository.update({ userId, isRevoked: false }, { isRevoked: true });
-    }
+    /**
+     * Handles a revoked refresh token being presented. If the token had already been rotated,
+     * someone is replaying a stolen token, so the whole family is revoked and the event recorded.
+     *
+     * @param refreshToken The revoked refresh token that was presented.
+     * @throws UnauthorizedException always.
+     */
+    private async handleRefreshTokenReuse(refreshToken: RefreshToken): Promise<never> {
+        const rotatedChild = await this.refreshTokenRepository.findOne({ where: { parentId: refreshToken.id } });
+        if (!rotatedChild) {
+            throw new UnauthorizedException('Refresh token not found or revoked');
+        }
 
-    public async cleanupExpiredTokens(): Promise<void> {
-        await this.refreshTokenRepository.delete({
-            expiresAt: LessThan(new Date()),
+        await this.revokeTokenFamily(refreshToken.familyId);
+        await this.securityEventService.record(SecurityEventTypes.REFRESH_TOKEN_REUSE, refreshToken.userId, {
+            familyId: refreshToken.familyId,
+            tokenId: refreshToken.id,
         });
-    }
 
-    @Cron(process.env.NODE_ENV === 'production' ? CronExpression.EVERY_DAY_AT_MIDNIGHT : CronExpression.EVERY_HOUR)
-    public async scheduledTokenCleanup(): Promise<void> {
-        await this.cleanupExpiredTokens();
+        throw new UnauthorizedException('Refresh token reuse detected');
     }
 }
 
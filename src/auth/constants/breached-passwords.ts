@@ -0,0 +1,629 @@
+/**
+ * Passwords that appear most often in public breach corpora, lowercased. Checked case-insensitively,
+ * so variants that only differ in case are rejected as well.
+ *
+ * The most common passwords are listed whatever their length, as the length and character-class rules
+ * are configurable and may be relaxed. Alongside them are longer leaked passwords from the common
+ * password list of zxcvbn-ts (MIT) that the default rules would otherwise accept.
+ */
+export const BREACHED_PASSWORDS: ReadonlySet<string> = new Set([
+    '000000',
+    '00000000',
+    '0000000000',
+    '000777fffa',
+    '01telemike01',
+    '050605rostik',
+    '0cdh0v99ue',
+    '0o9i8u7y6t',
+    '10293847qp',
+    '111111',
+    '11111111',
+    '1111111111',
+    '1111111111zz',
+    '11111aaaaa',
+    '112233',
+    '121212',
+    '123123',
+    '123123123',
+    '123123qweqwe',
+    '123321',
+    '123321qweewq',
+    '1234',
+    '12345',
+    '123456',
+    '1234567',
+    '12345678',
+    '123456789',
+    '1234567890',
+    '1234567890qaz',
+    '1234567890qw',
+    '1234567890qwe',
+    '1234567890qwerty',
+    '1234567890zzz',
+    '12345678910',
+    '123456789a',
+    '123456789aa',
+    '123456789aaa',
+    '123456789abc',
+    '123456789as',
+    '123456789asd',
+    '123456789qaz',
+    '123456789qq',
+    '123456789qqq',
+    '123456789qw',
+    '123456789qwe',
+    '123456789qwer',
+    '123456789qwerty',
+    '123456789zx',
+    '123456789zxc',
+    '123456789zz',
+    '12345678qwe',
+    '1234567qwertyu',
+    '123456a',
+    '123456qwer',
+    '123456qwert',
+    '123456qwerty',
+    '123456zxcvbn',
+    '12345abcde',
+    '12345asdfg',
+    '12345qazwsx',
+    '12345qwert',
+    '12345qwert7',
+    '12345qwerty',
+    '12345trewq',
+    '12345zxcvb',
+    '1234qwerasdf',
+    '1234qwerasdfzxcv',
+    '1234qwerty',
+    '123654',
+    '123abc',
+    '123ewqasdcxz',
+    '123hfjdk147',
+    '123qwe',
+    '123qwe123qwe',
+    '123qwe456rty',
+    '123qweasdzx',
+    '123qweasdzxc',
+    '123qwerty123',
+    '12andriy14',
+    '12qw34er56ty',
+    '131313',
+    '132forever',
+    '147258369',
+    '159753',
+    '17171717aa',
+    '1958proman',
+    '1986irachka',
+    '19952009sa',
+    '19960610ilja',
+    '19mtpgam19',
+    '1a2a3a4a5a',
+    '1a2a3a4a5a6a',
+    '1a2b3c4d5e',
+    '1a2s3d4f5g',
+    '1a2s3d4f5g6h',
+    '1pass1page',
+    '1q2q3q4q5q',
+    '1q2w3e',
+    '1q2w3e4r',
+    '1q2w3e4r5t',
+    '1q2w3e4r5t6y',
+    '1q3e5t7u9o',
+    '1qa2ws3ed4rf',
+    '1qa2ws3ed4rf5tg',
+    '1qaz2wsx',
+    '1qaz2wsx3edc',
+    '1qaz2wsx3edc4rfv',
+    '1qazwsxedc',
+    '1qazxsw23edc',
+    '1qazxsw23edcvfr4',
+    '1qwertyuiop',
+    '1z2x3c4v5b',
+    '20162016up',
+    '222222',
+    '23176djivanfros',
+    '23wkoa0fp78dk',
+    '2606642yra',
+    '26429vadim',
+    '2dumb2live',
+    '32615948worms',
+    '38gjgeuftd',
+    '3f3fpht7op',
+    '3rjs1la7qe',
+    '3syqo15hil',
+    '41d8cd98f00b',
+    '42qwerty42',
+    '4815162342lf',
+    '4815162342lost',
+    '555555',
+    '5858855abc',
+    '59382113kevinp',
+    '5hsu75kpot',
+    '5t4r3e2w1q',
+    '6215mila6215',
+    '654321',
+    '666666',
+    '671fsa75yt',
+    '696969',
+    '7777777',
+    '7elephants',
+    '7jokx7b9du',
+    '7ugd5hip2j',
+    '80070633pc',
+    '80361665abc',
+    '87654321vv',
+    '87e5nclizry',
+    '888888',
+    '89876065093rax',
+    '89semtsriuty',
+    '8phrowz622',
+    '8phrowz624',
+    '987654321',
+    '9876543210',
+    '99strenght',
+    '9z5ve9rrcz',
+    'a123456',
+    'a1a2a3a4a5',
+    'a1b2c3',
+    'a1b2c3d4',
+    'a1b2c3d4e5',
+    'a1s2d3f4g5',
+    'a1s2d3f4g5h6',
+    'a3eilm2s2y',
+    'aa123456',
+    'aa123456789',
+    'abc123',
+    'abc12345',
+    'abc123456',
+    'abc123456789',
+    'abcd1234',
+    'abcd123456',
+    'abcde12345',
+    'abcdef',
+    'abcdefg',
+    'abcdefgh',
+    'access',
+    'ad12345678',
+    'admin',
+    'admin123',
+    'admin1234',
+    'admin18533362',
+    'administrator',
+    'adobe123',
+    'aezakmi123',
+    'afrika2002',
+    'ajcuivd289',
+    'aksjdlasdakj89879',
+    'alabama123',
+    'alejandro1',
+    'alexander1',
+    'alexandra1',
+    'alkanaft123',
+    'alpha135792468',
+    'am4h39d8nh',
+    'amsterdam1',
+    'an83546921an13',
+    'andrey1992',
+    'animal2000',
+    'arsenal123',
+    'asd123asd123',
+    'asdf1234',
+    'asdfasdf',
+    'asdfg12345',
+    'asdfgh',
+    'asdfgh123456',
+    'asdfghjk',
+    'asdfghjkl',
+    'asdfghjkl1',
+    'asdfghjkl123',
+    'ashley',
+    'asshole123',
+    'astra334566',
+    'auckland2010',
+    'australia1',
+    'awesome123',
+    'awo8rx3wa8t',
+    'azerty',
+    'babygirl',
+    'badiman28200',
+    'bailey',
+    'baseball',
+    'baseball1',
+    'baseball10',
+    'baseball11',
+    'baseball12',
+    'baseball21',
+    'basketball1',
+    'batman',
+    'beautiful1',
+    'berlin1945',
+    'bhrh0h2oof6xbqjeh',
+    'birthday10',
+    'birthday100',
+    'birthday133',
+    'birthday21',
+    'birthday26',
+    'birthday27',
+    'birthday28',
+    'birthday299',
+    'birthday36',
+    'birthday54',
+    'bmvm3e46gtr',
+    'boredboi4u',
+    'bot_schokk',
+    'boy1cool23',
+    'boy4u2ownnyc',
+    'bullnuts2003',
+    'butterfly1',
+    'c43dae874d',
+    'c43qpul5rz',
+    'c7e4f8ezqh',
+    'california1',
+    'celtic1888',
+    'charlie',
+    'charlie111',
+    'charlie123',
+    'charlotte1',
+    'cheese',
+    'chester123',
+    'chicken123',
+    'chickenwing101',
+    'chocolate',
+    'chocolate1',
+    'christian1',
+    'christopher1',
+    'cnfc35762209',
+    'combat123654',
+    'computer',
+    'computer12',
+    'cvzefh1gkc',
+    'dallas',
+    'daniel',
+    'devilmaycry4',
+    'dmiller12as',
+    'dogphil3650',
+    'domainlock2005',
+    'dragon',
+    'dubsmash',
+    'dunnowho89',
+    'e6pz84qfcj',
+    'efbcapa201',
+    'ekaterina20',
+    'elizabeth1',
+    'fatima753357',
+    'fighting54',
+    'findaupair007',
+    'firstone123',
+    'fkg7h4f3v6',
+    'fktrcfylh1',
+    'flower',
+    'football',
+    'football1',
+    'football10',
+    'football12',
+    'football123',
+    'freedom',
+    'fuck_inside',
+    'fuckoff666',
+    'fuckyou',
+    'fuckyou123',
+    'fyfcnfcbz1',
+    'george',
+    'ghhh47hj764',
+    'ghhh47hj7649',
+    'ghjcnjnfr1',
+    'gilbert2707',
+    'ginger',
+    'godzils4s7',
+    'good123654',
+    'gordolee85',
+    'groupd2013',
+    'gy3yt2rgls',
+    'h72sfibbnl',
+    'hd764nw5d7e1vb1',
+    'hd764nw5d7e1vbv',
+    'hello',
+    'hello123',
+    'hesoyam123',
+    'hockey',
+    'hollister1',
+    'hollywood1',
+    'hondas2000',
+    'hshfd4n279',
+    'hunter',
+    'hunter2',
+    'iampurehaha2',
+    'idontknow1',
+    'iloveyou',
+    'iloveyou1',
+    'iloveyou11',
+    'iloveyou12',
+    'iloveyou123',
+    'iloveyou143',
+    'iloveyou22',
+    'imjakie123',
+    'ipo54tj45uy856',
+    'j3qq4h7h2v',
+    'jamesbond007',
+    'jasmine123',
+    'jennifer',
+    'jessica',
+    'jigei743ks',
+    'jordan',
+    'jordan23',
+    'josephphone7',
+    'kamelia2011',
+    'kanmax1994',
+    'kd189nlcih',
+    'killer',
+    'kl?benhavn',
+    'ktjynsq40147',
+    'kudos4ever',
+    'left4dead2',
+    'letmein',
+    'letmein123',
+    'lhbjkjubz2957704',
+    'lineage123',
+    'liverpool',
+    'liverpool1',
+    'login',
+    'lololyo123',
+    'lost4815162342',
+    'lotrfotr34',
+    'love777321777',
+    'lovely',
+    'loveme',
+    'lovezp1314',
+    'lp2568cskt',
+    'lsia9dnb9y',
+    'lucifer666',
+    'lzhan16889',
+    'm6cjy69u35',
+    'ma123123123',
+    'maggie',
+    'magical123',
+    'mailcreated5240',
+    'manchester1',
+    'mangust6403',
+    'mapet123456',
+    'maprchem56458',
+    'master',
+    'matchbox20',
+    'matrix',
+    'mattylad10',
+    'metallica1',
+    'michael',
+    'michael123',
+    'michelle',
+    'minecraft123',
+    'minnesota_hp',
+    'misiaczek1',
+    'monkey',
+    'monkey123',
+    'monster123',
+    'montgom240',
+    'msoracle32re',
+    'mustang',
+    'nastya1995',
+    'nastya1996',
+    'nastya1997',
+    'nastya2010',
+    'natasha123',
+    'nccpl25282',
+    'ne_e_pod_chehyl',
+    'need4speed',
+    'nemvxyheqdd5oqxyxyzi',
+    'newproject2004',
+    'nhfdvfnjkju123',
+    'nick1234-rem936',
+    'nicole',
+    'nightmare1',
+    'nikita1998',
+    'nikita2000',
+    'ninja',
+    'nintendo64',
+    'nissan350z',
+    'nokia6230i',
+    'nthvbyfnjh2',
+    'ntktdbpjh1994',
+    'nuaddn9561',
+    'oc247ngucz',
+    'p030710p$e4o',
+    'p0o9i8u7y6',
+    'paintball1',
+    'paraklast1974',
+    'parol12345',
+    'passw0rd',
+    'passw0rd1',
+    'password',
+    'password!',
+    'password00',
+    'password01',
+    'password1',
+    'password10',
+    'password11',
+    'password12',
+    'password123',
+    'password1234',
+    'password13',
+    'password21',
+    'password22',
+    'password23',
+    'password69',
+    'password88',
+    'password99',
+    'pepper',
+    'peugeot406',
+    'pfqwtd27121988',
+    'phezc419hv',
+    'pineapple1',
+    'playstation2',
+    'playstation3',
+    'pokemon123',
+    'polniypizdec0211',
+    'polniypizdec1102',
+    'polniypizdec110211',
+    'polopolo09',
+    'porsche911',
+    'postov1000',
+    'primetime21',
+    'princess',
+    'princess1',
+    'psychnaut1',
+    'pufunga7782',
+    'q1q2q3q4q5',
+    'q1w2e3r4t5',
+    'q1w2e3r4t5y6',
+    'q1w2e3r4t5y6u7',
+    'q1w2e3r4t5y6u7i8',
+    'q1w2e3r4t5y6u7i8o9p0',
+    'qaz123wsx456',
+    'qaz26101778',
+    'qazwsx',
+    'qazwsx1234',
+    'qazwsx12345',
+    'qazwsx123456',
+    'qazwsxedc',
+    'qazwsxedc1',
+    'qazwsxedc12',
+    'qazwsxedc123',
+    'qazxswedc123',
+    'qq123456789',
+    'quant4307s',
+    'queenas8151',
+    'qwe123',
+    'qwe1234567',
+    'qwe123qwe123',
+    'qweasdzxc',
+    'qweasdzxc1',
+    'qweasdzxc12',
+    'qweasdzxc123',
+    'qwer1234',
+    'qwert12345',
+    'qwert54321',
+    'qwerty',
+    'qwerty1',
+    'qwerty12',
+    'qwerty123',
+    'qwerty1234',
+    'qwerty12345',
+    'qwerty123456',
+    'qwerty123456789',
+    'qwerty2010',
+    'qwertyu',
+    'qwertyu123',
+    'qwertyui',
+    'qwertyuiop',
+    'qwertyuiop1',
+    'qwertyuiop10',
+    'qwertyuiop12',
+    'qwertyuiop123',
+    'qwertyuiop12345',
+    'r3vi3wpass',
+    'rammstein1',
+    'rashley198',
+    'rfnthbyf1988',
+    'robert',
+    'ronaldinho10',
+    'ronaldo123',
+    'runescape1',
+    's1a2s3h4a5',
+    'samsung',
+    'samsung123',
+    'sasha12345',
+    'sataniv1993',
+    'saun24865709',
+    'scoubidou2',
+    'scoubidou6',
+    'sdh686drth',
+    'sdicmt7seytn',
+    'sebastian1',
+    'secret',
+    'selfok2013',
+    'service321',
+    'shadow',
+    'shadow1212',
+    'shelbygt500',
+    'skorpion39',
+    'slipknot666',
+    'soccer',
+    'sojdlg123aljg',
+    'solo',
+    'something1',
+    'soso123aljg',
+    'spam967888',
+    'spartak1922',
+    'spartan117',
+    'spiderman1',
+    'spiderman3',
+    'ss6z2sw6lu',
+    'stalker123',
+    'starcraft2',
+    'starwars',
+    'starwars123',
+    'stephanie1',
+    'stickdaddy77',
+    'summer',
+    'sunflower1',
+    'sunshine',
+    'sunshine1',
+    'sunshine69',
+    'superman',
+    'superman12',
+    'superman123',
+    'sutvsc5ysaa',
+    'svensps820',
+    't34vfrc1991',
+    't5r4e3w2q1',
+    'table54781',
+    'tamwsn3sja',
+    'taylor',
+    'testing123',
+    'thirteen13',
+    'thomas',
+    'tigger',
+    'tottenham1',
+    'trustno1',
+    'tylerca310',
+    'usuckballz1',
+    'venom121293',
+    'vfvfgfgf123',
+    'vitalik123',
+    'vsjasnel12',
+    'w1w2w3w4w5',
+    'w2dlww3v5p',
+    'walkman555',
+    'warhammer40k',
+    'welcome',
+    'welcome1',
+    'welcome123',
+    'wenef45313',
+    'werty12345',
+    'whatever',
+    'winnipeg261',
+    'wrestling1',
+    'wwwooo1234',
+    'xiaoyua123',
+    'xxxp455w0rd5',
+    'yanshi1982',
+    'z1x2c3v4b5',
+    'z1x2c3v4b5n6',
+    'z1x2c3v4b5n6m7',
+    'zaq12wsx',
+    'zaq12wsxcde3',
+    'zaq1xsw2cde3',
+    'zaq1zaq1',
+    'zexts364325',
+    'zjses9evpa',
+    'zqjphsyf6ctifgu',
+    'zx123456789',
+    'zxcasdqwe123',
+    'zxcvb12345',
+    'zxcvbn',
+    'zxcvbn123456',
+    'zxcvbn3215',
+    'zxcvbnm',
+    'zxcvbnm123',
+    'zxcvbnm1234',
+    'zxcvbnm123456789',
+]);
@@ -0,0 +1,20 @@
+/**
+ * Defines how a login attempt authenticated. Google and Facebook logins use the provider name,
+ * OpenID Connect logins are recorded as OIDC with the provider name in the details.
+ */
+export const LoginMethods = {
+    PASSWORD: 'password',
+    MAGIC_LINK: 'magic_link',
+    PASSKEY: 'passkey',
+    OIDC: 'oidc',
+    REFRESH: 'refresh',
+};
+
+/**
+ * Defines the outcomes recorded for a login attempt.
+ */
+export const LoginOutcomes = {
+    SUCCESS: 'success',
+    FAILURE: 'failure',
+    MFA_REQUIRED: 'mfa_required',
+};
@@ -0,0 +1,14 @@
+/**
+ * Defines the grants an OAuth client may be registered for.
+ */
+export const OAuthGrantTypes = {
+    AUTHORIZATION_CODE: 'authorization_code',
+    REFRESH_TOKEN: 'refresh_token',
+    CLIENT_CREDENTIALS: 'client_credentials',
+};
+
+/**
+ * The "type" claim of access tokens issued to OAuth clients. First-party routes reject tokens
+ * with a type, so delegated tokens are only accepted where the oauth-access-token strategy is.
+ */
+export const OAUTH_ACCESS_TOKEN_TYPE = 'oauth';
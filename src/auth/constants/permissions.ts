@@ -0,0 +1,20 @@
+/**
+ * Defines the permission names checked by the PermissionsGuard.
+ */
+export const Permissions = {
+    USERS_READ: 'users:read',
+    USERS_WRITE: 'users:write',
+    USERS_DELETE: 'users:delete',
+    ROLES_MANAGE: 'roles:manage',
+    DASHBOARD_MANAGE: 'dashboard:manage',
+    KEYS_MANAGE: 'keys:manage',
+    CLIENTS_MANAGE: 'clients:manage',
+    USERS_IMPERSONATE: 'users:impersonate',
+};
+
+/**
+ * Defines the roles seeded by the RBAC migration.
+ */
+export const Roles = {
+    ADMIN: 'admin',
+};
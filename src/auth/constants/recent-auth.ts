@@ -0,0 +1,4 @@
+/**
+ * How long after signing in or reauthenticating a user may make sensitive account changes, in seconds.
+ */
+export const RECENT_AUTH_MAX_AGE_SECONDS = 5 * 60;
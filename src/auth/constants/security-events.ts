@@ -0,0 +1,23 @@
+/**
+ * Defines the types of security events recorded for a user account.
+ */
+export const SecurityEventTypes = {
+    REFRESH_TOKEN_REUSE: 'refresh_token_reuse',
+    PASSWORD_RESET: 'password_reset',
+    ACCOUNT_LOCKED: 'account_locked',
+    ACCOUNT_UNLOCKED: 'account_unlocked',
+    MFA_ENABLED: 'mfa_enabled',
+    MFA_DISABLED: 'mfa_disabled',
+    MFA_RECOVERY_CODE_USED: 'mfa_recovery_code_used',
+    PASSKEY_REGISTERED: 'passkey_registered',
+    PASSKEY_REMOVED: 'passkey_removed',
+    IDENTITY_LINKED: 'identity_linked',
+    IDENTITY_UNLINKED: 'identity_unlinked',
+    ACCESS_TOKEN_CREATED: 'access_token_created',
+    ACCESS_TOKEN_REVOKED: 'access_token_revoked',
+    OAUTH_CONSENT_GRANTED: 'oauth_consent_granted',
+    OAUTH_CONSENT_REVOKED: 'oauth_consent_revoked',
+    IMPERSONATION_STARTED: 'impersonation_started',
+    IMPERSONATION_ENDED: 'impersonation_ended',
+    LOGIN_ATTEMPT: 'login_attempt',
+};
@@ -0,0 +1,25 @@
+/**
+ * Defines how the frontend started a Google or Facebook login, which decides how the callback answers.
+ */
+export const SocialLoginModes = {
+    // The browser returns to the requested path of the frontend
+    REDIRECT: 'redirect',
+    // The callback page posts the result to the window that opened it and closes
+    POPUP: 'popup',
+    // The browser follows the deep link of the mobile app with a one-time code
+    APP: 'app',
+};
+
+/**
+ * Defines the reason codes sent to the frontend or app when a social login fails.
+ */
+export const SocialLoginErrors = {
+    ACCESS_DENIED: 'access_denied',
+    INVALID_CALLBACK: 'invalid_callback',
+    INVALID_STATE: 'invalid_state',
+    INVALID_PROFILE: 'invalid_profile',
+    PROVIDER_ERROR: 'provider_error',
+    ACCOUNT_NOT_LINKED: 'account_not_linked',
+    ACCOUNT_DISABLED: 'account_disabled',
+    SESSION_FAILED: 'session_failed',
+};
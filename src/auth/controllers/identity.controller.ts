@@ -0,0 +1,97 @@
+import {
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    NotFoundException,
+    Param,
+    ParseIntPipe,
+    Post,
+    Req,
+    Res,
+    UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { IdentityService } from '../services/identity.service';
+import { OidcService } from '../services/oidc.service';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { RecentAuthGuard } from '../guards/recent-auth.guard';
+import { RequireRecentAuth } from '../decorators/require-recent-auth.decorator';
+import { RECENT_AUTH_MAX_AGE_SECONDS } from '../constants/recent-auth';
+import { IdentityDto, LinkIdentityDto } from '../dto/identity.dto';
+import { AuthenticatedRequest } from '../interfaces';
+import { setIdentityLinkCookie } from '../utils/identity-link-cookie';
+
+const OAUTH_PROVIDERS = ['google', 'facebook'];
+
+@ApiTags('auth')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard('jwt'))
+@Controller('auth/identities')
+class IdentityController {
+    constructor(
+        private readonly identityService: IdentityService,
+        private readonly oidcService: OidcService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: 'List the external identities linked to the current user' })
+    @ApiResponse({ status: 200, description: 'Linked identities', type: [IdentityDto] })
+    public async getIdentities(@Req() request: AuthenticatedRequest): Promise<IdentityDto[]> {
+        const identities = await this.identityService.getIdentities(request.user.userId);
+        return identities.map((identity) => new IdentityDto(identity));
+    }
+
+    @Post(':provider/link')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Start linking an external identity to the current user' })
+    @ApiResponse({ status: 200, description: 'URL to send the browser to', type: LinkIdentityDto })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    @ApiResponse({ status: 404, description: 'Unknown identity provider' })
+    public async startLink(
+        @Req() request: AuthenticatedRequest,
+        @Param('provider') provider: string,
+        @Res({ passthrough: true }) response: Response,
+    ): Promise<LinkIdentityDto> {
+        const apiUrl = this.configService.get('apiUrl');
+
+        let authorizationUrl: string;
+        if (OAUTH_PROVIDERS.includes(provider)) {
+            authorizationUrl = `${apiUrl}/auth/${provider}`;
+        } else if (this.oidcService.getProviderNames().includes(provider)) {
+            authorizationUrl = `${apiUrl}/auth/oidc/${provider}`;
+        } else {
+            throw new NotFoundException('Unknown identity provider');
+        }
+
+        const linkToken = this.identityService.createLinkToken(request.user.userId, provider);
+        setIdentityLinkCookie(response, linkToken, this.configService.get('nodeEnv') === 'production');
+
+        return { authorizationUrl };
+    }
+
+    @Delete(':id')
+    @UseGuards(NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Unlink an external identity' })
+    @ApiResponse({ status: 200, description: 'Identity unlinked' })
+    @ApiResponse({ status: 400, description: 'The identity is the last login method of the account' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    @ApiResponse({ status: 404, description: 'Identity not found' })
+    public async unlinkIdentity(
+        @Req() request: AuthenticatedRequest,
+        @Param('id', ParseIntPipe) id: number,
+    ): Promise<{ message: string }> {
+        await this.identityService.unlinkIdentity(request.user.userId, id);
+        return { message: 'Identity unlinked' };
+    }
+}
+
+export { IdentityController };
@@ -0,0 +1,51 @@
+import { Controller, Delete, HttpCode, HttpStatus, Param, ParseIntPipe, Post, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ExtractJwt } from 'passport-jwt';
+import { ImpersonationService } from '../services/impersonation.service';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { RequirePermissions } from '../decorators/require-permissions.decorator';
+import { Permissions } from '../constants/permissions';
+import { JwtPayloadDto } from '../dto/jwt-payload.dto';
+import { AuthenticatedRequest, JwtPayload } from '../interfaces';
+
+@ApiTags('auth')
+@ApiBearerAuth('JWT-auth')
+@Controller('admin/impersonate')
+class ImpersonationController {
+    constructor(private readonly impersonationService: ImpersonationService) {}
+
+    @Post(':userId')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, PermissionsGuard)
+    @RequirePermissions(Permissions.USERS_IMPERSONATE)
+    @ApiOperation({ summary: 'Start impersonating a user' })
+    @ApiResponse({
+        status: 200,
+        description: 'Short-lived access token acting as the user; no refresh token is issued',
+        type: JwtPayloadDto,
+    })
+    @ApiResponse({ status: 400, description: 'Cannot impersonate yourself or an inactive user' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions, or the user may impersonate others' })
+    @ApiResponse({ status: 404, description: 'User not found' })
+    public async startImpersonation(
+        @Req() request: AuthenticatedRequest,
+        @Param('userId', ParseIntPipe) userId: number,
+    ): Promise<JwtPayload> {
+        return await this.impersonationService.startImpersonation(request.user, userId);
+    }
+
+    @Delete()
+    @UseGuards(AuthGuard('jwt'))
+    @ApiOperation({ summary: 'End the impersonation the request is made with' })
+    @ApiResponse({ status: 200, description: 'Impersonation token revoked' })
+    @ApiResponse({ status: 400, description: 'The request is not made with an impersonation token' })
+    public async endImpersonation(@Req() request: AuthenticatedRequest): Promise<{ message: string }> {
+        const accessToken = ExtractJwt.fromAuthHeaderAsBearerToken()(request) as string;
+        await this.impersonationService.endImpersonation(request.user, accessToken);
+        return { message: 'Impersonation ended' };
+    }
+}
+
+export { ImpersonationController };
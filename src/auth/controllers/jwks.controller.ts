@@ -0,0 +1,40 @@
+import { Controller, Get, Header, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { JsonWebKey } from 'crypto';
+import { SigningKeyService } from '../services/signing-key.service';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/require-permissions.decorator';
+import { Permissions } from '../constants/permissions';
+import { RawResponse } from 'src/shared/decorators/raw-response.decorator';
+
+@ApiTags('auth')
+@Controller()
+class JwksController {
+    constructor(private readonly signingKeyService: SigningKeyService) {}
+
+    @Get('.well-known/jwks.json')
+    @Header('Cache-Control', 'public, max-age=300')
+    @RawResponse()
+    @ApiOperation({ summary: 'Public keys for verifying access tokens' })
+    @ApiResponse({ status: 200, description: 'JSON Web Key Set, keyed by the kid header of each token' })
+    public async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+        return await this.signingKeyService.getJwks();
+    }
+
+    @Post('auth/keys/rotate')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(AuthGuard('jwt'), PermissionsGuard)
+    @RequirePermissions(Permissions.KEYS_MANAGE)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Rotate the access token signing key' })
+    @ApiResponse({ status: 200, description: 'Key rotated; the previous key keeps verifying during the grace window' })
+    @ApiResponse({ status: 400, description: 'HS256 is configured, so there is no key pair to rotate' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    public async rotateKeys(): Promise<{ kid: string }> {
+        const key = await this.signingKeyService.rotateKeys();
+        return { kid: key.kid };
+    }
+}
+
+export { JwksController };
@@ -0,0 +1,135 @@
+import { Body, Controller, Delete, HttpCode, HttpException, HttpStatus, Post, Req, Res, UseGuards } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { RateLimitGuard } from 'src/shared/guards/rate-limit.guard';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { RecentAuthGuard } from '../guards/recent-auth.guard';
+import { RequireRecentAuth } from '../decorators/require-recent-auth.decorator';
+import { RECENT_AUTH_MAX_AGE_SECONDS } from '../constants/recent-auth';
+import { AuthService } from '../auth.service';
+import { MfaService } from '../services/mfa.service';
+import { LoginHistoryService } from '../services/login-history.service';
+import { MfaCodeDto } from '../dto/mfa-code.dto';
+import { VerifyMfaDto } from '../dto/verify-mfa.dto';
+import { MfaRecoveryCodesDto, MfaSetupDto } from '../dto/mfa.dto';
+import { JwtPayloadDto } from '../dto/jwt-payload.dto';
+import { AuthenticatedRequest, JwtPayload } from '../interfaces';
+import { setRefreshTokenCookie } from '../utils/refresh-token-cookie';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { getSessionContext } from '../utils/session-context';
+
+@ApiTags('auth')
+@Controller('auth/mfa')
+class MfaController {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly mfaService: MfaService,
+        private readonly configService: ConfigService,
+        private readonly tokenPolicyService: TokenPolicyService,
+        private readonly loginHistoryService: LoginHistoryService,
+    ) {}
+
+    @Post('setup')
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Start TOTP enrollment and get the secret for the authenticator app' })
+    @ApiResponse({ status: 201, description: 'Enrollment started', type: MfaSetupDto })
+    @ApiResponse({ status: 400, description: 'MFA is already enabled' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    public async setup(@Req() request: AuthenticatedRequest): Promise<MfaSetupDto> {
+        return await this.mfaService.startEnrollment(request.user.userId, request.user.username);
+    }
+
+    @Post('confirm')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Enable MFA with a code from the authenticator app' })
+    @ApiBody({ type: MfaCodeDto })
+    @ApiResponse({ status: 200, description: 'MFA enabled, recovery codes returned once', type: MfaRecoveryCodesDto })
+    @ApiResponse({ status: 400, description: 'Invalid MFA code' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    public async confirm(
+        @Req() request: AuthenticatedRequest,
+        @Body() mfaCodeDto: MfaCodeDto,
+    ): Promise<MfaRecoveryCodesDto> {
+        const recoveryCodes = await this.mfaService.confirmEnrollment(request.user.userId, mfaCodeDto.code);
+        return { recoveryCodes };
+    }
+
+    @Post('recovery-codes')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Replace the recovery codes with a new set' })
+    @ApiBody({ type: MfaCodeDto })
+    @ApiResponse({ status: 200, description: 'New recovery codes', type: MfaRecoveryCodesDto })
+    @ApiResponse({ status: 400, description: 'MFA is not enabled or the code is invalid' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    public async regenerateRecoveryCodes(
+        @Req() request: AuthenticatedRequest,
+        @Body() mfaCodeDto: MfaCodeDto,
+    ): Promise<MfaRecoveryCodesDto> {
+        const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(request.user.userId, mfaCodeDto.code);
+        return { recoveryCodes };
+    }
+
+    @Delete()
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Disable MFA' })
+    @ApiBody({ type: MfaCodeDto })
+    @ApiResponse({ status: 200, description: 'MFA disabled' })
+    @ApiResponse({ status: 400, description: 'MFA is not enabled or the code is invalid' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    public async disable(
+        @Req() request: AuthenticatedRequest,
+        @Body() mfaCodeDto: MfaCodeDto,
+    ): Promise<{ message: string }> {
+        await this.mfaService.disable(request.user.userId, mfaCodeDto.code);
+        return { message: 'MFA disabled' };
+    }
+
+    @Post('verify')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Complete a login that requires a second factor' })
+    @ApiBody({ type: VerifyMfaDto })
+    @ApiResponse({ status: 200, description: 'Login successful', type: JwtPayloadDto })
+    @ApiResponse({ status: 401, description: 'Invalid MFA code or expired challenge' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async verify(
+        @Body() verifyMfaDto: VerifyMfaDto,
+        @Req() request: Request,
+        @Res({ passthrough: true }) response: Response,
+    ): Promise<JwtPayload> {
+        const context = getSessionContext(request);
+        const { userId, method } = this.mfaService.readChallenge(verifyMfaDto.mfaToken);
+        const user = await this.mfaService.verifyChallenge(verifyMfaDto.mfaToken, verifyMfaDto.code).catch(async (error) => {
+            if (error instanceof HttpException) {
+                await this.loginHistoryService.recordFailure(userId, method, context, error.message);
+            }
+            throw error;
+        });
+        const tokenPayload = this.authService.createTokenForUser(user);
+
+        const refreshToken = await this.authService.createRefreshToken(user.id, context);
+        setRefreshTokenCookie(
+            response,
+            refreshToken,
+            this.configService.get('nodeEnv') === 'production',
+            this.tokenPolicyService.getRefreshCookieMaxAge(),
+        );
+        await this.loginHistoryService.recordSuccess(user, method, context);
+
+        return tokenPayload;
+    }
+}
+
+export { MfaController };
@@ -0,0 +1,91 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Post,
+    Query,
+    Req,
+    UseFilters,
+    UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { OAuthAuthorizationService } from '../services/oauth-authorization.service';
+import { OAuthExceptionFilter } from '../filters/oauth-exception.filter';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import {
+    AuthorizationDecisionDto,
+    AuthorizationRequestDto,
+    AuthorizationRequestInfoDto,
+    OAuthConsentDto,
+} from '../dto/oauth.dto';
+import { AuthenticatedRequest } from '../interfaces';
+
+// Backs the consent screen of the frontend, which forwards the authorization request of the client
+@ApiTags('oauth')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard('jwt'))
+@Controller('oauth')
+class OAuthAuthorizationController {
+    constructor(private readonly oauthAuthorizationService: OAuthAuthorizationService) {}
+
+    @Get('authorize')
+    @UseFilters(OAuthExceptionFilter)
+    @ApiOperation({ summary: 'Validate an authorization request before showing the consent screen' })
+    @ApiResponse({ status: 200, description: 'The client and requested scopes', type: AuthorizationRequestInfoDto })
+    @ApiResponse({ status: 400, description: 'Invalid client, redirect URI, scope or PKCE parameters' })
+    public async getAuthorizationRequest(
+        @Req() request: AuthenticatedRequest,
+        @Query() authorizationRequestDto: AuthorizationRequestDto,
+    ): Promise<AuthorizationRequestInfoDto> {
+        const { client, scopes, consentGranted } = await this.oauthAuthorizationService.validateAuthorizationRequest(
+            request.user.userId,
+            authorizationRequestDto,
+        );
+        return new AuthorizationRequestInfoDto(client, scopes, consentGranted);
+    }
+
+    @Post('authorize')
+    @HttpCode(HttpStatus.OK)
+    @UseFilters(OAuthExceptionFilter)
+    @UseGuards(NoImpersonationGuard)
+    @ApiOperation({ summary: 'Approve or deny an authorization request' })
+    @ApiBody({ type: AuthorizationDecisionDto })
+    @ApiResponse({ status: 200, description: 'The client redirect URI with an authorization code or access_denied' })
+    @ApiResponse({ status: 400, description: 'Invalid client, redirect URI, scope or PKCE parameters' })
+    public async decide(
+        @Req() request: AuthenticatedRequest,
+        @Body() decisionDto: AuthorizationDecisionDto,
+    ): Promise<{ redirectUri: string }> {
+        const redirectUri = await this.oauthAuthorizationService.decide(request.user.userId, decisionDto);
+        return { redirectUri };
+    }
+
+    @Get('consents')
+    @ApiOperation({ summary: 'List the OAuth clients the current user has authorized' })
+    @ApiResponse({ status: 200, description: 'Consents', type: [OAuthConsentDto] })
+    public async getConsents(@Req() request: AuthenticatedRequest): Promise<OAuthConsentDto[]> {
+        const consents = await this.oauthAuthorizationService.getConsents(request.user.userId);
+        return consents.map((consent) => new OAuthConsentDto(consent));
+    }
+
+    @Delete('consents/:id')
+    @UseGuards(NoImpersonationGuard)
+    @ApiOperation({ summary: 'Revoke the access of an OAuth client' })
+    @ApiResponse({ status: 200, description: 'Consent revoked and the sessions of the client ended' })
+    @ApiResponse({ status: 404, description: 'Consent not found' })
+    public async revokeConsent(
+        @Req() request: AuthenticatedRequest,
+        @Param('id', ParseIntPipe) id: number,
+    ): Promise<{ message: string }> {
+        await this.oauthAuthorizationService.revokeConsent(request.user.userId, id);
+        return { message: 'Consent revoked' };
+    }
+}
+
+export { OAuthAuthorizationController };
@@ -0,0 +1,53 @@
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { OAuthClientService } from '../services/oauth-client.service';
+import { CreatedOAuthClientDto, CreateOAuthClientDto, OAuthClientDto } from '../dto/oauth.dto';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RequirePermissions } from '../decorators/require-permissions.decorator';
+import { Permissions } from '../constants/permissions';
+
+@ApiTags('oauth')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard('jwt'), PermissionsGuard)
+@RequirePermissions(Permissions.CLIENTS_MANAGE)
+@Controller('oauth/clients')
+class OAuthClientController {
+    constructor(private readonly oauthClientService: OAuthClientService) {}
+
+    @Get()
+    @ApiOperation({ summary: 'List registered OAuth clients' })
+    @ApiResponse({ status: 200, description: 'OAuth clients', type: [OAuthClientDto] })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    public async getClients(): Promise<OAuthClientDto[]> {
+        const clients = await this.oauthClientService.getClients();
+        return clients.map((client) => new OAuthClientDto(client));
+    }
+
+    @Post()
+    @ApiOperation({ summary: 'Register an OAuth client' })
+    @ApiBody({ type: CreateOAuthClientDto })
+    @ApiResponse({
+        status: 201,
+        description: 'Client registered; the secret is only shown once',
+        type: CreatedOAuthClientDto,
+    })
+    @ApiResponse({ status: 400, description: 'The grants need redirect URIs or another grant' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    public async createClient(@Body() createClientDto: CreateOAuthClientDto): Promise<CreatedOAuthClientDto> {
+        const { client, clientSecret } = await this.oauthClientService.createClient(createClientDto);
+        return new CreatedOAuthClientDto(client, clientSecret);
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Delete an OAuth client' })
+    @ApiResponse({ status: 200, description: 'Client deleted' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    @ApiResponse({ status: 404, description: 'Client not found' })
+    public async deleteClient(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+        await this.oauthClientService.deleteClient(id);
+        return { message: 'Client deleted' };
+    }
+}
+
+export { OAuthClientController };
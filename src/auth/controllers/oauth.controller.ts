@@ -0,0 +1,78 @@
+import { Body, Controller, Header, HttpCode, HttpStatus, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { ApiBasicAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { TokenIntrospectionService } from '../services/token-introspection.service';
+import { OAuthTokenService } from '../services/oauth-token.service';
+import { OAuthClientGuard } from '../guards/oauth-client.guard';
+import { OAuthExceptionFilter } from '../filters/oauth-exception.filter';
+import { OAuthGrantRequestDto, OAuthTokenRequestDto } from '../dto/oauth.dto';
+import { OAuthClientRequest, OAuthTokenResponse, TokenIntrospection } from '../interfaces';
+import { RawResponse } from 'src/shared/decorators/raw-response.decorator';
+
+// Responses follow the OAuth specifications, so they skip the usual response envelope
+@ApiTags('oauth')
+@ApiBasicAuth('client-auth')
+@UseFilters(OAuthExceptionFilter)
+@UseGuards(OAuthClientGuard)
+@Controller('oauth')
+class OAuthController {
+    constructor(
+        private readonly tokenIntrospectionService: TokenIntrospectionService,
+        private readonly oauthTokenService: OAuthTokenService,
+    ) {}
+
+    @Post('token')
+    @HttpCode(HttpStatus.OK)
+    @Header('Cache-Control', 'no-store')
+    @RawResponse()
+    @ApiOperation({ summary: 'Issue tokens for the authorization_code, refresh_token or client_credentials grant' })
+    @ApiBody({ type: OAuthGrantRequestDto })
+    @ApiResponse({ status: 200, description: 'Access token, and a refresh token for the authorization_code grant' })
+    @ApiResponse({ status: 400, description: 'Invalid grant, scope or request' })
+    @ApiResponse({ status: 401, description: 'Client authentication failed' })
+    public async token(
+        @Req() request: OAuthClientRequest,
+        @Body() grantRequestDto: OAuthGrantRequestDto,
+    ): Promise<OAuthTokenResponse> {
+        return await this.oauthTokenService.issueTokens(request.oauthClient, grantRequestDto);
+    }
+
+    @Post('introspect')
+    @HttpCode(HttpStatus.OK)
+    @Header('Cache-Control', 'no-store')
+    @RawResponse()
+    @ApiOperation({ summary: 'Introspect an access or refresh token (RFC 7662)' })
+    @ApiBody({ type: OAuthTokenRequestDto })
+    @ApiResponse({
+        status: 200,
+        description: 'Token state; only { active: false } for invalid tokens and those the client may not see',
+    })
+    @ApiResponse({ status: 401, description: 'Client authentication failed' })
+    public async introspect(
+        @Req() request: OAuthClientRequest,
+        @Body() tokenRequestDto: OAuthTokenRequestDto,
+    ): Promise<TokenIntrospection> {
+        return await this.tokenIntrospectionService.introspect(
+            request.oauthClient,
+            tokenRequestDto.token,
+            tokenRequestDto.token_type_hint,
+        );
+    }
+
+    @Post('revoke')
+    @HttpCode(HttpStatus.OK)
+    @Header('Cache-Control', 'no-store')
+    @RawResponse()
+    @ApiOperation({ summary: 'Revoke an access or refresh token (RFC 7009)' })
+    @ApiBody({ type: OAuthTokenRequestDto })
+    @ApiResponse({ status: 200, description: 'Token revoked, or it was already invalid' })
+    @ApiResponse({ status: 401, description: 'Client authentication failed' })
+    public async revoke(@Req() request: OAuthClientRequest, @Body() tokenRequestDto: OAuthTokenRequestDto): Promise<void> {
+        await this.tokenIntrospectionService.revoke(
+            request.oauthClient,
+            tokenRequestDto.token,
+            tokenRequestDto.token_type_hint,
+        );
+    }
+}
+
+export { OAuthController };
@@ -0,0 +1,136 @@
+import { ConflictException, Controller, Get, Param, Query, Req, Res, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { AuthService } from '../auth.service';
+import { OidcService } from '../services/oidc.service';
+import { IdentityService } from '../services/identity.service';
+import { LoginHistoryService } from '../services/login-history.service';
+import { LoginMethods } from '../constants/login-history';
+import { OidcIdentity } from '../interfaces';
+import { setRefreshTokenCookie } from '../utils/refresh-token-cookie';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { clearIdentityLinkCookie, IDENTITY_LINK_COOKIE } from '../utils/identity-link-cookie';
+import { getSessionContext } from '../utils/session-context';
+
+const OIDC_STATE_COOKIE = 'oidcState';
+const OIDC_STATE_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes, matching the state token
+
+@ApiTags('auth')
+@Controller('auth/oidc')
+class OidcController {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly oidcService: OidcService,
+        private readonly identityService: IdentityService,
+        private readonly configService: ConfigService,
+        private readonly logger: AppLoggerService,
+        private readonly tokenPolicyService: TokenPolicyService,
+        private readonly loginHistoryService: LoginHistoryService,
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: 'List the configured OpenID Connect providers' })
+    @ApiResponse({ status: 200, description: 'Provider names usable in /auth/oidc/:provider' })
+    public listProviders(): { providers: string[] } {
+        return { providers: this.oidcService.getProviderNames() };
+    }
+
+    @Get(':provider')
+    @ApiOperation({ summary: 'Start signing in with an OpenID Connect provider' })
+    @ApiResponse({ status: 302, description: 'Redirect to the provider' })
+    @ApiResponse({ status: 404, description: 'Unknown identity provider' })
+    public async authorize(@Param('provider') providerName: string, @Res() response: Response): Promise<void> {
+        const { authorizationUrl, stateToken } = await this.oidcService.createAuthorizationRequest(providerName);
+
+        // Lax, not strict: the callback is a top-level navigation coming back from the provider
+        response.cookie(OIDC_STATE_COOKIE, stateToken, {
+            httpOnly: true,
+            secure: this.isProduction(),
+            sameSite: 'lax',
+            maxAge: OIDC_STATE_MAX_AGE_MS,
+            path: '/auth/oidc',
+        });
+
+        response.redirect(authorizationUrl);
+    }
+
+    @Get(':provider/callback')
+    @ApiOperation({ summary: 'Complete signing in with an OpenID Connect provider' })
+    @ApiResponse({ status: 302, description: 'Redirect to the frontend dashboard, or to login on failure' })
+    public async callback(
+        @Param('provider') providerName: string,
+        @Query('code') code: string | undefined,
+        @Query('state') state: string | undefined,
+        @Query('error') error: string | undefined,
+        @Req() request: Request,
+        @Res() response: Response,
+    ): Promise<void> {
+        const frontendUrl = this.configService.get('frontend.url');
+        const stateToken = request.cookies?.[OIDC_STATE_COOKIE];
+        response.clearCookie(OIDC_STATE_COOKIE, { path: '/auth/oidc' });
+        const context = getSessionContext(request);
+        const details = { provider: providerName };
+
+        let identity: OidcIdentity;
+        try {
+            identity = await this.oidcService.completeAuthorization(providerName, { code, state, error }, stateToken);
+        } catch (err) {
+            this.logger.warn(`OIDC sign-in failed: ${err instanceof Error ? err.message : err}`, 'OidcController');
+            // Only rejected sign-ins are login attempts, not an unknown or unreachable provider
+            if (err instanceof UnauthorizedException) {
+                await this.loginHistoryService.recordFailure(null, LoginMethods.OIDC, context, err.message, details);
+            }
+            response.redirect(`${frontendUrl}/login`);
+            return;
+        }
+
+        const externalIdentity = { provider: identity.provider, subject: identity.subject, email: identity.email };
+
+        const linkingUserId = this.identityService.verifyLinkToken(request.cookies?.[IDENTITY_LINK_COOKIE], providerName);
+        if (linkingUserId !== null) {
+            clearIdentityLinkCookie(response, this.isProduction());
+
+            let linkResult = `linked=${providerName}`;
+            try {
+                await this.identityService.linkIdentity(linkingUserId, externalIdentity);
+            } catch (err) {
+                if (!(err instanceof ConflictException)) {
+                    throw err;
+                }
+                linkResult = 'link_error=identity_in_use';
+            }
+
+            response.redirect(`${frontendUrl}/dashboard?${linkResult}`);
+            return;
+        }
+
+        // Only an identity linked to an account signs in; a matching email address is not enough
+        const user = await this.identityService.findUser(externalIdentity);
+        if (!user || !user.isActive) {
+            this.logger.warn('OIDC sign-in failed: no active account linked to the identity', 'OidcController');
+            await this.loginHistoryService.recordFailure(
+                user?.id ?? null,
+                LoginMethods.OIDC,
+                context,
+                user ? 'The account is disabled' : 'The identity is not linked to an account',
+                details,
+            );
+            response.redirect(`${frontendUrl}/login`);
+            return;
+        }
+
+        const refreshToken = await this.authService.createRefreshToken(user.id, context);
+        setRefreshTokenCookie(response, refreshToken, this.isProduction(), this.tokenPolicyService.getRefreshCookieMaxAge());
+        await this.loginHistoryService.recordSuccess(user, LoginMethods.OIDC, context, details);
+
+        response.redirect(`${frontendUrl}/dashboard`);
+    }
+
+    private isProduction(): boolean {
+        return this.configService.get('nodeEnv') === 'production';
+    }
+}
+
+export { OidcController };
@@ -0,0 +1,62 @@
+import { Body, Controller, Delete, Get, Param, ParseIntPipe, Post, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { PersonalAccessTokenService } from '../services/personal-access-token.service';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import {
+    CreatedPersonalAccessTokenDto,
+    CreatePersonalAccessTokenDto,
+    PersonalAccessTokenDto,
+} from '../dto/personal-access-token.dto';
+import { AuthenticatedRequest } from '../interfaces';
+
+// Only a signed-in session manages tokens, so a leaked token cannot mint or revoke others
+@ApiTags('auth')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard('jwt'), NoImpersonationGuard)
+@Controller('auth/tokens')
+class PersonalAccessTokenController {
+    constructor(private readonly personalAccessTokenService: PersonalAccessTokenService) {}
+
+    @Get()
+    @ApiOperation({ summary: 'List the personal access tokens of the current user' })
+    @ApiResponse({ status: 200, description: 'Personal access tokens', type: [PersonalAccessTokenDto] })
+    public async getTokens(@Req() request: AuthenticatedRequest): Promise<PersonalAccessTokenDto[]> {
+        const tokens = await this.personalAccessTokenService.getTokens(request.user.userId);
+        return tokens.map((token) => new PersonalAccessTokenDto(token));
+    }
+
+    @Post()
+    @ApiOperation({ summary: 'Create a personal access token' })
+    @ApiBody({ type: CreatePersonalAccessTokenDto })
+    @ApiResponse({
+        status: 201,
+        description: 'Token created; the plaintext is only shown once',
+        type: CreatedPersonalAccessTokenDto,
+    })
+    @ApiResponse({ status: 400, description: 'A scope is not held by the user' })
+    public async createToken(
+        @Req() request: AuthenticatedRequest,
+        @Body() createTokenDto: CreatePersonalAccessTokenDto,
+    ): Promise<CreatedPersonalAccessTokenDto> {
+        const { token, accessToken } = await this.personalAccessTokenService.createToken(
+            request.user.userId,
+            createTokenDto,
+        );
+        return new CreatedPersonalAccessTokenDto(accessToken, token);
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Revoke a personal access token' })
+    @ApiResponse({ status: 200, description: 'Token revoked' })
+    @ApiResponse({ status: 404, description: 'Access token not found' })
+    public async revokeToken(
+        @Req() request: AuthenticatedRequest,
+        @Param('id', ParseIntPipe) id: number,
+    ): Promise<{ message: string }> {
+        await this.personalAccessTokenService.revokeToken(request.user.userId, id);
+        return { message: 'Access token revoked' };
+    }
+}
+
+export { PersonalAccessTokenController };
@@ -0,0 +1,64 @@
+import { Controller, Delete, Get, Param, ParseUUIDPipe, Req, UseGuards } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AuthService } from '../auth.service';
+import { SessionService } from '../services/session.service';
+import { SessionDto } from '../dto/session.dto';
+import { AuthenticatedRequest } from '../interfaces';
+import { REFRESH_TOKEN_COOKIE } from '../utils/refresh-token-cookie';
+
+@ApiTags('auth')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(AuthGuard('jwt'))
+@Controller('auth/sessions')
+class SessionController {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly sessionService: SessionService,
+    ) {}
+
+    @Get()
+    @ApiOperation({ summary: 'List the signed-in devices of the current user' })
+    @ApiResponse({ status: 200, description: 'Active sessions', type: [SessionDto] })
+    public async getSessions(@Req() request: AuthenticatedRequest): Promise<SessionDto[]> {
+        const [sessions, currentSessionId] = await Promise.all([
+            this.sessionService.getActiveSessions(request.user.userId),
+            this.getCurrentSessionId(request),
+        ]);
+
+        return sessions.map((session) => new SessionDto(session, currentSessionId));
+    }
+
+    @Delete()
+    @ApiOperation({ summary: 'Sign out of every session except the current one' })
+    @ApiResponse({ status: 200, description: 'Other sessions signed out' })
+    public async revokeOtherSessions(@Req() request: AuthenticatedRequest): Promise<{ message: string }> {
+        const currentSessionId = await this.getCurrentSessionId(request);
+        await this.authService.revokeAllUserRefreshTokens(request.user.userId, currentSessionId || undefined);
+
+        return { message: 'Signed out of all other sessions' };
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Sign out a single session' })
+    @ApiResponse({ status: 200, description: 'Session signed out' })
+    @ApiResponse({ status: 404, description: 'Session not found' })
+    public async revokeSession(
+        @Req() request: AuthenticatedRequest,
+        @Param('id', ParseUUIDPipe) id: string,
+    ): Promise<{ message: string }> {
+        await this.authService.revokeSession(request.user.userId, id);
+        return { message: 'Session signed out' };
+    }
+
+    private async getCurrentSessionId(request: AuthenticatedRequest): Promise<string | null> {
+        const refreshToken = request.cookies?.[REFRESH_TOKEN_COOKIE];
+        if (!refreshToken) {
+            return null;
+        }
+
+        return await this.authService.getSessionIdForRefreshToken(refreshToken);
+    }
+}
+
+export { SessionController };
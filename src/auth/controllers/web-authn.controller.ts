@@ -0,0 +1,157 @@
+import {
+    Body,
+    Controller,
+    Delete,
+    Get,
+    HttpCode,
+    HttpException,
+    HttpStatus,
+    Param,
+    ParseIntPipe,
+    Post,
+    Req,
+    Res,
+    UseGuards,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import type { PublicKeyCredentialCreationOptionsJSON, PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/server';
+import { RateLimitGuard } from 'src/shared/guards/rate-limit.guard';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { RecentAuthGuard } from '../guards/recent-auth.guard';
+import { RequireRecentAuth } from '../decorators/require-recent-auth.decorator';
+import { RECENT_AUTH_MAX_AGE_SECONDS } from '../constants/recent-auth';
+import { AuthService } from '../auth.service';
+import { WebAuthnService } from '../services/web-authn.service';
+import { LoginHistoryService } from '../services/login-history.service';
+import { LoginMethods } from '../constants/login-history';
+import { FinishPasskeyLoginDto, FinishPasskeyRegistrationDto, PasskeyDto, StartPasskeyLoginDto } from '../dto/web-authn.dto';
+import { JwtPayloadDto } from '../dto/jwt-payload.dto';
+import { AuthenticatedRequest, JwtPayload } from '../interfaces';
+import { setRefreshTokenCookie } from '../utils/refresh-token-cookie';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { getSessionContext } from '../utils/session-context';
+
+@ApiTags('auth')
+@Controller('auth/webauthn')
+class WebAuthnController {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly webAuthnService: WebAuthnService,
+        private readonly configService: ConfigService,
+        private readonly tokenPolicyService: TokenPolicyService,
+        private readonly loginHistoryService: LoginHistoryService,
+    ) {}
+
+    @Post('register/options')
+    @HttpCode(HttpStatus.OK)
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Get the options for registering a new passkey' })
+    @ApiResponse({ status: 200, description: 'Options for navigator.credentials.create()' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    public async registrationOptions(@Req() request: AuthenticatedRequest): Promise<PublicKeyCredentialCreationOptionsJSON> {
+        return await this.webAuthnService.startRegistration(request.user.userId, request.user.username);
+    }
+
+    @Post('register/verify')
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Store a new passkey after verifying its attestation' })
+    @ApiBody({ type: FinishPasskeyRegistrationDto })
+    @ApiResponse({ status: 201, description: 'Passkey registered', type: PasskeyDto })
+    @ApiResponse({ status: 400, description: 'Invalid challenge or attestation' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    public async verifyRegistration(
+        @Req() request: AuthenticatedRequest,
+        @Body() registrationDto: FinishPasskeyRegistrationDto,
+    ): Promise<PasskeyDto> {
+        const credential = await this.webAuthnService.finishRegistration(
+            request.user.userId,
+            registrationDto.response,
+            registrationDto.name,
+        );
+
+        return new PasskeyDto(credential);
+    }
+
+    @Post('login/options')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Get the options for signing in with a passkey' })
+    @ApiBody({ type: StartPasskeyLoginDto })
+    @ApiResponse({ status: 200, description: 'Options for navigator.credentials.get()' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async authenticationOptions(
+        @Body() loginDto: StartPasskeyLoginDto,
+    ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+        return await this.webAuthnService.startAuthentication(loginDto.email);
+    }
+
+    @Post('login/verify')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RateLimitGuard)
+    @ApiOperation({ summary: 'Sign in with a passkey' })
+    @ApiBody({ type: FinishPasskeyLoginDto })
+    @ApiResponse({ status: 200, description: 'Login successful', type: JwtPayloadDto })
+    @ApiResponse({ status: 401, description: 'Invalid challenge, passkey or signature' })
+    @ApiResponse({ status: 429, description: 'Too many requests' })
+    public async verifyAuthentication(
+        @Body() loginDto: FinishPasskeyLoginDto,
+        @Req() request: Request,
+        @Res({ passthrough: true }) response: Response,
+    ): Promise<JwtPayload> {
+        const context = getSessionContext(request);
+        const user = await this.webAuthnService.finishAuthentication(loginDto.response).catch(async (error) => {
+            if (error instanceof HttpException) {
+                const ownerId = await this.webAuthnService.findCredentialUserId(loginDto.response.id);
+                await this.loginHistoryService.recordFailure(ownerId, LoginMethods.PASSKEY, context, error.message);
+            }
+            throw error;
+        });
+        const tokenPayload = this.authService.createTokenForUser(user);
+
+        const refreshToken = await this.authService.createRefreshToken(user.id, context);
+        setRefreshTokenCookie(
+            response,
+            refreshToken,
+            this.configService.get('nodeEnv') === 'production',
+            this.tokenPolicyService.getRefreshCookieMaxAge(),
+        );
+        await this.loginHistoryService.recordSuccess(user, LoginMethods.PASSKEY, context);
+
+        return tokenPayload;
+    }
+
+    @Get('credentials')
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'))
+    @ApiOperation({ summary: 'List the passkeys of the current user' })
+    @ApiResponse({ status: 200, description: 'Registered passkeys', type: [PasskeyDto] })
+    public async getCredentials(@Req() request: AuthenticatedRequest): Promise<PasskeyDto[]> {
+        const credentials = await this.webAuthnService.getCredentials(request.user.userId);
+        return credentials.map((credential) => new PasskeyDto(credential));
+    }
+
+    @Delete('credentials/:id')
+    @ApiBearerAuth('JWT-auth')
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiOperation({ summary: 'Remove a passkey' })
+    @ApiResponse({ status: 200, description: 'Passkey removed' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    @ApiResponse({ status: 404, description: 'Passkey not found' })
+    public async removeCredential(
+        @Req() request: AuthenticatedRequest,
+        @Param('id', ParseIntPipe) id: number,
+    ): Promise<{ message: string }> {
+        await this.webAuthnService.removeCredential(request.user.userId, id);
+        return { message: 'Passkey removed' };
+    }
+}
+
+export { WebAuthnController };
@@ -0,0 +1,12 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Marks a route as requiring every one of the given permissions.
+ * Must be combined with the JWT auth guard and the PermissionsGuard.
+ *
+ * @param permissions The permission names required to access the route.
+ */
+export const RequirePermissions = (...permissions: string[]): CustomDecorator<string> =>
+    SetMetadata(PERMISSIONS_KEY, permissions);
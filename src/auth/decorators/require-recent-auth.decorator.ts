@@ -0,0 +1,12 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+
+export const RECENT_AUTH_KEY = 'recentAuthMaxAge';
+
+/**
+ * Marks a route as requiring the user to have proven their identity recently, by signing in or
+ * through POST /auth/reauthenticate. Must be combined with the JWT auth guard and the RecentAuthGuard.
+ *
+ * @param maxAgeSeconds How long ago the user may have last proven their identity.
+ */
+export const RequireRecentAuth = (maxAgeSeconds: number): CustomDecorator<string> =>
+    SetMetadata(RECENT_AUTH_KEY, maxAgeSeconds);
@@ -0,0 +1,8 @@
+import { IsEmail } from 'class-validator';
+
+class ForgotPasswordDto {
+    @IsEmail()
+    email: string;
+}
+
+export { ForgotPasswordDto };
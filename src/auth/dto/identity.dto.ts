@@ -0,0 +1,24 @@
+import { UserIdentity } from '../entities/user-identity.entity';
+
+export class IdentityDto {
+    id: number;
+    provider: string;
+    email: string | null;
+    linkedAt: Date;
+    lastUsedAt: Date | null;
+
+    constructor(identity: UserIdentity) {
+        this.id = identity.id;
+        this.provider = identity.provider;
+        this.email = identity.email;
+        this.linkedAt = identity.linkedAt;
+        this.lastUsedAt = identity.lastUsedAt;
+    }
+}
+
+export class LinkIdentityDto {
+    /**
+     * Where to send the browser to approve the link at the provider.
+     */
+    authorizationUrl: string;
+}
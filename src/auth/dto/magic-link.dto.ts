@@ -0,0 +1,12 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+export class RequestMagicLinkDto {
+    @IsEmail()
+    email: string;
+}
+
+export class ConsumeMagicLinkDto {
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
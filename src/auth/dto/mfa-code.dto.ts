@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+class MfaCodeDto {
+    /**
+     * A code from the authenticator app or one of the recovery codes.
+     */
+    @IsString()
+    @IsNotEmpty()
+    code: string;
+}
+
+export { MfaCodeDto };
@@ -0,0 +1,13 @@
+export class MfaSetupDto {
+    secret: string;
+    otpauthUri: string;
+}
+
+export class MfaRecoveryCodesDto {
+    recoveryCodes: string[];
+}
+
+export class MfaChallengeDto {
+    mfaRequired: boolean;
+    mfaToken: string;
+}
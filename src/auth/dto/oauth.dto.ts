@@ -0,0 +1,230 @@
+import {
+    ArrayUnique,
+    IsArray,
+    IsBoolean,
+    IsIn,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    IsUrl,
+    Matches,
+    MaxLength,
+} from 'class-validator';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { OAuthConsent } from '../entities/oauth-consent.entity';
+import { Permissions } from '../constants/permissions';
+import { OAuthGrantTypes } from '../constants/oauth';
+
+/**
+ * The form body of introspection and revocation requests. Client credentials may be sent here
+ * instead of in the Authorization header.
+ */
+export class OAuthTokenRequestDto {
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+
+    @IsOptional()
+    @IsIn(['access_token', 'refresh_token'])
+    token_type_hint?: string;
+
+    @IsOptional()
+    @IsString()
+    client_id?: string;
+
+    @IsOptional()
+    @IsString()
+    client_secret?: string;
+}
+
+/**
+ * The form body of token requests. Which fields are required depends on grant_type.
+ */
+export class OAuthGrantRequestDto {
+    @IsString()
+    @IsNotEmpty()
+    grant_type: string;
+
+    @IsOptional()
+    @IsString()
+    code?: string;
+
+    @IsOptional()
+    @IsString()
+    redirect_uri?: string;
+
+    /**
+     * The PKCE verifier whose S256 hash was sent as code_challenge.
+     */
+    @IsOptional()
+    @Matches(/^[A-Za-z0-9._~-]{43,128}$/, { message: 'code_verifier must be 43 to 128 unreserved characters' })
+    code_verifier?: string;
+
+    @IsOptional()
+    @IsString()
+    refresh_token?: string;
+
+    /**
+     * Space-separated scopes, narrowing those of the grant.
+     */
+    @IsOptional()
+    @IsString()
+    scope?: string;
+
+    @IsOptional()
+    @IsString()
+    client_id?: string;
+
+    @IsOptional()
+    @IsString()
+    client_secret?: string;
+}
+
+/**
+ * The query of an authorization request, forwarded by the consent screen.
+ */
+export class AuthorizationRequestDto {
+    @IsString()
+    @IsNotEmpty()
+    response_type: string;
+
+    @IsString()
+    @IsNotEmpty()
+    client_id: string;
+
+    @IsString()
+    @IsNotEmpty()
+    redirect_uri: string;
+
+    /**
+     * Space-separated scopes. Defaults to every scope the client is registered for.
+     */
+    @IsOptional()
+    @IsString()
+    scope?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(500)
+    state?: string;
+
+    @IsString()
+    @Matches(/^[A-Za-z0-9_-]{43}$/, { message: 'code_challenge must be a base64url encoded SHA-256 hash' })
+    code_challenge: string;
+
+    @IsString()
+    code_challenge_method: string;
+}
+
+export class AuthorizationDecisionDto extends AuthorizationRequestDto {
+    @IsBoolean()
+    approve: boolean;
+}
+
+export class AuthorizationRequestInfoDto {
+    clientId: string;
+    clientName: string;
+    scopes: string[];
+
+    /**
+     * Whether the user already allowed these scopes, so the consent screen may approve without asking.
+     */
+    consentGranted: boolean;
+
+    constructor(client: OAuthClient, scopes: string[], consentGranted: boolean) {
+        this.clientId = client.clientId;
+        this.clientName = client.name;
+        this.scopes = scopes;
+        this.consentGranted = consentGranted;
+    }
+}
+
+export class CreateOAuthClientDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @IsOptional()
+    @IsArray()
+    @ArrayUnique()
+    @IsUrl({ require_tld: false, require_protocol: true, protocols: ['http', 'https'] }, { each: true })
+    redirectUris?: string[];
+
+    /**
+     * Permission names the client may request, such as "users:read".
+     */
+    @IsOptional()
+    @IsArray()
+    @ArrayUnique()
+    @IsIn(Object.values(Permissions), { each: true })
+    scopes?: string[];
+
+    /**
+     * Grants the client may use. Clients without grants may still revoke tokens, and introspect them with canIntrospect.
+     */
+    @IsOptional()
+    @IsArray()
+    @ArrayUnique()
+    @IsIn(Object.values(OAuthGrantTypes), { each: true })
+    grantTypes?: string[];
+
+    /**
+     * Whether the client may introspect tokens issued to other clients, as a resource server does.
+     */
+    @IsOptional()
+    @IsBoolean()
+    canIntrospect?: boolean;
+}
+
+export class OAuthClientDto {
+    id: number;
+    clientId: string;
+    name: string;
+    redirectUris: string[];
+    scopes: string[];
+    grantTypes: string[];
+    canIntrospect: boolean;
+    createdAt: Date;
+
+    constructor(client: OAuthClient) {
+        this.id = client.id;
+        this.clientId = client.clientId;
+        this.name = client.name;
+        this.redirectUris = client.redirectUris;
+        this.scopes = client.scopes;
+        this.grantTypes = client.grantTypes;
+        this.canIntrospect = client.canIntrospect;
+        this.createdAt = client.createdAt;
+    }
+}
+
+export class CreatedOAuthClientDto extends OAuthClientDto {
+    /**
+     * The plaintext client secret. It is only returned once, when the client is created.
+     */
+    clientSecret: string;
+
+    constructor(client: OAuthClient, clientSecret: string) {
+        super(client);
+        this.clientSecret = clientSecret;
+    }
+}
+
+export class OAuthConsentDto {
+    id: number;
+    clientId: string;
+    clientName: string;
+    scopes: string[];
+    createdAt: Date;
+    updatedAt: Date;
+
+    constructor(consent: OAuthConsent) {
+        this.id = consent.id;
+        this.clientId = consent.client.clientId;
+        this.clientName = consent.client.name;
+        this.scopes = consent.scopes;
+        this.createdAt = consent.createdAt;
+        this.updatedAt = consent.updatedAt;
+    }
+}
@@ -0,0 +1,59 @@
+import { ArrayUnique, IsArray, IsIn, IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Permissions } from '../constants/permissions';
+import { PersonalAccessToken } from '../entities/personal-access-token.entity';
+
+export class CreatePersonalAccessTokenDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(64)
+    name: string;
+
+    /**
+     * Permission names the token may use, such as "users:read".
+     */
+    @IsArray()
+    @ArrayUnique()
+    @IsIn(Object.values(Permissions), { each: true })
+    scopes: string[];
+
+    /**
+     * Lifetime in days. The token does not expire when omitted.
+     */
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(365)
+    expiresInDays?: number;
+}
+
+export class PersonalAccessTokenDto {
+    id: number;
+    name: string;
+    tokenPrefix: string;
+    scopes: string[];
+    expiresAt: Date | null;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+
+    constructor(accessToken: PersonalAccessToken) {
+        this.id = accessToken.id;
+        this.name = accessToken.name;
+        this.tokenPrefix = accessToken.tokenPrefix;
+        this.scopes = accessToken.scopes;
+        this.expiresAt = accessToken.expiresAt;
+        this.createdAt = accessToken.createdAt;
+        this.lastUsedAt = accessToken.lastUsedAt;
+    }
+}
+
+export class CreatedPersonalAccessTokenDto extends PersonalAccessTokenDto {
+    /**
+     * The plaintext token. It is only returned once, when the token is created.
+     */
+    token: string;
+
+    constructor(accessToken: PersonalAccessToken, token: string) {
+        super(accessToken);
+        this.token = token;
+    }
+}
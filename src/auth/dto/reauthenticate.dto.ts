@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+class ReauthenticateDto {
+    /**
+     * The current password, required when the account has one.
+     */
+    @IsString()
+    @IsNotEmpty()
+    @IsOptional()
+    password?: string;
+
+    /**
+     * A code from the authenticator app or a recovery code, required when MFA is enabled.
+     */
+    @IsString()
+    @IsNotEmpty()
+    @IsOptional()
+    mfaCode?: string;
+}
+
+export { ReauthenticateDto };
@@ -0,0 +1,8 @@
+import { IsEmail } from 'class-validator';
+
+class ResendVerificationDto {
+    @IsEmail()
+    email: string;
+}
+
+export { ResendVerificationDto };
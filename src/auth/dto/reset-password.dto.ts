@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+class ResetPasswordDto {
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+
+    @IsString()
+    @IsNotEmpty()
+    newPassword: string;
+}
+
+export { ResetPasswordDto };
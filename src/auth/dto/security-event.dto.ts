@@ -0,0 +1,43 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { SecurityEvent } from '../entities/security-event.entity';
+
+export class SecurityEventQueryDto {
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    page: number = 1;
+
+    @IsOptional()
+    @IsInt()
+    @Min(1)
+    @Max(100)
+    limit: number = 20;
+}
+
+export class SecurityEventDto {
+    id: number;
+    type: string;
+    metadata: Record<string, any> | null;
+    createdAt: Date;
+
+    constructor(event: SecurityEvent) {
+        this.id = event.id;
+        this.type = event.type;
+        this.metadata = event.metadata;
+        this.createdAt = event.createdAt;
+    }
+}
+
+export class SecurityEventPageDto {
+    items: SecurityEventDto[];
+    total: number;
+    page: number;
+    limit: number;
+
+    constructor(events: SecurityEvent[], total: number, page: number, limit: number) {
+        this.items = events.map((event) => new SecurityEventDto(event));
+        this.total = total;
+        this.page = page;
+        this.limit = limit;
+    }
+}
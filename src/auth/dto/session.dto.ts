@@ -0,0 +1,23 @@
+import { UserSession } from '../entities/user-session.entity';
+
+class SessionDto {
+    id: string;
+    deviceName: string | null;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: Date;
+    lastUsedAt: Date;
+    current: boolean;
+
+    constructor(session: UserSession, currentSessionId: string | null) {
+        this.id = session.id;
+        this.deviceName = session.deviceName;
+        this.userAgent = session.userAgent;
+        this.ipAddress = session.ipAddress;
+        this.createdAt = session.createdAt;
+        this.lastUsedAt = session.lastUsedAt;
+        this.current = session.id === currentSessionId;
+    }
+}
+
+export { SessionDto };
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class SocialLoginExchangeDto {
+    @IsString()
+    @IsNotEmpty()
+    code: string;
+
+    @Matches(/^[A-Za-z0-9._~-]{43,128}$/, { message: 'codeVerifier must be 43 to 128 unreserved characters' })
+    codeVerifier: string;
+}
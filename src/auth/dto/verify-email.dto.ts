@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+class VerifyEmailDto {
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
+
+export { VerifyEmailDto };
@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+class VerifyMfaDto {
+    @IsString()
+    @IsNotEmpty()
+    mfaToken: string;
+
+    /**
+     * A code from the authenticator app or one of the recovery codes.
+     */
+    @IsString()
+    @IsNotEmpty()
+    code: string;
+}
+
+export { VerifyMfaDto };
@@ -0,0 +1,50 @@
+import { IsEmail, IsNotEmptyObject, IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+import { WebAuthnCredential } from '../entities/web-authn-credential.entity';
+
+export class FinishPasskeyRegistrationDto {
+    /**
+     * The PublicKeyCredential from navigator.credentials.create(), serialized as JSON.
+     */
+    @IsObject()
+    @IsNotEmptyObject()
+    response: RegistrationResponseJSON;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(64)
+    name?: string;
+}
+
+export class StartPasskeyLoginDto {
+    @IsOptional()
+    @IsEmail()
+    email?: string;
+}
+
+export class FinishPasskeyLoginDto {
+    /**
+     * The PublicKeyCredential from navigator.credentials.get(), serialized as JSON.
+     */
+    @IsObject()
+    @IsNotEmptyObject()
+    response: AuthenticationResponseJSON;
+}
+
+export class PasskeyDto {
+    id: number;
+    name: string | null;
+    deviceType: string;
+    backedUp: boolean;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+
+    constructor(credential: WebAuthnCredential) {
+        this.id = credential.id;
+        this.name = credential.name;
+        this.deviceType = credential.deviceType;
+        this.backedUp = credential.backedUp;
+        this.createdAt = credential.createdAt;
+        this.lastUsedAt = credential.lastUsedAt;
+    }
+}
@@ -0,0 +1,33 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+/**
+ * A device a user has signed in from. A login from a device not listed here alerts the user.
+ */
+@Entity()
+@Index(['userId', 'fingerprint'], { unique: true })
+class KnownDevice {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Column()
+    fingerprint: string;
+
+    @Column()
+    deviceName: string;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    firstSeenAt: Date;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    lastSeenAt: Date;
+}
+
+export { KnownDevice };
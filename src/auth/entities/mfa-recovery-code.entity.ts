@@ -0,0 +1,30 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+@Entity()
+class MfaRecoveryCode {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Index()
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    /**
+     * SHA-256 hash of the recovery code; the plaintext is only shown once at enrollment.
+     */
+    @Column()
+    codeHash: string;
+
+    @Column({ type: 'timestamp', nullable: true })
+    usedAt: Date | null;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+}
+
+export { MfaRecoveryCode };
@@ -0,0 +1,56 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+import { OAuthClient } from './oauth-client.entity';
+
+/**
+ * A single-use authorization code issued after the user approved a client. Only its hash is
+ * stored, and it is deleted when exchanged for tokens.
+ */
+@Entity()
+class OAuthAuthorizationCode {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Index({ unique: true })
+    @Column()
+    codeHash: string;
+
+    @Index()
+    @Column()
+    clientId: number;
+
+    @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'clientId' })
+    client: OAuthClient;
+
+    @Index()
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    /**
+     * The redirect URI of the authorization request, which the token request must repeat.
+     */
+    @Column({ type: 'text' })
+    redirectUri: string;
+
+    @Column({ type: 'text', array: true, default: '{}' })
+    scopes: string[];
+
+    /**
+     * The S256 PKCE challenge the code verifier must match.
+     */
+    @Column()
+    codeChallenge: string;
+
+    @Column({ type: 'timestamp' })
+    expiresAt: Date;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+}
+
+export { OAuthAuthorizationCode };
@@ -0,0 +1,54 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+/**
+ * An application registered to call the OAuth endpoints, such as a partner application acting
+ * for users or a resource server introspecting the tokens it receives.
+ */
+@Entity()
+class OAuthClient {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Index({ unique: true })
+    @Column()
+    clientId: string;
+
+    /**
+     * SHA-256 hash of the client secret. The plaintext is shown once when the client is registered.
+     */
+    @Column()
+    clientSecretHash: string;
+
+    @Column()
+    name: string;
+
+    /**
+     * Exact URIs the authorization code may be sent to. Required for the authorization_code grant.
+     */
+    @Column({ type: 'text', array: true, default: '{}' })
+    redirectUris: string[];
+
+    /**
+     * Permissions the client may request. Users still only delegate permissions they hold.
+     */
+    @Column({ type: 'text', array: true, default: '{}' })
+    scopes: string[];
+
+    /**
+     * Grants the client may use at the token endpoint, such as "authorization_code".
+     */
+    @Column({ type: 'text', array: true, default: '{}' })
+    grantTypes: string[];
+
+    /**
+     * Whether the client may introspect tokens issued to other clients, as a resource server does.
+     * Without it a client only sees its own tokens.
+     */
+    @Column({ default: false })
+    canIntrospect: boolean;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+}
+
+export { OAuthClient };
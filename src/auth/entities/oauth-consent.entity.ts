@@ -0,0 +1,40 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+import { OAuthClient } from './oauth-client.entity';
+
+/**
+ * The scopes a user has allowed an OAuth client to use. Later authorization requests within
+ * these scopes do not need to ask the user again.
+ */
+@Entity()
+@Index(['userId', 'clientId'], { unique: true })
+class OAuthConsent {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Index()
+    @Column()
+    clientId: number;
+
+    @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'clientId' })
+    client: OAuthClient;
+
+    @Column({ type: 'text', array: true, default: '{}' })
+    scopes: string[];
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    updatedAt: Date;
+}
+
+export { OAuthConsent };
@@ -0,0 +1,36 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+@Entity()
+class PasswordResetToken {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /**
+     * SHA-256 hash of the token sent to the user; the plaintext is never stored.
+     */
+    @Index({ unique: true })
+    @Column()
+    tokenHash: string;
+
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Column({ type: 'timestamp' })
+    expiresAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    usedAt: Date | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    requestedIp: string | null;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+}
+
+export { PasswordResetToken };
@@ -0,0 +1,53 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+/**
+ * A long-lived API credential for scripts and integrations. Only the hash of the token is
+ * stored; the plaintext is shown once when the token is created.
+ */
+@Entity()
+class PersonalAccessToken {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Index()
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    /**
+     * Label the user gave the token, such as "CI deploy".
+     */
+    @Column()
+    name: string;
+
+    /**
+     * The first characters of the token, kept so the user can recognise it in the list.
+     */
+    @Column()
+    tokenPrefix: string;
+
+    @Index({ unique: true })
+    @Column()
+    tokenHash: string;
+
+    /**
+     * Permissions the token may use. The owner's current permissions still apply on top.
+     */
+    @Column({ type: 'text', array: true, default: '{}' })
+    scopes: string[];
+
+    @Column({ type: 'timestamp', nullable: true })
+    expiresAt: Date | null;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastUsedAt: Date | null;
+}
+
+export { PersonalAccessToken };
@@ -1,13 +1,19 @@
-import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { User } from '../../modules/user/entities/user.entity';
+import { UserSession } from './user-session.entity';
+import { OAuthClient } from './oauth-client.entity';
 
 @Entity()
 class RefreshToken {
     @PrimaryGeneratedColumn()
     id: number;
 
-    @Column({ type: 'text' })
-    token: string;
+    /**
+     * Keyed hash of the token, the token itself is never stored.
+     */
+    @Index({ unique: true })
+    @Column()
+    tokenHash: string;
 
     @Column()
     userId: number;
@@ -16,6 +22,41 @@ class RefreshToken {
     @JoinColumn({ name: 'userId' })
     user: User;
 
+    /**
+     * Groups every token descended from a single login through rotation. Also the ID of the session.
+     */
+    @Index()
+    @Column({ type: 'uuid' })
+    familyId: string;
+
+    @ManyToOne(() => UserSession, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'familyId' })
+    session: UserSession;
+
+    /**
+     * The token that was rotated to issue this one, null for the first token of a family.
+     */
+    @Index()
+    @Column({ type: 'int', nullable: true })
+    parentId: number | null;
+
+    /**
+     * The OAuth client the token was issued to, null for tokens of a first-party login.
+     */
+    @Index()
+    @Column({ type: 'int', nullable: true })
+    clientId: number | null;
+
+    @ManyToOne(() => OAuthClient, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'clientId' })
+    client: OAuthClient | null;
+
+    /**
+     * Permissions delegated to the OAuth client, null for tokens of a first-party login.
+     */
+    @Column({ type: 'text', array: true, nullable: true })
+    scopes: string[] | null;
+
     @Column({ type: 'timestamp' })
     expiresAt: Date;
 
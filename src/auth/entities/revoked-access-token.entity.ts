@@ -0,0 +1,23 @@
+import { Entity, Column, PrimaryColumn, Index } from 'typeorm';
+
+/**
+ * An access token revoked before it expired. Entries are only needed until the token would
+ * have expired anyway, after which they are cleaned up.
+ */
+@Entity()
+class RevokedAccessToken {
+    /**
+     * The "jti" claim of the revoked token.
+     */
+    @PrimaryColumn()
+    jti: string;
+
+    @Index()
+    @Column({ type: 'timestamp' })
+    expiresAt: Date;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    revokedAt: Date;
+}
+
+export { RevokedAccessToken };
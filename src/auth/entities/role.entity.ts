@@ -0,0 +1,24 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToMany, JoinTable } from 'typeorm';
+import { Permission } from './permission.entity';
+
+@Entity()
+class Role {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ unique: true })
+    name: string;
+
+    @Column({ type: 'text', nullable: true })
+    description: string | null;
+
+    @ManyToMany(() => Permission, { eager: true })
+    @JoinTable({
+        name: 'role_permissions',
+        joinColumn: { name: 'roleId' },
+        inverseJoinColumn: { name: 'permissionId' },
+    })
+    permissions: Permission[];
+}
+
+export { Role };
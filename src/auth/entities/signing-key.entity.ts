@@ -0,0 +1,40 @@
+import { Entity, Column, PrimaryColumn } from 'typeorm';
+
+/**
+ * An asymmetric key pair for signing access tokens. The newest key that is not retired signs
+ * new tokens; retired keys stay published for verification until their grace window ends.
+ */
+@Entity()
+class SigningKey {
+    /**
+     * Key ID, sent as the "kid" header of every token signed with the key.
+     */
+    @PrimaryColumn()
+    kid: string;
+
+    /**
+     * JWS algorithm, RS256 or ES256.
+     */
+    @Column()
+    algorithm: string;
+
+    /**
+     * PEM encoded SPKI public key.
+     */
+    @Column({ type: 'text' })
+    publicKey: string;
+
+    /**
+     * PEM encoded PKCS#8 private key.
+     */
+    @Column({ type: 'text' })
+    privateKey: string;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    retiredAt: Date | null;
+}
+
+export { SigningKey };
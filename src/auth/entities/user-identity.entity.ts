@@ -0,0 +1,49 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+/**
+ * An external login linked to an account, such as a Google or OpenID Connect identity.
+ * Identities are matched on provider and subject only, never on email address.
+ */
+@Entity()
+@Index(['provider', 'providerSubject'], { unique: true })
+class UserIdentity {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Index()
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    /**
+     * Provider name, "google", "facebook", "ldap" for accounts provisioned from the directory,
+     * or the name of an OIDC provider.
+     */
+    @Column()
+    provider: string;
+
+    /**
+     * The stable user ID assigned by the provider, the "sub" claim for OpenID Connect and the
+     * lowercased bind name for LDAP.
+     */
+    @Column()
+    providerSubject: string;
+
+    /**
+     * Email address reported by the provider when linked, for display only.
+     */
+    @Column({ type: 'varchar', nullable: true })
+    email: string | null;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    linkedAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastUsedAt: Date | null;
+}
+
+export { UserIdentity };
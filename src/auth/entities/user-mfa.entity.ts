@@ -0,0 +1,41 @@
+import { Entity, Column, PrimaryColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+@Entity()
+class UserMfa {
+    @PrimaryColumn()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    /**
+     * Base32 encoded TOTP secret shared with the user's authenticator app.
+     */
+    @Column()
+    secret: string;
+
+    /**
+     * Set once the user proves the authenticator works; until then the enrollment is pending.
+     */
+    @Column({ type: 'timestamp', nullable: true })
+    enabledAt: Date | null;
+
+    /**
+     * Last time step a code was accepted for, so a code cannot be replayed within its window.
+     */
+    @Column({ type: 'integer', nullable: true })
+    lastUsedStep: number | null;
+
+    /**
+     * Wrong codes entered at login since the last accepted one, counted across challenges.
+     */
+    @Column({ default: 0 })
+    failedAttempts: number;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+}
+
+export { UserMfa };
@@ -0,0 +1,39 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+/**
+ * A signed-in device. Its ID is the family ID shared by every refresh token rotated from the login.
+ */
+@Entity()
+class UserSession {
+    @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+    @Index()
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Column({ type: 'text', nullable: true })
+    userAgent: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    ipAddress: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    deviceName: string | null;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    lastUsedAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    revokedAt: Date | null;
+}
+
+export { UserSession };
@@ -0,0 +1,39 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+@Entity()
+class WebAuthnChallenge {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /**
+     * Base64url challenge sent to the browser; the client data of the response must echo it.
+     */
+    @Index({ unique: true })
+    @Column()
+    challenge: string;
+
+    /**
+     * Either 'registration' or 'authentication'.
+     */
+    @Column()
+    type: string;
+
+    /**
+     * The user the ceremony is for. Empty for usernameless passkey logins.
+     */
+    @Column({ type: 'integer', nullable: true })
+    userId: number | null;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User | null;
+
+    @Column({ type: 'timestamp' })
+    expiresAt: Date;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+}
+
+export { WebAuthnChallenge };
@@ -0,0 +1,63 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { User } from '../../modules/user/entities/user.entity';
+
+@Entity()
+class WebAuthnCredential {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Index()
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    /**
+     * Base64url credential ID chosen by the authenticator.
+     */
+    @Index({ unique: true })
+    @Column()
+    credentialId: string;
+
+    /**
+     * COSE encoded public key used to verify assertions.
+     */
+    @Column({ type: 'bytea' })
+    publicKey: Buffer;
+
+    /**
+     * Signature counter reported by the authenticator. A value that stops increasing
+     * can indicate a cloned authenticator.
+     */
+    @Column({
+        type: 'bigint',
+        default: 0,
+        transformer: { to: (value: number) => value, from: (value: string) => Number(value) },
+    })
+    counter: number;
+
+    @Column({ type: 'text', array: true, nullable: true })
+    transports: string[] | null;
+
+    @Column()
+    deviceType: string;
+
+    @Column({ default: false })
+    backedUp: boolean;
+
+    /**
+     * Label the user gave the passkey, such as "Work laptop".
+     */
+    @Column({ type: 'varchar', nullable: true })
+    name: string | null;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    createdAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastUsedAt: Date | null;
+}
+
+export { WebAuthnCredential };
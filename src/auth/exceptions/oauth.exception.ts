@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * An error from the OAuth endpoints, answered in the RFC 6749 format by the OAuthExceptionFilter.
+ */
+export class OAuthException extends HttpException {
+    constructor(
+        public readonly error: string,
+        public readonly errorDescription: string,
+        status: number = HttpStatus.BAD_REQUEST,
+    ) {
+        super({ error, error_description: errorDescription }, status);
+    }
+
+    public static invalidClient(description = 'Client authentication failed'): OAuthException {
+        return new OAuthException('invalid_client', description, HttpStatus.UNAUTHORIZED);
+    }
+
+    public static invalidRequest(description: string): OAuthException {
+        return new OAuthException('invalid_request', description);
+    }
+}
@@ -0,0 +1,11 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * A failed Google or Facebook login, answered by the SocialLoginExceptionFilter with a redirect
+ * carrying the reason code rather than an error body the browser would show.
+ */
+export class SocialLoginException extends HttpException {
+    constructor(public readonly reason: string) {
+        super({ error: reason }, HttpStatus.UNAUTHORIZED);
+    }
+}
@@ -0,0 +1,33 @@
+import { ArgumentsHost, BadRequestException, Catch, ExceptionFilter, HttpStatus } from '@nestjs/common';
+import { Response } from 'express';
+import { OAuthException } from '../exceptions/oauth.exception';
+
+/**
+ * Answers errors on the OAuth endpoints with the JSON body clients expect from RFC 6749,
+ * instead of the format of the AllExceptionsFilter. Validation errors become invalid_request.
+ */
+@Catch(OAuthException, BadRequestException)
+class OAuthExceptionFilter implements ExceptionFilter {
+    public catch(exception: OAuthException | BadRequestException, host: ArgumentsHost): void {
+        const response = host.switchToHttp().getResponse<Response>();
+
+        const oauthException =
+            exception instanceof OAuthException ? exception : OAuthException.invalidRequest(this.getMessage(exception));
+
+        if (oauthException.getStatus() === HttpStatus.UNAUTHORIZED) {
+            response.setHeader('WWW-Authenticate', 'Basic realm="oauth"');
+        }
+
+        response
+            .status(oauthException.getStatus())
+            .setHeader('Cache-Control', 'no-store')
+            .json({ error: oauthException.error, error_description: oauthException.errorDescription });
+    }
+
+    private getMessage(exception: BadRequestException): string {
+        const message = (exception.getResponse() as any).message;
+        return Array.isArray(message) ? message.join(', ') : String(message);
+    }
+}
+
+export { OAuthExceptionFilter };
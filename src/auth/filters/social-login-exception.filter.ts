@@ -0,0 +1,60 @@
+import {
+    ArgumentsHost,
+    BadRequestException,
+    Catch,
+    ExceptionFilter,
+    Injectable,
+    UnauthorizedException,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { SocialLoginService } from '../services/social-login.service';
+import { SocialLoginException } from '../exceptions/social-login.exception';
+import { SocialLoginErrors } from '../constants/social-login';
+
+/**
+ * Answers failed Google and Facebook callbacks the way the login was started, with a reason code
+ * the frontend or app can show, instead of an error body left in the browser tab.
+ */
+@Injectable()
+@Catch()
+class SocialLoginExceptionFilter implements ExceptionFilter {
+    constructor(
+        private readonly socialLoginService: SocialLoginService,
+        private readonly logger: AppLoggerService,
+    ) {}
+
+    public catch(exception: unknown, host: ArgumentsHost): void {
+        const request = host.switchToHttp().getRequest<Request>();
+        const response = host.switchToHttp().getResponse<Response>();
+
+        const reason = this.getReason(exception);
+        if (!(exception instanceof SocialLoginException)) {
+            const message = exception instanceof Error ? exception.message : String(exception);
+            this.logger.warn(`Social login failed with ${reason}: ${message}`, 'SocialLoginExceptionFilter');
+        }
+
+        this.socialLoginService.clearStateCookie(response);
+        this.socialLoginService.sendResult(response, this.socialLoginService.getPendingLogin(request), { error: reason });
+    }
+
+    private getReason(exception: unknown): string {
+        if (exception instanceof SocialLoginException) {
+            return exception.reason;
+        }
+
+        // OAuthUserInterceptor rejects profiles without an email address
+        if (exception instanceof BadRequestException) {
+            return SocialLoginErrors.INVALID_PROFILE;
+        }
+
+        // The provider strategy only fails, rather than errors, when the state does not verify
+        if (exception instanceof UnauthorizedException) {
+            return SocialLoginErrors.INVALID_STATE;
+        }
+
+        return SocialLoginErrors.PROVIDER_ERROR;
+    }
+}
+
+export { SocialLoginExceptionFilter };
@@ -0,0 +1,68 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { REFRESH_TOKEN_COOKIE } from '../utils/refresh-token-cookie';
+import { CSRF_TOKEN_COOKIE, CSRF_TOKEN_HEADER } from '../utils/csrf-token-cookie';
+
+@Injectable()
+class CsrfGuard implements CanActivate {
+    constructor(private readonly configService: ConfigService) {}
+
+    /**
+     * Protects endpoints authenticated by the refresh token cookie against cross-site request
+     * forgery. The request must come from the frontend origin, when the browser names one, and
+     * must echo the CSRF token cookie in the X-CSRF-Token header, which another site cannot read.
+     *
+     * @param context The current execution context.
+     * @returns True if the request carries no refresh token cookie or passes both checks.
+     * @throws ForbiddenException if the origin is not the frontend or the CSRF token does not match.
+     */
+    public canActivate(context: ExecutionContext): boolean {
+        const request = context.switchToHttp().getRequest<Request>();
+
+        // Without the cookie there is no session a forged request could act with
+        if (!request.cookies?.[REFRESH_TOKEN_COOKIE]) {
+            return true;
+        }
+
+        if (!this.isAllowedOrigin(request)) {
+            throw new ForbiddenException('Request origin is not allowed');
+        }
+
+        if (!this.tokensMatch(request.cookies[CSRF_TOKEN_COOKIE], request.get(CSRF_TOKEN_HEADER))) {
+            throw new ForbiddenException('Invalid CSRF token');
+        }
+
+        return true;
+    }
+
+    /**
+     * Browsers send Origin on cross-origin POSTs, and Referer when a privacy setting strips Origin.
+     * Clients sending neither are not browsers, which cannot be forged into a request anyway.
+     */
+    private isAllowedOrigin(request: Request): boolean {
+        const source = request.get('origin') || request.get('referer');
+        if (!source) {
+            return true;
+        }
+
+        try {
+            return new URL(source).origin === new URL(this.configService.get('frontend.url', '')).origin;
+        } catch {
+            return false;
+        }
+    }
+
+    private tokensMatch(cookieToken: unknown, headerToken: string | undefined): boolean {
+        if (typeof cookieToken !== 'string' || !cookieToken || !headerToken) {
+            return false;
+        }
+
+        const expected = Buffer.from(cookieToken);
+        const presented = Buffer.from(headerToken);
+        return expected.length === presented.length && timingSafeEqual(expected, presented);
+    }
+}
+
+export { CsrfGuard };
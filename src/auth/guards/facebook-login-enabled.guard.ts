@@ -0,0 +1,24 @@
+import { CanActivate, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+@Injectable()
+class FacebookLoginEnabledGuard implements CanActivate {
+    constructor(private readonly configService: ConfigService) {}
+
+    /**
+     * Hides the Facebook login routes when Facebook is not configured, as its strategy is not
+     * registered then. Must run before the Facebook auth guard.
+     *
+     * @returns True if Facebook login is configured.
+     * @throws NotFoundException if FACEBOOK_CLIENT_ID is not set.
+     */
+    public canActivate(): boolean {
+        if (!this.configService.get('oauth.facebook.clientId')) {
+            throw new NotFoundException('Facebook login is not configured');
+        }
+
+        return true;
+    }
+}
+
+export { FacebookLoginEnabledGuard };
@@ -0,0 +1,25 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { AuthenticatedRequest } from '../interfaces';
+
+@Injectable()
+class NoImpersonationGuard implements CanActivate {
+    /**
+     * Blocks sensitive account changes, such as a password change, while an admin is
+     * impersonating the user. Must run after the JWT auth guard.
+     *
+     * @param context The current execution context.
+     * @returns True if the request is not made with an impersonation token.
+     * @throws ForbiddenException if an admin is impersonating the user.
+     */
+    public canActivate(context: ExecutionContext): boolean {
+        const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+        if (user?.impersonator) {
+            throw new ForbiddenException('This action is not allowed while impersonating a user');
+        }
+
+        return true;
+    }
+}
+
+export { NoImpersonationGuard };
@@ -0,0 +1,60 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { OAuthClientService } from '../services/oauth-client.service';
+import { OAuthException } from '../exceptions/oauth.exception';
+import { OAuthClientRequest } from '../interfaces';
+
+@Injectable()
+class OAuthClientGuard implements CanActivate {
+    constructor(private readonly oauthClientService: OAuthClientService) {}
+
+    /**
+     * Authenticates the calling client with HTTP Basic credentials (client_secret_basic) or
+     * client_id and client_secret form fields (client_secret_post), and attaches it to the request.
+     *
+     * @param context The current execution context.
+     * @returns True once the client is authenticated.
+     * @throws OAuthException invalid_client if the client cannot be authenticated.
+     */
+    public async canActivate(context: ExecutionContext): Promise<boolean> {
+        const request = context.switchToHttp().getRequest<OAuthClientRequest>();
+        const authorization = request.headers.authorization || '';
+        const { client_id: bodyClientId, client_secret: bodyClientSecret } = request.body || {};
+
+        let credentials: [string, string] | null = null;
+        if (authorization.startsWith('Basic ')) {
+            if (bodyClientId || bodyClientSecret) {
+                throw OAuthException.invalidRequest('Only one client authentication method may be used');
+            }
+            credentials = this.parseBasicCredentials(authorization.slice('Basic '.length));
+        } else if (typeof bodyClientId === 'string' && typeof bodyClientSecret === 'string') {
+            credentials = [bodyClientId, bodyClientSecret];
+        }
+
+        if (!credentials) {
+            throw OAuthException.invalidClient();
+        }
+
+        request.oauthClient = await this.oauthClientService.authenticateClient(...credentials);
+        return true;
+    }
+
+    /**
+     * RFC 6749 form-encodes the ID and secret before joining them, so both are decoded separately.
+     */
+    private parseBasicCredentials(encoded: string): [string, string] | null {
+        const decoded = Buffer.from(encoded, 'base64').toString();
+        const separator = decoded.indexOf(':');
+        if (separator === -1) {
+            return null;
+        }
+
+        try {
+            const decode = (value: string): string => decodeURIComponent(value.replace(/\+/g, ' '));
+            return [decode(decoded.slice(0, separator)), decode(decoded.slice(separator + 1))];
+        } catch {
+            return null;
+        }
+    }
+}
+
+export { OAuthClientGuard };
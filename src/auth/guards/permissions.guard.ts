@@ -0,0 +1,40 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { AuthenticatedRequest } from '../interfaces';
+
+@Injectable()
+class PermissionsGuard implements CanActivate {
+    constructor(private readonly reflector: Reflector) {}
+
+    /**
+     * Allows the request only when the authenticated user holds every permission
+     * declared with @RequirePermissions() on the handler or its controller.
+     *
+     * @param context The current execution context.
+     * @returns True if the user is allowed to access the route.
+     * @throws ForbiddenException if a required permission is missing.
+     */
+    public canActivate(context: ExecutionContext): boolean {
+        const requiredPermissions = this.reflector.getAllAndOverride<string[]>(PERMISSIONS_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (!requiredPermissions || requiredPermissions.length === 0) {
+            return true;
+        }
+
+        const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+        const grantedPermissions = user?.permissions || [];
+
+        const hasAllPermissions = requiredPermissions.every((permission) => grantedPermissions.includes(permission));
+        if (!hasAllPermissions) {
+            throw new ForbiddenException('Insufficient permissions');
+        }
+
+        return true;
+    }
+}
+
+export { PermissionsGuard };
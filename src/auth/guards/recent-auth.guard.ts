@@ -0,0 +1,36 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RECENT_AUTH_KEY } from '../decorators/require-recent-auth.decorator';
+import { AuthenticatedRequest } from '../interfaces';
+import { assertRecentAuth } from '../utils/recent-auth';
+
+@Injectable()
+class RecentAuthGuard implements CanActivate {
+    constructor(private readonly reflector: Reflector) {}
+
+    /**
+     * Allows the request only when the user proved their identity within the max age declared
+     * with @RequireRecentAuth() on the handler or its controller. Must run after the JWT auth guard.
+     *
+     * @param context The current execution context.
+     * @returns True if the user authenticated recently enough, or the route declares no max age.
+     * @throws ForbiddenException with the reauthentication_required error otherwise.
+     */
+    public canActivate(context: ExecutionContext): boolean {
+        const maxAgeSeconds = this.reflector.getAllAndOverride<number>(RECENT_AUTH_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (maxAgeSeconds === undefined) {
+            return true;
+        }
+
+        const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+        assertRecentAuth(user, maxAgeSeconds);
+
+        return true;
+    }
+}
+
+export { RecentAuthGuard };
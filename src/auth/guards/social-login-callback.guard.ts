@@ -0,0 +1,35 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { SocialLoginException } from '../exceptions/social-login.exception';
+import { SocialLoginErrors } from '../constants/social-login';
+
+@Injectable()
+class SocialLoginCallbackGuard implements CanActivate {
+    /**
+     * Rejects provider callbacks without an authorization code before the provider strategy runs,
+     * which would otherwise start a new login instead. Must run before the provider auth guard.
+     *
+     * @param context The current execution context.
+     * @returns True if the provider sent an authorization code.
+     * @throws SocialLoginException access_denied if the user declined, or another reason code.
+     */
+    public canActivate(context: ExecutionContext): boolean {
+        const { query } = context.switchToHttp().getRequest<Request>();
+
+        if (query.error === 'access_denied') {
+            throw new SocialLoginException(SocialLoginErrors.ACCESS_DENIED);
+        }
+
+        if (query.error || query.error_code) {
+            throw new SocialLoginException(SocialLoginErrors.PROVIDER_ERROR);
+        }
+
+        if (typeof query.code !== 'string' || typeof query.state !== 'string') {
+            throw new SocialLoginException(SocialLoginErrors.INVALID_CALLBACK);
+        }
+
+        return true;
+    }
+}
+
+export { SocialLoginCallbackGuard };
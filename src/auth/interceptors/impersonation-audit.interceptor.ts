@@ -0,0 +1,30 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { AuthenticatedRequest } from '../interfaces';
+
+/**
+ * Writes every request made with an impersonation token to the audit log under the admin's ID,
+ * so the actions of support staff can be told apart from those of the user.
+ */
+@Injectable()
+class ImpersonationAuditInterceptor implements NestInterceptor {
+    constructor(private readonly logger: AppLoggerService) {}
+
+    public intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+        const impersonator = request.user?.impersonator;
+
+        if (impersonator) {
+            this.logger.logUserAction(String(impersonator.userId), 'impersonated_request', {
+                impersonatedUserId: request.user.userId,
+                method: request.method,
+                path: request.originalUrl,
+            });
+        }
+
+        return next.handle();
+    }
+}
+
+export { ImpersonationAuditInterceptor };
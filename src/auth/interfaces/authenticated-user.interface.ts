@@ -0,0 +1,27 @@
+import { Request } from 'express';
+
+/**
+ * The admin acting as the user, from the "act" claim of an impersonation token.
+ */
+interface Impersonator {
+    userId: number;
+    username: string;
+}
+
+interface AuthenticatedUser {
+    userId: number;
+    username: string;
+    roles: string[];
+    permissions: string[];
+    impersonator?: Impersonator;
+    /**
+     * When the user last proved their identity, in seconds since the epoch. Only set for access tokens.
+     */
+    authTime?: number;
+}
+
+interface AuthenticatedRequest extends Request {
+    user: AuthenticatedUser;
+}
+
+export { AuthenticatedUser, AuthenticatedRequest, Impersonator };
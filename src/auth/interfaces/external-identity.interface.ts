@@ -0,0 +1,10 @@
+/**
+ * An identity asserted by an external login provider, before it is matched to an account.
+ */
+interface ExternalIdentity {
+    provider: string;
+    subject: string;
+    email: string | null;
+}
+
+export { ExternalIdentity };
@@ -1,2 +1,11 @@
 export { JwtPayload } from './jwt-payload.interface';
 export { OAuthRequest } from './oauth-controller.interface';
+export { AuthenticatedUser, AuthenticatedRequest, Impersonator } from './authenticated-user.interface';
+export { SessionContext } from './session-context.interface';
+export { MfaChallenge, PendingMfaLogin } from './mfa-challenge.interface';
+export { OidcProviderConfig, OidcIdentity } from './oidc.interface';
+export { ExternalIdentity } from './external-identity.interface';
+export { OAuthClientRequest, OAuthGrant, OAuthTokenResponse, TokenIntrospection } from './oauth.interface';
+export { TokenPolicy } from './token-policy.interface';
+export { PendingSocialLogin } from './social-login.interface';
+export { LdapConfig, LdapProfile } from './ldap.interface';
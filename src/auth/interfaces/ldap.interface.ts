@@ -0,0 +1,28 @@
+/**
+ * The LDAP directory declared through the LDAP_* environment variables.
+ */
+interface LdapConfig {
+    url: string | null;
+    startTls: boolean;
+    bindDnTemplate: string | null;
+    bindDn: string | null;
+    bindPassword: string | null;
+    searchBase: string | null;
+    searchFilter: string;
+    attributes: { email: string; firstName: string; lastName: string; groups: string };
+    groupRoles: { group: string; role: string }[];
+    timeoutMs: number;
+}
+
+/**
+ * The directory entry of a user who has just bound with their own password.
+ */
+interface LdapProfile {
+    dn: string;
+    email: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    groups: string[];
+}
+
+export { LdapConfig, LdapProfile };
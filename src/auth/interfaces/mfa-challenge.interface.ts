@@ -0,0 +1,15 @@
+/**
+ * Returned from login instead of a JwtPayload when the user still has to pass the second factor.
+ */
+export interface MfaChallenge {
+    mfaRequired: true;
+    mfaToken: string;
+}
+
+/**
+ * The login an MFA challenge belongs to.
+ */
+export interface PendingMfaLogin {
+    userId: number;
+    method: string;
+}
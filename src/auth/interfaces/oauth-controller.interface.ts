@@ -1,13 +1,20 @@
 import { Request } from 'express';
+import { PendingSocialLogin } from './social-login.interface';
 
 interface OAuthRequest extends Request {
     user: {
+        provider: string;
+        providerId: string;
         accessToken: string;
         email: string;
         firstName: string;
         lastName: string;
         picture: string;
     };
+    /**
+     * Set by the provider strategy once the state of the callback is verified.
+     */
+    authInfo: { state: PendingSocialLogin };
 }
 
 export { OAuthRequest };
@@ -0,0 +1,42 @@
+import { Request } from 'express';
+import { OAuthClient } from '../entities/oauth-client.entity';
+
+interface OAuthClientRequest extends Request {
+    oauthClient: OAuthClient;
+}
+
+/**
+ * The OAuth client and scopes a refresh token is delegated to.
+ */
+interface OAuthGrant {
+    clientId: number;
+    scopes: string[];
+}
+
+/**
+ * The RFC 7662 introspection response. Only "active" is present for an inactive token.
+ */
+interface TokenIntrospection {
+    active: boolean;
+    token_type?: 'access_token' | 'refresh_token';
+    client_id?: string;
+    scope?: string;
+    sub?: string;
+    username?: string;
+    exp?: number;
+    iat?: number;
+    jti?: string;
+}
+
+/**
+ * The RFC 6749 token endpoint response.
+ */
+interface OAuthTokenResponse {
+    access_token: string;
+    token_type: 'Bearer';
+    expires_in: number;
+    refresh_token?: string;
+    scope: string;
+}
+
+export { OAuthClientRequest, OAuthGrant, OAuthTokenResponse, TokenIntrospection };
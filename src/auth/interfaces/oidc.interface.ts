@@ -0,0 +1,26 @@
+/**
+ * An OpenID Connect identity provider declared through the OIDC_* environment variables.
+ */
+interface OidcProviderConfig {
+    name: string;
+    issuer: string;
+    clientId: string;
+    clientSecret: string;
+    scopes: string[];
+    callbackUrl: string;
+}
+
+/**
+ * The identity asserted by a provider once its ID token has been validated.
+ */
+interface OidcIdentity {
+    provider: string;
+    subject: string;
+    email: string | null;
+    emailVerified: boolean;
+    firstName: string | null;
+    lastName: string | null;
+    picture: string | null;
+}
+
+export { OidcProviderConfig, OidcIdentity };
@@ -0,0 +1,13 @@
+/**
+ * Describes the client a session is created or refreshed from.
+ */
+interface SessionContext {
+    userAgent?: string | null;
+    ipAddress?: string | null;
+    /**
+     * Overrides the name derived from the user agent, such as the name of an OAuth client.
+     */
+    deviceName?: string | null;
+}
+
+export { SessionContext };
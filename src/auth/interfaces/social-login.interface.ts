@@ -0,0 +1,17 @@
+/**
+ * A Google or Facebook login in progress, carried through the provider in the signed state.
+ */
+interface PendingSocialLogin {
+    provider: string;
+    mode: string;
+    /**
+     * The frontend path to return to, already checked against OAUTH_RETURN_PATHS.
+     */
+    returnTo: string;
+    /**
+     * The PKCE challenge of the mobile app, which must present the verifier to redeem the login code.
+     */
+    codeChallenge: string | null;
+}
+
+export { PendingSocialLogin };
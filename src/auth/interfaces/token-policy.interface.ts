@@ -0,0 +1,25 @@
+/**
+ * Describes how long issued tokens stay valid. Every value is in seconds.
+ */
+interface TokenPolicy {
+    accessTokenLifetime: number;
+    impersonationTokenLifetime: number;
+    /**
+     * The lifetime of the access token issued when the user proves their identity again.
+     */
+    reauthenticationTokenLifetime: number;
+    /**
+     * The sliding limit: each refresh extends the session by this long.
+     */
+    refreshTokenLifetime: number;
+    /**
+     * The absolute limit: no refresh extends the session past this long after sign-in.
+     */
+    sessionMaxAge: number;
+    /**
+     * Leeway granted when checking the expiry of a token signed on a server with a skewed clock.
+     */
+    clockTolerance: number;
+}
+
+export { TokenPolicy };
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, Repository } from 'typeorm';
+import { RevokedAccessToken } from '../entities/revoked-access-token.entity';
+
+@Injectable()
+class AccessTokenDenylistService {
+    constructor(
+        @InjectRepository(RevokedAccessToken)
+        private readonly revokedTokenRepository: Repository<RevokedAccessToken>,
+    ) {}
+
+    /**
+     * Rejects an access token from now on, until it expires.
+     *
+     * @param jti The "jti" claim of the token.
+     * @param expiresAt When the token expires, after which the entry can be dropped.
+     */
+    public async revoke(jti: string, expiresAt: Date): Promise<void> {
+        await this.revokedTokenRepository.upsert({ jti, expiresAt }, ['jti']);
+    }
+
+    public async isRevoked(jti: string): Promise<boolean> {
+        return (await this.revokedTokenRepository.count({ where: { jti } })) > 0;
+    }
+
+    @Cron(CronExpression.EVERY_HOUR)
+    public async removeExpiredEntries(): Promise<void> {
+        await this.revokedTokenRepository.delete({ expiresAt: LessThan(new Date()) });
+    }
+}
+
+export { AccessTokenDenylistService };
@@ -0,0 +1,95 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { User } from 'src/modules/user/entities/user.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { EmailVerificationToken } from '../entities/email-verification-token.entity';
+import { generateToken, hashToken } from '../utils/tokens';
+
+@Injectable()
+class EmailVerificationService {
+    constructor(
+        @InjectRepository(EmailVerificationToken)
+        private readonly verificationTokenRepository: Repository<EmailVerificationToken>,
+        private readonly userService: UserService,
+        private readonly notificationService: NotificationService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    public isVerificationRequired(): boolean {
+        return Boolean(this.configService.get('auth.requireEmailVerification'));
+    }
+
+    /**
+     * Issues a fresh verification token for the user and sends it by email.
+     * Any earlier unused token is discarded so only the latest link works.
+     *
+     * @param user The user whose email address should be verified.
+     */
+    public async sendVerification(user: User): Promise<void> {
+        if (user.emailVerifiedAt) {
+            return;
+        }
+
+        await this.verificationTokenRepository.delete({ userId: user.id, usedAt: IsNull() });
+
+        const token = generateToken();
+        const expiresAt = new Date();
+        expiresAt.setHours(expiresAt.getHours() + this.configService.get('auth.emailVerificationTtlHours', 24));
+
+        const verificationToken = this.verificationTokenRepository.create({
+            tokenHash: hashToken(token),
+            userId: user.id,
+            expiresAt,
+        });
+
+        await this.verificationTokenRepository.save(verificationToken);
+        await this.notificationService.sendEmailVerification(user, token);
+    }
+
+    /**
+     * Consumes a verification token and marks the owner's email address as verified.
+     *
+     * @param token The plaintext token from the verification link.
+     * @throws BadRequestException if the token is unknown, already used or expired.
+     */
+    public async verifyEmail(token: string): Promise<void> {
+        const verificationToken = await this.verificationTokenRepository.findOne({
+            where: { tokenHash: hashToken(token), usedAt: IsNull() },
+        });
+
+        if (!verificationToken || verificationToken.expiresAt < new Date()) {
+            throw new BadRequestException('Invalid or expired verification token');
+        }
+
+        // Guard on usedAt so two concurrent requests cannot both consume the token
+        const consumption = await this.verificationTokenRepository.update(
+            { id: verificationToken.id, usedAt: IsNull() },
+            { usedAt: new Date() },
+        );
+        if (consumption.affected === 0) {
+            throw new BadRequestException('Invalid or expired verification token');
+        }
+
+        await this.userService.markEmailVerified(verificationToken.userId);
+    }
+
+    /**
+     * Sends a new verification email if the address belongs to an unverified account.
+     * Resolves the same way whether or not the account exists, so it cannot be used to probe emails.
+     *
+     * @param email The email address to resend the verification to.
+     */
+    public async resendVerification(email: string): Promise<void> {
+        const user = await this.userService.getUserByEmail(email);
+        if (!user || user.emailVerifiedAt) {
+            return;
+        }
+
+        await this.sendVerification(user);
+    }
+}
+
+export { EmailVerificationService };
@@ -0,0 +1,194 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/modules/user/entities/user.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { UserIdentity } from '../entities/user-identity.entity';
+import { WebAuthnCredential } from '../entities/web-authn-credential.entity';
+import { SecurityEventService } from './security-event.service';
+import { SecurityEventTypes } from '../constants/security-events';
+import { ExternalIdentity } from '../interfaces';
+
+const IDENTITY_LINK_TOKEN_TYPE = 'identity_link';
+const IDENTITY_LINK_TTL = '10m';
+
+/**
+ * Providers that created accounts before identities were stored. Those accounts are matched
+ * by email once, on their first login after the upgrade, and linked from then on. Only Google
+ * created accounts back then; Facebook came with identities and never needs the email match.
+ */
+const LEGACY_OAUTH_PROVIDERS = ['google'];
+
+@Injectable()
+class IdentityService {
+    constructor(
+        @InjectRepository(UserIdentity)
+        private readonly identityRepository: Repository<UserIdentity>,
+        @InjectRepository(WebAuthnCredential)
+        private readonly credentialRepository: Repository<WebAuthnCredential>,
+        private readonly userService: UserService,
+        private readonly jwtService: JwtService,
+        private readonly securityEventService: SecurityEventService,
+    ) {}
+
+    /**
+     * Finds the account an external identity is linked to. An account that merely shares the
+     * email address is not returned: the owner has to link the identity explicitly first.
+     *
+     * @param identity The identity asserted by the provider.
+     * @returns The linked user, or null if the identity is not linked to any account.
+     */
+    public async findUser(identity: ExternalIdentity): Promise<User | null> {
+        const linkedIdentity = await this.identityRepository.findOne({
+            where: { provider: identity.provider, providerSubject: identity.subject },
+            relations: ['user'],
+        });
+
+        if (linkedIdentity) {
+            await this.identityRepository.update({ id: linkedIdentity.id }, { lastUsedAt: new Date() });
+            return linkedIdentity.user;
+        }
+
+        return await this.adoptLegacyOAuthUser(identity);
+    }
+
+    /**
+     * Links an external identity to an account.
+     *
+     * @param userId The ID of the account owner.
+     * @param identity The identity asserted by the provider.
+     * @returns The stored identity, or the existing one if it was already linked to this account.
+     * @throws ConflictException if the identity is linked to another account.
+     */
+    public async linkIdentity(userId: number, identity: ExternalIdentity): Promise<UserIdentity> {
+        const existing = await this.identityRepository.findOne({
+            where: { provider: identity.provider, providerSubject: identity.subject },
+        });
+        if (existing) {
+            if (existing.userId !== userId) {
+                throw new ConflictException('This identity is already linked to another account');
+            }
+
+            return existing;
+        }
+
+        const savedIdentity = await this.identityRepository.save(
+            this.identityRepository.create({
+                userId,
+                provider: identity.provider,
+                providerSubject: identity.subject,
+                email: identity.email,
+            }),
+        );
+
+        await this.securityEventService.record(SecurityEventTypes.IDENTITY_LINKED, userId, {
+            provider: identity.provider,
+        });
+
+        return savedIdentity;
+    }
+
+    public async getIdentities(userId: number): Promise<UserIdentity[]> {
+        return await this.identityRepository.find({
+            where: { userId },
+            order: { linkedAt: 'ASC' },
+        });
+    }
+
+    /**
+     * Removes a linked identity, unless it is the only way left to sign in to the account.
+     *
+     * @param userId The ID of the account owner.
+     * @param identityId The database ID of the identity.
+     * @throws NotFoundException if the user has no such identity.
+     * @throws BadRequestException if it is the account's last login method.
+     */
+    public async unlinkIdentity(userId: number, identityId: number): Promise<void> {
+        const identity = await this.identityRepository.findOne({ where: { id: identityId, userId } });
+        if (!identity) {
+            throw new NotFoundException('Identity not found');
+        }
+
+        await this.assertCanRemoveLoginMethod(userId);
+        await this.identityRepository.delete({ id: identity.id });
+
+        await this.securityEventService.record(SecurityEventTypes.IDENTITY_UNLINKED, userId, {
+            provider: identity.provider,
+        });
+    }
+
+    /**
+     * Guards removing a password, identity or passkey so an account always keeps a way to sign in.
+     *
+     * @param userId The ID of the account owner.
+     * @throws BadRequestException if the account has a single login method left.
+     */
+    public async assertCanRemoveLoginMethod(userId: number): Promise<void> {
+        const user = await this.userService.getUserById(userId);
+        const [identities, passkeys] = await Promise.all([
+            this.identityRepository.count({ where: { userId } }),
+            this.credentialRepository.count({ where: { userId } }),
+        ]);
+
+        const loginMethods = (user.hashedPassword ? 1 : 0) + identities + passkeys;
+        if (loginMethods <= 1) {
+            throw new BadRequestException('Cannot remove the last login method of an account');
+        }
+    }
+
+    /**
+     * Signs the intent of a signed-in user to link a provider. The token is kept in a cookie
+     * while the browser visits the provider, so the callback links instead of signing in.
+     *
+     * @param userId The ID of the user linking the provider.
+     * @param provider The provider name.
+     */
+    public createLinkToken(userId: number, provider: string): string {
+        return this.jwtService.sign(
+            { sub: userId, type: IDENTITY_LINK_TOKEN_TYPE, provider },
+            { expiresIn: IDENTITY_LINK_TTL },
+        );
+    }
+
+    /**
+     * Reads a link token from the provider callback.
+     *
+     * @param token The token from the link cookie, if any.
+     * @param provider The provider the callback came from.
+     * @returns The ID of the user linking the provider, or null if there is no valid link in progress.
+     */
+    public verifyLinkToken(token: string | undefined, provider: string): number | null {
+        if (!token) {
+            return null;
+        }
+
+        try {
+            const payload = this.jwtService.verify(token);
+            return payload.type === IDENTITY_LINK_TOKEN_TYPE && payload.provider === provider ? payload.sub : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Accounts created through Google before identities existed have no stored
+     * subject. Such an account is linked on its first login, provided nothing else has been
+     * linked to it since, which is what the provider's verified email guaranteed before.
+     */
+    private async adoptLegacyOAuthUser(identity: ExternalIdentity): Promise<User | null> {
+        if (!LEGACY_OAUTH_PROVIDERS.includes(identity.provider) || !identity.email) {
+            return null;
+        }
+
+        const user = await this.userService.getUserByEmail(identity.email);
+        if (!user || !user.isOauth || (await this.identityRepository.count({ where: { userId: user.id } })) > 0) {
+            return null;
+        }
+
+        await this.linkIdentity(user.id, identity);
+        return user;
+    }
+}
+
+export { IdentityService };
@@ -0,0 +1,80 @@
+import { BadRequestException, ForbiddenException, Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { UserService } from 'src/modules/user/user.service';
+import { AuthService } from '../auth.service';
+import { RoleService } from './role.service';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { SecurityEventService } from './security-event.service';
+import { Permissions } from '../constants/permissions';
+import { SecurityEventTypes } from '../constants/security-events';
+import { AuthenticatedUser, JwtPayload } from '../interfaces';
+
+@Injectable()
+class ImpersonationService {
+    constructor(
+        private readonly userService: UserService,
+        private readonly roleService: RoleService,
+        private readonly authService: AuthService,
+        private readonly accessTokenDenylistService: AccessTokenDenylistService,
+        private readonly securityEventService: SecurityEventService,
+        private readonly jwtService: JwtService,
+    ) {}
+
+    /**
+     * Issues a short-lived access token that acts as a user, with an "act" claim naming the admin.
+     * No refresh token is issued, so the impersonation ends when the token expires at the latest.
+     *
+     * @param admin The admin starting the impersonation.
+     * @param userId The ID of the user to impersonate.
+     * @returns The impersonation token and a summary of the user.
+     * @throws BadRequestException if the admin targets themselves or an inactive user.
+     * @throws ForbiddenException if the user may impersonate others too.
+     * @throws NotFoundException if the user does not exist.
+     */
+    public async startImpersonation(admin: AuthenticatedUser, userId: number): Promise<JwtPayload> {
+        if (admin.userId === userId) {
+            throw new BadRequestException('You cannot impersonate yourself');
+        }
+
+        const user = await this.userService.getUserById(userId);
+        if (!user.isActive) {
+            throw new BadRequestException('Cannot impersonate an inactive user');
+        }
+
+        // Otherwise one admin could act with the permissions of another
+        if (this.roleService.getPermissionNames(user).includes(Permissions.USERS_IMPERSONATE)) {
+            throw new ForbiddenException('Cannot impersonate a user who may impersonate others');
+        }
+
+        const tokenPayload = this.authService.createTokenForUser(user, {
+            userId: admin.userId,
+            username: admin.username,
+        });
+        await this.securityEventService.record(SecurityEventTypes.IMPERSONATION_STARTED, user.id, {
+            impersonatorId: admin.userId,
+        });
+
+        return tokenPayload;
+    }
+
+    /**
+     * Ends an impersonation by revoking the impersonation token it was made with.
+     *
+     * @param user The impersonated user, as resolved from the impersonation token.
+     * @param accessToken The raw impersonation token.
+     * @throws BadRequestException if the token is not an impersonation token.
+     */
+    public async endImpersonation(user: AuthenticatedUser, accessToken: string): Promise<void> {
+        if (!user.impersonator) {
+            throw new BadRequestException('You are not impersonating a user');
+        }
+
+        const { jti, exp } = this.jwtService.decode(accessToken);
+        await this.accessTokenDenylistService.revoke(jti, new Date(exp * 1000));
+        await this.securityEventService.record(SecurityEventTypes.IMPERSONATION_ENDED, user.userId, {
+            impersonatorId: user.impersonator.userId,
+        });
+    }
+}
+
+export { ImpersonationService };
@@ -0,0 +1,350 @@
+import { Injectable, OnModuleInit, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Client, Entry, InvalidCredentialsError } from 'ldapts';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { Role } from '../entities/role.entity';
+import { UserIdentity } from '../entities/user-identity.entity';
+import { LdapConfig, LdapProfile } from '../interfaces';
+
+const USERNAME_PLACEHOLDER = /\{\{username\}\}/g;
+
+// Accounts provisioned from the directory are linked to their entry as an identity of this provider
+const LDAP_IDENTITY_PROVIDER = 'ldap';
+
+/**
+ * Signs users in against an LDAP directory or Active Directory, either by binding directly with
+ * a DN built from LDAP_BIND_DN_TEMPLATE or by searching LDAP_SEARCH_BASE for the entry first and
+ * binding as the DN found.
+ */
+@Injectable()
+class LdapService implements OnModuleInit {
+    constructor(
+        private readonly configService: ConfigService,
+        @InjectRepository(Role)
+        private readonly roleRepository: Repository<Role>,
+        @InjectRepository(UserIdentity)
+        private readonly identityRepository: Repository<UserIdentity>,
+        private readonly logger: AppLoggerService,
+    ) {}
+
+    /**
+     * Fails startup when LDAP_URL is set without a way to find the entry of a user,
+     * rather than on the first login attempt.
+     */
+    public onModuleInit(): void {
+        const config = this.getConfig();
+        if (!config.url) {
+            return;
+        }
+
+        if (!config.bindDnTemplate && !config.searchBase) {
+            throw new Error('LDAP requires LDAP_BIND_DN_TEMPLATE or LDAP_SEARCH_BASE');
+        }
+
+        if (config.bindDnTemplate && !config.bindDnTemplate.includes('{{username}}')) {
+            throw new Error('LDAP_BIND_DN_TEMPLATE must contain {{username}}');
+        }
+
+        if (config.bindDn && !config.bindPassword) {
+            throw new Error('LDAP_BIND_DN requires LDAP_BIND_PASSWORD');
+        }
+
+        const invalidMapping = config.groupRoles.find(({ group, role }) => !group || !role);
+        if (invalidMapping) {
+            throw new Error(`LDAP_GROUP_ROLES entry '${invalidMapping.group}' must be "<group DN>:<role>"`);
+        }
+    }
+
+    public isEnabled(): boolean {
+        return !!this.getConfig().url;
+    }
+
+    /**
+     * Works out the name a user binds as without checking a password, so the account of the user
+     * can be found, and its lockout applied, before the password is tried. That is the name built
+     * from LDAP_BIND_DN_TEMPLATE, or the DN of the entry matching LDAP_SEARCH_FILTER.
+     *
+     * @param username The username or email address entered at login.
+     * @returns The bind name, or null if no single entry matches the username.
+     * @throws ServiceUnavailableException if the directory cannot be reached or rejects the service account.
+     */
+    public async resolveBindName(username: string): Promise<string | null> {
+        const config = this.getConfig();
+        if (config.bindDnTemplate) {
+            return this.getTemplateBindName(config, username);
+        }
+
+        return await this.withClient(config, async (client) => {
+            if (config.bindDn) {
+                await client.bind(config.bindDn, config.bindPassword as string);
+            }
+
+            const entry = await this.findEntry(client, config, username);
+            return entry?.dn ?? null;
+        });
+    }
+
+    /**
+     * Checks a username and password against the directory. With LDAP_BIND_DN_TEMPLATE the user
+     * binds directly; otherwise the service account (or an anonymous bind) searches for the
+     * entry matching LDAP_SEARCH_FILTER and the user binds as that entry.
+     *
+     * @param username The username or email address entered at login.
+     * @param password The plaintext password.
+     * @returns The directory entry of the user, or null if the credentials are invalid.
+     * @throws ServiceUnavailableException if the directory cannot be reached or rejects the service account.
+     */
+    public async authenticate(username: string, password: string): Promise<LdapProfile | null> {
+        // Most directories accept a bind without a password as an anonymous one
+        if (!username || !password) {
+            return null;
+        }
+
+        const config = this.getConfig();
+        return await this.withClient(config, async (client) => {
+            const entry = config.bindDnTemplate
+                ? await this.bindWithTemplate(client, config, username, password)
+                : await this.searchAndBind(client, config, username, password);
+
+            return entry ? this.toProfile(entry, config) : null;
+        });
+    }
+
+    /**
+     * Finds the account provisioned from a directory entry. Accounts are only ever matched through
+     * this link, so an entry cannot take over an account that merely shares its email address.
+     *
+     * @param bindName The name the user binds as, from resolveBindName.
+     * @returns The ID of the linked account, or null if the entry has none yet.
+     */
+    public async findLinkedUserId(bindName: string): Promise<number | null> {
+        const identity = await this.identityRepository.findOne({
+            where: { provider: LDAP_IDENTITY_PROVIDER, providerSubject: normalizeDn(bindName) },
+        });
+
+        return identity?.userId ?? null;
+    }
+
+    /**
+     * Records a directory login, linking the account to its entry on the first one.
+     *
+     * @param userId The ID of the account that signed in.
+     * @param bindName The name the user bound as, from resolveBindName.
+     * @param email The email address of the account, for display only.
+     */
+    public async recordLogin(userId: number, bindName: string, email: string): Promise<void> {
+        const providerSubject = normalizeDn(bindName);
+        const identity = await this.identityRepository.findOne({
+            where: { provider: LDAP_IDENTITY_PROVIDER, providerSubject },
+        });
+
+        if (identity) {
+            await this.identityRepository.update({ id: identity.id }, { lastUsedAt: new Date() });
+            return;
+        }
+
+        await this.identityRepository.save(
+            this.identityRepository.create({
+                userId,
+                provider: LDAP_IDENTITY_PROVIDER,
+                providerSubject,
+                email,
+                lastUsedAt: new Date(),
+            }),
+        );
+    }
+
+    /**
+     * Works out the roles of a user from their directory groups. Only the roles named in
+     * LDAP_GROUP_ROLES are managed by the directory, so roles granted in the application
+     * are kept.
+     *
+     * @param currentRoles The roles the user currently holds.
+     * @param groups The group DNs from the directory entry of the user.
+     * @returns The roles the user should hold.
+     */
+    public async mapGroupRoles(currentRoles: Role[], groups: string[]): Promise<Role[]> {
+        const { groupRoles } = this.getConfig();
+        if (groupRoles.length === 0) {
+            return currentRoles;
+        }
+
+        const memberOf = new Set(groups.map(normalizeDn));
+        const grantedNames = groupRoles.filter(({ group }) => memberOf.has(normalizeDn(group))).map(({ role }) => role);
+        const managedNames = groupRoles.map(({ role }) => role);
+
+        const granted = grantedNames.length > 0 ? await this.roleRepository.find({ where: { name: In(grantedNames) } }) : [];
+        const kept = currentRoles.filter((role) => !managedNames.includes(role.name));
+
+        return [...kept, ...granted];
+    }
+
+    private async bindWithTemplate(
+        client: Client,
+        config: LdapConfig,
+        username: string,
+        password: string,
+    ): Promise<Entry | null> {
+        const dn = this.getTemplateBindName(config, username);
+        if (!(await this.bindAsUser(client, dn, password))) {
+            return null;
+        }
+
+        // A template such as "{{username}}@corp.example.com" is not the DN of the entry, so it has to be searched for
+        return config.searchBase ? await this.findEntry(client, config, username) : await this.readEntry(client, config, dn);
+    }
+
+    private async searchAndBind(
+        client: Client,
+        config: LdapConfig,
+        username: string,
+        password: string,
+    ): Promise<Entry | null> {
+        if (config.bindDn) {
+            await client.bind(config.bindDn, config.bindPassword as string);
+        }
+
+        const entry = await this.findEntry(client, config, username);
+        if (!entry || !(await this.bindAsUser(client, entry.dn, password))) {
+            return null;
+        }
+
+        return entry;
+    }
+
+    private getTemplateBindName(config: LdapConfig, username: string): string {
+        return (config.bindDnTemplate as string).replace(USERNAME_PLACEHOLDER, escapeDnValue(username));
+    }
+
+    /**
+     * Runs directory operations on a new connection, closed afterwards. Any failure other than
+     * rejected user credentials means the directory cannot be used right now.
+     */
+    private async withClient<T>(config: LdapConfig, operations: (client: Client) => Promise<T>): Promise<T> {
+        const client = new Client({
+            url: config.url as string,
+            timeout: config.timeoutMs,
+            connectTimeout: config.timeoutMs,
+        });
+
+        try {
+            if (config.startTls) {
+                await client.startTLS({});
+            }
+
+            return await operations(client);
+        } catch (error) {
+            this.logger.warn(`LDAP login failed: ${(error as Error).message}`, 'LdapService');
+            throw new ServiceUnavailableException('The directory is unavailable');
+        } finally {
+            await client.unbind().catch(() => undefined);
+        }
+    }
+
+    private async bindAsUser(client: Client, dn: string, password: string): Promise<boolean> {
+        try {
+            await client.bind(dn, password);
+            return true;
+        } catch (error) {
+            if (error instanceof InvalidCredentialsError) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Searches for the entry of a user, refusing ambiguous matches so a loose filter
+     * cannot sign someone in as another entry.
+     */
+    private async findEntry(client: Client, config: LdapConfig, username: string): Promise<Entry | null> {
+        const { searchEntries } = await client.search(config.searchBase as string, {
+            scope: 'sub',
+            filter: config.searchFilter.replace(USERNAME_PLACEHOLDER, escapeFilterValue(username)),
+            attributes: this.getAttributeNames(config),
+        });
+
+        return searchEntries.length === 1 ? searchEntries[0] : null;
+    }
+
+    private async readEntry(client: Client, config: LdapConfig, dn: string): Promise<Entry | null> {
+        const { searchEntries } = await client.search(dn, {
+            scope: 'base',
+            filter: '(objectClass=*)',
+            attributes: this.getAttributeNames(config),
+        });
+
+        return searchEntries[0] ?? null;
+    }
+
+    private getAttributeNames({ attributes }: LdapConfig): string[] {
+        return [attributes.email, attributes.firstName, attributes.lastName, attributes.groups];
+    }
+
+    private toProfile(entry: Entry, { attributes }: LdapConfig): LdapProfile {
+        return {
+            dn: entry.dn,
+            email: getValues(entry, attributes.email)[0]?.toLowerCase() ?? null,
+            firstName: getValues(entry, attributes.firstName)[0] ?? null,
+            lastName: getValues(entry, attributes.lastName)[0] ?? null,
+            groups: getValues(entry, attributes.groups),
+        };
+    }
+
+    private getConfig(): LdapConfig {
+        return this.configService.get<LdapConfig>('ldap', {
+            url: null,
+            startTls: false,
+            bindDnTemplate: null,
+            bindDn: null,
+            bindPassword: null,
+            searchBase: null,
+            searchFilter: '(mail={{username}})',
+            attributes: { email: 'mail', firstName: 'givenName', lastName: 'sn', groups: 'memberOf' },
+            groupRoles: [],
+            timeoutMs: 5000,
+        });
+    }
+}
+
+/**
+ * Reads an attribute as a list of strings. Attribute names are case-insensitive,
+ * and the client returns a single value as a plain string.
+ */
+function getValues(entry: Entry, attribute: string): string[] {
+    const name = Object.keys(entry).find((key) => key.toLowerCase() === attribute.toLowerCase());
+    const value = name ? entry[name] : [];
+    const values = Array.isArray(value) ? value : [value];
+
+    return values.map((item) => item.toString()).filter(Boolean);
+}
+
+function normalizeDn(dn: string): string {
+    return dn
+        .split(/(?<!\\),/)
+        .map((rdn) => rdn.trim())
+        .join(',')
+        .toLowerCase();
+}
+
+/**
+ * Escapes a value for use in a DN, as described in RFC 4514.
+ */
+function escapeDnValue(value: string): string {
+    return value
+        .replace(/[\\,+"<>;=]/g, (character) => `\\${character}`)
+        .replace(/\0/g, '\\00')
+        .replace(/^[ #]/, (character) => `\\${character}`)
+        .replace(/ $/, '\\ ');
+}
+
+/**
+ * Escapes a value for use in a search filter, as described in RFC 4515.
+ */
+function escapeFilterValue(value: string): string {
+    return value.replace(/[\\*()\0]/g, (character) => `\\${character.charCodeAt(0).toString(16).padStart(2, '0')}`);
+}
+
+export { LdapService };
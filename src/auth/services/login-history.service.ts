@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { User } from 'src/modules/user/entities/user.entity';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { getDeviceName, parseUserAgent } from 'src/shared/utils/user-agent';
+import { KnownDevice } from '../entities/known-device.entity';
+import { SecurityEventService } from './security-event.service';
+import { SecurityEventTypes } from '../constants/security-events';
+import { LoginMethods, LoginOutcomes } from '../constants/login-history';
+import { SessionContext } from '../interfaces';
+
+/**
+ * Records login attempts as security events, so users can review where their account was used,
+ * and alerts users to logins from devices they have not used before.
+ */
+@Injectable()
+class LoginHistoryService {
+    constructor(
+        @InjectRepository(KnownDevice)
+        private readonly knownDeviceRepository: Repository<KnownDevice>,
+        private readonly securityEventService: SecurityEventService,
+        private readonly notificationService: NotificationService,
+    ) {}
+
+    /**
+     * Records a successful login and alerts the user if it came from a new device.
+     *
+     * @param user The user who signed in.
+     * @param method How the user authenticated, one of LoginMethods or a provider name.
+     * @param context The client the login came from.
+     * @param details Further details of the login, such as the OpenID Connect provider.
+     */
+    public async recordSuccess(
+        user: User,
+        method: string,
+        context: SessionContext,
+        details: Record<string, any> = {},
+    ): Promise<void> {
+        await this.record(user.id, method, LoginOutcomes.SUCCESS, context, details);
+
+        // A refresh continues an earlier login, so only fresh logins can introduce a device
+        if (method !== LoginMethods.REFRESH) {
+            await this.trackDevice(user, context);
+        }
+    }
+
+    /**
+     * Records a login whose first factor succeeded and that now waits for the second factor.
+     *
+     * @param user The user signing in.
+     * @param method How the user authenticated, one of LoginMethods or a provider name.
+     * @param context The client the login came from.
+     */
+    public async recordMfaRequired(user: User, method: string, context: SessionContext): Promise<void> {
+        await this.record(user.id, method, LoginOutcomes.MFA_REQUIRED, context);
+    }
+
+    /**
+     * Records a failed login.
+     *
+     * @param userId The ID of the targeted account, null if it is unknown.
+     * @param method How the client tried to authenticate, one of LoginMethods or a provider name.
+     * @param context The client the login came from.
+     * @param reason Why the login failed.
+     * @param details Further details of the login, such as the OpenID Connect provider.
+     */
+    public async recordFailure(
+        userId: number | null,
+        method: string,
+        context: SessionContext,
+        reason: string,
+        details: Record<string, any> = {},
+    ): Promise<void> {
+        await this.record(userId, method, LoginOutcomes.FAILURE, context, { ...details, reason });
+    }
+
+    private async record(
+        userId: number | null,
+        method: string,
+        outcome: string,
+        context: SessionContext,
+        details: Record<string, any> = {},
+    ): Promise<void> {
+        const { browser, os, deviceType } = parseUserAgent(context.userAgent);
+
+        await this.securityEventService.record(SecurityEventTypes.LOGIN_ATTEMPT, userId, {
+            method,
+            outcome,
+            ...details,
+            ipAddress: context.ipAddress || null,
+            userAgent: context.userAgent || null,
+            browser,
+            os,
+            deviceType,
+        });
+    }
+
+    /**
+     * Remembers the device of a login and notifies the user the first time it is seen. The first
+     * device of an account is where it was set up, so it raises no alert.
+     */
+    private async trackDevice(user: User, context: SessionContext): Promise<void> {
+        const fingerprint = this.getDeviceFingerprint(context.userAgent);
+        const knownDevice = await this.knownDeviceRepository.findOne({ where: { userId: user.id, fingerprint } });
+
+        if (knownDevice) {
+            await this.knownDeviceRepository.update({ id: knownDevice.id }, { lastSeenAt: new Date() });
+            return;
+        }
+
+        const isFirstDevice = (await this.knownDeviceRepository.count({ where: { userId: user.id } })) === 0;
+        const deviceName = getDeviceName(context.userAgent);
+        await this.knownDeviceRepository.save(
+            this.knownDeviceRepository.create({ userId: user.id, fingerprint, deviceName }),
+        );
+
+        if (!isFirstDevice) {
+            await this.notificationService.sendNewDeviceLogin(user, deviceName, context.ipAddress);
+        }
+    }
+
+    /**
+     * Identifies a device by its browser, operating system and device type. Versions are left
+     * out, so browser updates do not raise new-device alerts.
+     */
+    private getDeviceFingerprint(userAgent?: string | null): string {
+        const { browser, os, deviceType } = parseUserAgent(userAgent);
+        return createHash('sha256').update(`${browser}|${os}|${deviceType}`).digest('hex');
+    }
+}
+
+export { LoginHistoryService };
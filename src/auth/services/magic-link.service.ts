@@ -0,0 +1,102 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { User } from 'src/modules/user/entities/user.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { MagicLinkToken } from '../entities/magic-link-token.entity';
+import { SessionContext } from '../interfaces';
+import { generateToken, hashToken } from '../utils/tokens';
+
+@Injectable()
+class MagicLinkService {
+    constructor(
+        @InjectRepository(MagicLinkToken)
+        private readonly magicLinkRepository: Repository<MagicLinkToken>,
+        private readonly userService: UserService,
+        private readonly notificationService: NotificationService,
+        private readonly configService: ConfigService,
+        private readonly logger: AppLoggerService,
+    ) {}
+
+    /**
+     * Emails a one-time sign-in link. Works for OAuth accounts too, as a fallback when the
+     * provider is unavailable. Requests over the hourly limit for an address are dropped
+     * silently, so the response never reveals whether the account exists.
+     *
+     * @param email The email address the link was requested for.
+     * @param context The client the request came from.
+     */
+    public async requestLink(email: string, context: SessionContext = {}): Promise<void> {
+        const user = await this.userService.getUserByEmail(email);
+        if (!user || !user.isActive) {
+            return;
+        }
+
+        const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+        const recentLinks = await this.magicLinkRepository.count({
+            where: { userId: user.id, createdAt: MoreThan(oneHourAgo) },
+        });
+        if (recentLinks >= this.configService.get('auth.magicLinkMaxPerHour', 5)) {
+            this.logger.warn(`Magic link limit reached for user ${user.id}`, 'MagicLinkService');
+            return;
+        }
+
+        const token = generateToken();
+        const expiresAt = new Date();
+        expiresAt.setMinutes(expiresAt.getMinutes() + this.configService.get('auth.magicLinkTtlMinutes', 15));
+
+        const magicLink = this.magicLinkRepository.create({
+            tokenHash: hashToken(token),
+            userId: user.id,
+            expiresAt,
+            requestedIp: context.ipAddress || null,
+        });
+
+        await this.magicLinkRepository.save(magicLink);
+        await this.notificationService.sendMagicLink(user, token);
+    }
+
+    /**
+     * Consumes a magic link token. Following the link proves control of the mailbox,
+     * so an unverified email address is marked verified as well.
+     *
+     * @param token The plaintext token from the link.
+     * @returns The user who may now be signed in.
+     * @throws UnauthorizedException if the token is unknown, already used or expired, or the user is inactive.
+     */
+    public async consumeLink(token: string): Promise<User> {
+        const magicLink = await this.magicLinkRepository.findOne({
+            where: { tokenHash: hashToken(token), usedAt: IsNull() },
+            relations: ['user'],
+        });
+
+        if (!magicLink || magicLink.expiresAt < new Date()) {
+            throw new UnauthorizedException('Invalid or expired sign-in link');
+        }
+
+        // Guard on usedAt so two concurrent requests cannot both consume the link
+        const consumption = await this.magicLinkRepository.update(
+            { id: magicLink.id, usedAt: IsNull() },
+            { usedAt: new Date() },
+        );
+        if (consumption.affected === 0) {
+            throw new UnauthorizedException('Invalid or expired sign-in link');
+        }
+
+        const user = magicLink.user;
+        if (!user.isActive) {
+            throw new UnauthorizedException('User not found or inactive');
+        }
+
+        if (!user.emailVerifiedAt) {
+            await this.userService.markEmailVerified(user.id);
+        }
+
+        return user;
+    }
+}
+
+export { MagicLinkService };
@@ -0,0 +1,304 @@
+import { BadRequestException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { IsNull, Not, Repository } from 'typeorm';
+import { User } from 'src/modules/user/entities/user.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { UserMfa } from '../entities/user-mfa.entity';
+import { MfaRecoveryCode } from '../entities/mfa-recovery-code.entity';
+import { SecurityEventService } from './security-event.service';
+import { SecurityEventTypes } from '../constants/security-events';
+import { LoginMethods } from '../constants/login-history';
+import { MfaChallenge, PendingMfaLogin } from '../interfaces';
+import { hashToken } from '../utils/tokens';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const MFA_PENDING_TOKEN_TYPE = 'mfa_pending';
+const MFA_CHALLENGE_TTL = '5m';
+const RECOVERY_CODE_COUNT = 10;
+
+@Injectable()
+class MfaService {
+    constructor(
+        @InjectRepository(UserMfa)
+        private readonly mfaRepository: Repository<UserMfa>,
+        @InjectRepository(MfaRecoveryCode)
+        private readonly recoveryCodeRepository: Repository<MfaRecoveryCode>,
+        private readonly userService: UserService,
+        private readonly jwtService: JwtService,
+        private readonly securityEventService: SecurityEventService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    public async isEnabled(userId: number): Promise<boolean> {
+        const count = await this.mfaRepository.count({ where: { userId, enabledAt: Not(IsNull()) } });
+        return count > 0;
+    }
+
+    /**
+     * Starts TOTP enrollment by generating a new secret. MFA stays off until the user
+     * confirms a code from the authenticator, so an abandoned enrollment changes nothing.
+     *
+     * @param userId The ID of the enrolling user.
+     * @param accountName The label shown in the authenticator app, usually the email address.
+     * @returns The base32 secret and the otpauth URI to render as a QR code.
+     * @throws BadRequestException if MFA is already enabled.
+     */
+    public async startEnrollment(userId: number, accountName: string): Promise<{ secret: string; otpauthUri: string }> {
+        if (await this.isEnabled(userId)) {
+            throw new BadRequestException('MFA is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await this.mfaRepository.save(this.mfaRepository.create({ userId, secret, enabledAt: null, lastUsedStep: null }));
+
+        const issuer = this.configService.get('auth.mfaIssuer', 'OALR');
+        return { secret, otpauthUri: buildOtpauthUri(issuer, accountName, secret) };
+    }
+
+    /**
+     * Turns MFA on once the user proves their authenticator produces valid codes.
+     *
+     * @param userId The ID of the enrolling user.
+     * @param code A TOTP code from the authenticator app.
+     * @returns The plaintext recovery codes, shown to the user only this once.
+     * @throws BadRequestException if enrollment was not started, MFA is already on or the code is wrong.
+     */
+    public async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+        const mfa = await this.mfaRepository.findOne({ where: { userId } });
+        if (!mfa) {
+            throw new BadRequestException('MFA enrollment has not been started');
+        }
+        if (mfa.enabledAt) {
+            throw new BadRequestException('MFA is already enabled');
+        }
+
+        const step = verifyTotp(mfa.secret, code);
+        if (step === null) {
+            throw new BadRequestException('Invalid MFA code');
+        }
+
+        await this.mfaRepository.update({ userId }, { enabledAt: new Date(), lastUsedStep: step });
+        const recoveryCodes = await this.replaceRecoveryCodes(userId);
+        await this.securityEventService.record(SecurityEventTypes.MFA_ENABLED, userId);
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Invalidates the remaining recovery codes and issues a new set.
+     *
+     * @param userId The ID of the user.
+     * @param code A TOTP or recovery code proving possession of the second factor.
+     * @returns The new plaintext recovery codes.
+     * @throws BadRequestException if MFA is not enabled or the code is wrong.
+     */
+    public async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+        const mfa = await this.getEnabledMfa(userId);
+        if (!(await this.verifyCode(mfa, code))) {
+            throw new BadRequestException('Invalid MFA code');
+        }
+
+        return await this.replaceRecoveryCodes(userId);
+    }
+
+    /**
+     * Turns MFA off and removes the secret and recovery codes.
+     *
+     * @param userId The ID of the user.
+     * @param code A TOTP or recovery code proving possession of the second factor.
+     * @throws BadRequestException if MFA is not enabled or the code is wrong.
+     */
+    public async disable(userId: number, code: string): Promise<void> {
+        const mfa = await this.getEnabledMfa(userId);
+        if (!(await this.verifyCode(mfa, code))) {
+            throw new BadRequestException('Invalid MFA code');
+        }
+
+        await this.recoveryCodeRepository.delete({ userId });
+        await this.mfaRepository.delete({ userId });
+        await this.securityEventService.record(SecurityEventTypes.MFA_DISABLED, userId);
+    }
+
+    /**
+     * Checks a second-factor code of a signed-in user, such as when they confirm their identity again.
+     *
+     * @param userId The ID of the user.
+     * @param code A TOTP or recovery code.
+     * @throws UnauthorizedException if MFA is not enabled or the code is wrong.
+     */
+    public async verifyUserCode(userId: number, code: string): Promise<void> {
+        const mfa = await this.mfaRepository.findOne({ where: { userId, enabledAt: Not(IsNull()) } });
+        if (!mfa || !(await this.verifyCode(mfa, code))) {
+            throw new UnauthorizedException('Invalid MFA code');
+        }
+    }
+
+    /**
+     * Issues the short-lived token returned from login in place of the access token
+     * when the user still has to pass the second factor.
+     *
+     * @param user The user who passed the first factor.
+     * @param method How the user passed the first factor, recorded in the login history once the login completes.
+     * @returns The challenge to send to the client.
+     */
+    public createChallenge(user: User, method: string): MfaChallenge {
+        const mfaToken = this.jwtService.sign(
+            { sub: user.id, type: MFA_PENDING_TOKEN_TYPE, method },
+            { expiresIn: MFA_CHALLENGE_TTL },
+        );
+
+        return { mfaRequired: true, mfaToken };
+    }
+
+    /**
+     * Reads an MFA challenge without checking a code, so the outcome of the login can be
+     * recorded against the account it targets.
+     *
+     * @param mfaToken The challenge token returned from login.
+     * @returns The login the challenge belongs to.
+     * @throws UnauthorizedException if the challenge is invalid or expired.
+     */
+    public readChallenge(mfaToken: string): PendingMfaLogin {
+        let payload: { sub: number; type?: string; method?: string };
+        try {
+            payload = this.jwtService.verify(mfaToken);
+        } catch {
+            throw new UnauthorizedException('Invalid or expired MFA challenge');
+        }
+
+        if (payload.type !== MFA_PENDING_TOKEN_TYPE) {
+            throw new UnauthorizedException('Invalid or expired MFA challenge');
+        }
+
+        // Challenges issued before the method was stored all came from password logins
+        return { userId: payload.sub, method: payload.method ?? LoginMethods.PASSWORD };
+    }
+
+    /**
+     * Completes an MFA challenge. Wrong codes are counted per user across challenges, and
+     * reaching the threshold locks the account like repeated failed password logins do, so a
+     * code cannot be guessed by spreading attempts over many challenges or addresses.
+     *
+     * @param mfaToken The challenge token returned from login.
+     * @param code A TOTP or recovery code.
+     * @returns The user who may now be signed in.
+     * @throws UnauthorizedException if the challenge is invalid or expired, the code is wrong or the account is inactive.
+     * @throws HttpException with status 429 if the account is locked.
+     */
+    public async verifyChallenge(mfaToken: string, code: string): Promise<User> {
+        const { userId } = this.readChallenge(mfaToken);
+
+        const user = await this.userService.getUserById(userId);
+        this.userService.assertCanLogIn(user);
+
+        const mfa = await this.mfaRepository.findOne({ where: { userId, enabledAt: Not(IsNull()) } });
+        if (!mfa) {
+            throw new UnauthorizedException('Invalid MFA code');
+        }
+
+        if (!(await this.verifyCode(mfa, code))) {
+            await this.recordFailedAttempt(mfa, user);
+            throw new UnauthorizedException('Invalid MFA code');
+        }
+
+        if (mfa.failedAttempts > 0) {
+            await this.mfaRepository.update({ userId }, { failedAttempts: 0 });
+        }
+
+        return user;
+    }
+
+    /**
+     * Counts a wrong code at login and locks the account once the threshold is reached. The
+     * counter starts over with the lock, so the owner gets a fresh start once it expires.
+     */
+    private async recordFailedAttempt(mfa: UserMfa, user: User): Promise<void> {
+        const failedAttempts = mfa.failedAttempts + 1;
+        if (failedAttempts < this.configService.get('auth.mfaLockoutThreshold', 5)) {
+            await this.mfaRepository.update({ userId: mfa.userId }, { failedAttempts });
+            return;
+        }
+
+        await this.mfaRepository.update({ userId: mfa.userId }, { failedAttempts: 0 });
+        await this.userService.lockAccount(user, { failedMfaAttempts: failedAttempts });
+    }
+
+    private async getEnabledMfa(userId: number): Promise<UserMfa> {
+        const mfa = await this.mfaRepository.findOne({ where: { userId, enabledAt: Not(IsNull()) } });
+        if (!mfa) {
+            throw new BadRequestException('MFA is not enabled');
+        }
+
+        return mfa;
+    }
+
+    /**
+     * Checks a second-factor code, accepting either a TOTP code or an unused recovery code.
+     * Both are single-use: a TOTP time step cannot be accepted twice and recovery codes are burned.
+     */
+    private async verifyCode(mfa: UserMfa, code: string): Promise<boolean> {
+        const step = verifyTotp(mfa.secret, code.trim());
+        if (step !== null) {
+            if (mfa.lastUsedStep !== null && step <= mfa.lastUsedStep) {
+                return false;
+            }
+
+            // Guard on the step we read so two concurrent logins cannot both use the same code
+            const result = await this.mfaRepository.update(
+                { userId: mfa.userId, lastUsedStep: mfa.lastUsedStep === null ? IsNull() : mfa.lastUsedStep },
+                { lastUsedStep: step },
+            );
+            return result.affected !== 0;
+        }
+
+        return await this.useRecoveryCode(mfa.userId, code);
+    }
+
+    private async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+        const recoveryCode = await this.recoveryCodeRepository.findOne({
+            where: { userId, codeHash: hashToken(this.normalizeRecoveryCode(code)), usedAt: IsNull() },
+        });
+        if (!recoveryCode) {
+            return false;
+        }
+
+        const result = await this.recoveryCodeRepository.update(
+            { id: recoveryCode.id, usedAt: IsNull() },
+            { usedAt: new Date() },
+        );
+        if (result.affected === 0) {
+            return false;
+        }
+
+        const remaining = await this.recoveryCodeRepository.count({ where: { userId, usedAt: IsNull() } });
+        await this.securityEventService.record(SecurityEventTypes.MFA_RECOVERY_CODE_USED, userId, { remaining });
+
+        return true;
+    }
+
+    private async replaceRecoveryCodes(userId: number): Promise<string[]> {
+        await this.recoveryCodeRepository.delete({ userId });
+
+        const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const hex = randomBytes(5).toString('hex');
+            return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+        });
+
+        await this.recoveryCodeRepository.save(
+            codes.map((code) =>
+                this.recoveryCodeRepository.create({ userId, codeHash: hashToken(this.normalizeRecoveryCode(code)) }),
+            ),
+        );
+
+        return codes;
+    }
+
+    private normalizeRecoveryCode(code: string): string {
+        return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    }
+}
+
+export { MfaService };
@@ -0,0 +1,221 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { OAuthConsent } from '../entities/oauth-consent.entity';
+import { OAuthAuthorizationCode } from '../entities/oauth-authorization-code.entity';
+import { OAuthClientService } from './oauth-client.service';
+import { SecurityEventService } from './security-event.service';
+import { AuthService } from '../auth.service';
+import { OAuthException } from '../exceptions/oauth.exception';
+import { AuthorizationDecisionDto, AuthorizationRequestDto } from '../dto/oauth.dto';
+import { OAuthGrantTypes } from '../constants/oauth';
+import { SecurityEventTypes } from '../constants/security-events';
+import { resolveScopes } from '../utils/oauth-scopes';
+import { generateToken, hashToken } from '../utils/tokens';
+
+const AUTHORIZATION_CODE_TTL_MINUTES = 5;
+
+/**
+ * Handles the user-facing half of the authorization code grant: validating authorization
+ * requests for the consent screen, recording consent and issuing authorization codes.
+ */
+@Injectable()
+class OAuthAuthorizationService {
+    constructor(
+        @InjectRepository(OAuthConsent)
+        private readonly consentRepository: Repository<OAuthConsent>,
+        @InjectRepository(OAuthAuthorizationCode)
+        private readonly authorizationCodeRepository: Repository<OAuthAuthorizationCode>,
+        private readonly oauthClientService: OAuthClientService,
+        private readonly securityEventService: SecurityEventService,
+        private readonly authService: AuthService,
+    ) {}
+
+    /**
+     * Validates an authorization request before the consent screen is shown.
+     *
+     * @param userId The ID of the signed-in user.
+     * @param authorizationRequestDto The query the client sent the user with.
+     * @returns The client, the requested scopes and whether the user already allowed them.
+     * @throws OAuthException if the client, redirect URI, scopes or PKCE parameters are invalid.
+     */
+    public async validateAuthorizationRequest(
+        userId: number,
+        authorizationRequestDto: AuthorizationRequestDto,
+    ): Promise<{ client: OAuthClient; scopes: string[]; consentGranted: boolean }> {
+        const client = await this.oauthClientService.findByClientId(authorizationRequestDto.client_id);
+        if (!client) {
+            throw OAuthException.invalidRequest('Unknown client_id');
+        }
+
+        // Checked first and compared exactly, so errors are never sent to an unregistered URI
+        if (!client.redirectUris.includes(authorizationRequestDto.redirect_uri)) {
+            throw OAuthException.invalidRequest('redirect_uri is not registered for this client');
+        }
+
+        if (!client.grantTypes.includes(OAuthGrantTypes.AUTHORIZATION_CODE)) {
+            throw new OAuthException('unauthorized_client', 'The client may not use the authorization_code grant');
+        }
+
+        if (authorizationRequestDto.response_type !== 'code') {
+            throw new OAuthException('unsupported_response_type', 'Only the "code" response type is supported');
+        }
+
+        if (authorizationRequestDto.code_challenge_method !== 'S256') {
+            throw OAuthException.invalidRequest('PKCE with code_challenge_method S256 is required');
+        }
+
+        const scopes = resolveScopes(authorizationRequestDto.scope, client.scopes);
+        const consent = await this.consentRepository.findOne({ where: { userId, clientId: client.id } });
+        const consentGranted = !!consent && scopes.every((scope) => consent.scopes.includes(scope));
+
+        return { client, scopes, consentGranted };
+    }
+
+    /**
+     * Records the decision of the user on the consent screen.
+     *
+     * @param userId The ID of the signed-in user.
+     * @param decisionDto The authorization request and whether the user approved it.
+     * @returns The client redirect URI carrying either an authorization code or an access_denied error.
+     * @throws OAuthException if the authorization request is invalid.
+     */
+    public async decide(userId: number, decisionDto: AuthorizationDecisionDto): Promise<string> {
+        const { client, scopes } = await this.validateAuthorizationRequest(userId, decisionDto);
+
+        if (!decisionDto.approve) {
+            return this.buildRedirectUri(decisionDto.redirect_uri, {
+                error: 'access_denied',
+                error_description: 'The user denied the request',
+                state: decisionDto.state,
+            });
+        }
+
+        await this.saveConsent(userId, client, scopes);
+
+        const code = generateToken();
+        const expiresAt = new Date();
+        expiresAt.setMinutes(expiresAt.getMinutes() + AUTHORIZATION_CODE_TTL_MINUTES);
+
+        await this.authorizationCodeRepository.save(
+            this.authorizationCodeRepository.create({
+                codeHash: hashToken(code),
+                clientId: client.id,
+                userId,
+                redirectUri: decisionDto.redirect_uri,
+                scopes,
+                codeChallenge: decisionDto.code_challenge,
+                expiresAt,
+            }),
+        );
+
+        return this.buildRedirectUri(decisionDto.redirect_uri, { code, state: decisionDto.state });
+    }
+
+    /**
+     * Redeems an authorization code. The code is deleted first, so it can only be redeemed once.
+     *
+     * @param client The authenticated client redeeming the code.
+     * @param code The authorization code.
+     * @param redirectUri The redirect URI, which must match the authorization request.
+     * @param codeVerifier The PKCE verifier matching the code challenge.
+     * @returns The user who approved the request and the scopes they granted.
+     * @throws OAuthException invalid_grant if the code is unknown, used, expired or does not match.
+     */
+    public async redeemAuthorizationCode(
+        client: OAuthClient,
+        code: string,
+        redirectUri: string,
+        codeVerifier: string,
+    ): Promise<{ userId: number; scopes: string[] }> {
+        const authorizationCode = await this.authorizationCodeRepository.findOne({ where: { codeHash: hashToken(code) } });
+        if (!authorizationCode) {
+            throw new OAuthException('invalid_grant', 'Invalid authorization code');
+        }
+
+        const deletion = await this.authorizationCodeRepository.delete({ id: authorizationCode.id });
+        const challenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+        if (
+            deletion.affected === 0 ||
+            authorizationCode.clientId !== client.id ||
+            authorizationCode.expiresAt < new Date() ||
+            authorizationCode.redirectUri !== redirectUri ||
+            authorizationCode.codeChallenge !== challenge
+        ) {
+            throw new OAuthException('invalid_grant', 'Invalid authorization code');
+        }
+
+        return { userId: authorizationCode.userId, scopes: authorizationCode.scopes };
+    }
+
+    public async getConsents(userId: number): Promise<OAuthConsent[]> {
+        return await this.consentRepository.find({
+            where: { userId },
+            relations: ['client'],
+            order: { updatedAt: 'DESC' },
+        });
+    }
+
+    /**
+     * Withdraws the consent of a user and signs the client out of every session it holds for them.
+     *
+     * @param userId The ID of the user.
+     * @param consentId The ID of the consent.
+     * @throws NotFoundException if the user has no such consent.
+     */
+    public async revokeConsent(userId: number, consentId: number): Promise<void> {
+        const consent = await this.consentRepository.findOne({ where: { id: consentId, userId } });
+        if (!consent) {
+            throw new NotFoundException('Consent not found');
+        }
+
+        await this.consentRepository.delete({ id: consent.id });
+        await this.authService.revokeClientRefreshTokens(userId, consent.clientId);
+        await this.securityEventService.record(SecurityEventTypes.OAUTH_CONSENT_REVOKED, userId, {
+            clientId: consent.clientId,
+        });
+    }
+
+    @Cron(CronExpression.EVERY_HOUR)
+    public async removeExpiredCodes(): Promise<void> {
+        await this.authorizationCodeRepository.delete({ expiresAt: LessThan(new Date()) });
+    }
+
+    private async saveConsent(userId: number, client: OAuthClient, scopes: string[]): Promise<void> {
+        const consent = await this.consentRepository.findOne({ where: { userId, clientId: client.id } });
+        const grantedScopes = [...new Set([...(consent?.scopes || []), ...scopes])];
+
+        if (consent && grantedScopes.length === consent.scopes.length) {
+            return;
+        }
+
+        await this.consentRepository.save({
+            ...consent,
+            userId,
+            clientId: client.id,
+            scopes: grantedScopes,
+            updatedAt: new Date(),
+        });
+        await this.securityEventService.record(SecurityEventTypes.OAUTH_CONSENT_GRANTED, userId, {
+            clientId: client.id,
+            scopes,
+        });
+    }
+
+    private buildRedirectUri(redirectUri: string, params: Record<string, string | undefined>): string {
+        const url = new URL(redirectUri);
+        for (const [name, value] of Object.entries(params)) {
+            if (value !== undefined) {
+                url.searchParams.set(name, value);
+            }
+        }
+
+        return url.toString();
+    }
+}
+
+export { OAuthAuthorizationService };
@@ -0,0 +1,91 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { timingSafeEqual } from 'crypto';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { OAuthException } from '../exceptions/oauth.exception';
+import { OAuthGrantTypes } from '../constants/oauth';
+import { CreateOAuthClientDto } from '../dto/oauth.dto';
+import { generateToken, hashToken } from '../utils/tokens';
+
+@Injectable()
+class OAuthClientService {
+    constructor(
+        @InjectRepository(OAuthClient)
+        private readonly clientRepository: Repository<OAuthClient>,
+    ) {}
+
+    /**
+     * Registers a client with a generated ID and secret.
+     *
+     * @param createClientDto The name, redirect URIs, scopes and grants of the client, and whether it may introspect.
+     * @returns The stored client and the plaintext secret, which is not retrievable later.
+     * @throws BadRequestException if the grants need redirect URIs or another grant that is missing.
+     */
+    public async createClient(
+        createClientDto: CreateOAuthClientDto,
+    ): Promise<{ client: OAuthClient; clientSecret: string }> {
+        const { name, redirectUris = [], scopes = [], grantTypes = [], canIntrospect = false } = createClientDto;
+
+        if (grantTypes.includes(OAuthGrantTypes.AUTHORIZATION_CODE) && redirectUris.length === 0) {
+            throw new BadRequestException('The authorization_code grant requires at least one redirect URI');
+        }
+
+        if (grantTypes.includes(OAuthGrantTypes.REFRESH_TOKEN) && !grantTypes.includes(OAuthGrantTypes.AUTHORIZATION_CODE)) {
+            throw new BadRequestException('The refresh_token grant requires the authorization_code grant');
+        }
+
+        const clientSecret = generateToken();
+        const client = await this.clientRepository.save(
+            this.clientRepository.create({
+                clientId: generateToken(16),
+                clientSecretHash: hashToken(clientSecret),
+                name,
+                redirectUris,
+                scopes,
+                grantTypes,
+                canIntrospect,
+            }),
+        );
+
+        return { client, clientSecret };
+    }
+
+    public async getClients(): Promise<OAuthClient[]> {
+        return await this.clientRepository.find({ order: { createdAt: 'ASC' } });
+    }
+
+    public async findByClientId(clientId: string): Promise<OAuthClient | null> {
+        return await this.clientRepository.findOne({ where: { clientId } });
+    }
+
+    public async deleteClient(id: number): Promise<void> {
+        const result = await this.clientRepository.delete({ id });
+        if (result.affected === 0) {
+            throw new NotFoundException('Client not found');
+        }
+    }
+
+    /**
+     * Authenticates a client by its ID and secret.
+     *
+     * @param clientId The client ID.
+     * @param clientSecret The plaintext client secret.
+     * @returns The authenticated client.
+     * @throws OAuthException invalid_client if the credentials do not match a client.
+     */
+    public async authenticateClient(clientId: string, clientSecret: string): Promise<OAuthClient> {
+        const client = await this.findByClientId(clientId);
+
+        // Hashes are compared even for unknown clients, so timing does not reveal which IDs exist
+        const expectedHash = Buffer.from(client?.clientSecretHash || hashToken(''), 'hex');
+        const presentedHash = Buffer.from(hashToken(clientSecret), 'hex');
+        if (!timingSafeEqual(expectedHash, presentedHash) || !client) {
+            throw OAuthException.invalidClient();
+        }
+
+        return client;
+    }
+}
+
+export { OAuthClientService };
@@ -0,0 +1,157 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { UserService } from 'src/modules/user/user.service';
+import { User } from 'src/modules/user/entities/user.entity';
+import { AuthService } from '../auth.service';
+import { SigningKeyService } from './signing-key.service';
+import { OAuthAuthorizationService } from './oauth-authorization.service';
+import { TokenPolicyService } from './token-policy.service';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { OAuthException } from '../exceptions/oauth.exception';
+import { OAuthGrantRequestDto } from '../dto/oauth.dto';
+import { OAUTH_ACCESS_TOKEN_TYPE, OAuthGrantTypes } from '../constants/oauth';
+import { OAuthTokenResponse } from '../interfaces';
+import { resolveScopes } from '../utils/oauth-scopes';
+
+/**
+ * Issues tokens at the OAuth token endpoint for the authorization_code, refresh_token and
+ * client_credentials grants.
+ */
+@Injectable()
+class OAuthTokenService {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly signingKeyService: SigningKeyService,
+        private readonly oauthAuthorizationService: OAuthAuthorizationService,
+        private readonly userService: UserService,
+        private readonly tokenPolicyService: TokenPolicyService,
+    ) {}
+
+    /**
+     * Answers a token request from an authenticated client.
+     *
+     * @param client The authenticated client.
+     * @param grantRequestDto The token request.
+     * @returns The RFC 6749 token response.
+     * @throws OAuthException if the grant is unsupported, not allowed for the client or invalid.
+     */
+    public async issueTokens(client: OAuthClient, grantRequestDto: OAuthGrantRequestDto): Promise<OAuthTokenResponse> {
+        const grantType = grantRequestDto.grant_type;
+        if (!Object.values(OAuthGrantTypes).includes(grantType)) {
+            throw new OAuthException('unsupported_grant_type', `Unsupported grant_type: ${grantType}`);
+        }
+
+        if (!client.grantTypes.includes(grantType)) {
+            throw new OAuthException('unauthorized_client', `The client may not use the ${grantType} grant`);
+        }
+
+        switch (grantType) {
+            case OAuthGrantTypes.AUTHORIZATION_CODE:
+                return await this.exchangeAuthorizationCode(client, grantRequestDto);
+            case OAuthGrantTypes.REFRESH_TOKEN:
+                return await this.exchangeRefreshToken(client, grantRequestDto);
+            default:
+                return this.issueClientCredentialsToken(client, grantRequestDto);
+        }
+    }
+
+    private async exchangeAuthorizationCode(
+        client: OAuthClient,
+        { code, redirect_uri, code_verifier }: OAuthGrantRequestDto,
+    ): Promise<OAuthTokenResponse> {
+        if (!code || !redirect_uri || !code_verifier) {
+            throw OAuthException.invalidRequest('code, redirect_uri and code_verifier are required');
+        }
+
+        const { userId, scopes } = await this.oauthAuthorizationService.redeemAuthorizationCode(
+            client,
+            code,
+            redirect_uri,
+            code_verifier,
+        );
+        const user = await this.getActiveUser(userId);
+
+        const response = this.createTokenResponse(this.signAccessToken(client, scopes, user), scopes);
+        if (client.grantTypes.includes(OAuthGrantTypes.REFRESH_TOKEN)) {
+            response.refresh_token = await this.authService.createRefreshToken(
+                user.id,
+                { deviceName: client.name },
+                { clientId: client.id, scopes },
+            );
+        }
+
+        return response;
+    }
+
+    /**
+     * Rotates a refresh token issued to the client. The scope parameter may narrow the new access
+     * token, while the refresh token keeps every scope of the grant.
+     */
+    private async exchangeRefreshToken(
+        client: OAuthClient,
+        { refresh_token, scope }: OAuthGrantRequestDto,
+    ): Promise<OAuthTokenResponse> {
+        if (!refresh_token) {
+            throw OAuthException.invalidRequest('refresh_token is required');
+        }
+
+        const rotation = await this.authService.rotateRefreshToken(refresh_token, {}, client.id).catch((error) => {
+            throw error instanceof UnauthorizedException
+                ? new OAuthException('invalid_grant', 'Invalid refresh token')
+                : error;
+        });
+
+        const user = await this.getActiveUser(rotation.user.id);
+        const scopes = resolveScopes(scope, rotation.scopes || []);
+
+        return {
+            ...this.createTokenResponse(this.signAccessToken(client, scopes, user), scopes),
+            refresh_token: rotation.refreshToken,
+        };
+    }
+
+    /**
+     * Issues a token for the client itself. It acts for no user, so it is meant for resource
+     * servers that check it through the JWKS or introspection.
+     */
+    private issueClientCredentialsToken(client: OAuthClient, { scope }: OAuthGrantRequestDto): OAuthTokenResponse {
+        const scopes = resolveScopes(scope, client.scopes);
+        return this.createTokenResponse(this.signAccessToken(client, scopes), scopes);
+    }
+
+    private async getActiveUser(userId: number): Promise<User> {
+        const user = await this.userService.getUserById(userId).catch(() => null);
+        if (!user || !user.isActive) {
+            throw new OAuthException('invalid_grant', 'The user is not active');
+        }
+
+        return user;
+    }
+
+    /**
+     * Signs an RFC 9068 style access token. Client credentials tokens use the client ID as subject.
+     */
+    private signAccessToken(client: OAuthClient, scopes: string[], user?: User): string {
+        const payload = {
+            type: OAUTH_ACCESS_TOKEN_TYPE,
+            sub: user ? user.id : client.clientId,
+            ...(user ? { username: user.email } : {}),
+            client_id: client.clientId,
+            scope: scopes.join(' '),
+            jti: randomUUID(),
+        };
+
+        return this.signingKeyService.signAccessToken(payload, `${this.tokenPolicyService.getAccessTokenLifetime()}s`);
+    }
+
+    private createTokenResponse(accessToken: string, scopes: string[]): OAuthTokenResponse {
+        return {
+            access_token: accessToken,
+            token_type: 'Bearer',
+            expires_in: this.tokenPolicyService.getAccessTokenLifetime(),
+            scope: scopes.join(' '),
+        };
+    }
+}
+
+export { OAuthTokenService };
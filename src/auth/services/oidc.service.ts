@@ -0,0 +1,385 @@
+import {
+    Injectable,
+    NotFoundException,
+    OnModuleInit,
+    ServiceUnavailableException,
+    UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtVerifyOptions } from '@nestjs/jwt';
+import { JsonWebKey, createHash, createPublicKey, randomBytes, timingSafeEqual } from 'crypto';
+import { OidcIdentity, OidcProviderConfig } from '../interfaces';
+
+type SigningAlgorithm = NonNullable<JwtVerifyOptions['algorithms']>[number];
+
+const OIDC_STATE_TOKEN_TYPE = 'oidc_state';
+const RESERVED_PROVIDER_NAMES = ['google', 'facebook'];
+const OIDC_STATE_TTL = '10m';
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const JWKS_REFRESH_COOLDOWN_MS = 60 * 1000;
+const HTTP_TIMEOUT_MS = 10 * 1000;
+const ID_TOKEN_CLOCK_TOLERANCE_SECONDS = 60;
+const SUPPORTED_SIGNING_ALGORITHMS: SigningAlgorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+interface DiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+    userinfo_endpoint?: string;
+    id_token_signing_alg_values_supported?: string[];
+    token_endpoint_auth_methods_supported?: string[];
+}
+
+interface PendingAuthorization {
+    type: string;
+    provider: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+}
+
+interface CacheEntry<T> {
+    value: T;
+    fetchedAt: number;
+}
+
+@Injectable()
+class OidcService implements OnModuleInit {
+    private readonly discoveryCache = new Map<string, CacheEntry<DiscoveryDocument>>();
+    private readonly jwksCache = new Map<string, CacheEntry<JsonWebKey[]>>();
+
+    constructor(
+        private readonly jwtService: JwtService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    /**
+     * Fails startup when a provider listed in OIDC_PROVIDERS is missing its settings,
+     * rather than on the first login attempt.
+     */
+    public onModuleInit(): void {
+        for (const provider of Object.values(this.getProviders())) {
+            // Identities are stored by provider name, so OIDC providers cannot reuse the built-in ones
+            if (RESERVED_PROVIDER_NAMES.includes(provider.name)) {
+                throw new Error(`OIDC provider name '${provider.name}' is reserved`);
+            }
+
+            const missing = (['issuer', 'clientId', 'clientSecret'] as const).filter((key) => !provider[key]);
+            if (missing.length > 0) {
+                throw new Error(`OIDC provider '${provider.name}' is missing ${missing.join(', ')}`);
+            }
+        }
+    }
+
+    public getProviderNames(): string[] {
+        return Object.keys(this.getProviders());
+    }
+
+    /**
+     * Builds the authorization request for the authorization code flow with PKCE. The state,
+     * nonce and code verifier are returned in a signed token that the caller keeps in a cookie
+     * on the browser that started the login, so the callback can only be completed there.
+     *
+     * @param providerName The provider name from OIDC_PROVIDERS.
+     * @returns The URL to send the browser to and the signed state token.
+     * @throws NotFoundException if the provider is not configured.
+     * @throws ServiceUnavailableException if the discovery document cannot be fetched.
+     */
+    public async createAuthorizationRequest(
+        providerName: string,
+    ): Promise<{ authorizationUrl: string; stateToken: string }> {
+        const provider = this.getProvider(providerName);
+        const discovery = await this.discover(provider);
+
+        const pending: PendingAuthorization = {
+            type: OIDC_STATE_TOKEN_TYPE,
+            provider: provider.name,
+            state: randomBytes(32).toString('base64url'),
+            nonce: randomBytes(32).toString('base64url'),
+            codeVerifier: randomBytes(32).toString('base64url'),
+        };
+        const stateToken = this.jwtService.sign(pending, { expiresIn: OIDC_STATE_TTL });
+
+        const authorizationUrl = new URL(discovery.authorization_endpoint);
+        authorizationUrl.searchParams.set('response_type', 'code');
+        authorizationUrl.searchParams.set('client_id', provider.clientId);
+        authorizationUrl.searchParams.set('redirect_uri', provider.callbackUrl);
+        authorizationUrl.searchParams.set('scope', provider.scopes.join(' '));
+        authorizationUrl.searchParams.set('state', pending.state);
+        authorizationUrl.searchParams.set('nonce', pending.nonce);
+        authorizationUrl.searchParams.set(
+            'code_challenge',
+            createHash('sha256').update(pending.codeVerifier).digest('base64url'),
+        );
+        authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+
+        return { authorizationUrl: authorizationUrl.toString(), stateToken };
+    }
+
+    /**
+     * Completes the authorization code flow: checks the state against the one issued to this
+     * browser, exchanges the code and validates the ID token signature, issuer, audience,
+     * expiry and nonce.
+     *
+     * @param providerName The provider name from the callback route.
+     * @param params The code, state and error query parameters the provider redirected with.
+     * @param stateToken The signed state token from createAuthorizationRequest.
+     * @returns The identity asserted by the provider.
+     * @throws NotFoundException if the provider is not configured.
+     * @throws UnauthorizedException if the state, code or ID token is not valid.
+     * @throws ServiceUnavailableException if the provider cannot be reached.
+     */
+    public async completeAuthorization(
+        providerName: string,
+        params: { code?: string; state?: string; error?: string },
+        stateToken: string | undefined,
+    ): Promise<OidcIdentity> {
+        const provider = this.getProvider(providerName);
+
+        if (params.error) {
+            throw new UnauthorizedException('Sign-in was cancelled or denied by the identity provider');
+        }
+
+        const pending = this.verifyStateToken(stateToken, provider.name);
+        if (!params.state || !this.safeEqual(params.state, pending.state)) {
+            throw new UnauthorizedException('Invalid OIDC state');
+        }
+        if (!params.code) {
+            throw new UnauthorizedException('Missing authorization code');
+        }
+
+        const discovery = await this.discover(provider);
+        const tokens = await this.exchangeCode(provider, discovery, params.code, pending.codeVerifier);
+        let claims = await this.validateIdToken(provider, discovery, tokens.idToken, pending.nonce);
+
+        // Some providers keep profile claims out of the ID token unless they are fetched separately
+        if (!claims.email && discovery.userinfo_endpoint && tokens.accessToken) {
+            const userInfo = await this.fetchJson<Record<string, any>>(discovery.userinfo_endpoint, {
+                headers: { Authorization: `Bearer ${tokens.accessToken}` },
+            });
+            if (userInfo.sub !== claims.sub) {
+                throw new UnauthorizedException('OIDC user info does not match the ID token');
+            }
+            claims = { ...userInfo, ...claims, email: userInfo.email, email_verified: userInfo.email_verified };
+        }
+
+        return {
+            provider: provider.name,
+            subject: claims.sub,
+            email: typeof claims.email === 'string' ? claims.email : null,
+            // A few providers send the flag as a string
+            emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+            firstName: claims.given_name || null,
+            lastName: claims.family_name || null,
+            picture: claims.picture || null,
+        };
+    }
+
+    private getProviders(): Record<string, OidcProviderConfig> {
+        return this.configService.get('oidc.providers', {});
+    }
+
+    private getProvider(providerName: string): OidcProviderConfig {
+        const provider = this.getProviders()[providerName];
+        if (!provider) {
+            throw new NotFoundException('Unknown identity provider');
+        }
+
+        return provider;
+    }
+
+    private verifyStateToken(stateToken: string | undefined, providerName: string): PendingAuthorization {
+        let pending: PendingAuthorization;
+        try {
+            pending = this.jwtService.verify(stateToken || '');
+        } catch {
+            throw new UnauthorizedException('Invalid or expired OIDC state');
+        }
+
+        if (pending.type !== OIDC_STATE_TOKEN_TYPE || pending.provider !== providerName) {
+            throw new UnauthorizedException('Invalid or expired OIDC state');
+        }
+
+        return pending;
+    }
+
+    private async discover(provider: OidcProviderConfig): Promise<DiscoveryDocument> {
+        const cached = this.discoveryCache.get(provider.name);
+        if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+            return cached.value;
+        }
+
+        const discovery = await this.fetchJson<DiscoveryDocument>(
+            `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+        );
+
+        // OIDC Discovery 4.3: the document must be for the issuer it was fetched from
+        if (discovery.issuer !== provider.issuer) {
+            throw new ServiceUnavailableException('Identity provider discovery document does not match its issuer');
+        }
+        if (!discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+            throw new ServiceUnavailableException('Identity provider discovery document is incomplete');
+        }
+
+        this.discoveryCache.set(provider.name, { value: discovery, fetchedAt: Date.now() });
+        return discovery;
+    }
+
+    private async exchangeCode(
+        provider: OidcProviderConfig,
+        discovery: DiscoveryDocument,
+        code: string,
+        codeVerifier: string,
+    ): Promise<{ idToken: string; accessToken?: string }> {
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: provider.callbackUrl,
+            code_verifier: codeVerifier,
+        });
+        const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+        // client_secret_basic is the default when the provider does not list its methods
+        const authMethods = discovery.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+        if (authMethods.includes('client_secret_basic')) {
+            const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+            headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        } else {
+            body.set('client_id', provider.clientId);
+            body.set('client_secret', provider.clientSecret);
+        }
+
+        const response = await this.request(discovery.token_endpoint, { method: 'POST', headers, body });
+        const tokens = await response.json().catch(() => ({}));
+        if (!response.ok || typeof tokens.id_token !== 'string') {
+            throw new UnauthorizedException('Authorization code could not be exchanged');
+        }
+
+        return { idToken: tokens.id_token, accessToken: tokens.access_token };
+    }
+
+    private async validateIdToken(
+        provider: OidcProviderConfig,
+        discovery: DiscoveryDocument,
+        idToken: string,
+        nonce: string,
+    ): Promise<Record<string, any>> {
+        const decoded = this.jwtService.decode(idToken, { complete: true });
+        const algorithm = decoded?.header?.alg;
+
+        // Only asymmetric algorithms the provider advertises, so "none" and HMAC tokens are never accepted
+        const allowedAlgorithms = (discovery.id_token_signing_alg_values_supported || ['RS256']).filter((alg) =>
+            SUPPORTED_SIGNING_ALGORITHMS.includes(alg as SigningAlgorithm),
+        );
+        if (!allowedAlgorithms.includes(algorithm)) {
+            throw new UnauthorizedException('Invalid ID token');
+        }
+
+        const publicKey = await this.getSigningKey(provider, discovery, algorithm, decoded.header.kid);
+
+        let claims: Record<string, any>;
+        try {
+            claims = this.jwtService.verify(idToken, {
+                secret: publicKey,
+                algorithms: [algorithm],
+                issuer: discovery.issuer,
+                audience: provider.clientId,
+                clockTolerance: ID_TOKEN_CLOCK_TOLERANCE_SECONDS,
+            });
+        } catch {
+            throw new UnauthorizedException('Invalid ID token');
+        }
+
+        if (typeof claims.sub !== 'string' || !claims.sub) {
+            throw new UnauthorizedException('Invalid ID token');
+        }
+        // OIDC Core 3.1.3.7: with several audiences the token must have been issued to us
+        if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) {
+            throw new UnauthorizedException('Invalid ID token');
+        }
+        if (typeof claims.nonce !== 'string' || !this.safeEqual(claims.nonce, nonce)) {
+            throw new UnauthorizedException('Invalid ID token nonce');
+        }
+
+        return claims;
+    }
+
+    /**
+     * Finds the key an ID token was signed with. An unknown key ID triggers one JWKS refetch,
+     * rate limited, so keys the provider has rotated in are picked up without a restart.
+     */
+    private async getSigningKey(
+        provider: OidcProviderConfig,
+        discovery: DiscoveryDocument,
+        algorithm: string,
+        kid: string | undefined,
+    ): Promise<string> {
+        let jwk = this.findKey(await this.getJwks(provider, discovery, false), algorithm, kid);
+        if (!jwk) {
+            jwk = this.findKey(await this.getJwks(provider, discovery, true), algorithm, kid);
+        }
+        if (!jwk) {
+            throw new UnauthorizedException('Invalid ID token');
+        }
+
+        return createPublicKey({ key: jwk, format: 'jwk' }).export({ type: 'spki', format: 'pem' }).toString();
+    }
+
+    private async getJwks(
+        provider: OidcProviderConfig,
+        discovery: DiscoveryDocument,
+        forceRefresh: boolean,
+    ): Promise<JsonWebKey[]> {
+        const cached = this.jwksCache.get(provider.name);
+        const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+        if (cached && (forceRefresh ? age < JWKS_REFRESH_COOLDOWN_MS : age < METADATA_CACHE_TTL_MS)) {
+            return cached.value;
+        }
+
+        const jwks = await this.fetchJson<{ keys?: JsonWebKey[] }>(discovery.jwks_uri);
+        const keys = Array.isArray(jwks.keys) ? jwks.keys : [];
+
+        this.jwksCache.set(provider.name, { value: keys, fetchedAt: Date.now() });
+        return keys;
+    }
+
+    private findKey(keys: JsonWebKey[], algorithm: string, kid: string | undefined): JsonWebKey | undefined {
+        const keyType = algorithm.startsWith('ES') ? 'EC' : 'RSA';
+        const candidates = keys.filter(
+            (key) => key.kty === keyType && key.use !== 'enc' && (kid === undefined || key.kid === kid),
+        );
+
+        // Without a key ID the choice has to be unambiguous
+        return kid === undefined && candidates.length !== 1 ? undefined : candidates[0];
+    }
+
+    private async fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+        const response = await this.request(url, init);
+        if (!response.ok) {
+            throw new ServiceUnavailableException('Identity provider is unavailable');
+        }
+
+        try {
+            return (await response.json()) as T;
+        } catch {
+            throw new ServiceUnavailableException('Identity provider is unavailable');
+        }
+    }
+
+    private async request(url: string, init?: RequestInit): Promise<Response> {
+        try {
+            return await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+        } catch {
+            throw new ServiceUnavailableException('Identity provider is unavailable');
+        }
+    }
+
+    private safeEqual(a: string, b: string): boolean {
+        const left = Buffer.from(a);
+        const right = Buffer.from(b);
+        return left.length === right.length && timingSafeEqual(left, right);
+    }
+}
+
+export { OidcService };
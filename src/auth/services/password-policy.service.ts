@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BREACHED_PASSWORDS } from '../constants/breached-passwords';
+
+const CHARACTER_CLASSES: [RegExp, string][] = [
+    [/[a-z]/, 'lowercase letters'],
+    [/[A-Z]/, 'uppercase letters'],
+    [/[0-9]/, 'digits'],
+    [/[^a-zA-Z0-9]/, 'symbols'],
+];
+
+// Shorter name parts, such as "Al", occur in too many unrelated passwords to be rejected
+const MIN_PERSONAL_INFO_LENGTH = 3;
+
+/**
+ * The details of the account a password is chosen for, which the password must not contain.
+ */
+interface PasswordOwner {
+    email?: string | null;
+    firstName?: string | null;
+    lastName?: string | null;
+}
+
+/**
+ * Checks new passwords against the configured password policy.
+ */
+@Injectable()
+class PasswordPolicyService {
+    constructor(private readonly configService: ConfigService) {}
+
+    /**
+     * Validates a new password. Every rule is checked, so the user sees all problems at once.
+     *
+     * @param password The new plaintext password.
+     * @param owner The account the password is for.
+     * @param field The request field the password was sent in, used to report errors per field.
+     * @throws BadRequestException listing every violated rule, prefixed with the field name.
+     */
+    public validate(password: string, owner: PasswordOwner, field = 'password'): void {
+        const violations = this.getViolations(password, owner);
+
+        if (violations.length > 0) {
+            throw new BadRequestException(violations.map((violation) => `${field} ${violation}`));
+        }
+    }
+
+    private getViolations(password: string, owner: PasswordOwner): string[] {
+        const violations: string[] = [];
+
+        const minLength = this.configService.get('passwordPolicy.minLength', 10);
+        if (password.length < minLength) {
+            violations.push(`must be at least ${minLength} characters long`);
+        }
+
+        const requiredClasses = this.configService.get('passwordPolicy.requiredCharacterClasses', 3);
+        const presentClasses = CHARACTER_CLASSES.filter(([pattern]) => pattern.test(password));
+        if (presentClasses.length < requiredClasses) {
+            const classNames = CHARACTER_CLASSES.map(([, name]) => name).join(', ');
+            violations.push(`must contain at least ${requiredClasses} of: ${classNames}`);
+        }
+
+        if (this.configService.get('passwordPolicy.blockPersonalInfo', true) && this.containsPersonalInfo(password, owner)) {
+            violations.push('must not contain your name or email address');
+        }
+
+        if (this.configService.get('passwordPolicy.checkBreached', true) && BREACHED_PASSWORDS.has(password.toLowerCase())) {
+            violations.push('appears in a list of breached passwords, please choose another');
+        }
+
+        return violations;
+    }
+
+    private containsPersonalInfo(password: string, owner: PasswordOwner): boolean {
+        const normalizedPassword = password.toLowerCase();
+        const emailName = owner.email?.split('@')[0];
+
+        return [emailName, owner.firstName, owner.lastName]
+            .filter((value): value is string => !!value && value.length >= MIN_PERSONAL_INFO_LENGTH)
+            .some((value) => normalizedPassword.includes(value.toLowerCase()));
+    }
+}
+
+export { PasswordPolicyService, PasswordOwner };
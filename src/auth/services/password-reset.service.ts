@@ -0,0 +1,94 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { UserService } from 'src/modules/user/user.service';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { AuthService } from '../auth.service';
+import { PasswordResetToken } from '../entities/password-reset-token.entity';
+import { SecurityEventService } from './security-event.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { SecurityEventTypes } from '../constants/security-events';
+import { SessionContext } from '../interfaces';
+import { generateToken, hashToken } from '../utils/tokens';
+
+@Injectable()
+class PasswordResetService {
+    constructor(
+        @InjectRepository(PasswordResetToken)
+        private readonly resetTokenRepository: Repository<PasswordResetToken>,
+        private readonly userService: UserService,
+        private readonly authService: AuthService,
+        private readonly notificationService: NotificationService,
+        private readonly securityEventService: SecurityEventService,
+        private readonly configService: ConfigService,
+        private readonly passwordPolicyService: PasswordPolicyService,
+    ) {}
+
+    /**
+     * Emails a password reset link if the address belongs to an active account with a password.
+     * Resolves the same way whether or not the account exists, so it cannot be used to probe emails.
+     *
+     * @param email The email address the reset was requested for.
+     * @param context The client the request came from.
+     */
+    public async requestReset(email: string, context: SessionContext = {}): Promise<void> {
+        const user = await this.userService.getUserByEmail(email);
+        if (!user || !user.isActive || !user.hashedPassword) {
+            return;
+        }
+
+        // Only the most recent link stays valid
+        await this.resetTokenRepository.delete({ userId: user.id, usedAt: IsNull() });
+
+        const token = generateToken();
+        const expiresAt = new Date();
+        expiresAt.setMinutes(expiresAt.getMinutes() + this.configService.get('auth.passwordResetTtlMinutes', 30));
+
+        const resetToken = this.resetTokenRepository.create({
+            tokenHash: hashToken(token),
+            userId: user.id,
+            expiresAt,
+            requestedIp: context.ipAddress || null,
+        });
+
+        await this.resetTokenRepository.save(resetToken);
+        await this.notificationService.sendPasswordReset(user, token);
+    }
+
+    /**
+     * Consumes a reset token, sets the new password and signs the user out of every session.
+     *
+     * @param token The plaintext token from the reset link.
+     * @param newPassword The new plaintext password.
+     * @throws BadRequestException if the token is unknown, already used or expired, or the password violates the policy.
+     */
+    public async resetPassword(token: string, newPassword: string): Promise<void> {
+        const resetToken = await this.resetTokenRepository.findOne({
+            where: { tokenHash: hashToken(token), usedAt: IsNull() },
+        });
+
+        if (!resetToken || resetToken.expiresAt < new Date()) {
+            throw new BadRequestException('Invalid or expired password reset token');
+        }
+
+        // Checked before the token is consumed, so a rejected password does not cost the user their link
+        const user = await this.userService.getUserById(resetToken.userId);
+        this.passwordPolicyService.validate(newPassword, user, 'newPassword');
+
+        // Guard on usedAt so two concurrent requests cannot both consume the token
+        const consumption = await this.resetTokenRepository.update(
+            { id: resetToken.id, usedAt: IsNull() },
+            { usedAt: new Date() },
+        );
+        if (consumption.affected === 0) {
+            throw new BadRequestException('Invalid or expired password reset token');
+        }
+
+        await this.userService.setPassword(resetToken.userId, newPassword);
+        await this.authService.revokeAllUserRefreshTokens(resetToken.userId);
+        await this.securityEventService.record(SecurityEventTypes.PASSWORD_RESET, resetToken.userId);
+    }
+}
+
+export { PasswordResetService };
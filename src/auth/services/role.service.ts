@@ -0,0 +1,82 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from 'src/modules/user/entities/user.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { Role } from '../entities/role.entity';
+
+@Injectable()
+class RoleService {
+    constructor(
+        private readonly userService: UserService,
+        @InjectRepository(Role)
+        private readonly roleRepository: Repository<Role>,
+        @InjectRepository(User)
+        private readonly userRepository: Repository<User>,
+    ) {}
+
+    public async getAllRoles(): Promise<Role[]> {
+        return await this.roleRepository.find();
+    }
+
+    public async getRoleByName(name: string): Promise<Role> {
+        const role = await this.roleRepository.findOne({ where: { name } });
+        if (!role) {
+            throw new NotFoundException(`Role '${name}' not found`);
+        }
+
+        return role;
+    }
+
+    /**
+     * Grants a role to a user. Granting a role the user already holds is a no-op.
+     *
+     * @param userId The ID of the user receiving the role.
+     * @param roleName The name of the role to grant.
+     * @returns The updated user with its roles.
+     */
+    public async assignRole(userId: number, roleName: string): Promise<User> {
+        const [user, role] = await Promise.all([this.userService.getUserById(userId), this.getRoleByName(roleName)]);
+
+        const roles = user.roles || [];
+        if (roles.some((existingRole) => existingRole.id === role.id)) {
+            return user;
+        }
+
+        user.roles = [...roles, role];
+        return await this.userRepository.save(user);
+    }
+
+    /**
+     * Removes a role from a user.
+     *
+     * @param userId The ID of the user losing the role.
+     * @param roleName The name of the role to remove.
+     * @returns The updated user with its roles.
+     */
+    public async removeRole(userId: number, roleName: string): Promise<User> {
+        const user = await this.userService.getUserById(userId);
+
+        user.roles = (user.roles || []).filter((role) => role.name !== roleName);
+        return await this.userRepository.save(user);
+    }
+
+    public getRoleNames(user: User): string[] {
+        return (user.roles || []).map((role) => role.name);
+    }
+
+    /**
+     * Flattens the permissions of every role held by the user into a unique list of names.
+     *
+     * @param user The user with its roles loaded.
+     * @returns The permission names granted to the user.
+     */
+    public getPermissionNames(user: User): string[] {
+        const permissions = (user.roles || []).flatMap((role) =>
+            (role.permissions || []).map((permission) => permission.name),
+        );
+        return Array.from(new Set(permissions));
+    }
+}
+
+export { RoleService };
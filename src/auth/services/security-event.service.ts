@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { SecurityEvent } from '../entities/security-event.entity';
+
+@Injectable()
+class SecurityEventService {
+    constructor(
+        @InjectRepository(SecurityEvent)
+        private readonly securityEventRepository: Repository<SecurityEvent>,
+        private readonly logger: AppLoggerService,
+    ) {}
+
+    /**
+     * Persists a security event for a user and mirrors it to the audit log.
+     *
+     * @param type The type of the event, one of SecurityEventTypes.
+     * @param userId The ID of the affected user, if known.
+     * @param metadata Optional additional details about the event.
+     * @returns The stored security event.
+     */
+    public async record(type: string, userId: number | null, metadata?: Record<string, any>): Promise<SecurityEvent> {
+        const event = this.securityEventRepository.create({
+            type,
+            userId,
+            metadata: metadata || null,
+        });
+
+        const savedEvent = await this.securityEventRepository.save(event);
+        this.logger.logUserAction(String(userId ?? 'unknown'), `security_event:${type}`, metadata);
+
+        return savedEvent;
+    }
+
+    /**
+     * Lists the security events of a user, newest first.
+     *
+     * @param userId The ID of the user.
+     * @param page The 1-based page number.
+     * @param limit The number of events per page.
+     * @returns The events on the page and the total number of events.
+     */
+    public async getUserEvents(userId: number, page: number, limit: number): Promise<[SecurityEvent[], number]> {
+        return await this.securityEventRepository.findAndCount({
+            where: { userId },
+            order: { createdAt: 'DESC', id: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+        });
+    }
+}
+
+export { SecurityEventService };
@@ -0,0 +1,100 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import { getDeviceName } from 'src/shared/utils/user-agent';
+import { UserSession } from '../entities/user-session.entity';
+import { SessionContext } from '../interfaces';
+
+@Injectable()
+class SessionService {
+    constructor(
+        @InjectRepository(UserSession)
+        private readonly sessionRepository: Repository<UserSession>,
+    ) {}
+
+    public async createSession(userId: number, context: SessionContext = {}): Promise<UserSession> {
+        const session = this.sessionRepository.create({
+            userId,
+            userAgent: context.userAgent || null,
+            ipAddress: context.ipAddress || null,
+            deviceName: context.deviceName || getDeviceName(context.userAgent),
+        });
+
+        return await this.sessionRepository.save(session);
+    }
+
+    /**
+     * Records that a session was just used to refresh its tokens.
+     *
+     * @param sessionId The ID of the session.
+     * @param context The client the refresh came from.
+     */
+    public async touchSession(sessionId: string, context: SessionContext = {}): Promise<void> {
+        const update: Partial<UserSession> = { lastUsedAt: new Date() };
+        if (context.ipAddress) {
+            update.ipAddress = context.ipAddress;
+        }
+
+        await this.sessionRepository.update({ id: sessionId }, update);
+    }
+
+    public async getActiveSessions(userId: number): Promise<UserSession[]> {
+        return await this.sessionRepository.find({
+            where: { userId, revokedAt: IsNull() },
+            order: { lastUsedAt: 'DESC' },
+        });
+    }
+
+    /**
+     * Finds an active session owned by the given user.
+     *
+     * @param userId The ID of the session owner.
+     * @param sessionId The ID of the session.
+     * @returns The session.
+     * @throws NotFoundException if the session does not exist, belongs to someone else or was revoked.
+     */
+    public async getActiveSession(userId: number, sessionId: string): Promise<UserSession> {
+        const session = await this.sessionRepository.findOne({
+            where: { id: sessionId, userId, revokedAt: IsNull() },
+        });
+
+        if (!session) {
+            throw new NotFoundException('Session not found');
+        }
+
+        return session;
+    }
+
+    public async markRevoked(sessionId: string): Promise<void> {
+        await this.sessionRepository.update({ id: sessionId, revokedAt: IsNull() }, { revokedAt: new Date() });
+    }
+
+    public async markAllRevoked(userId: number, exceptSessionId?: string): Promise<void> {
+        await this.sessionRepository.update(
+            {
+                userId,
+                revokedAt: IsNull(),
+                ...(exceptSessionId ? { id: Not(exceptSessionId) } : {}),
+            },
+            { revokedAt: new Date() },
+        );
+    }
+
+    /**
+     * Marks sessions as revoked once none of their refresh tokens remain usable,
+     * for example after the token cleanup removed the expired ones.
+     */
+    public async revokeSessionsWithoutActiveTokens(): Promise<void> {
+        await this.sessionRepository
+            .createQueryBuilder()
+            .update(UserSession)
+            .set({ revokedAt: () => 'CURRENT_TIMESTAMP' })
+            .where('"revokedAt" IS NULL')
+            .andWhere(
+                'NOT EXISTS (SELECT 1 FROM "refresh_token" WHERE "refresh_token"."familyId" = "user_session"."id" AND "refresh_token"."isRevoked" = false)',
+            )
+            .execute();
+    }
+}
+
+export { SessionService };
@@ -0,0 +1,227 @@
+import { BadRequestException, Injectable, OnModuleInit, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IsNull, LessThan, Not, Repository } from 'typeorm';
+import { JsonWebKey, createPublicKey, generateKeyPairSync, randomUUID } from 'crypto';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { SigningKey } from '../entities/signing-key.entity';
+import { TokenPolicyService } from './token-policy.service';
+
+type SigningAlgorithm = NonNullable<JwtSignOptions['algorithm']>;
+
+const ASYMMETRIC_ALGORITHMS = ['RS256', 'ES256'];
+const VERIFICATION_ALGORITHMS: SigningAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+// Keys created by other instances are picked up this often when an unknown kid shows up
+const KEY_RELOAD_COOLDOWN_MS = 60 * 1000;
+
+@Injectable()
+class SigningKeyService implements OnModuleInit {
+    private keys: SigningKey[] = [];
+    private keysLoadedAt = 0;
+
+    constructor(
+        @InjectRepository(SigningKey)
+        private readonly signingKeyRepository: Repository<SigningKey>,
+        private readonly jwtService: JwtService,
+        private readonly configService: ConfigService,
+        private readonly logger: AppLoggerService,
+        private readonly tokenPolicyService: TokenPolicyService,
+    ) {}
+
+    /**
+     * Loads the key set and, when an asymmetric algorithm is configured, creates the first key.
+     * Access tokens are signed synchronously, so the active key must be in memory before requests arrive.
+     */
+    public async onModuleInit(): Promise<void> {
+        await this.loadKeys();
+
+        if (this.isAsymmetric() && !this.getActiveKey()) {
+            await this.rotateKeys();
+        }
+    }
+
+    /**
+     * Signs an access token with the active key, or with JWT_SECRET_KEY when HS256 is configured.
+     *
+     * @param payload The token claims.
+     * @param expiresIn The token lifetime, such as "15m".
+     * @returns The signed token, carrying the key ID in its "kid" header when signed with a key pair.
+     */
+    public signAccessToken(payload: object, expiresIn: string): string {
+        if (!this.isAsymmetric()) {
+            return this.jwtService.sign(payload, { expiresIn });
+        }
+
+        const activeKey = this.getActiveKey();
+        if (!activeKey) {
+            throw new Error('No active signing key is loaded');
+        }
+
+        // The module secret takes precedence over privateKey, so the key is passed as the secret
+        return this.jwtService.sign(payload, {
+            expiresIn,
+            secret: activeKey.privateKey,
+            algorithm: activeKey.algorithm as SigningAlgorithm,
+            keyid: activeKey.kid,
+        });
+    }
+
+    /**
+     * Finds the key an access token must be verified with, chosen by the "kid" header.
+     * Tokens without a kid are only accepted while HS256 is the configured algorithm.
+     *
+     * @param token The raw access token.
+     * @returns The PEM public key, or the shared secret for HS256 tokens.
+     * @throws UnauthorizedException if the token names an unknown or expired key.
+     */
+    public async getVerificationKey(token: string): Promise<string> {
+        const decoded = this.jwtService.decode(token, { complete: true });
+        const header = decoded?.header || {};
+
+        if (!header.kid) {
+            if (this.isAsymmetric() || header.alg !== 'HS256') {
+                throw new UnauthorizedException('Unknown signing key');
+            }
+
+            return this.configService.get('jwt.secret', '');
+        }
+
+        let key = this.keys.find((candidate) => candidate.kid === header.kid);
+        if (!key && Date.now() - this.keysLoadedAt > KEY_RELOAD_COOLDOWN_MS) {
+            await this.loadKeys();
+            key = this.keys.find((candidate) => candidate.kid === header.kid);
+        }
+
+        if (!key || key.algorithm !== header.alg) {
+            throw new UnauthorizedException('Unknown signing key');
+        }
+
+        return key.publicKey;
+    }
+
+    /**
+     * Verifies the signature and expiry of an access token with the key named by its header.
+     *
+     * @param token The raw access token.
+     * @returns The verified claims.
+     * @throws UnauthorizedException if the key is unknown; errors from jsonwebtoken if the token is invalid.
+     */
+    public async verifyAccessToken(token: string): Promise<Record<string, any>> {
+        const key = await this.getVerificationKey(token);
+        return this.jwtService.verify(token, {
+            secret: key,
+            algorithms: VERIFICATION_ALGORITHMS,
+            clockTolerance: this.tokenPolicyService.getClockTolerance(),
+        });
+    }
+
+    /**
+     * Builds the JSON Web Key Set with the public half of every key still valid for verification.
+     */
+    public async getJwks(): Promise<{ keys: JsonWebKey[] }> {
+        if (Date.now() - this.keysLoadedAt > KEY_RELOAD_COOLDOWN_MS) {
+            await this.loadKeys();
+        }
+
+        return {
+            keys: this.keys.map((key) => ({
+                ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+                kid: key.kid,
+                alg: key.algorithm,
+                use: 'sig',
+            })),
+        };
+    }
+
+    /**
+     * Creates a new signing key and retires the current one. Retired keys keep verifying tokens
+     * for JWT_KEY_GRACE_HOURS, which must outlast the longest access token lifetime.
+     *
+     * @returns The new active key.
+     * @throws BadRequestException if HS256 is configured, as there is no key pair to rotate.
+     */
+    public async rotateKeys(): Promise<SigningKey> {
+        if (!this.isAsymmetric()) {
+            throw new BadRequestException('Key rotation requires an asymmetric JWT_SIGNING_ALGORITHM');
+        }
+
+        const algorithm = this.getAlgorithm();
+        const { publicKey, privateKey } =
+            algorithm === 'ES256'
+                ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+                : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+        const now = new Date();
+        const newKey = await this.signingKeyRepository.save(
+            this.signingKeyRepository.create({
+                kid: randomUUID(),
+                algorithm,
+                publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+                privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+                createdAt: now,
+                retiredAt: null,
+            }),
+        );
+
+        // Also retires keys created by other instances that this one has not loaded yet
+        await this.signingKeyRepository.update({ kid: Not(newKey.kid), retiredAt: IsNull() }, { retiredAt: now });
+
+        await this.signingKeyRepository.delete({ retiredAt: LessThan(this.getGraceCutoff()) });
+        await this.loadKeys();
+
+        this.logger.log(`Rotated token signing key, new kid ${newKey.kid}`, 'SigningKeyService');
+        return newKey;
+    }
+
+    /**
+     * Reloads the key set, so keys rotated by other instances are used here too, and rotates
+     * once the active key is older than JWT_KEY_ROTATION_DAYS. A value of 0 disables it.
+     */
+    @Cron(CronExpression.EVERY_HOUR)
+    public async scheduledKeyRotation(): Promise<void> {
+        await this.loadKeys();
+
+        const rotationDays = this.configService.get('jwt.keyRotationDays', 30);
+        const activeKey = this.getActiveKey();
+        if (!this.isAsymmetric() || rotationDays <= 0 || !activeKey) {
+            return;
+        }
+
+        const rotateAfter = new Date(activeKey.createdAt);
+        rotateAfter.setDate(rotateAfter.getDate() + rotationDays);
+        if (rotateAfter <= new Date()) {
+            await this.rotateKeys();
+        }
+    }
+
+    private getActiveKey(): SigningKey | null {
+        const algorithm = this.getAlgorithm();
+        return this.keys.find((key) => !key.retiredAt && key.algorithm === algorithm) || null;
+    }
+
+    private async loadKeys(): Promise<void> {
+        const cutoff = this.getGraceCutoff();
+        const keys = await this.signingKeyRepository.find({ order: { createdAt: 'DESC' } });
+
+        this.keys = keys.filter((key) => !key.retiredAt || key.retiredAt > cutoff);
+        this.keysLoadedAt = Date.now();
+    }
+
+    private getGraceCutoff(): Date {
+        const cutoff = new Date();
+        cutoff.setHours(cutoff.getHours() - this.configService.get('jwt.keyGraceHours', 24));
+        return cutoff;
+    }
+
+    private getAlgorithm(): string {
+        return this.configService.get('jwt.signingAlgorithm', 'HS256');
+    }
+
+    private isAsymmetric(): boolean {
+        return ASYMMETRIC_ALGORITHMS.includes(this.getAlgorithm());
+    }
+}
+
+export { SigningKeyService };
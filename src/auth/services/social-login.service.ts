@@ -0,0 +1,308 @@
+import { BadRequestException, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Request, Response } from 'express';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { PendingSocialLogin } from '../interfaces';
+import { SocialLoginModes } from '../constants/social-login';
+import { generateToken } from '../utils/tokens';
+
+const SOCIAL_LOGIN_STATE_TYPE = 'social_login_state';
+const SOCIAL_LOGIN_CODE_TYPE = 'social_login_code';
+const SOCIAL_LOGIN_STATE_TTL = '10m';
+const SOCIAL_LOGIN_CODE_TTL = '1m';
+const SOCIAL_LOGIN_COOKIE = 'socialLogin';
+const SOCIAL_LOGIN_COOKIE_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes, matching the state token
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+interface SocialLoginState extends PendingSocialLogin {
+    type: string;
+    state: string;
+    codeVerifier: string;
+}
+
+/**
+ * The state store of passport-oauth2, in the form that also receives the PKCE code verifier.
+ */
+interface PkceStateStore {
+    store(
+        request: Request,
+        codeVerifier: string,
+        state: unknown,
+        meta: unknown,
+        callback: (error: unknown, state?: string) => void,
+    ): void;
+    verify(
+        request: Request,
+        providedState: string,
+        callback: (error: unknown, codeVerifier: string | false, info?: unknown) => void,
+    ): void;
+}
+
+/**
+ * Carries Google and Facebook logins through the provider: the signed state with the return path
+ * and mode chosen by the frontend, PKCE for the code exchange, and the answer of the callback.
+ */
+@Injectable()
+class SocialLoginService {
+    constructor(
+        private readonly jwtService: JwtService,
+        private readonly configService: ConfigService,
+        private readonly accessTokenDenylistService: AccessTokenDenylistService,
+    ) {}
+
+    /**
+     * Creates the state store for a provider strategy. The state sent to the provider is a random
+     * value; the return path, mode and PKCE verifier stay in a signed httpOnly cookie, so the
+     * callback only completes in the browser that started the login.
+     *
+     * @param provider The name of the provider strategy.
+     * @returns The store to pass to the strategy with the pkce option.
+     */
+    public createStateStore(provider: string): PkceStateStore {
+        return {
+            // passport-oauth2 only passes the verifier to a store function declaring all five parameters
+            store: (request, codeVerifier, _state, _meta, callback): void => {
+                try {
+                    callback(null, this.storeState(request, provider, codeVerifier));
+                } catch (error) {
+                    callback(error);
+                }
+            },
+            verify: (request, providedState, callback): void => {
+                const state = this.readState(request);
+                this.clearStateCookie(request.res as Response);
+
+                if (!state || state.provider !== provider || !this.stateMatches(state.state, providedState)) {
+                    callback(null, false, { message: 'Invalid authorization request state' });
+                    return;
+                }
+
+                callback(null, state.codeVerifier, this.toPendingLogin(state));
+            },
+        };
+    }
+
+    /**
+     * Reads the login in progress from the state cookie, so a failed callback can still answer
+     * in the mode the login was started with.
+     *
+     * @param request The callback request.
+     * @returns The login in progress, or null without a valid state cookie.
+     */
+    public getPendingLogin(request: Request): PendingSocialLogin | null {
+        const state = this.readState(request);
+        return state ? this.toPendingLogin(state) : null;
+    }
+
+    public clearStateCookie(response: Response): void {
+        response.clearCookie(SOCIAL_LOGIN_COOKIE, { path: '/auth' });
+    }
+
+    /**
+     * Answers the provider callback. Popup logins get a page posting the result to the frontend
+     * window that opened it; the other modes are redirected to the frontend or the app deep link.
+     *
+     * @param response The callback response.
+     * @param pendingLogin The login in progress, null if the state was lost or forged.
+     * @param params The result, such as an error reason code or the one-time code of the app.
+     */
+    public sendResult(response: Response, pendingLogin: PendingSocialLogin | null, params: Record<string, string>): void {
+        if (pendingLogin?.mode === SocialLoginModes.POPUP) {
+            const message = { type: 'social_login', returnTo: pendingLogin.returnTo, ...params };
+            response.setHeader('Cache-Control', 'no-store');
+            response.type('html').send(this.renderPopupResult(message));
+            return;
+        }
+
+        response.redirect(this.getResultUrl(pendingLogin, params));
+    }
+
+    /**
+     * Issues the one-time code the mobile app redeems for a session. It is bound to the PKCE
+     * challenge of the app, so a code intercepted from the deep link is useless to anyone else.
+     *
+     * @param userId The ID of the signed-in user.
+     * @param pendingLogin The app login in progress.
+     * @returns The signed login code.
+     */
+    public createAppCode(userId: number, pendingLogin: PendingSocialLogin): string {
+        return this.jwtService.sign(
+            {
+                type: SOCIAL_LOGIN_CODE_TYPE,
+                sub: userId,
+                provider: pendingLogin.provider,
+                codeChallenge: pendingLogin.codeChallenge,
+                jti: randomUUID(),
+            },
+            { expiresIn: SOCIAL_LOGIN_CODE_TTL },
+        );
+    }
+
+    /**
+     * Redeems a login code from the app deep link. Each code works once.
+     *
+     * @param code The login code.
+     * @param codeVerifier The PKCE verifier matching the challenge the app started the login with.
+     * @returns The ID of the signed-in user and the provider they signed in with.
+     * @throws UnauthorizedException if the code is invalid, expired, used or the verifier does not match.
+     */
+    public async redeemAppCode(code: string, codeVerifier: string): Promise<{ userId: number; provider: string }> {
+        let payload: Record<string, any>;
+        try {
+            payload = this.jwtService.verify(code);
+        } catch {
+            throw new UnauthorizedException('Invalid login code');
+        }
+
+        const challenge = createHash('sha256').update(codeVerifier).digest('base64url');
+        if (payload.type !== SOCIAL_LOGIN_CODE_TYPE || !this.stateMatches(payload.codeChallenge, challenge)) {
+            throw new UnauthorizedException('Invalid login code');
+        }
+
+        if (await this.accessTokenDenylistService.isRevoked(payload.jti)) {
+            throw new UnauthorizedException('Login code has already been used');
+        }
+        await this.accessTokenDenylistService.revoke(payload.jti, new Date(payload.exp * 1000));
+
+        return { userId: payload.sub, provider: payload.provider };
+    }
+
+    private storeState(request: Request, provider: string, codeVerifier: string): string {
+        const state: SocialLoginState = {
+            type: SOCIAL_LOGIN_STATE_TYPE,
+            provider,
+            state: generateToken(),
+            codeVerifier,
+            ...this.parseLoginOptions(request.query),
+        };
+
+        // Lax, not strict: the callback is a top-level navigation coming back from the provider
+        (request.res as Response).cookie(
+            SOCIAL_LOGIN_COOKIE,
+            this.jwtService.sign(state, { expiresIn: SOCIAL_LOGIN_STATE_TTL }),
+            {
+                httpOnly: true,
+                secure: this.configService.get('nodeEnv') === 'production',
+                sameSite: 'lax',
+                maxAge: SOCIAL_LOGIN_COOKIE_MAX_AGE_MS,
+                path: '/auth',
+            },
+        );
+
+        return state.state;
+    }
+
+    /**
+     * Validates the options the frontend started the login with.
+     *
+     * @throws BadRequestException if the mode is unknown, the return path is not allowed or the
+     * app mode lacks its deep link configuration or PKCE challenge.
+     */
+    private parseLoginOptions(query: Request['query']): Omit<PendingSocialLogin, 'provider'> {
+        const mode = query.mode ?? SocialLoginModes.REDIRECT;
+        if (typeof mode !== 'string' || !Object.values(SocialLoginModes).includes(mode)) {
+            throw new BadRequestException(`mode must be one of: ${Object.values(SocialLoginModes).join(', ')}`);
+        }
+
+        let codeChallenge: string | null = null;
+        if (mode === SocialLoginModes.APP) {
+            if (!this.configService.get('oauth.appRedirectUri')) {
+                throw new BadRequestException('The app login is not configured');
+            }
+
+            if (typeof query.code_challenge !== 'string' || !CODE_CHALLENGE_PATTERN.test(query.code_challenge)) {
+                throw new BadRequestException('code_challenge must be an S256 PKCE challenge');
+            }
+            codeChallenge = query.code_challenge;
+        }
+
+        return { mode, returnTo: this.resolveReturnTo(query.returnTo), codeChallenge };
+    }
+
+    /**
+     * Only relative paths under OAUTH_RETURN_PATHS are accepted, so the login cannot be turned
+     * into an open redirect to another site.
+     */
+    private resolveReturnTo(returnTo: unknown): string {
+        const allowedPaths: string[] = this.configService.get('oauth.returnPaths', ['/dashboard']);
+        if (returnTo === undefined) {
+            return allowedPaths[0];
+        }
+
+        // Parsing against a placeholder origin catches "//host" and backslash tricks browsers accept
+        const placeholder = 'http://frontend.invalid';
+        const url = typeof returnTo === 'string' && returnTo.startsWith('/') ? new URL(returnTo, placeholder) : null;
+        const isAllowed =
+            url?.origin === placeholder &&
+            allowedPaths.some(
+                (path) => path === '/' || url.pathname === path || url.pathname.startsWith(path.replace(/\/$/, '') + '/'),
+            );
+
+        if (!url || !isAllowed) {
+            throw new BadRequestException('returnTo is not an allowed path');
+        }
+
+        return url.pathname + url.search + url.hash;
+    }
+
+    private readState(request: Request): SocialLoginState | null {
+        try {
+            const state = this.jwtService.verify<SocialLoginState>(request.cookies?.[SOCIAL_LOGIN_COOKIE] || '');
+            return state.type === SOCIAL_LOGIN_STATE_TYPE ? state : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private toPendingLogin({ provider, mode, returnTo, codeChallenge }: SocialLoginState): PendingSocialLogin {
+        return { provider, mode, returnTo, codeChallenge };
+    }
+
+    private stateMatches(expected: unknown, presented: unknown): boolean {
+        if (typeof expected !== 'string' || typeof presented !== 'string') {
+            return false;
+        }
+
+        const left = Buffer.from(expected);
+        const right = Buffer.from(presented);
+        return left.length === right.length && timingSafeEqual(left, right);
+    }
+
+    private getResultUrl(pendingLogin: PendingSocialLogin | null, params: Record<string, string>): string {
+        const frontendUrl = this.configService.get('frontend.url');
+
+        let url: URL;
+        if (pendingLogin?.mode === SocialLoginModes.APP) {
+            url = new URL(this.configService.getOrThrow('oauth.appRedirectUri'));
+        } else if (params.error || !pendingLogin) {
+            url = new URL(`${frontendUrl}/login`);
+        } else {
+            url = new URL(`${frontendUrl}${pendingLogin.returnTo}`);
+        }
+
+        for (const [name, value] of Object.entries(params)) {
+            url.searchParams.set(name, value);
+        }
+
+        return url.toString();
+    }
+
+    private renderPopupResult(message: Record<string, string>): string {
+        const targetOrigin = new URL(this.configService.getOrThrow('frontend.url')).origin;
+        // Escaping "<" keeps the JSON from closing the script element early
+        const payload = JSON.stringify({ targetOrigin, message }).replace(/</g, '\\u003c');
+
+        return [
+            '<!DOCTYPE html>',
+            '<html><head><meta charset="utf-8"><title>Signing in</title></head><body><script>',
+            `var result = ${payload};`,
+            'if (window.opener) { window.opener.postMessage(result.message, result.targetOrigin); }',
+            'window.close();',
+            '</script></body></html>',
+        ].join('\n');
+    }
+}
+
+export { SocialLoginService };
@@ -0,0 +1,184 @@
+import { Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { UserService } from 'src/modules/user/user.service';
+import { AuthService } from '../auth.service';
+import { SigningKeyService } from './signing-key.service';
+import { AccessTokenDenylistService } from './access-token-denylist.service';
+import { OAuthClientService } from './oauth-client.service';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { OAUTH_ACCESS_TOKEN_TYPE } from '../constants/oauth';
+import { TokenIntrospection } from '../interfaces';
+
+type TokenTypeHint = 'access_token' | 'refresh_token';
+
+const INACTIVE: TokenIntrospection = { active: false };
+
+/**
+ * Answers RFC 7662 introspection and RFC 7009 revocation requests for the access and refresh
+ * tokens issued to users and OAuth clients. Neither reveals why a token is not active.
+ */
+@Injectable()
+class TokenIntrospectionService {
+    constructor(
+        private readonly authService: AuthService,
+        private readonly signingKeyService: SigningKeyService,
+        private readonly accessTokenDenylistService: AccessTokenDenylistService,
+        private readonly oauthClientService: OAuthClientService,
+        private readonly userService: UserService,
+        private readonly jwtService: JwtService,
+    ) {}
+
+    /**
+     * Reports whether a token is currently valid and, if so, whom it belongs to. A client only
+     * sees tokens issued to itself, unless it is registered to introspect the tokens of other
+     * clients. First-party tokens are never described, so the endpoint cannot be used to probe them.
+     *
+     * @param client The authenticated client asking for the introspection.
+     * @param token The token to inspect.
+     * @param tokenTypeHint Which kind of token the caller believes it is; both kinds are tried.
+     * @returns The introspection response, { active: false } for any invalid token or one the client may not see.
+     */
+    public async introspect(client: OAuthClient, token: string, tokenTypeHint?: string): Promise<TokenIntrospection> {
+        for (const tokenType of this.getLookupOrder(tokenTypeHint)) {
+            const result =
+                tokenType === 'access_token'
+                    ? await this.introspectAccessToken(client, token)
+                    : await this.introspectRefreshToken(client, token);
+
+            if (result.active) {
+                return result;
+            }
+        }
+
+        return INACTIVE;
+    }
+
+    /**
+     * Revokes a token. Unknown and invalid tokens are ignored, as RFC 7009 asks, and so are
+     * tokens issued to another OAuth client.
+     *
+     * @param client The authenticated client asking for the revocation.
+     * @param token The token to revoke.
+     * @param tokenTypeHint Which kind of token the caller believes it is; both kinds are tried.
+     */
+    public async revoke(client: OAuthClient, token: string, tokenTypeHint?: string): Promise<void> {
+        for (const tokenType of this.getLookupOrder(tokenTypeHint)) {
+            const revoked =
+                tokenType === 'access_token'
+                    ? await this.revokeAccessToken(client, token)
+                    : await this.revokeRefreshToken(client, token);
+
+            if (revoked) {
+                return;
+            }
+        }
+    }
+
+    private async introspectAccessToken(client: OAuthClient, token: string): Promise<TokenIntrospection> {
+        const claims = await this.verifyAccessToken(token);
+        if (!claims || !this.mayIntrospect(client, claims.client_id)) {
+            return INACTIVE;
+        }
+
+        if (claims.jti && (await this.accessTokenDenylistService.isRevoked(claims.jti))) {
+            return INACTIVE;
+        }
+
+        if (!(await this.oauthClientService.findByClientId(claims.client_id))) {
+            return INACTIVE;
+        }
+
+        // Client credentials tokens have the client as their subject and act for no user
+        if (claims.sub !== claims.client_id) {
+            const user = await this.userService.getUserById(claims.sub).catch(() => null);
+            if (!user || !user.isActive) {
+                return INACTIVE;
+            }
+        }
+
+        return {
+            active: true,
+            token_type: 'access_token',
+            client_id: claims.client_id,
+            scope: claims.scope,
+            sub: String(claims.sub),
+            username: claims.username,
+            exp: claims.exp,
+            iat: claims.iat,
+            jti: claims.jti,
+        };
+    }
+
+    /**
+     * Checks the token without the reuse detection of a refresh, so presenting a rotated
+     * token here does not end the session of its owner.
+     */
+    private async introspectRefreshToken(client: OAuthClient, token: string): Promise<TokenIntrospection> {
+        const refreshToken = await this.authService.findActiveRefreshToken(token);
+        if (!refreshToken || !this.mayIntrospect(client, refreshToken.client?.clientId) || !refreshToken.user.isActive) {
+            return INACTIVE;
+        }
+
+        const claims = this.jwtService.decode(token);
+        return {
+            active: true,
+            token_type: 'refresh_token',
+            client_id: refreshToken.client?.clientId,
+            scope: refreshToken.scopes?.join(' '),
+            sub: String(refreshToken.user.id),
+            username: refreshToken.user.email,
+            exp: claims.exp,
+            iat: claims.iat,
+        };
+    }
+
+    /**
+     * Whether a client may see a token issued to the given client. Tokens without a client are
+     * first-party and stay hidden from every client.
+     */
+    private mayIntrospect(client: OAuthClient, tokenClientId?: string): boolean {
+        if (!tokenClientId) {
+            return false;
+        }
+
+        return tokenClientId === client.clientId || client.canIntrospect;
+    }
+
+    private async revokeAccessToken(client: OAuthClient, token: string): Promise<boolean> {
+        const claims = await this.verifyAccessToken(token);
+        if (!claims?.jti || (claims.client_id && claims.client_id !== client.clientId)) {
+            return false;
+        }
+
+        await this.accessTokenDenylistService.revoke(claims.jti, new Date(claims.exp * 1000));
+        return true;
+    }
+
+    private async revokeRefreshToken(client: OAuthClient, token: string): Promise<boolean> {
+        const refreshToken = await this.authService.findRefreshToken(token);
+        if (!refreshToken || (refreshToken.client && refreshToken.client.clientId !== client.clientId)) {
+            return false;
+        }
+
+        await this.authService.revokeRefreshToken(token);
+        return true;
+    }
+
+    /**
+     * Verifies an access token, rejecting the internal token types that share its signing key.
+     */
+    private async verifyAccessToken(token: string): Promise<Record<string, any> | null> {
+        try {
+            const claims = await this.signingKeyService.verifyAccessToken(token);
+            return claims.type && claims.type !== OAUTH_ACCESS_TOKEN_TYPE ? null : claims;
+        } catch {
+            return null;
+        }
+    }
+
+    private getLookupOrder(tokenTypeHint?: string): TokenTypeHint[] {
+        return tokenTypeHint === 'refresh_token' ? ['refresh_token', 'access_token'] : ['access_token', 'refresh_token'];
+    }
+}
+
+export { TokenIntrospectionService };
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TokenPolicy } from '../interfaces';
+
+/**
+ * Exposes the configured token lifetimes, so every place issuing or checking tokens agrees on them.
+ */
+@Injectable()
+class TokenPolicyService {
+    private readonly policy: TokenPolicy;
+
+    constructor(configService: ConfigService) {
+        this.policy = {
+            accessTokenLifetime: configService.get('jwt.accessTokenLifetimeSeconds', 15 * 60),
+            impersonationTokenLifetime: configService.get('jwt.impersonationTokenLifetimeSeconds', 10 * 60),
+            reauthenticationTokenLifetime: configService.get('jwt.reauthenticationTokenLifetimeSeconds', 5 * 60),
+            refreshTokenLifetime: configService.get('jwt.refreshTokenLifetimeSeconds', 30 * 24 * 60 * 60),
+            sessionMaxAge: configService.get('jwt.sessionMaxAgeSeconds', 90 * 24 * 60 * 60),
+            clockTolerance: configService.get('jwt.clockToleranceSeconds', 30),
+        };
+    }
+
+    public getPolicy(): TokenPolicy {
+        return { ...this.policy };
+    }
+
+    /**
+     * @param impersonation Whether the token is issued to an admin acting as the user.
+     * @returns The access token lifetime in seconds.
+     */
+    public getAccessTokenLifetime(impersonation = false): number {
+        return impersonation ? this.policy.impersonationTokenLifetime : this.policy.accessTokenLifetime;
+    }
+
+    public getReauthenticationTokenLifetime(): number {
+        return this.policy.reauthenticationTokenLifetime;
+    }
+
+    public getClockTolerance(): number {
+        return this.policy.clockTolerance;
+    }
+
+    /**
+     * Computes when a newly issued refresh token expires. Each refresh slides the expiry forward,
+     * but never past the absolute limit counted from when the session signed in.
+     *
+     * @param sessionStartedAt When the session the token belongs to was created.
+     * @returns The expiry of the refresh token.
+     */
+    public getRefreshTokenExpiry(sessionStartedAt: Date): Date {
+        const slidingExpiry = Date.now() + this.policy.refreshTokenLifetime * 1000;
+        const absoluteExpiry = sessionStartedAt.getTime() + this.policy.sessionMaxAge * 1000;
+
+        return new Date(Math.min(slidingExpiry, absoluteExpiry));
+    }
+
+    public isSessionExpired(sessionStartedAt: Date): boolean {
+        return Date.now() >= sessionStartedAt.getTime() + this.policy.sessionMaxAge * 1000;
+    }
+
+    /**
+     * @returns The max age of the refresh token cookie in milliseconds, as the cookie API expects.
+     */
+    public getRefreshCookieMaxAge(): number {
+        return Math.min(this.policy.refreshTokenLifetime, this.policy.sessionMaxAge) * 1000;
+    }
+}
+
+export { TokenPolicyService };
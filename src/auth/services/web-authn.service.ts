@@ -0,0 +1,302 @@
+import { BadRequestException, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import {
+    AuthenticationResponseJSON,
+    AuthenticatorTransportFuture,
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    RegistrationResponseJSON,
+    generateAuthenticationOptions,
+    generateRegistrationOptions,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { User } from 'src/modules/user/entities/user.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { WebAuthnCredential } from '../entities/web-authn-credential.entity';
+import { WebAuthnChallenge } from '../entities/web-authn-challenge.entity';
+import { SecurityEventService } from './security-event.service';
+import { IdentityService } from './identity.service';
+import { SecurityEventTypes } from '../constants/security-events';
+
+const CHALLENGE_TTL_MINUTES = 5;
+
+type CeremonyType = 'registration' | 'authentication';
+
+@Injectable()
+class WebAuthnService {
+    constructor(
+        @InjectRepository(WebAuthnCredential)
+        private readonly credentialRepository: Repository<WebAuthnCredential>,
+        @InjectRepository(WebAuthnChallenge)
+        private readonly challengeRepository: Repository<WebAuthnChallenge>,
+        private readonly userService: UserService,
+        private readonly securityEventService: SecurityEventService,
+        private readonly identityService: IdentityService,
+        private readonly configService: ConfigService,
+    ) {}
+
+    /**
+     * Starts passkey registration for a signed-in user.
+     *
+     * @param userId The ID of the user adding a passkey.
+     * @param userName The account name shown by the authenticator, usually the email address.
+     * @returns The options to pass to navigator.credentials.create().
+     */
+    public async startRegistration(userId: number, userName: string): Promise<PublicKeyCredentialCreationOptionsJSON> {
+        const existingCredentials = await this.credentialRepository.find({ where: { userId } });
+
+        const options = await generateRegistrationOptions({
+            rpName: this.configService.get('webauthn.rpName', 'OALR'),
+            rpID: this.configService.get('webauthn.rpId', 'localhost'),
+            userName,
+            userID: new TextEncoder().encode(String(userId)),
+            attestationType: 'none',
+            // Stops the same authenticator from being registered twice
+            excludeCredentials: existingCredentials.map((credential) => ({
+                id: credential.credentialId,
+                transports: this.getTransports(credential),
+            })),
+            authenticatorSelection: {
+                residentKey: 'preferred',
+                userVerification: 'preferred',
+            },
+        });
+
+        await this.storeChallenge(options.challenge, 'registration', userId);
+        return options;
+    }
+
+    /**
+     * Verifies the attestation returned by the authenticator and stores the new passkey.
+     *
+     * @param userId The ID of the user adding a passkey.
+     * @param response The credential returned by navigator.credentials.create().
+     * @param name Optional label for the passkey.
+     * @returns The stored credential.
+     * @throws BadRequestException if the challenge is unknown or expired, or the attestation does not verify.
+     */
+    public async finishRegistration(
+        userId: number,
+        response: RegistrationResponseJSON,
+        name?: string,
+    ): Promise<WebAuthnCredential> {
+        const challenge = await this.consumeChallenge(response.response?.clientDataJSON, 'registration');
+        if (!challenge || challenge.userId !== userId) {
+            throw new BadRequestException('Invalid or expired passkey challenge');
+        }
+
+        let verification;
+        try {
+            verification = await verifyRegistrationResponse({
+                response,
+                expectedChallenge: challenge.challenge,
+                expectedOrigin: this.configService.get('webauthn.origin', 'http://localhost:5173'),
+                expectedRPID: this.configService.get('webauthn.rpId', 'localhost'),
+                requireUserVerification: false,
+            });
+        } catch {
+            throw new BadRequestException('Passkey registration could not be verified');
+        }
+
+        if (!verification.verified) {
+            throw new BadRequestException('Passkey registration could not be verified');
+        }
+
+        const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+        if (await this.credentialRepository.findOne({ where: { credentialId: credential.id } })) {
+            throw new BadRequestException('Passkey is already registered');
+        }
+
+        const savedCredential = await this.credentialRepository.save(
+            this.credentialRepository.create({
+                userId,
+                credentialId: credential.id,
+                publicKey: Buffer.from(credential.publicKey),
+                counter: credential.counter,
+                transports: credential.transports || null,
+                deviceType: credentialDeviceType,
+                backedUp: credentialBackedUp,
+                name: name || null,
+            }),
+        );
+
+        await this.securityEventService.record(SecurityEventTypes.PASSKEY_REGISTERED, userId, {
+            credentialId: savedCredential.id,
+        });
+
+        return savedCredential;
+    }
+
+    /**
+     * Starts a passkey login. Without an email the browser offers every discoverable passkey
+     * for this site; with one, only that account's passkeys are allowed. Unknown emails get
+     * the same response as a usernameless login so accounts cannot be probed.
+     *
+     * @param email Optional email address the user typed in.
+     * @returns The options to pass to navigator.credentials.get().
+     */
+    public async startAuthentication(email?: string): Promise<PublicKeyCredentialRequestOptionsJSON> {
+        const user = email ? await this.userService.getUserByEmail(email) : null;
+        const credentials = user ? await this.credentialRepository.find({ where: { userId: user.id } }) : [];
+
+        const options = await generateAuthenticationOptions({
+            rpID: this.configService.get('webauthn.rpId', 'localhost'),
+            allowCredentials: credentials.map((credential) => ({
+                id: credential.credentialId,
+                transports: this.getTransports(credential),
+            })),
+            userVerification: 'required',
+        });
+
+        await this.storeChallenge(options.challenge, 'authentication', user?.id ?? null);
+        return options;
+    }
+
+    /**
+     * Verifies a passkey assertion. The authenticator must report a local biometric or PIN check
+     * on top of possession of the device, so the login is not followed by a TOTP challenge.
+     *
+     * @param response The credential returned by navigator.credentials.get().
+     * @returns The user who may now be signed in.
+     * @throws UnauthorizedException if the challenge, credential or signature is not valid.
+     */
+    public async finishAuthentication(response: AuthenticationResponseJSON): Promise<User> {
+        const challenge = await this.consumeChallenge(response.response?.clientDataJSON, 'authentication');
+        if (!challenge) {
+            throw new UnauthorizedException('Invalid or expired passkey challenge');
+        }
+
+        const credential = await this.credentialRepository.findOne({ where: { credentialId: response.id } });
+        if (!credential || (challenge.userId !== null && challenge.userId !== credential.userId)) {
+            throw new UnauthorizedException('Passkey not recognised');
+        }
+
+        let verification;
+        try {
+            verification = await verifyAuthenticationResponse({
+                response,
+                expectedChallenge: challenge.challenge,
+                expectedOrigin: this.configService.get('webauthn.origin', 'http://localhost:5173'),
+                expectedRPID: this.configService.get('webauthn.rpId', 'localhost'),
+                credential: {
+                    id: credential.credentialId,
+                    publicKey: new Uint8Array(credential.publicKey),
+                    counter: credential.counter,
+                    transports: this.getTransports(credential),
+                },
+                requireUserVerification: true,
+            });
+        } catch {
+            throw new UnauthorizedException('Passkey could not be verified');
+        }
+
+        if (!verification.verified) {
+            throw new UnauthorizedException('Passkey could not be verified');
+        }
+
+        await this.credentialRepository.update(
+            { id: credential.id },
+            { counter: verification.authenticationInfo.newCounter, lastUsedAt: new Date() },
+        );
+
+        const user = await this.userService.getUserById(credential.userId);
+        if (!user.isActive) {
+            throw new UnauthorizedException('User not found or inactive');
+        }
+
+        return user;
+    }
+
+    /**
+     * Looks up the owner of a passkey, so a rejected sign-in can be attributed to the account.
+     *
+     * @param credentialId The credential ID reported by the authenticator.
+     * @returns The ID of the user the passkey is registered to, null if it is unknown.
+     */
+    public async findCredentialUserId(credentialId: string): Promise<number | null> {
+        const credential = await this.credentialRepository.findOne({ where: { credentialId } });
+        return credential?.userId ?? null;
+    }
+
+    public async getCredentials(userId: number): Promise<WebAuthnCredential[]> {
+        return await this.credentialRepository.find({
+            where: { userId },
+            order: { createdAt: 'DESC' },
+        });
+    }
+
+    /**
+     * Removes a passkey owned by the user.
+     *
+     * @param userId The ID of the passkey owner.
+     * @param credentialId The database ID of the passkey.
+     * @throws NotFoundException if the user has no such passkey.
+     * @throws BadRequestException if it is the account's last login method.
+     */
+    public async removeCredential(userId: number, credentialId: number): Promise<void> {
+        const credential = await this.credentialRepository.findOne({ where: { id: credentialId, userId } });
+        if (!credential) {
+            throw new NotFoundException('Passkey not found');
+        }
+
+        await this.identityService.assertCanRemoveLoginMethod(userId);
+
+        const result = await this.credentialRepository.delete({ id: credentialId, userId });
+        if (result.affected === 0) {
+            throw new NotFoundException('Passkey not found');
+        }
+
+        await this.securityEventService.record(SecurityEventTypes.PASSKEY_REMOVED, userId, { credentialId });
+    }
+
+    private async storeChallenge(challenge: string, type: CeremonyType, userId: number | null): Promise<void> {
+        const now = new Date();
+        await this.challengeRepository.delete({ expiresAt: LessThan(now) });
+
+        const expiresAt = new Date(now);
+        expiresAt.setMinutes(expiresAt.getMinutes() + CHALLENGE_TTL_MINUTES);
+
+        await this.challengeRepository.save(this.challengeRepository.create({ challenge, type, userId, expiresAt }));
+    }
+
+    /**
+     * Looks up the challenge echoed in the client data and deletes it, so every
+     * challenge can be answered at most once.
+     */
+    private async consumeChallenge(
+        clientDataJSON: string | undefined,
+        type: CeremonyType,
+    ): Promise<WebAuthnChallenge | null> {
+        let challengeValue: unknown;
+        try {
+            challengeValue = JSON.parse(Buffer.from(clientDataJSON || '', 'base64url').toString('utf8')).challenge;
+        } catch {
+            return null;
+        }
+
+        if (typeof challengeValue !== 'string') {
+            return null;
+        }
+
+        const challenge = await this.challengeRepository.findOne({ where: { challenge: challengeValue, type } });
+        if (!challenge) {
+            return null;
+        }
+
+        const deletion = await this.challengeRepository.delete({ id: challenge.id });
+        if (deletion.affected === 0 || challenge.expiresAt < new Date()) {
+            return null;
+        }
+
+        return challenge;
+    }
+
+    private getTransports(credential: WebAuthnCredential): AuthenticatorTransportFuture[] | undefined {
+        return (credential.transports as AuthenticatorTransportFuture[] | null) || undefined;
+    }
+}
+
+export { WebAuthnService };
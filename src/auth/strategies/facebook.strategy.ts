@@ -0,0 +1,68 @@
+import { PassportStrategy } from '@nestjs/passport';
+import { Profile, Strategy } from 'passport-facebook';
+import { Injectable, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SocialLoginService } from '../services/social-login.service';
+
+@Injectable()
+class FacebookStrategy extends PassportStrategy(Strategy, 'facebook') {
+    constructor(
+        private configService: ConfigService,
+        socialLoginService: SocialLoginService,
+    ) {
+        super({
+            clientID: configService.getOrThrow('oauth.facebook.clientId'),
+            clientSecret: configService.getOrThrow('oauth.facebook.clientSecret'),
+            callbackURL: configService.get('oauth.facebook.callbackUrl'),
+            scope: ['email'],
+            // The Graph API only returns the fields that are asked for
+            profileFields: ['id', 'emails', 'name', 'photos'],
+            // The state carries the return path and mode of the frontend, PKCE protects the code exchange
+            store: socialLoginService.createStateStore('facebook'),
+            pkce: true,
+        });
+    }
+
+    public async validate(
+        accessToken: string,
+        refreshToken: string,
+        profile: Profile,
+        done: (error: any, user?: any) => void,
+    ): Promise<void> {
+        const { id, name, emails, photos } = profile;
+
+        // Facebook accounts registered with a phone number have no email, which OAuthUserInterceptor rejects
+        const user = {
+            provider: 'facebook',
+            providerId: id,
+            email: emails?.[0]?.value,
+            firstName: name?.givenName,
+            lastName: name?.familyName,
+            picture: photos?.[0]?.value,
+            accessToken,
+        };
+
+        done(null, user);
+    }
+}
+
+/**
+ * Registers the Facebook strategy only when FACEBOOK_CLIENT_ID and FACEBOOK_CLIENT_SECRET are set,
+ * so deployments without Facebook login need no placeholder credentials.
+ */
+const FacebookStrategyProvider: Provider = {
+    provide: FacebookStrategy,
+    inject: [ConfigService, SocialLoginService],
+    useFactory: (configService: ConfigService, socialLoginService: SocialLoginService): FacebookStrategy | null => {
+        const clientId = configService.get('oauth.facebook.clientId');
+        const clientSecret = configService.get('oauth.facebook.clientSecret');
+
+        if (!clientId !== !clientSecret) {
+            throw new Error('Facebook login requires both FACEBOOK_CLIENT_ID and FACEBOOK_CLIENT_SECRET');
+        }
+
+        return clientId ? new FacebookStrategy(configService, socialLoginService) : null;
+    },
+};
+
+export { FacebookStrategy, FacebookStrategyProvider };
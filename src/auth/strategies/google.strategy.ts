@@ -2,23 +2,32 @@ import { PassportStrategy } from '@nestjs/passport';
 import { Strategy, VerifyCallback } from 'passport-google-oauth20';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { SocialLoginService } from '../services/social-login.service';
 import { Profile } from './strategies.types';
 
 @Injectable()
 class GoogleStrategy extends PassportStrategy(Strategy, 'google') {
-    constructor(private configService: ConfigService) {
+    constructor(
+        private configService: ConfigService,
+        socialLoginService: SocialLoginService,
+    ) {
         super({
             clientID: configService.get('GOOGLE_CLIENT_ID'),
             clientSecret: configService.get('GOOGLE_CLIENT_SECRET'),
-            callbackURL: 'http://localhost:3000/auth/google/callback',
+            callbackURL: configService.get('oauth.google.callbackUrl'),
             scope: ['email', 'profile'],
+            // The state carries the return path and mode of the frontend, PKCE protects the code exchange
+            store: socialLoginService.createStateStore('google'),
+            pkce: true,
         });
     }
 
     public async validate(accessToken: string, refreshToken: string, profile: Profile, done: VerifyCallback): Promise<void> {
-        const { name, emails, photos } = profile;
+        const { id, name, emails, photos } = profile;
 
         const user = {
+            provider: 'google',
+            providerId: id,
             email: emails[0].value,
             firstName: name.givenName,
             lastName: name.familyName,
@@ -1,2 +1,5 @@
+export { FacebookStrategy, FacebookStrategyProvider } from './facebook.strategy';
 export { GoogleStrategy } from './google.strategy';
 export { JwtStrategy } from './jwt.strategy';
+export { PersonalAccessTokenStrategy } from './personal-access-token.strategy';
+export { OAuthAccessTokenStrategy } from './oauth-access-token.strategy';
@@ -1,28 +1,78 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { UserService } from 'src/modules/user/user.service';
+import { RoleService } from '../services/role.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { Permissions } from '../constants/permissions';
+import { AuthenticatedUser } from '../interfaces';
 
 @Injectable()
 class JwtStrategy extends PassportStrategy(Strategy) {
     constructor(
-        private configService: ConfigService,
         private userService: UserService,
+        private roleService: RoleService,
+        private accessTokenDenylistService: AccessTokenDenylistService,
+        signingKeyService: SigningKeyService,
+        tokenPolicyService: TokenPolicyService,
     ) {
         super({
             jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-            ignoreExpiration: true,
-            secretOrKey: configService.get('JWT_SECRET_KEY'),
+            ignoreExpiration: false,
+            algorithms: ['HS256', 'RS256', 'ES256'],
+            jsonWebTokenOptions: { clockTolerance: tokenPolicyService.getClockTolerance() },
+            // The key is picked by the token's kid header, so rotated keys keep verifying
+            secretOrKeyProvider: (_request: unknown, rawJwtToken: string, done: (error: unknown, key?: string) => void) => {
+                signingKeyService.getVerificationKey(rawJwtToken).then(
+                    (key) => done(null, key),
+                    (error) => done(error),
+                );
+            },
         });
     }
 
-    public async validate(payload: any): Promise<{ userId: number; username: string }> {
+    /**
+     * Resolves the authenticated user for a verified access token. Roles and permissions are
+     * re-read from the database rather than trusted from the token, so a revoked role takes
+     * effect immediately instead of when the token expires.
+     *
+     * @param payload The decoded access token payload.
+     * @returns The user attached to the request.
+     */
+    public async validate(payload: any): Promise<AuthenticatedUser> {
+        // Refresh and MFA challenge tokens share the signing key but must not act as access tokens
+        if (payload.type) {
+            throw new UnauthorizedException('Invalid token type');
+        }
+
+        if (payload.jti && (await this.accessTokenDenylistService.isRevoked(payload.jti))) {
+            throw new UnauthorizedException('Access token has been revoked');
+        }
+
         const user = await this.userService.getUserById(payload.sub);
         if (!user || !user.isActive) {
             throw new UnauthorizedException('User not found or inactive');
         }
-        return { userId: payload.sub, username: payload.username };
+
+        // An impersonation ends as soon as the admin loses the permission, not when the token expires
+        if (payload.act) {
+            const impersonator = await this.userService.getUserById(payload.act.sub).catch(() => null);
+            const permissions = impersonator ? this.roleService.getPermissionNames(impersonator) : [];
+            if (!impersonator?.isActive || !permissions.includes(Permissions.USERS_IMPERSONATE)) {
+                throw new UnauthorizedException('Impersonation is no longer allowed');
+            }
+        }
+
+        return {
+            userId: payload.sub,
+            username: payload.username,
+            roles: this.roleService.getRoleNames(user),
+            permissions: this.roleService.getPermissionNames(user),
+            ...(payload.auth_time ? { authTime: payload.auth_time } : {}),
+            ...(payload.act ? { impersonator: { userId: payload.act.sub, username: payload.act.username } } : {}),
+        };
     }
 }
 
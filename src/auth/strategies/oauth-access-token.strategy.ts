@@ -0,0 +1,66 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { UserService } from 'src/modules/user/user.service';
+import { RoleService } from '../services/role.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { OAUTH_ACCESS_TOKEN_TYPE } from '../constants/oauth';
+import { AuthenticatedUser } from '../interfaces';
+
+@Injectable()
+class OAuthAccessTokenStrategy extends PassportStrategy(Strategy, 'oauth-access-token') {
+    constructor(
+        private userService: UserService,
+        private roleService: RoleService,
+        private accessTokenDenylistService: AccessTokenDenylistService,
+        signingKeyService: SigningKeyService,
+        tokenPolicyService: TokenPolicyService,
+    ) {
+        super({
+            jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+            algorithms: ['HS256', 'RS256', 'ES256'],
+            jsonWebTokenOptions: { clockTolerance: tokenPolicyService.getClockTolerance() },
+            secretOrKeyProvider: (_request: unknown, rawJwtToken: string, done: (error: unknown, key?: string) => void) => {
+                signingKeyService.getVerificationKey(rawJwtToken).then(
+                    (key) => done(null, key),
+                    (error) => done(error),
+                );
+            },
+        });
+    }
+
+    /**
+     * Resolves the user an OAuth client acts for. Like a personal access token, the client acts
+     * with the permissions the user still holds, narrowed to the scopes the user delegated.
+     * Client credentials tokens act for no user and are only meant for resource servers.
+     *
+     * @param payload The decoded access token payload.
+     * @returns The user attached to the request.
+     */
+    public async validate(payload: any): Promise<AuthenticatedUser> {
+        if (payload.type !== OAUTH_ACCESS_TOKEN_TYPE || payload.sub === payload.client_id) {
+            throw new UnauthorizedException('Invalid token type');
+        }
+
+        if (await this.accessTokenDenylistService.isRevoked(payload.jti)) {
+            throw new UnauthorizedException('Access token has been revoked');
+        }
+
+        const user = await this.userService.getUserById(payload.sub);
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('User not found or inactive');
+        }
+
+        const scopes: string[] = (payload.scope || '').split(' ');
+        return {
+            userId: payload.sub,
+            username: payload.username,
+            roles: this.roleService.getRoleNames(user),
+            permissions: this.roleService.getPermissionNames(user).filter((permission) => scopes.includes(permission)),
+        };
+    }
+}
+
+export { OAuthAccessTokenStrategy };
@@ -0,0 +1,48 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-http-bearer';
+import { UserService } from 'src/modules/user/user.service';
+import { RoleService } from '../services/role.service';
+import { PersonalAccessTokenService } from '../services/personal-access-token.service';
+import { AuthenticatedUser } from '../interfaces';
+
+@Injectable()
+class PersonalAccessTokenStrategy extends PassportStrategy(Strategy, 'personal-access-token') {
+    constructor(
+        private userService: UserService,
+        private roleService: RoleService,
+        private personalAccessTokenService: PersonalAccessTokenService,
+    ) {
+        super();
+    }
+
+    /**
+     * Resolves the authenticated user for a personal access token. The token acts with the
+     * permissions its owner still holds, narrowed to the scopes it was created with.
+     *
+     * @param token The bearer token from the Authorization header.
+     * @returns The user attached to the request.
+     */
+    public async validate(token: string): Promise<AuthenticatedUser> {
+        const accessToken = await this.personalAccessTokenService.findValidToken(token);
+        if (!accessToken) {
+            throw new UnauthorizedException('Invalid access token');
+        }
+
+        const user = await this.userService.getUserById(accessToken.userId);
+        if (!user.isActive) {
+            throw new UnauthorizedException('User not found or inactive');
+        }
+
+        return {
+            userId: user.id,
+            username: user.email,
+            roles: this.roleService.getRoleNames(user),
+            permissions: this.roleService
+                .getPermissionNames(user)
+                .filter((permission) => accessToken.scopes.includes(permission)),
+        };
+    }
+}
+
+export { PersonalAccessTokenStrategy };
@@ -1,4 +1,5 @@
 export interface Profile {
+    id: string;
     emails: { value: string }[];
     name: { givenName: string; familyName: string };
     photos: { value: string }[];
@@ -1,21 +1,38 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { UnauthorizedException, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, UnauthorizedException, NotFoundException } from '@nestjs/common';
 import { AuthController } from '../auth.controller';
 import { AuthService } from '../auth.service';
 import { UserService } from 'src/modules/user/user.service';
 import { ConfigService } from '@nestjs/config';
 import { LoginDto } from '../dto/login.dto';
 import { UserFactory, mockConfigService } from 'src/test/test-utils';
-import { JwtPayload, OAuthRequest } from '../interfaces';
-import { Response } from 'express';
+import { AuthenticatedRequest, JwtPayload, OAuthRequest } from '../interfaces';
+import { Request, Response } from 'express';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { PasswordResetService } from '../services/password-reset.service';
+import { MfaService } from '../services/mfa.service';
+import { MagicLinkService } from '../services/magic-link.service';
+import { IdentityService } from '../services/identity.service';
+import { LoginHistoryService } from '../services/login-history.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { SocialLoginService } from '../services/social-login.service';
+import { SocialLoginException } from '../exceptions/social-login.exception';
+import { AppLoggerService } from 'src/shared/services/logger.service';
 
 describe('AuthController', () => {
     let controller: AuthController;
 
+    const mockRequest = {
+        get: jest.fn().mockReturnValue('test-agent'),
+        ip: '127.0.0.1',
+    } as unknown as Request;
+
     const mockAuthService = {
-        validateOAuthLogin: jest.fn(),
         createTokenForUser: jest.fn(),
+        createReauthenticatedToken: jest.fn(),
         createRefreshToken: jest.fn(),
+        rotateRefreshToken: jest.fn(),
+        findRefreshToken: jest.fn(),
     };
 
     const mockUserService = {
@@ -24,6 +41,50 @@ describe('AuthController', () => {
         getUserByEmail: jest.fn(),
     };
 
+    const mockEmailVerificationService = {
+        verifyEmail: jest.fn(),
+        resendVerification: jest.fn(),
+    };
+
+    const mockPasswordResetService = {
+        requestReset: jest.fn(),
+        resetPassword: jest.fn(),
+    };
+
+    const mockMfaService = {
+        isEnabled: jest.fn().mockResolvedValue(false),
+        createChallenge: jest.fn(),
+        verifyUserCode: jest.fn(),
+    };
+
+    const mockMagicLinkService = {
+        requestLink: jest.fn(),
+        consumeLink: jest.fn(),
+    };
+
+    const mockIdentityService = {
+        findUser: jest.fn(),
+        linkIdentity: jest.fn(),
+        verifyLinkToken: jest.fn().mockReturnValue(null),
+    };
+
+    const mockLoginHistoryService = {
+        recordSuccess: jest.fn(),
+        recordMfaRequired: jest.fn(),
+        recordFailure: jest.fn(),
+    };
+
+    const refreshCookieMaxAge = 7 * 24 * 60 * 60 * 1000;
+    const mockTokenPolicyService = {
+        getRefreshCookieMaxAge: jest.fn(() => refreshCookieMaxAge),
+    };
+
+    const mockSocialLoginService = {
+        sendResult: jest.fn(),
+        createAppCode: jest.fn(),
+        redeemAppCode: jest.fn(),
+    };
+
     beforeEach(async () => {
         const module: TestingModule = await Test.createTestingModule({
             controllers: [AuthController],
@@ -40,6 +101,43 @@ describe('AuthController', () => {
                     provide: ConfigService,
                     useValue: mockConfigService,
                 },
+                {
+                    provide: EmailVerificationService,
+                    useValue: mockEmailVerificationService,
+                },
+                {
+                    provide: PasswordResetService,
+                    useValue: mockPasswordResetService,
+                },
+                {
+                    provide: MfaService,
+                    useValue: mockMfaService,
+                },
+                {
+                    provide: MagicLinkService,
+                    useValue: mockMagicLinkService,
+                },
+                {
+                    provide: IdentityService,
+                    useValue: mockIdentityService,
+                },
+                {
+                    provide: LoginHistoryService,
+                    useValue: mockLoginHistoryService,
+                },
+                {
+                    provide: TokenPolicyService,
+                    useValue: mockTokenPolicyService,
+                },
+                {
+                    provide: SocialLoginService,
+                    useValue: mockSocialLoginService,
+                },
+                {
+                    // Resolved for the SocialLoginExceptionFilter of the provider callbacks
+                    provide: AppLoggerService,
+                    useValue: { warn: jest.fn() },
+                },
             ],
         }).compile();
 
@@ -77,17 +175,67 @@ describe('AuthController', () => {
 
             const mockResponse = {
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
             } as unknown as Response;
 
             // Act
-            const result = await controller.login(loginDto, mockResponse);
+            const result = await controller.login(loginDto, mockRequest, mockResponse);
 
             // Assert
             expect(result).toEqual(mockJwtPayload);
             expect(mockUserService.validateUserCredentials).toHaveBeenCalledWith(loginDto.email, loginDto.password);
             expect(mockAuthService.createTokenForUser).toHaveBeenCalledWith(mockUser);
+            expect(mockAuthService.createRefreshToken).toHaveBeenCalledWith(mockUser.id, {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
             expect(mockUserService.validateUserCredentials).toHaveBeenCalledTimes(1);
             expect(mockAuthService.createTokenForUser).toHaveBeenCalledTimes(1);
+            expect(mockResponse.cookie).toHaveBeenCalledWith(
+                'refreshToken',
+                'mock-refresh-token',
+                expect.objectContaining({ httpOnly: true, maxAge: refreshCookieMaxAge }),
+            );
+            const csrfToken = (mockResponse.setHeader as jest.Mock).mock.calls[0][1];
+            expect(mockResponse.setHeader).toHaveBeenCalledWith('X-CSRF-Token', expect.any(String));
+            expect(mockResponse.cookie).toHaveBeenCalledWith(
+                'csrfToken',
+                csrfToken,
+                expect.objectContaining({ httpOnly: false, maxAge: refreshCookieMaxAge }),
+            );
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(mockUser, 'password', {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
+        });
+
+        it('should return an MFA challenge instead of tokens when MFA is enabled', async () => {
+            // Arrange
+            const loginDto: LoginDto = {
+                email: 'test@example.com',
+                password: 'password123',
+            };
+            const mockUser = UserFactory.create({ email: loginDto.email });
+            const challenge = { mfaRequired: true, mfaToken: 'mfa-token' };
+
+            mockUserService.validateUserCredentials.mockResolvedValue(mockUser);
+            mockMfaService.isEnabled.mockResolvedValueOnce(true);
+            mockMfaService.createChallenge.mockReturnValue(challenge);
+
+            const mockResponse = {
+                cookie: jest.fn(),
+                setHeader: jest.fn(),
+            } as unknown as Response;
+
+            // Act
+            const result = await controller.login(loginDto, mockRequest, mockResponse);
+
+            // Assert
+            expect(result).toEqual(challenge);
+            expect(mockMfaService.createChallenge).toHaveBeenCalledWith(mockUser, 'password');
+            expect(mockAuthService.createTokenForUser).not.toHaveBeenCalled();
+            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
+            expect(mockResponse.cookie).not.toHaveBeenCalled();
         });
 
         it('should throw UnauthorizedException for invalid credentials', async () => {
@@ -101,15 +249,38 @@ describe('AuthController', () => {
 
             const mockResponse = {
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
             } as unknown as Response;
 
             // Act & Assert
-            await expect(controller.login(loginDto, mockResponse)).rejects.toThrow(UnauthorizedException);
-            await expect(controller.login(loginDto, mockResponse)).rejects.toThrow('Invalid credentials');
+            await expect(controller.login(loginDto, mockRequest, mockResponse)).rejects.toThrow(UnauthorizedException);
+            await expect(controller.login(loginDto, mockRequest, mockResponse)).rejects.toThrow('Invalid credentials');
             expect(mockUserService.validateUserCredentials).toHaveBeenCalledWith(loginDto.email, loginDto.password);
             expect(mockAuthService.createTokenForUser).not.toHaveBeenCalled();
         });
 
+        it('should record a failed attempt against the targeted account', async () => {
+            // Arrange
+            const loginDto: LoginDto = {
+                email: 'test@example.com',
+                password: 'wrongpassword',
+            };
+            mockUserService.validateUserCredentials.mockRejectedValue(new UnauthorizedException('Invalid credentials'));
+            mockUserService.getUserByEmail.mockResolvedValue(UserFactory.create({ id: 7, email: loginDto.email }));
+
+            // Act
+            await expect(controller.login(loginDto, mockRequest, {} as Response)).rejects.toThrow(UnauthorizedException);
+
+            // Assert
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenCalledWith(
+                7,
+                'password',
+                { userAgent: 'test-agent', ipAddress: '127.0.0.1' },
+                'Invalid credentials',
+            );
+            expect(mockLoginHistoryService.recordSuccess).not.toHaveBeenCalled();
+        });
+
         it('should throw UnauthorizedException for non-existent user', async () => {
             // Arrange
             const loginDto: LoginDto = {
@@ -121,10 +292,11 @@ describe('AuthController', () => {
 
             const mockResponse = {
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
             } as unknown as Response;
 
             // Act & Assert
-            await expect(controller.login(loginDto, mockResponse)).rejects.toThrow(UnauthorizedException);
+            await expect(controller.login(loginDto, mockRequest, mockResponse)).rejects.toThrow(UnauthorizedException);
             expect(mockUserService.validateUserCredentials).toHaveBeenCalledWith(loginDto.email, loginDto.password);
         });
 
@@ -139,14 +311,263 @@ describe('AuthController', () => {
 
             const mockResponse = {
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
             } as unknown as Response;
 
             // Act & Assert
-            await expect(controller.login(loginDto, mockResponse)).rejects.toThrow('Database connection error');
+            await expect(controller.login(loginDto, mockRequest, mockResponse)).rejects.toThrow('Database connection error');
             expect(mockUserService.validateUserCredentials).toHaveBeenCalledWith(loginDto.email, loginDto.password);
         });
     });
 
+    describe('refresh', () => {
+        const refreshRequest = {
+            get: mockRequest.get,
+            ip: '127.0.0.1',
+            cookies: { refreshToken: 'current-refresh-token' },
+        } as unknown as Request;
+
+        it('should record the refresh in the login history', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 7 });
+            mockAuthService.rotateRefreshToken.mockResolvedValue({ user, refreshToken: 'rotated-refresh-token' });
+            mockAuthService.createTokenForUser.mockReturnValue({ accessToken: 'access-token' });
+
+            // Act
+            await controller.refresh(refreshRequest, { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response);
+
+            // Assert
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(user, 'refresh', {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
+        });
+
+        it('should keep the sign-in time of the session in the new access token', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 7 });
+            const authTime = new Date('2026-01-01T10:00:00Z');
+            mockAuthService.rotateRefreshToken.mockResolvedValue({ user, refreshToken: 'rotated-refresh-token', authTime });
+            mockAuthService.createTokenForUser.mockReturnValue({ accessToken: 'access-token' });
+
+            // Act
+            await controller.refresh(refreshRequest, { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response);
+
+            // Assert
+            expect(mockAuthService.createTokenForUser).toHaveBeenCalledWith(user, undefined, authTime);
+        });
+
+        it('should record a rejected refresh token against its owner', async () => {
+            // Arrange
+            mockAuthService.rotateRefreshToken.mockRejectedValue(new UnauthorizedException('Refresh token expired'));
+            mockAuthService.findRefreshToken.mockResolvedValue({ userId: 7 });
+
+            // Act & Assert
+            await expect(controller.refresh(refreshRequest, {} as Response)).rejects.toThrow(UnauthorizedException);
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenCalledWith(
+                7,
+                'refresh',
+                { userAgent: 'test-agent', ipAddress: '127.0.0.1' },
+                'Refresh token expired',
+            );
+        });
+    });
+
+    describe('reauthenticate', () => {
+        const reauthenticateRequest = { user: { userId: 7, username: 'test@example.com' } } as AuthenticatedRequest;
+        const reauthenticatedToken = { accessToken: 'reauthenticated-token' };
+
+        beforeEach(() => {
+            mockAuthService.createReauthenticatedToken.mockReturnValue(reauthenticatedToken);
+        });
+
+        it('should check the password again and issue a reauthenticated token', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 7, email: 'test@example.com' });
+            mockUserService.getUserById.mockResolvedValue(user);
+            mockUserService.validateUserCredentials.mockResolvedValue(user);
+
+            // Act
+            const result = await controller.reauthenticate(reauthenticateRequest, { password: 'password123' });
+
+            // Assert
+            expect(result).toBe(reauthenticatedToken);
+            expect(mockUserService.validateUserCredentials).toHaveBeenCalledWith('test@example.com', 'password123');
+            expect(mockAuthService.createReauthenticatedToken).toHaveBeenCalledWith(user);
+        });
+
+        it('should require the MFA code as well when MFA is enabled', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 7 });
+            mockUserService.getUserById.mockResolvedValue(user);
+            mockUserService.validateUserCredentials.mockResolvedValue(user);
+            mockMfaService.isEnabled.mockResolvedValueOnce(true).mockResolvedValueOnce(true);
+
+            // Act & Assert
+            await expect(controller.reauthenticate(reauthenticateRequest, { password: 'password123' })).rejects.toThrow(
+                'MFA code is required',
+            );
+            await controller.reauthenticate(reauthenticateRequest, { password: 'password123', mfaCode: '123456' });
+            expect(mockMfaService.verifyUserCode).toHaveBeenCalledWith(7, '123456');
+            expect(mockAuthService.createReauthenticatedToken).toHaveBeenCalledTimes(1);
+        });
+
+        it('should reject a wrong password', async () => {
+            // Arrange
+            mockUserService.getUserById.mockResolvedValue(UserFactory.create({ id: 7 }));
+            mockUserService.validateUserCredentials.mockRejectedValue(new UnauthorizedException('Invalid credentials'));
+
+            // Act & Assert
+            await expect(controller.reauthenticate(reauthenticateRequest, { password: 'wrong' })).rejects.toThrow(
+                UnauthorizedException,
+            );
+            expect(mockAuthService.createReauthenticatedToken).not.toHaveBeenCalled();
+        });
+
+        it('should send accounts without a password or MFA to sign in again', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 7 });
+            user.hashedPassword = null;
+            mockUserService.getUserById.mockResolvedValue(user);
+
+            // Act & Assert
+            await expect(controller.reauthenticate(reauthenticateRequest, {})).rejects.toThrow(BadRequestException);
+            expect(mockAuthService.createReauthenticatedToken).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getCsrfToken', () => {
+        it('should return the CSRF token cookie of the session', () => {
+            // Act
+            const result = controller.getCsrfToken({ cookies: { csrfToken: 'csrf-token' } } as unknown as Request);
+
+            // Assert
+            expect(result).toEqual({ csrfToken: 'csrf-token' });
+        });
+
+        it('should return null when signed out', () => {
+            // Act & Assert
+            expect(controller.getCsrfToken({ cookies: {} } as unknown as Request)).toEqual({ csrfToken: null });
+        });
+    });
+
+    describe('email verification', () => {
+        it('should verify the email with the provided token', async () => {
+            mockEmailVerificationService.verifyEmail.mockResolvedValue(undefined);
+
+            const result = await controller.verifyEmail({ token: 'verification-token' });
+
+            expect(result).toEqual({ message: 'Email verified successfully' });
+            expect(mockEmailVerificationService.verifyEmail).toHaveBeenCalledWith('verification-token');
+        });
+
+        it('should answer resend requests without revealing whether the account exists', async () => {
+            mockEmailVerificationService.resendVerification.mockResolvedValue(undefined);
+
+            const result = await controller.resendVerification({ email: 'unknown@example.com' });
+
+            expect(result.message).toContain('If the account exists');
+            expect(mockEmailVerificationService.resendVerification).toHaveBeenCalledWith('unknown@example.com');
+        });
+    });
+
+    describe('magic link', () => {
+        it('should give the same answer whether or not the email exists', async () => {
+            mockMagicLinkService.requestLink.mockResolvedValue(undefined);
+
+            const result = await controller.requestMagicLink({ email: 'someone@example.com' }, mockRequest);
+
+            expect(result).toEqual({ message: 'If an account exists for this email, a sign-in link has been sent' });
+            expect(mockMagicLinkService.requestLink).toHaveBeenCalledWith('someone@example.com', {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
+        });
+
+        it('should sign the user in like a password login', async () => {
+            // Arrange
+            const mockUser = UserFactory.create({ isOauth: true });
+            const mockJwtPayload = { accessToken: 'mock-jwt-token', user: { id: mockUser.id } };
+            mockMagicLinkService.consumeLink.mockResolvedValue(mockUser);
+            mockAuthService.createTokenForUser.mockReturnValue(mockJwtPayload);
+            mockAuthService.createRefreshToken.mockResolvedValue('mock-refresh-token');
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            // Act
+            const result = await controller.consumeMagicLink({ token: 'magic-token' }, mockRequest, mockResponse);
+
+            // Assert
+            expect(result).toBe(mockJwtPayload);
+            expect(mockMagicLinkService.consumeLink).toHaveBeenCalledWith('magic-token');
+            expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', 'mock-refresh-token', expect.any(Object));
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(mockUser, 'magic_link', {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
+        });
+
+        it('should record a rejected link as a failed login', async () => {
+            mockMagicLinkService.consumeLink.mockRejectedValue(new UnauthorizedException('Invalid or expired sign-in link'));
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            await expect(controller.consumeMagicLink({ token: 'magic-token' }, mockRequest, mockResponse)).rejects.toThrow(
+                UnauthorizedException,
+            );
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenCalledWith(
+                null,
+                'magic_link',
+                expect.any(Object),
+                'Invalid or expired sign-in link',
+            );
+            expect(mockLoginHistoryService.recordSuccess).not.toHaveBeenCalled();
+        });
+
+        it('should still require the second factor when MFA is enabled', async () => {
+            const mockUser = UserFactory.create();
+            const challenge = { mfaRequired: true, mfaToken: 'mfa-token' };
+            mockMagicLinkService.consumeLink.mockResolvedValue(mockUser);
+            mockMfaService.isEnabled.mockResolvedValueOnce(true);
+            mockMfaService.createChallenge.mockReturnValue(challenge);
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            const result = await controller.consumeMagicLink({ token: 'magic-token' }, mockRequest, mockResponse);
+
+            expect(result).toEqual(challenge);
+            expect(mockMfaService.createChallenge).toHaveBeenCalledWith(mockUser, 'magic_link');
+            expect(mockResponse.cookie).not.toHaveBeenCalled();
+            expect(mockLoginHistoryService.recordMfaRequired).toHaveBeenCalledWith(
+                mockUser,
+                'magic_link',
+                expect.any(Object),
+            );
+        });
+    });
+
+    describe('password reset', () => {
+        it('should give the same answer whether or not the email exists', async () => {
+            mockPasswordResetService.requestReset.mockResolvedValue(undefined);
+
+            const result = await controller.forgotPassword({ email: 'someone@example.com' }, mockRequest);
+
+            expect(result).toEqual({
+                message: 'If an account exists for this email, a password reset link has been sent',
+            });
+            expect(mockPasswordResetService.requestReset).toHaveBeenCalledWith('someone@example.com', {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
+        });
+
+        it('should reset the password with the provided token', async () => {
+            mockPasswordResetService.resetPassword.mockResolvedValue(undefined);
+
+            const result = await controller.resetPassword({ token: 'reset-token', newPassword: 'NewPassword123!' });
+
+            expect(result).toEqual({ message: 'Password reset successfully' });
+            expect(mockPasswordResetService.resetPassword).toHaveBeenCalledWith('reset-token', 'NewPassword123!');
+        });
+    });
+
     describe('validateToken', () => {
         it('should return user information for valid JWT token', async () => {
             // Arrange
@@ -213,101 +634,267 @@ describe('AuthController', () => {
     });
 
     describe('googleAuthRedirect', () => {
-        it('should handle Google OAuth callback and redirect with token', async () => {
+        const mockOAuthUser = {
+            provider: 'google',
+            providerId: 'google-subject-1',
+            accessToken: 'oauth-access-token',
+            email: 'test@gmail.com',
+            firstName: 'Test',
+            lastName: 'User',
+            picture: 'https://example.com/picture.jpg',
+        };
+        const pendingLogin = { provider: 'google', mode: 'redirect', returnTo: '/dashboard/settings', codeChallenge: null };
+        const mockOAuthRequest = {
+            user: mockOAuthUser,
+            authInfo: { state: pendingLogin },
+            get: jest.fn().mockReturnValue('test-agent'),
+            ip: '127.0.0.1',
+        } as unknown as OAuthRequest;
+
+        it('should sign in and answer with the pending login', async () => {
             // Arrange
-            const mockOAuthUser = {
-                accessToken: 'oauth-access-token',
-                email: 'test@gmail.com',
-                firstName: 'Test',
-                lastName: 'User',
-                picture: 'https://example.com/picture.jpg',
-            };
-            const mockRequest: OAuthRequest = {
-                user: mockOAuthUser,
-            } as OAuthRequest;
             const mockResponse = {
-                redirect: jest.fn(),
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
             } as unknown as Response;
-            const frontendUrl = 'http://localhost:3000';
 
             const mockUser = UserFactory.create({ email: mockOAuthUser.email });
-            mockUserService.getUserByEmail.mockResolvedValue(mockUser);
+            mockIdentityService.findUser.mockResolvedValue(mockUser);
             mockAuthService.createRefreshToken.mockResolvedValue('mock-refresh-token');
-            mockConfigService.get.mockReturnValue(frontendUrl);
 
             // Act
-            await controller.googleAuthRedirect(mockRequest, mockResponse);
+            await controller.googleAuthRedirect(mockOAuthRequest, mockResponse);
 
             // Assert
-            expect(mockUserService.getUserByEmail).toHaveBeenCalledWith(mockOAuthUser.email);
-            expect(mockAuthService.createRefreshToken).toHaveBeenCalledWith(mockUser.id);
-            expect(mockConfigService.get).toHaveBeenCalledWith('frontend.url');
+            expect(mockIdentityService.findUser).toHaveBeenCalledWith({
+                provider: mockOAuthUser.provider,
+                subject: mockOAuthUser.providerId,
+                email: mockOAuthUser.email,
+            });
+            expect(mockAuthService.createRefreshToken).toHaveBeenCalledWith(mockUser.id, {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
+            expect(mockResponse.cookie).toHaveBeenCalledWith(
+                'refreshToken',
+                'mock-refresh-token',
+                expect.objectContaining({ maxAge: refreshCookieMaxAge }),
+            );
+            expect(mockResponse.cookie).toHaveBeenCalledWith('csrfToken', expect.any(String), expect.any(Object));
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(mockUser, 'google', expect.any(Object));
+            expect(mockSocialLoginService.sendResult).toHaveBeenCalledWith(mockResponse, pendingLogin, {});
+        });
+
+        it('should fail with session_failed when the refresh token cannot be created', async () => {
+            // Arrange
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+            const mockUser = UserFactory.create({ email: mockOAuthUser.email });
+            mockIdentityService.findUser.mockResolvedValue(mockUser);
+            mockAuthService.createRefreshToken.mockRejectedValue(new Error('Refresh token creation failed'));
+
+            // Act & Assert
+            await expect(controller.googleAuthRedirect(mockOAuthRequest, mockResponse)).rejects.toMatchObject({
+                reason: 'session_failed',
+            });
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenCalledWith(
+                mockUser.id,
+                'google',
+                expect.any(Object),
+                'The session could not be created',
+            );
+            expect(mockResponse.cookie).not.toHaveBeenCalled();
+            expect(mockSocialLoginService.sendResult).not.toHaveBeenCalled();
+        });
+
+        it('should fail with account_not_linked without setting a cookie for an unknown identity', async () => {
+            // Arrange
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+            mockIdentityService.findUser.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(controller.googleAuthRedirect(mockOAuthRequest, mockResponse)).rejects.toThrow(
+                SocialLoginException,
+            );
+            await expect(controller.googleAuthRedirect(mockOAuthRequest, mockResponse)).rejects.toMatchObject({
+                reason: 'account_not_linked',
+            });
+            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
+            expect(mockResponse.cookie).not.toHaveBeenCalled();
+        });
+
+        it('should fail with account_disabled for an inactive account', async () => {
+            // Arrange
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+            const disabledUser = UserFactory.create();
+            disabledUser.isActive = false;
+            mockIdentityService.findUser.mockResolvedValue(disabledUser);
+
+            // Act & Assert
+            await expect(controller.googleAuthRedirect(mockOAuthRequest, mockResponse)).rejects.toMatchObject({
+                reason: 'account_disabled',
+            });
+            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
+        });
+
+        it('should answer an app login with a one-time code instead of a session', async () => {
+            // Arrange
+            const appLogin = { provider: 'google', mode: 'app', returnTo: '/dashboard', codeChallenge: 'challenge' };
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+            const mockUser = UserFactory.create();
+            mockIdentityService.findUser.mockResolvedValue(mockUser);
+            mockSocialLoginService.createAppCode.mockReturnValue('app-code');
+
+            // Act
+            await controller.googleAuthRedirect(
+                { ...mockOAuthRequest, authInfo: { state: appLogin } } as unknown as OAuthRequest,
+                mockResponse,
+            );
+
+            // Assert
+            expect(mockSocialLoginService.createAppCode).toHaveBeenCalledWith(mockUser.id, appLogin);
+            expect(mockSocialLoginService.sendResult).toHaveBeenCalledWith(mockResponse, appLogin, { code: 'app-code' });
+            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
+            expect(mockResponse.cookie).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('facebookAuthRedirect', () => {
+        it('should handle Facebook OAuth callback and sign in', async () => {
+            // Arrange
+            const pendingLogin = { provider: 'facebook', mode: 'popup', returnTo: '/dashboard', codeChallenge: null };
+            const mockOAuthRequest = {
+                user: {
+                    provider: 'facebook',
+                    providerId: 'facebook-subject-1',
+                    accessToken: 'facebook-access-token',
+                    email: 'test@facebook.com',
+                    firstName: 'Test',
+                    lastName: 'User',
+                    picture: 'https://example.com/picture.jpg',
+                },
+                authInfo: { state: pendingLogin },
+                get: jest.fn().mockReturnValue('test-agent'),
+                ip: '127.0.0.1',
+            } as unknown as OAuthRequest;
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            const mockUser = UserFactory.create({ email: 'test@facebook.com' });
+            mockIdentityService.findUser.mockResolvedValue(mockUser);
+            mockAuthService.createRefreshToken.mockResolvedValue('mock-refresh-token');
+
+            // Act
+            await controller.facebookAuthRedirect(mockOAuthRequest, mockResponse);
+
+            // Assert
+            expect(mockIdentityService.findUser).toHaveBeenCalledWith({
+                provider: 'facebook',
+                subject: 'facebook-subject-1',
+                email: 'test@facebook.com',
+            });
             expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', 'mock-refresh-token', expect.any(Object));
-            expect(mockResponse.redirect).toHaveBeenCalledWith(`${frontendUrl}/dashboard`);
+            expect(mockSocialLoginService.sendResult).toHaveBeenCalledWith(mockResponse, pendingLogin, {});
         });
+    });
+
+    describe('exchangeSocialLoginCode', () => {
+        const exchangeDto = { code: 'app-code', codeVerifier: 'v'.repeat(43) };
 
-        it('should handle refresh token creation errors', async () => {
+        it('should exchange a login code for a session', async () => {
             // Arrange
-            const mockOAuthUser = {
+            const mockUser = UserFactory.create();
+            const mockJwtPayload = { accessToken: 'access-token', user: { id: mockUser.id } };
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+            mockSocialLoginService.redeemAppCode.mockResolvedValue({ userId: mockUser.id, provider: 'google' });
+            mockUserService.getUserById.mockResolvedValue(mockUser);
+            mockAuthService.createTokenForUser.mockReturnValue(mockJwtPayload);
+            mockAuthService.createRefreshToken.mockResolvedValue('mock-refresh-token');
+
+            // Act
+            const result = await controller.exchangeSocialLoginCode(exchangeDto, mockRequest, mockResponse);
+
+            // Assert
+            expect(result).toEqual(mockJwtPayload);
+            expect(mockSocialLoginService.redeemAppCode).toHaveBeenCalledWith('app-code', exchangeDto.codeVerifier);
+            expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', 'mock-refresh-token', expect.any(Object));
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(mockUser, 'google', expect.any(Object));
+        });
+
+        it('should reject a code for a disabled account', async () => {
+            // Arrange
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+            mockSocialLoginService.redeemAppCode.mockResolvedValue({ userId: 1, provider: 'google' });
+            const disabledUser = UserFactory.create();
+            disabledUser.isActive = false;
+            mockUserService.getUserById.mockResolvedValue(disabledUser);
+
+            // Act & Assert
+            await expect(controller.exchangeSocialLoginCode(exchangeDto, mockRequest, mockResponse)).rejects.toThrow(
+                UnauthorizedException,
+            );
+            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('linking an identity', () => {
+        const pendingLogin = { provider: 'google', mode: 'redirect', returnTo: '/dashboard', codeChallenge: null };
+        const mockOAuthRequest = {
+            user: {
+                provider: 'google',
+                providerId: 'google-subject-1',
                 accessToken: 'oauth-access-token',
-                email: 'test@gmail.com',
+                email: 'other@gmail.com',
                 firstName: 'Test',
                 lastName: 'User',
                 picture: 'https://example.com/picture.jpg',
-            };
-            const mockRequest: OAuthRequest = {
-                user: mockOAuthUser,
-            } as OAuthRequest;
+            },
+            authInfo: { state: pendingLogin },
+            cookies: { identityLink: 'link-token' },
+            get: jest.fn().mockReturnValue('test-agent'),
+            ip: '127.0.0.1',
+        } as unknown as OAuthRequest;
+
+        it('should link the identity to the signed-in user instead of signing in', async () => {
+            // Arrange
             const mockResponse = {
-                redirect: jest.fn(),
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
+                clearCookie: jest.fn(),
             } as unknown as Response;
-            const frontendUrl = 'http://localhost:3000';
-
-            const mockUser = UserFactory.create({ email: mockOAuthUser.email });
-            mockUserService.getUserByEmail.mockResolvedValue(mockUser);
-            mockAuthService.createRefreshToken.mockRejectedValue(new Error('Refresh token creation failed'));
-            mockConfigService.get.mockReturnValue(frontendUrl);
+            mockIdentityService.verifyLinkToken.mockReturnValueOnce(42);
 
             // Act
-            await controller.googleAuthRedirect(mockRequest, mockResponse);
+            await controller.googleAuthRedirect(mockOAuthRequest, mockResponse);
 
             // Assert
-            expect(mockUserService.getUserByEmail).toHaveBeenCalledWith(mockOAuthUser.email);
-            expect(mockAuthService.createRefreshToken).toHaveBeenCalledWith(mockUser.id);
-            expect(mockResponse.redirect).toHaveBeenCalledWith(`${frontendUrl}/login`);
+            expect(mockIdentityService.verifyLinkToken).toHaveBeenCalledWith('link-token', 'google');
+            expect(mockIdentityService.linkIdentity).toHaveBeenCalledWith(42, {
+                provider: 'google',
+                subject: 'google-subject-1',
+                email: 'other@gmail.com',
+            });
+            expect(mockIdentityService.findUser).not.toHaveBeenCalled();
+            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
+            expect(mockResponse.clearCookie).toHaveBeenCalledWith('identityLink', expect.any(Object));
+            expect(mockSocialLoginService.sendResult).toHaveBeenCalledWith(mockResponse, pendingLogin, { linked: 'google' });
         });
 
-        it('should handle non-existent user (null user)', async () => {
+        it('should report an identity already linked to another account', async () => {
             // Arrange
-            const mockOAuthUser = {
-                accessToken: 'oauth-access-token',
-                email: 'nonexistent@gmail.com',
-                firstName: 'Non',
-                lastName: 'Existent',
-                picture: 'https://example.com/picture.jpg',
-            };
-            const mockRequest: OAuthRequest = {
-                user: mockOAuthUser,
-            } as OAuthRequest;
             const mockResponse = {
-                redirect: jest.fn(),
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
+                clearCookie: jest.fn(),
             } as unknown as Response;
-            const frontendUrl = 'http://localhost:3000';
-
-            mockUserService.getUserByEmail.mockResolvedValue(null);
-            mockConfigService.get.mockReturnValue(frontendUrl);
+            mockIdentityService.verifyLinkToken.mockReturnValueOnce(42);
+            mockIdentityService.linkIdentity.mockRejectedValueOnce(new ConflictException());
 
             // Act
-            await controller.googleAuthRedirect(mockRequest, mockResponse);
+            await controller.googleAuthRedirect(mockOAuthRequest, mockResponse);
 
             // Assert
-            expect(mockUserService.getUserByEmail).toHaveBeenCalledWith(mockOAuthUser.email);
-            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
-            expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', undefined, expect.any(Object));
-            expect(mockResponse.redirect).toHaveBeenCalledWith(`${frontendUrl}/dashboard`);
+            expect(mockSocialLoginService.sendResult).toHaveBeenCalledWith(mockResponse, pendingLogin, {
+                link_error: 'identity_in_use',
+            });
         });
     });
 
@@ -344,12 +931,13 @@ describe('AuthController', () => {
 
             const mockResponse = {
                 cookie: jest.fn(),
+                setHeader: jest.fn(),
             } as unknown as Response;
 
-            const result = await controller.login(loginDto, mockResponse);
+            const result = await controller.login(loginDto, mockRequest, mockResponse);
             expect(result).toBeDefined();
             expect(typeof result).toBe('object');
-            expect(result.accessToken).toBeDefined();
+            expect((result as JwtPayload).accessToken).toBeDefined();
         });
     });
 });
@@ -8,8 +8,23 @@ import { AuthService } from '../auth.service';
 import { UserService } from 'src/modules/user/user.service';
 import { User } from 'src/modules/user/entities/user.entity';
 import { RefreshToken } from 'src/auth/entities/refresh-token.entity';
+import { Role } from 'src/auth/entities/role.entity';
+import { Permission } from 'src/auth/entities/permission.entity';
+import { SecurityEvent } from 'src/auth/entities/security-event.entity';
+import { SecurityEventService } from 'src/auth/services/security-event.service';
+import { UserSession } from 'src/auth/entities/user-session.entity';
+import { SessionService } from 'src/auth/services/session.service';
+import { UserIdentity } from 'src/auth/entities/user-identity.entity';
+import { WebAuthnCredential } from 'src/auth/entities/web-authn-credential.entity';
+import { SigningKey } from 'src/auth/entities/signing-key.entity';
+import { OAuthClient } from 'src/auth/entities/oauth-client.entity';
+import { SigningKeyService } from 'src/auth/services/signing-key.service';
+import { TokenPolicyService } from 'src/auth/services/token-policy.service';
+import { PasswordPolicyService } from 'src/auth/services/password-policy.service';
+import { LdapService } from 'src/auth/services/ldap.service';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { NotificationService } from 'src/shared/services/notification.service';
 import { UnauthorizedException } from '@nestjs/common';
-import { OAuthUserDto } from 'src/modules/user/dto/oauth-user-dto';
 import { CreateUserDto } from 'src/modules/user/dto/create-user.dto';
 import configuration from 'src/config/configuration';
 import { validateEnvironment } from 'src/config/validation';
@@ -28,7 +43,18 @@ describe('AuthService Integration Tests', () => {
         username: 'oalr',
         password: 'oalr123',
         database: 'oalr_test', // Different database for tests
-        entities: [User, RefreshToken],
+        entities: [
+            User,
+            RefreshToken,
+            UserSession,
+            Role,
+            Permission,
+            SecurityEvent,
+            UserIdentity,
+            WebAuthnCredential,
+            SigningKey,
+            OAuthClient,
+        ],
         synchronize: true, // Auto-sync schema for tests
         dropSchema: true, // Clean database on each test run
         logging: false,
@@ -39,7 +65,15 @@ describe('AuthService Integration Tests', () => {
             imports: [
                 // Test database connection
                 TypeOrmModule.forRoot(testDbConfig),
-                TypeOrmModule.forFeature([User, RefreshToken]),
+                TypeOrmModule.forFeature([
+                    User,
+                    RefreshToken,
+                    UserSession,
+                    SecurityEvent,
+                    UserIdentity,
+                    WebAuthnCredential,
+                    Role,
+                ]),
 
                 // Configuration
                 ConfigModule.forRoot({
@@ -57,7 +91,18 @@ describe('AuthService Integration Tests', () => {
                     }),
                 }),
             ],
-            providers: [AuthService, UserService],
+            providers: [
+                AuthService,
+                UserService,
+                SecurityEventService,
+                SessionService,
+                SigningKeyService,
+                TokenPolicyService,
+                PasswordPolicyService,
+                LdapService,
+                NotificationService,
+                AppLoggerService,
+            ],
         }).compile();
 
         authService = module.get<AuthService>(AuthService);
@@ -160,61 +205,6 @@ describe('AuthService Integration Tests', () => {
         });
     });
 
-    describe('validateOAuthLogin', () => {
-        it('should create token for existing OAuth user', async () => {
-            // Arrange - Create existing OAuth user using createOAuthUser
-            const email = 'oauth@test.com';
-            const oauthProfile: OAuthUserDto = {
-                accessToken: 'oauth-access-token',
-                email,
-                firstName: 'OAuth',
-                lastName: 'User',
-                picture: 'https://example.com/picture.jpg',
-            };
-
-            // Act - Test subsequent OAuth login
-            const result = await authService.validateOAuthLogin(oauthProfile);
-
-            // Assert
-            expect(result).toBeDefined();
-            expect(typeof result).toBe('string');
-            expect(result.length).toBeGreaterThan(0);
-
-            // Verify the user wasn't duplicated
-            const users = await userService.getAllUsers();
-            const userWithEmail = users.filter((u) => u.email === email);
-            expect(userWithEmail).toHaveLength(1);
-        });
-
-        it('should create new user for OAuth login when user does not exist', async () => {
-            // Arrange
-            const oauthProfile: OAuthUserDto = {
-                accessToken: 'new-oauth-token',
-                email: 'newuser@oauth.com',
-                firstName: 'New',
-                lastName: 'OAuthUser',
-                picture: 'https://example.com/newuser.jpg',
-            };
-
-            // Act
-            const result = await authService.validateOAuthLogin(oauthProfile);
-
-            // Assert
-            expect(result).toBeDefined();
-            expect(typeof result).toBe('string');
-
-            // Verify new user was created
-            const createdUser = await userService.getUserByEmail(oauthProfile.email);
-            expect(createdUser).toBeDefined();
-            expect(createdUser).not.toBeNull();
-            expect(createdUser!.email).toBe(oauthProfile.email);
-            expect(createdUser!.firstName).toBe(oauthProfile.firstName);
-            expect(createdUser!.lastName).toBe(oauthProfile.lastName);
-            expect(createdUser!.isOauth).toBe(true);
-            expect(createdUser!.hashedPassword).toBeNull();
-        });
-    });
-
     describe('createTokenForUser', () => {
         it('should create valid JWT token with user information', async () => {
             // Arrange - Create a real user
@@ -3,16 +3,40 @@ import { UnauthorizedException } from '@nestjs/common';
 import { AuthService } from '../auth.service';
 import { UserService } from 'src/modules/user/user.service';
 import { UserFactory, mockJwtService, createTestingModule } from 'src/test/test-utils';
-import { TokenCreationException } from 'src/shared/exceptions/common.exception';
-import { OAuthUserDto } from 'src/modules/user/dto/oauth-user-dto';
+import { Role } from '../entities/role.entity';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { SecurityEventService } from '../services/security-event.service';
+import { SessionService } from '../services/session.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { UserSession } from '../entities/user-session.entity';
+import { hashTokenWithKey } from '../utils/tokens';
+import { Not } from 'typeorm';
 
 describe('AuthService', () => {
     let service: AuthService;
+    let refreshTokenRepository: any;
 
     const mockUserService = {
         validateUserCredentials: jest.fn(),
         getUserByEmail: jest.fn(),
-        createOAuthUser: jest.fn(),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    const mockSessionService = {
+        createSession: jest.fn(),
+        touchSession: jest.fn(),
+        getActiveSession: jest.fn(),
+        markRevoked: jest.fn(),
+        markAllRevoked: jest.fn(),
+    };
+
+    const mockSigningKeyService = {
+        signAccessToken: jest.fn(),
     };
 
     beforeEach(async () => {
@@ -23,10 +47,24 @@ describe('AuthService', () => {
                     provide: UserService,
                     useValue: mockUserService,
                 },
+                {
+                    provide: SecurityEventService,
+                    useValue: mockSecurityEventService,
+                },
+                {
+                    provide: SessionService,
+                    useValue: mockSessionService,
+                },
+                {
+                    provide: SigningKeyService,
+                    useValue: mockSigningKeyService,
+                },
+                TokenPolicyService,
             ],
         });
 
         service = module.get<AuthService>(AuthService);
+        refreshTokenRepository = module.get(getRepositoryToken(RefreshToken));
 
         // Reset all mocks before each test
         jest.clearAllMocks();
@@ -62,71 +100,6 @@ describe('AuthService', () => {
         });
     });
 
-    describe('validateOAuthLogin', () => {
-        it('should create token for existing OAuth user', async () => {
-            // Arrange
-            const oauthProfile: OAuthUserDto = {
-                accessToken: 'oauth-access-token',
-                email: 'test@example.com',
-                firstName: 'Test',
-                lastName: 'User',
-                picture: 'https://example.com/picture.jpg',
-            };
-            const existingUser = UserFactory.create({ email: oauthProfile.email });
-            mockUserService.getUserByEmail.mockResolvedValue(existingUser);
-            mockJwtService.sign.mockReturnValue('mock-access-token');
-
-            // Act
-            const result = await service.validateOAuthLogin(oauthProfile);
-
-            // Assert
-            expect(result).toBe('mock-access-token');
-            expect(mockUserService.getUserByEmail).toHaveBeenCalledWith(oauthProfile.email);
-            expect(mockUserService.createOAuthUser).not.toHaveBeenCalled();
-        });
-
-        it('should create new user for OAuth login if user does not exist', async () => {
-            // Arrange
-            const oauthProfile: OAuthUserDto = {
-                accessToken: 'oauth-access-token',
-                email: 'newuser@example.com',
-                firstName: 'New',
-                lastName: 'User',
-                picture: 'https://example.com/newuser.jpg',
-            };
-            const newUser = UserFactory.create({ email: oauthProfile.email });
-            mockUserService.getUserByEmail.mockResolvedValue(null);
-            mockUserService.createOAuthUser.mockResolvedValue(newUser);
-            mockJwtService.sign.mockReturnValue('mock-access-token');
-
-            // Act
-            const result = await service.validateOAuthLogin(oauthProfile);
-
-            // Assert
-            expect(result).toBe('mock-access-token');
-            expect(mockUserService.getUserByEmail).toHaveBeenCalledWith(oauthProfile.email);
-            expect(mockUserService.createOAuthUser).toHaveBeenCalledWith(oauthProfile);
-        });
-
-        it('should throw TokenCreationException if token creation fails', async () => {
-            // Arrange
-            const oauthProfile: OAuthUserDto = {
-                accessToken: 'oauth-access-token',
-                email: 'test@example.com',
-                firstName: 'Test',
-                lastName: 'User',
-                picture: 'https://example.com/picture.jpg',
-            };
-            const existingUser = UserFactory.create({ email: oauthProfile.email });
-            mockUserService.getUserByEmail.mockResolvedValue(existingUser);
-            mockJwtService.sign.mockReturnValue('');
-
-            // Act & Assert
-            await expect(service.validateOAuthLogin(oauthProfile)).rejects.toThrow(TokenCreationException);
-            await expect(service.validateOAuthLogin(oauthProfile)).rejects.toThrow('Failed to validate OAuth login');
-        });
-    });
-
     describe('createTokenForUser', () => {
         it('should create JWT payload with user information', () => {
             // Arrange
@@ -136,7 +109,7 @@ describe('AuthService', () => {
                 firstName: 'Test',
                 lastName: 'User',
             });
-            mockJwtService.sign.mockReturnValue('mock-jwt-token');
+            mockSigningKeyService.signAccessToken.mockReturnValue('mock-jwt-token');
 
             // Act
             const result = service.createTokenForUser(user);
@@ -151,12 +124,56 @@ describe('AuthService', () => {
                     lastName: 'User',
                 },
             });
-            expect(mockJwtService.sign).toHaveBeenCalledWith(
+            expect(mockSigningKeyService.signAccessToken).toHaveBeenCalledWith(
                 {
                     username: user.email,
                     sub: user.id,
+                    roles: [],
+                    jti: expect.any(String),
+                    auth_time: expect.any(Number),
                 },
-                { expiresIn: '15m' },
+                '900s',
+            );
+        });
+
+        it('should carry the sign-in time of the session in auth_time', () => {
+            // Arrange
+            const signedInAt = new Date('2026-01-01T10:00:00Z');
+
+            // Act
+            service.createTokenForUser(UserFactory.create(), undefined, signedInAt);
+
+            // Assert
+            expect(mockSigningKeyService.signAccessToken).toHaveBeenCalledWith(
+                expect.objectContaining({ auth_time: signedInAt.getTime() / 1000 }),
+                '900s',
+            );
+        });
+
+        it('should leave auth_time out of impersonation tokens', () => {
+            // Act
+            service.createTokenForUser(UserFactory.create(), { userId: 1, username: 'admin@example.com' });
+
+            // Assert
+            const [payload, expiresIn] = mockSigningKeyService.signAccessToken.mock.calls[0];
+            expect(payload).not.toHaveProperty('auth_time');
+            expect(payload.act).toEqual({ sub: 1, username: 'admin@example.com' });
+            expect(expiresIn).toBe('600s');
+        });
+
+        it('should embed the user roles in the access token', () => {
+            // Arrange
+            const adminRole = Object.assign(new Role(), { id: 1, name: 'admin', permissions: [] });
+            const user = UserFactory.create({ roles: [adminRole] });
+            mockSigningKeyService.signAccessToken.mockReturnValue('mock-jwt-token');
+
+            // Act
+            service.createTokenForUser(user);
+
+            // Assert
+            expect(mockSigningKeyService.signAccessToken).toHaveBeenCalledWith(
+                expect.objectContaining({ roles: ['admin'] }),
+                '900s',
             );
         });
 
@@ -168,7 +185,7 @@ describe('AuthService', () => {
                 firstName: 'Minimal',
                 lastName: 'User',
             });
-            mockJwtService.sign.mockReturnValue('another-mock-token');
+            mockSigningKeyService.signAccessToken.mockReturnValue('another-mock-token');
 
             // Act
             const result = service.createTokenForUser(user);
@@ -179,4 +196,316 @@ describe('AuthService', () => {
             expect(result.user.email).toBe('minimal@example.com');
         });
     });
+
+    describe('createReauthenticatedToken', () => {
+        it('should issue a short-lived access token with the current auth_time', () => {
+            // Arrange
+            const user = UserFactory.create({ id: 123 });
+            mockSigningKeyService.signAccessToken.mockReturnValue('reauthenticated-token');
+            const now = Math.floor(Date.now() / 1000);
+
+            // Act
+            const result = service.createReauthenticatedToken(user);
+
+            // Assert
+            expect(result.accessToken).toBe('reauthenticated-token');
+            const [payload, expiresIn] = mockSigningKeyService.signAccessToken.mock.calls[0];
+            expect(payload).toEqual(expect.objectContaining({ sub: 123, jti: expect.any(String) }));
+            expect(payload.auth_time).toBeGreaterThanOrEqual(now);
+            expect(expiresIn).toBe('300s');
+        });
+    });
+
+    const createStoredToken = (overrides: Partial<RefreshToken> = {}): RefreshToken =>
+        Object.assign(new RefreshToken(), {
+            id: 10,
+            tokenHash: hashTokenWithKey('current-refresh-token', 'test-refresh-token-hash-key'),
+            userId: 123,
+            user: UserFactory.create(),
+            familyId: 'family-1',
+            session: Object.assign(new UserSession(), { id: 'family-1', createdAt: new Date() }),
+            parentId: null,
+            clientId: null,
+            scopes: null,
+            isRevoked: false,
+            expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+            ...overrides,
+        });
+
+    describe('rotateRefreshToken', () => {
+        const daysAgo = (days: number): Date => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+        beforeEach(() => {
+            mockJwtService.verify.mockReturnValue({ sub: 123 } as any);
+            refreshTokenRepository.create.mockImplementation((entity: Partial<RefreshToken>) => entity);
+            refreshTokenRepository.save.mockImplementation(async (entity: Partial<RefreshToken>) => entity);
+        });
+
+        it('should issue a child token in the same family and revoke the presented one', async () => {
+            // Arrange
+            const storedToken = createStoredToken();
+            refreshTokenRepository.findOne.mockResolvedValue(storedToken);
+            refreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+            mockJwtService.sign.mockReturnValue('rotated-refresh-token');
+
+            // Act
+            const result = await service.rotateRefreshToken('current-refresh-token');
+
+            // Assert
+            expect(result).toEqual({
+                user: storedToken.user,
+                refreshToken: 'rotated-refresh-token',
+                scopes: null,
+                authTime: storedToken.session.createdAt,
+            });
+            expect(refreshTokenRepository.update).toHaveBeenCalledWith({ id: 10, isRevoked: false }, { isRevoked: true });
+            expect(refreshTokenRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({ userId: 123, familyId: 'family-1', parentId: 10 }),
+            );
+            expect(mockSessionService.touchSession).toHaveBeenCalledWith('family-1', {});
+            expect(mockSecurityEventService.record).not.toHaveBeenCalled();
+        });
+
+        it('should slide the expiry a full refresh lifetime forward', async () => {
+            // Arrange
+            refreshTokenRepository.findOne.mockResolvedValue(createStoredToken());
+            refreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+
+            // Act
+            await service.rotateRefreshToken('current-refresh-token');
+
+            // Assert
+            const { expiresAt } = refreshTokenRepository.create.mock.calls[0][0];
+            expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+            expect(mockJwtService.sign).toHaveBeenCalledWith(expect.any(Object), {
+                expiresIn: 30 * 24 * 60 * 60,
+            });
+        });
+
+        it('should not extend a session past its maximum age', async () => {
+            // Arrange
+            const session = Object.assign(new UserSession(), { id: 'family-1', createdAt: daysAgo(80) });
+            refreshTokenRepository.findOne.mockResolvedValue(createStoredToken({ session }));
+            refreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+
+            // Act
+            await service.rotateRefreshToken('current-refresh-token');
+
+            // Assert
+            const { expiresAt } = refreshTokenRepository.create.mock.calls[0][0];
+            expect(expiresAt).toEqual(new Date(session.createdAt.getTime() + 90 * 24 * 60 * 60 * 1000));
+        });
+
+        it('should reject a token whose session exceeded the maximum age', async () => {
+            // Arrange
+            const session = Object.assign(new UserSession(), { id: 'family-1', createdAt: daysAgo(91) });
+            refreshTokenRepository.findOne.mockResolvedValue(createStoredToken({ session }));
+
+            // Act & Assert
+            await expect(service.rotateRefreshToken('current-refresh-token')).rejects.toThrow('Refresh token expired');
+            expect(refreshTokenRepository.update).toHaveBeenCalledWith({ id: 10 }, { isRevoked: true });
+            expect(refreshTokenRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should verify the token signature with the configured clock tolerance', async () => {
+            // Arrange
+            refreshTokenRepository.findOne.mockResolvedValue(createStoredToken());
+            refreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+
+            // Act
+            await service.rotateRefreshToken('current-refresh-token');
+
+            // Assert
+            expect(mockJwtService.verify).toHaveBeenCalledWith('current-refresh-token', { clockTolerance: 30 });
+        });
+
+        it('should store and look up tokens only by their keyed hash', async () => {
+            // Arrange
+            const storedToken = createStoredToken();
+            refreshTokenRepository.findOne.mockResolvedValue(storedToken);
+            refreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+            mockJwtService.sign.mockReturnValue('rotated-refresh-token');
+
+            // Act
+            await service.rotateRefreshToken('current-refresh-token');
+
+            // Assert
+            expect(refreshTokenRepository.findOne).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { tokenHash: storedToken.tokenHash } }),
+            );
+            const issuedToken = refreshTokenRepository.create.mock.calls[0][0];
+            expect(issuedToken.tokenHash).toBe(hashTokenWithKey('rotated-refresh-token', 'test-refresh-token-hash-key'));
+            expect(JSON.stringify(issuedToken)).not.toContain('rotated-refresh-token');
+        });
+
+        it('should keep the client and scopes of a token delegated to an OAuth client', async () => {
+            // Arrange
+            const storedToken = createStoredToken({ clientId: 5, scopes: ['users:read'] });
+            refreshTokenRepository.findOne.mockResolvedValue(storedToken);
+            refreshTokenRepository.update.mockResolvedValue({ affected: 1 });
+            mockJwtService.sign.mockReturnValue('rotated-refresh-token');
+
+            // Act
+            const result = await service.rotateRefreshToken('current-refresh-token', {}, 5);
+
+            // Assert
+            expect(result.scopes).toEqual(['users:read']);
+            expect(refreshTokenRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({ familyId: 'family-1', clientId: 5, scopes: ['users:read'] }),
+            );
+        });
+
+        it('should not rotate a token delegated to an OAuth client as a first-party session', async () => {
+            // Arrange
+            refreshTokenRepository.findOne.mockResolvedValue(createStoredToken({ clientId: 5, scopes: ['users:read'] }));
+
+            // Act & Assert
+            await expect(service.rotateRefreshToken('current-refresh-token')).rejects.toThrow(UnauthorizedException);
+            expect(refreshTokenRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should revoke the whole family when an already rotated token is replayed', async () => {
+            // Arrange
+            const rotatedToken = createStoredToken({ isRevoked: true });
+            const childToken = createStoredToken({ id: 11, parentId: 10 });
+            refreshTokenRepository.findOne.mockResolvedValueOnce(rotatedToken).mockResolvedValueOnce(childToken);
+
+            // Act & Assert
+            await expect(service.rotateRefreshToken('current-refresh-token')).rejects.toThrow(
+                'Refresh token reuse detected',
+            );
+            expect(refreshTokenRepository.update).toHaveBeenCalledWith(
+                { familyId: 'family-1', isRevoked: false },
+                { isRevoked: true },
+            );
+            expect(mockSessionService.markRevoked).toHaveBeenCalledWith('family-1');
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith('refresh_token_reuse', 123, {
+                familyId: 'family-1',
+                tokenId: 10,
+            });
+        });
+
+        it('should reject a revoked token that was never rotated without revoking its family', async () => {
+            // Arrange
+            refreshTokenRepository.findOne.mockResolvedValueOnce(createStoredToken({ isRevoked: true }));
+            refreshTokenRepository.findOne.mockResolvedValueOnce(null);
+
+            // Act & Assert
+            await expect(service.rotateRefreshToken('current-refresh-token')).rejects.toThrow(UnauthorizedException);
+            expect(refreshTokenRepository.update).not.toHaveBeenCalled();
+            expect(mockSecurityEventService.record).not.toHaveBeenCalled();
+        });
+
+        it('should reject tokens with an invalid signature', async () => {
+            // Arrange
+            mockJwtService.verify.mockImplementation(() => {
+                throw new Error('invalid signature');
+            });
+
+            // Act & Assert
+            await expect(service.rotateRefreshToken('tampered-token')).rejects.toThrow('Invalid refresh token');
+            expect(refreshTokenRepository.findOne).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('findActiveRefreshToken', () => {
+        beforeEach(() => {
+            mockJwtService.verify.mockReturnValue({ sub: 123 } as any);
+        });
+
+        it('should return a usable token with its user and client', async () => {
+            // Arrange
+            const storedToken = createStoredToken();
+            refreshTokenRepository.findOne.mockResolvedValue(storedToken);
+
+            // Act
+            const result = await service.findActiveRefreshToken('current-refresh-token');
+
+            // Assert
+            expect(result).toBe(storedToken);
+            expect(refreshTokenRepository.findOne).toHaveBeenCalledWith({
+                where: { tokenHash: storedToken.tokenHash, isRevoked: false },
+                relations: ['user', 'session', 'client'],
+            });
+        });
+
+        it('should ignore revoked tokens without treating them as reuse', async () => {
+            // Arrange
+            refreshTokenRepository.findOne.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(service.findActiveRefreshToken('current-refresh-token')).resolves.toBeNull();
+            expect(refreshTokenRepository.update).not.toHaveBeenCalled();
+            expect(mockSessionService.markRevoked).not.toHaveBeenCalled();
+        });
+
+        it('should ignore expired tokens without revoking them', async () => {
+            // Arrange
+            refreshTokenRepository.findOne.mockResolvedValue(createStoredToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+            // Act & Assert
+            await expect(service.findActiveRefreshToken('current-refresh-token')).resolves.toBeNull();
+            expect(refreshTokenRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should ignore tokens with an invalid signature', async () => {
+            // Arrange
+            mockJwtService.verify.mockImplementation(() => {
+                throw new Error('invalid signature');
+            });
+
+            // Act & Assert
+            await expect(service.findActiveRefreshToken('tampered-token')).resolves.toBeNull();
+            expect(refreshTokenRepository.findOne).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sessions', () => {
+        it('should start a new session for every login without revoking other devices', async () => {
+            // Arrange
+            const context = { userAgent: 'test-agent', ipAddress: '127.0.0.1' };
+            mockSessionService.createSession.mockResolvedValue({ id: 'session-1' });
+            refreshTokenRepository.create.mockImplementation((entity: Partial<RefreshToken>) => entity);
+            mockJwtService.sign.mockReturnValue('new-refresh-token');
+
+            // Act
+            const result = await service.createRefreshToken(123, context);
+
+            // Assert
+            expect(result).toBe('new-refresh-token');
+            expect(mockSessionService.createSession).toHaveBeenCalledWith(123, context);
+            expect(refreshTokenRepository.create).toHaveBeenCalledWith(
+                expect.objectContaining({ userId: 123, familyId: 'session-1', parentId: null }),
+            );
+            expect(refreshTokenRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should sign out every session except the current one', async () => {
+            // Act
+            await service.revokeAllUserRefreshTokens(123, 'session-1');
+
+            // Assert
+            expect(refreshTokenRepository.update).toHaveBeenCalledWith(
+                { userId: 123, isRevoked: false, familyId: Not('session-1') },
+                { isRevoked: true },
+            );
+            expect(mockSessionService.markAllRevoked).toHaveBeenCalledWith(123, 'session-1');
+        });
+
+        it('should revoke the token family of a session owned by the user', async () => {
+            // Arrange
+            mockSessionService.getActiveSession.mockResolvedValue({ id: 'session-2', userId: 123 });
+
+            // Act
+            await service.revokeSession(123, 'session-2');
+
+            // Assert
+            expect(mockSessionService.getActiveSession).toHaveBeenCalledWith(123, 'session-2');
+            expect(refreshTokenRepository.update).toHaveBeenCalledWith(
+                { familyId: 'session-2', isRevoked: false },
+                { isRevoked: true },
+            );
+            expect(mockSessionService.markRevoked).toHaveBeenCalledWith('session-2');
+        });
+    });
 });
@@ -0,0 +1,71 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CsrfGuard } from '../guards/csrf.guard';
+
+describe('CsrfGuard', () => {
+    let guard: CsrfGuard;
+
+    const createContext = (cookies: Record<string, string>, headers: Record<string, string> = {}): ExecutionContext =>
+        ({
+            switchToHttp: () => ({
+                getRequest: () => ({
+                    cookies,
+                    get: (name: string) => headers[name.toLowerCase()],
+                }),
+            }),
+        }) as unknown as ExecutionContext;
+
+    const sessionCookies = { refreshToken: 'refresh-token', csrfToken: 'csrf-token' };
+
+    beforeEach(() => {
+        const configService = { get: jest.fn(() => 'https://app.example.com') } as unknown as ConfigService;
+        guard = new CsrfGuard(configService);
+    });
+
+    it('should allow a request from the frontend echoing the CSRF token', () => {
+        const context = createContext(sessionCookies, {
+            origin: 'https://app.example.com',
+            'x-csrf-token': 'csrf-token',
+        });
+
+        expect(guard.canActivate(context)).toBe(true);
+    });
+
+    it('should fall back to the Referer when the Origin header is missing', () => {
+        const context = createContext(sessionCookies, {
+            referer: 'https://app.example.com/dashboard',
+            'x-csrf-token': 'csrf-token',
+        });
+
+        expect(guard.canActivate(context)).toBe(true);
+    });
+
+    it('should reject a request from another origin', () => {
+        const context = createContext(sessionCookies, {
+            origin: 'https://attacker.example',
+            'x-csrf-token': 'csrf-token',
+        });
+
+        expect(() => guard.canActivate(context)).toThrow('Request origin is not allowed');
+    });
+
+    it.each([
+        ['a missing header', {}],
+        ['a wrong token', { 'x-csrf-token': 'other-token' }],
+    ])('should reject %s', (_description, headers) => {
+        const context = createContext(sessionCookies, { origin: 'https://app.example.com', ...headers });
+
+        expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+        expect(() => guard.canActivate(context)).toThrow('Invalid CSRF token');
+    });
+
+    it('should reject a header token when the CSRF cookie is missing', () => {
+        const context = createContext({ refreshToken: 'refresh-token' }, { 'x-csrf-token': 'csrf-token' });
+
+        expect(() => guard.canActivate(context)).toThrow('Invalid CSRF token');
+    });
+
+    it('should allow requests without a refresh token cookie', () => {
+        expect(guard.canActivate(createContext({}, { origin: 'https://attacker.example' }))).toBe(true);
+    });
+});
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { EmailVerificationService } from '../services/email-verification.service';
+import { EmailVerificationToken } from '../entities/email-verification-token.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+import { hashToken } from '../utils/tokens';
+
+describe('EmailVerificationService', () => {
+    let service: EmailVerificationService;
+    let tokenRepository: any;
+
+    const mockUserService = {
+        getUserByEmail: jest.fn(),
+        markEmailVerified: jest.fn(),
+    };
+
+    const mockNotificationService = {
+        sendEmailVerification: jest.fn(),
+    };
+
+    const mockConfigService = {
+        get: jest.fn((key: string, defaultValue?: any) => (key === 'auth.emailVerificationTtlHours' ? 24 : defaultValue)),
+    };
+
+    beforeEach(async () => {
+        tokenRepository = createMockRepository();
+        tokenRepository.create.mockImplementation((entity: Partial<EmailVerificationToken>) => entity);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                EmailVerificationService,
+                { provide: getRepositoryToken(EmailVerificationToken), useValue: tokenRepository },
+                { provide: UserService, useValue: mockUserService },
+                { provide: NotificationService, useValue: mockNotificationService },
+                { provide: ConfigService, useValue: mockConfigService },
+            ],
+        }).compile();
+
+        service = module.get<EmailVerificationService>(EmailVerificationService);
+        jest.clearAllMocks();
+    });
+
+    describe('sendVerification', () => {
+        it('should store only the hash of the token it sends', async () => {
+            // Arrange
+            const user = UserFactory.create({ emailVerifiedAt: null });
+
+            // Act
+            await service.sendVerification(user);
+
+            // Assert
+            const sentToken = mockNotificationService.sendEmailVerification.mock.calls[0][1];
+            expect(tokenRepository.delete).toHaveBeenCalledWith({ userId: user.id, usedAt: IsNull() });
+            expect(tokenRepository.create).toHaveBeenCalledWith({
+                tokenHash: hashToken(sentToken),
+                userId: user.id,
+                expiresAt: expect.any(Date),
+            });
+            expect(tokenRepository.save).toHaveBeenCalled();
+        });
+
+        it('should skip users that are already verified', async () => {
+            await service.sendVerification(UserFactory.create({ emailVerifiedAt: new Date() }));
+
+            expect(tokenRepository.save).not.toHaveBeenCalled();
+            expect(mockNotificationService.sendEmailVerification).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('verifyEmail', () => {
+        it('should consume the token and mark the email as verified', async () => {
+            // Arrange
+            tokenRepository.findOne.mockResolvedValue({
+                id: 5,
+                userId: 123,
+                expiresAt: new Date(Date.now() + 60 * 1000),
+            });
+            tokenRepository.update.mockResolvedValue({ affected: 1 });
+
+            // Act
+            await service.verifyEmail('plain-token');
+
+            // Assert
+            expect(tokenRepository.findOne).toHaveBeenCalledWith({
+                where: { tokenHash: hashToken('plain-token'), usedAt: IsNull() },
+            });
+            expect(tokenRepository.update).toHaveBeenCalledWith({ id: 5, usedAt: IsNull() }, { usedAt: expect.any(Date) });
+            expect(mockUserService.markEmailVerified).toHaveBeenCalledWith(123);
+        });
+
+        it('should reject expired tokens', async () => {
+            tokenRepository.findOne.mockResolvedValue({ id: 5, userId: 123, expiresAt: new Date(Date.now() - 1000) });
+
+            await expect(service.verifyEmail('plain-token')).rejects.toThrow(BadRequestException);
+            expect(mockUserService.markEmailVerified).not.toHaveBeenCalled();
+        });
+
+        it('should reject tokens consumed concurrently', async () => {
+            tokenRepository.findOne.mockResolvedValue({ id: 5, userId: 123, expiresAt: new Date(Date.now() + 1000) });
+            tokenRepository.update.mockResolvedValue({ affected: 0 });
+
+            await expect(service.verifyEmail('plain-token')).rejects.toThrow('Invalid or expired verification token');
+            expect(mockUserService.markEmailVerified).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resendVerification', () => {
+        it('should silently ignore unknown email addresses', async () => {
+            mockUserService.getUserByEmail.mockResolvedValue(null);
+
+            await expect(service.resendVerification('unknown@example.com')).resolves.toBeUndefined();
+            expect(mockNotificationService.sendEmailVerification).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FacebookLoginEnabledGuard } from '../guards/facebook-login-enabled.guard';
+import { FacebookStrategy, FacebookStrategyProvider } from '../strategies';
+import { SocialLoginService } from '../services/social-login.service';
+
+describe('FacebookLoginEnabledGuard', () => {
+    const createConfigService = (config: Record<string, string | null>): ConfigService =>
+        ({
+            get: jest.fn((key: string) => config[key] ?? undefined),
+            getOrThrow: jest.fn((key: string) => config[key]),
+        }) as unknown as ConfigService;
+
+    it('should allow the Facebook routes when Facebook is configured', () => {
+        const guard = new FacebookLoginEnabledGuard(createConfigService({ 'oauth.facebook.clientId': 'client-id' }));
+
+        expect(guard.canActivate()).toBe(true);
+    });
+
+    it('should hide the Facebook routes when Facebook is not configured', () => {
+        const guard = new FacebookLoginEnabledGuard(createConfigService({ 'oauth.facebook.clientId': null }));
+
+        expect(() => guard.canActivate()).toThrow(NotFoundException);
+    });
+
+    describe('FacebookStrategyProvider', () => {
+        const socialLoginService = {
+            createStateStore: jest.fn(() => ({ store: jest.fn(), verify: jest.fn() })),
+        } as unknown as SocialLoginService;
+        const createStrategy = (config: Record<string, string | null>): FacebookStrategy | null =>
+            (FacebookStrategyProvider as { useFactory: (...args: unknown[]) => FacebookStrategy | null }).useFactory(
+                createConfigService(config),
+                socialLoginService,
+            );
+
+        it('should not register the strategy without credentials', () => {
+            expect(createStrategy({})).toBeNull();
+        });
+
+        it('should refuse a client ID without its secret', () => {
+            expect(() => createStrategy({ 'oauth.facebook.clientId': 'client-id' })).toThrow(
+                'Facebook login requires both FACEBOOK_CLIENT_ID and FACEBOOK_CLIENT_SECRET',
+            );
+        });
+
+        it('should register the strategy with both credentials', () => {
+            const strategy = createStrategy({
+                'oauth.facebook.clientId': 'client-id',
+                'oauth.facebook.clientSecret': 'client-secret',
+                'oauth.facebook.callbackUrl': 'http://localhost:3000/auth/facebook/callback',
+            });
+
+            expect(strategy).toBeInstanceOf(FacebookStrategy);
+        });
+    });
+});
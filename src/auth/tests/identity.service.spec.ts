@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IdentityService } from '../services/identity.service';
+import { UserIdentity } from '../entities/user-identity.entity';
+import { WebAuthnCredential } from '../entities/web-authn-credential.entity';
+import { SecurityEventService } from '../services/security-event.service';
+import { SecurityEventTypes } from '../constants/security-events';
+import { UserService } from 'src/modules/user/user.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+
+describe('IdentityService', () => {
+    let service: IdentityService;
+    let identityRepository: any;
+    let credentialRepository: any;
+
+    const jwtService = new JwtService({ secret: 'test-secret' });
+    const googleIdentity = { provider: 'google', subject: 'google-subject-1', email: 'test@example.com' };
+
+    const mockUserService = {
+        getUserById: jest.fn(),
+        getUserByEmail: jest.fn(),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        identityRepository = createMockRepository();
+        identityRepository.create.mockImplementation((entity: Partial<UserIdentity>) => entity);
+        identityRepository.save.mockImplementation(async (entity: UserIdentity) => ({ ...entity, id: 1 }));
+        credentialRepository = createMockRepository();
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                IdentityService,
+                { provide: getRepositoryToken(UserIdentity), useValue: identityRepository },
+                { provide: getRepositoryToken(WebAuthnCredential), useValue: credentialRepository },
+                { provide: UserService, useValue: mockUserService },
+                { provide: JwtService, useValue: jwtService },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+            ],
+        }).compile();
+
+        service = module.get<IdentityService>(IdentityService);
+        jest.clearAllMocks();
+    });
+
+    describe('findUser', () => {
+        it('should return the user the identity is linked to', async () => {
+            // Arrange
+            const user = UserFactory.create();
+            identityRepository.findOne.mockResolvedValue({ id: 7, userId: user.id, user });
+
+            // Act
+            const result = await service.findUser(googleIdentity);
+
+            // Assert
+            expect(result).toBe(user);
+            expect(identityRepository.update).toHaveBeenCalledWith({ id: 7 }, { lastUsedAt: expect.any(Date) });
+            expect(mockUserService.getUserByEmail).not.toHaveBeenCalled();
+        });
+
+        it('should not match an account by email alone', async () => {
+            identityRepository.findOne.mockResolvedValue(null);
+            mockUserService.getUserByEmail.mockResolvedValue(UserFactory.create());
+
+            await expect(service.findUser(googleIdentity)).resolves.toBeNull();
+            expect(identityRepository.save).not.toHaveBeenCalled();
+        });
+
+        it('should adopt an OAuth account created before identities were stored', async () => {
+            // Arrange
+            const user = UserFactory.create({ isOauth: true });
+            identityRepository.findOne.mockResolvedValue(null);
+            identityRepository.count.mockResolvedValue(0);
+            mockUserService.getUserByEmail.mockResolvedValue(user);
+
+            // Act
+            const result = await service.findUser(googleIdentity);
+
+            // Assert
+            expect(result).toBe(user);
+            expect(identityRepository.create).toHaveBeenCalledWith({
+                userId: user.id,
+                provider: 'google',
+                providerSubject: 'google-subject-1',
+                email: 'test@example.com',
+            });
+        });
+
+        it('should not adopt an OAuth account that already has a linked identity', async () => {
+            identityRepository.findOne.mockResolvedValue(null);
+            identityRepository.count.mockResolvedValue(1);
+            mockUserService.getUserByEmail.mockResolvedValue(UserFactory.create({ isOauth: true }));
+
+            await expect(service.findUser(googleIdentity)).resolves.toBeNull();
+        });
+
+        it.each(['facebook', 'okta'])('should not adopt accounts by email for %s identities', async (provider) => {
+            identityRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.findUser({ ...googleIdentity, provider })).resolves.toBeNull();
+            expect(mockUserService.getUserByEmail).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('linkIdentity', () => {
+        it('should store the identity and record the event', async () => {
+            identityRepository.findOne.mockResolvedValue(null);
+
+            await service.linkIdentity(123, googleIdentity);
+
+            expect(identityRepository.save).toHaveBeenCalled();
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith(SecurityEventTypes.IDENTITY_LINKED, 123, {
+                provider: 'google',
+            });
+        });
+
+        it('should refuse an identity linked to another account', async () => {
+            identityRepository.findOne.mockResolvedValue({ id: 7, userId: 456 });
+
+            await expect(service.linkIdentity(123, googleIdentity)).rejects.toThrow(ConflictException);
+            expect(identityRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('unlinkIdentity', () => {
+        it('should remove the identity when another login method remains', async () => {
+            identityRepository.findOne.mockResolvedValue({ id: 7, userId: 123, provider: 'google' });
+            identityRepository.count.mockResolvedValue(1);
+            credentialRepository.count.mockResolvedValue(0);
+            mockUserService.getUserById.mockResolvedValue(UserFactory.create());
+
+            await service.unlinkIdentity(123, 7);
+
+            expect(identityRepository.delete).toHaveBeenCalledWith({ id: 7 });
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith(SecurityEventTypes.IDENTITY_UNLINKED, 123, {
+                provider: 'google',
+            });
+        });
+
+        it('should keep the last login method of the account', async () => {
+            const user = UserFactory.create({ isOauth: true });
+            user.hashedPassword = null;
+            identityRepository.findOne.mockResolvedValue({ id: 7, userId: 123, provider: 'google' });
+            identityRepository.count.mockResolvedValue(1);
+            credentialRepository.count.mockResolvedValue(0);
+            mockUserService.getUserById.mockResolvedValue(user);
+
+            await expect(service.unlinkIdentity(123, 7)).rejects.toThrow(BadRequestException);
+            expect(identityRepository.delete).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException for an identity of another user', async () => {
+            identityRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.unlinkIdentity(123, 7)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('link tokens', () => {
+        it('should return the linking user for the provider the token was issued for', () => {
+            const token = service.createLinkToken(123, 'google');
+
+            expect(service.verifyLinkToken(token, 'google')).toBe(123);
+            expect(service.verifyLinkToken(token, 'facebook')).toBeNull();
+        });
+
+        it('should ignore missing and foreign tokens', () => {
+            expect(service.verifyLinkToken(undefined, 'google')).toBeNull();
+            expect(service.verifyLinkToken(jwtService.sign({ sub: 123, provider: 'google' }), 'google')).toBeNull();
+            expect(service.verifyLinkToken('not-a-jwt', 'google')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Observable, of } from 'rxjs';
+import { ImpersonationService } from '../services/impersonation.service';
+import { RoleService } from '../services/role.service';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+import { SecurityEventService } from '../services/security-event.service';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { ImpersonationAuditInterceptor } from '../interceptors/impersonation-audit.interceptor';
+import { AuthService } from '../auth.service';
+import { SecurityEventTypes } from '../constants/security-events';
+import { AuthenticatedUser } from '../interfaces';
+import { UserService } from 'src/modules/user/user.service';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { UserFactory } from 'src/test/test-utils';
+
+describe('ImpersonationService', () => {
+    let service: ImpersonationService;
+
+    const jwtService = new JwtService({ secret: 'test-secret' });
+    const user = UserFactory.create({ id: 123, email: 'user@example.com' });
+
+    const admin: AuthenticatedUser = {
+        userId: 1,
+        username: 'admin@example.com',
+        roles: ['admin'],
+        permissions: ['users:impersonate'],
+    };
+
+    const impersonated: AuthenticatedUser = {
+        userId: user.id,
+        username: user.email,
+        roles: ['user'],
+        permissions: [],
+        impersonator: { userId: admin.userId, username: admin.username },
+    };
+
+    const mockUserService = {
+        getUserById: jest.fn(),
+    };
+
+    const mockRoleService = {
+        getPermissionNames: jest.fn(),
+    };
+
+    const mockAuthService = {
+        createTokenForUser: jest.fn(),
+    };
+
+    const mockAccessTokenDenylistService = {
+        revoke: jest.fn(),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ImpersonationService,
+                { provide: UserService, useValue: mockUserService },
+                { provide: RoleService, useValue: mockRoleService },
+                { provide: AuthService, useValue: mockAuthService },
+                { provide: AccessTokenDenylistService, useValue: mockAccessTokenDenylistService },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+                { provide: JwtService, useValue: jwtService },
+            ],
+        }).compile();
+
+        service = module.get<ImpersonationService>(ImpersonationService);
+        jest.clearAllMocks();
+        mockUserService.getUserById.mockResolvedValue(user);
+        mockRoleService.getPermissionNames.mockReturnValue(['users:read']);
+        mockAuthService.createTokenForUser.mockReturnValue({ accessToken: 'impersonation-token' });
+    });
+
+    describe('startImpersonation', () => {
+        it('should issue a token naming the admin and record the event', async () => {
+            // Act
+            const result = await service.startImpersonation(admin, user.id);
+
+            // Assert
+            expect(result).toEqual({ accessToken: 'impersonation-token' });
+            expect(mockAuthService.createTokenForUser).toHaveBeenCalledWith(user, {
+                userId: admin.userId,
+                username: admin.username,
+            });
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith(SecurityEventTypes.IMPERSONATION_STARTED, user.id, {
+                impersonatorId: admin.userId,
+            });
+        });
+
+        it('should reject impersonating yourself or an inactive user', async () => {
+            // Arrange
+            const inactiveUser = UserFactory.create({ id: 123 });
+            inactiveUser.isActive = false;
+
+            // Act & Assert
+            await expect(service.startImpersonation(admin, admin.userId)).rejects.toThrow(BadRequestException);
+
+            mockUserService.getUserById.mockResolvedValue(inactiveUser);
+            await expect(service.startImpersonation(admin, user.id)).rejects.toThrow(BadRequestException);
+            expect(mockAuthService.createTokenForUser).not.toHaveBeenCalled();
+        });
+
+        it('should reject impersonating a user who may impersonate others', async () => {
+            // Arrange
+            mockRoleService.getPermissionNames.mockReturnValue(['users:impersonate']);
+
+            // Act & Assert
+            await expect(service.startImpersonation(admin, user.id)).rejects.toThrow(ForbiddenException);
+            expect(mockAuthService.createTokenForUser).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('endImpersonation', () => {
+        it('should denylist the impersonation token until it expires', async () => {
+            // Arrange
+            const accessToken = jwtService.sign({ sub: user.id, jti: 'impersonation-jti' }, { expiresIn: '10m' });
+            const { exp } = jwtService.decode(accessToken);
+
+            // Act
+            await service.endImpersonation(impersonated, accessToken);
+
+            // Assert
+            expect(mockAccessTokenDenylistService.revoke).toHaveBeenCalledWith('impersonation-jti', new Date(exp * 1000));
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith(SecurityEventTypes.IMPERSONATION_ENDED, user.id, {
+                impersonatorId: admin.userId,
+            });
+        });
+
+        it('should reject a token that is not an impersonation token', async () => {
+            // Act & Assert
+            await expect(service.endImpersonation(admin, 'access-token')).rejects.toThrow(BadRequestException);
+            expect(mockAccessTokenDenylistService.revoke).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('NoImpersonationGuard', () => {
+        const createContext = (requestUser: AuthenticatedUser): ExecutionContext =>
+            ({
+                switchToHttp: () => ({ getRequest: () => ({ user: requestUser }) }),
+            }) as unknown as ExecutionContext;
+
+        it('should only block requests made with an impersonation token', () => {
+            // Arrange
+            const guard = new NoImpersonationGuard();
+
+            // Act & Assert
+            expect(guard.canActivate(createContext(admin))).toBe(true);
+            expect(() => guard.canActivate(createContext(impersonated))).toThrow(ForbiddenException);
+        });
+    });
+
+    describe('ImpersonationAuditInterceptor', () => {
+        it('should log impersonated requests under the admin', () => {
+            // Arrange
+            const logger = { logUserAction: jest.fn() } as unknown as AppLoggerService;
+            const interceptor = new ImpersonationAuditInterceptor(logger);
+            const createContext = (requestUser: AuthenticatedUser): ExecutionContext =>
+                ({
+                    switchToHttp: () => ({
+                        getRequest: () => ({ user: requestUser, method: 'PUT', originalUrl: '/user/profile' }),
+                    }),
+                }) as unknown as ExecutionContext;
+            const next = { handle: (): Observable<null> => of(null) };
+
+            // Act
+            interceptor.intercept(createContext(admin), next);
+            interceptor.intercept(createContext(impersonated), next);
+
+            // Assert
+            expect(logger.logUserAction).toHaveBeenCalledTimes(1);
+            expect(logger.logUserAction).toHaveBeenCalledWith('1', 'impersonated_request', {
+                impersonatedUserId: user.id,
+                method: 'PUT',
+                path: '/user/profile',
+            });
+        });
+    });
+});
@@ -0,0 +1,277 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { LdapService } from '../services/ldap.service';
+import { LdapConfig } from '../interfaces';
+import { Role } from '../entities/role.entity';
+import { UserIdentity } from '../entities/user-identity.entity';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { MockLdapServer } from 'src/test/mock-ldap-server';
+
+describe('LdapService', () => {
+    const directory = new MockLdapServer();
+    let config: LdapConfig;
+    let service: LdapService;
+
+    const configService = {
+        get: jest.fn((key: string, defaultValue?: any) => (key === 'ldap' ? config : defaultValue)),
+    } as unknown as ConfigService;
+    const roleRepository = { find: jest.fn() };
+    const identityRepository = {
+        findOne: jest.fn(),
+        update: jest.fn(),
+        save: jest.fn(),
+        create: jest.fn((identity: Partial<UserIdentity>) => identity),
+    };
+    const logger = { warn: jest.fn() };
+
+    const userDn = 'uid=jdoe,ou=people,dc=example,dc=com';
+    const adminsDn = 'cn=admins,ou=groups,dc=example,dc=com';
+
+    beforeAll(async () => {
+        await directory.start();
+    });
+
+    afterAll(async () => {
+        await directory.stop();
+    });
+
+    beforeEach(() => {
+        config = {
+            url: directory.url,
+            startTls: false,
+            bindDnTemplate: null,
+            bindDn: 'cn=service,dc=example,dc=com',
+            bindPassword: 'service-secret',
+            searchBase: 'ou=people,dc=example,dc=com',
+            searchFilter: '(mail={{username}})',
+            attributes: { email: 'mail', firstName: 'givenName', lastName: 'sn', groups: 'memberOf' },
+            groupRoles: [],
+            timeoutMs: 2000,
+        };
+        service = new LdapService(
+            configService,
+            roleRepository as unknown as Repository<Role>,
+            identityRepository as unknown as Repository<UserIdentity>,
+            logger as unknown as AppLoggerService,
+        );
+
+        directory.reset();
+        directory.addEntry('cn=service,dc=example,dc=com', { cn: 'service' }, 'service-secret');
+        directory.addEntry(
+            userDn,
+            {
+                uid: 'jdoe',
+                mail: 'JDoe@Example.com',
+                givenName: 'Jane',
+                sn: 'Doe',
+                memberOf: [adminsDn, 'cn=staff,ou=groups,dc=example,dc=com'],
+            },
+            'directory-password',
+        );
+        jest.clearAllMocks();
+    });
+
+    describe('onModuleInit', () => {
+        it('should accept a disabled directory', () => {
+            config = { ...config, url: null, searchBase: null };
+
+            expect(() => service.onModuleInit()).not.toThrow();
+            expect(service.isEnabled()).toBe(false);
+        });
+
+        it('should require a way to find the entry of a user', () => {
+            config = { ...config, searchBase: null };
+
+            expect(() => service.onModuleInit()).toThrow('LDAP requires LDAP_BIND_DN_TEMPLATE or LDAP_SEARCH_BASE');
+        });
+
+        it('should reject a group mapping without a role', () => {
+            config.groupRoles = [{ group: adminsDn, role: '' }];
+
+            expect(() => service.onModuleInit()).toThrow(`LDAP_GROUP_ROLES entry '${adminsDn}' must be`);
+        });
+    });
+
+    describe('authenticate with search then bind', () => {
+        it('should find the entry with the service account and bind as it', async () => {
+            const profile = await service.authenticate('jdoe@example.com', 'directory-password');
+
+            expect(profile).toEqual({
+                dn: userDn,
+                email: 'jdoe@example.com',
+                firstName: 'Jane',
+                lastName: 'Doe',
+                groups: [adminsDn, 'cn=staff,ou=groups,dc=example,dc=com'],
+            });
+            expect(directory.binds).toEqual(['cn=service,dc=example,dc=com', userDn]);
+            expect(directory.searches[0]).toMatchObject({
+                filter: '(mail=jdoe@example.com)',
+                boundAs: 'cn=service,dc=example,dc=com',
+            });
+        });
+
+        it('should return null for a wrong password', async () => {
+            await expect(service.authenticate('jdoe@example.com', 'wrong')).resolves.toBeNull();
+        });
+
+        it('should return null for an unknown user without binding', async () => {
+            await expect(service.authenticate('nobody@example.com', 'directory-password')).resolves.toBeNull();
+            expect(directory.binds).toEqual(['cn=service,dc=example,dc=com']);
+        });
+
+        it('should refuse an empty password instead of binding anonymously', async () => {
+            await expect(service.authenticate('jdoe@example.com', '')).resolves.toBeNull();
+            expect(directory.binds).toEqual([]);
+        });
+
+        it('should escape filter characters in the username', async () => {
+            await expect(service.authenticate('*', 'directory-password')).resolves.toBeNull();
+            expect(directory.searches[0].filter).toBe('(mail=*)');
+            expect(directory.binds).toEqual(['cn=service,dc=example,dc=com']);
+        });
+
+        it('should refuse ambiguous matches', async () => {
+            directory.addEntry('uid=jdoe2,ou=people,dc=example,dc=com', { mail: 'jdoe@example.com' }, 'directory-password');
+
+            await expect(service.authenticate('jdoe@example.com', 'directory-password')).resolves.toBeNull();
+        });
+
+        it('should fail as unavailable when the service account is rejected', async () => {
+            config.bindPassword = 'rotated';
+
+            await expect(service.authenticate('jdoe@example.com', 'directory-password')).rejects.toThrow(
+                ServiceUnavailableException,
+            );
+            expect(logger.warn).toHaveBeenCalled();
+        });
+
+        it('should fail as unavailable when the directory cannot be reached', async () => {
+            config.url = 'ldap://127.0.0.1:1';
+
+            await expect(service.authenticate('jdoe@example.com', 'directory-password')).rejects.toThrow(
+                'The directory is unavailable',
+            );
+        });
+    });
+
+    describe('resolveBindName', () => {
+        it('should find the DN of the entry with the service account without binding as the user', async () => {
+            await expect(service.resolveBindName('jdoe@example.com')).resolves.toBe(userDn);
+            expect(directory.binds).toEqual(['cn=service,dc=example,dc=com']);
+        });
+
+        it('should return null for an unknown user', async () => {
+            await expect(service.resolveBindName('nobody@example.com')).resolves.toBeNull();
+        });
+
+        it('should build the name from the bind DN template without contacting the directory', async () => {
+            config = { ...config, bindDnTemplate: 'uid={{username}},ou=people,dc=example,dc=com', bindDn: null };
+
+            await expect(service.resolveBindName('jdoe')).resolves.toBe(userDn);
+            expect(directory.binds).toEqual([]);
+            expect(directory.searches).toEqual([]);
+        });
+    });
+
+    describe('authenticate with a bind DN template', () => {
+        beforeEach(() => {
+            config = {
+                ...config,
+                bindDnTemplate: 'uid={{username}},ou=people,dc=example,dc=com',
+                bindDn: null,
+                bindPassword: null,
+                searchBase: null,
+            };
+        });
+
+        it('should bind directly and read the entry as the user', async () => {
+            const profile = await service.authenticate('jdoe', 'directory-password');
+
+            expect(profile).toMatchObject({ dn: userDn, email: 'jdoe@example.com', firstName: 'Jane' });
+            expect(directory.binds).toEqual(['uid=jdoe,ou=people,dc=example,dc=com']);
+            expect(directory.searches[0]).toMatchObject({ baseDn: 'uid=jdoe,ou=people,dc=example,dc=com', boundAs: userDn });
+        });
+
+        it('should return null for a wrong password', async () => {
+            await expect(service.authenticate('jdoe', 'wrong')).resolves.toBeNull();
+            expect(directory.searches).toEqual([]);
+        });
+
+        it('should escape DN characters in the username', async () => {
+            await expect(service.authenticate('jdoe,ou=admins', 'directory-password')).resolves.toBeNull();
+            expect(directory.binds).toEqual(['uid=jdoe\\,ou\\=admins,ou=people,dc=example,dc=com']);
+        });
+
+        it('should search for the entry as the user when a search base is set', async () => {
+            config.searchBase = 'ou=people,dc=example,dc=com';
+            config.searchFilter = '(uid={{username}})';
+
+            const profile = await service.authenticate('jdoe', 'directory-password');
+
+            expect(profile?.dn).toBe(userDn);
+            expect(directory.searches[0]).toMatchObject({
+                filter: '(uid=jdoe)',
+                boundAs: 'uid=jdoe,ou=people,dc=example,dc=com',
+            });
+        });
+    });
+
+    describe('directory links', () => {
+        it('should find the account linked to an entry regardless of DN formatting', async () => {
+            identityRepository.findOne.mockResolvedValue({ id: 4, userId: 7 });
+
+            await expect(service.findLinkedUserId('UID=jdoe, OU=People,dc=example,dc=com')).resolves.toBe(7);
+            expect(identityRepository.findOne).toHaveBeenCalledWith({
+                where: { provider: 'ldap', providerSubject: userDn },
+            });
+        });
+
+        it('should link the account on its first directory login', async () => {
+            identityRepository.findOne.mockResolvedValue(null);
+
+            await service.recordLogin(7, userDn, 'jdoe@example.com');
+
+            expect(identityRepository.save).toHaveBeenCalledWith({
+                userId: 7,
+                provider: 'ldap',
+                providerSubject: userDn,
+                email: 'jdoe@example.com',
+                lastUsedAt: expect.any(Date),
+            });
+        });
+
+        it('should only record later logins', async () => {
+            identityRepository.findOne.mockResolvedValue({ id: 4, userId: 7 });
+
+            await service.recordLogin(7, userDn, 'jdoe@example.com');
+
+            expect(identityRepository.update).toHaveBeenCalledWith({ id: 4 }, { lastUsedAt: expect.any(Date) });
+            expect(identityRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('mapGroupRoles', () => {
+        const adminRole = { id: 1, name: 'admin' } as Role;
+        const auditorRole = { id: 2, name: 'auditor' } as Role;
+        const editorRole = { id: 3, name: 'editor' } as Role;
+
+        it('should leave roles alone without a group mapping', async () => {
+            await expect(service.mapGroupRoles([editorRole], [adminsDn])).resolves.toEqual([editorRole]);
+            expect(roleRepository.find).not.toHaveBeenCalled();
+        });
+
+        it('should grant mapped roles and revoke those whose group was left, keeping the others', async () => {
+            config.groupRoles = [
+                { group: 'CN=Admins, OU=Groups, DC=example, DC=com', role: 'admin' },
+                { group: 'cn=auditors,ou=groups,dc=example,dc=com', role: 'auditor' },
+            ];
+            roleRepository.find.mockResolvedValue([adminRole]);
+
+            const roles = await service.mapGroupRoles([auditorRole, editorRole], [adminsDn]);
+
+            expect(roles).toEqual([editorRole, adminRole]);
+            expect(roleRepository.find.mock.calls[0][0].where.name.value).toEqual(['admin']);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { LoginHistoryService } from '../services/login-history.service';
+import { SecurityEventService } from '../services/security-event.service';
+import { KnownDevice } from '../entities/known-device.entity';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+
+describe('LoginHistoryService', () => {
+    let service: LoginHistoryService;
+    let knownDeviceRepository: any;
+
+    const user = UserFactory.create({ id: 123 });
+    const chromeOnMac =
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+    const context = { userAgent: chromeOnMac, ipAddress: '203.0.113.7' };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    const mockNotificationService = {
+        sendNewDeviceLogin: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        knownDeviceRepository = createMockRepository();
+        knownDeviceRepository.create.mockImplementation((entity: Partial<KnownDevice>) => entity);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                LoginHistoryService,
+                { provide: getRepositoryToken(KnownDevice), useValue: knownDeviceRepository },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+                { provide: NotificationService, useValue: mockNotificationService },
+            ],
+        }).compile();
+
+        service = module.get<LoginHistoryService>(LoginHistoryService);
+        jest.clearAllMocks();
+        knownDeviceRepository.findOne.mockResolvedValue(null);
+        knownDeviceRepository.count.mockResolvedValue(1);
+    });
+
+    it('should record the method, outcome and parsed device of a login', async () => {
+        // Act
+        await service.recordFailure(user.id, 'password', context, 'Invalid credentials');
+
+        // Assert
+        expect(mockSecurityEventService.record).toHaveBeenCalledWith('login_attempt', user.id, {
+            method: 'password',
+            outcome: 'failure',
+            reason: 'Invalid credentials',
+            ipAddress: '203.0.113.7',
+            userAgent: chromeOnMac,
+            browser: 'Chrome',
+            os: 'macOS',
+            deviceType: 'desktop',
+        });
+        expect(knownDeviceRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should record further details of a login', async () => {
+        // Act
+        await service.recordSuccess(user, 'oidc', context, { provider: 'okta' });
+        await service.recordFailure(null, 'oidc', context, 'Invalid ID token', { provider: 'okta' });
+
+        // Assert
+        expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+            'login_attempt',
+            user.id,
+            expect.objectContaining({ method: 'oidc', outcome: 'success', provider: 'okta' }),
+        );
+        expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+            'login_attempt',
+            null,
+            expect.objectContaining({ method: 'oidc', outcome: 'failure', provider: 'okta', reason: 'Invalid ID token' }),
+        );
+    });
+
+    it('should alert the user the first time a device signs in', async () => {
+        // Act
+        await service.recordSuccess(user, 'password', context);
+
+        // Assert
+        expect(knownDeviceRepository.save).toHaveBeenCalledWith(
+            expect.objectContaining({ userId: user.id, deviceName: 'Chrome on macOS' }),
+        );
+        expect(mockNotificationService.sendNewDeviceLogin).toHaveBeenCalledWith(user, 'Chrome on macOS', '203.0.113.7');
+    });
+
+    it('should not alert for a known device, the first device of an account or a refresh', async () => {
+        // Act
+        knownDeviceRepository.findOne.mockResolvedValueOnce({ id: 4 });
+        await service.recordSuccess(user, 'password', context);
+
+        knownDeviceRepository.count.mockResolvedValueOnce(0);
+        await service.recordSuccess(user, 'google', context);
+
+        await service.recordSuccess(user, 'refresh', context);
+
+        // Assert
+        expect(knownDeviceRepository.update).toHaveBeenCalledWith({ id: 4 }, { lastSeenAt: expect.any(Date) });
+        expect(knownDeviceRepository.findOne).toHaveBeenCalledTimes(2);
+        expect(mockNotificationService.sendNewDeviceLogin).not.toHaveBeenCalled();
+        expect(mockSecurityEventService.record).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { MagicLinkService } from '../services/magic-link.service';
+import { MagicLinkToken } from '../entities/magic-link-token.entity';
+import { UserService } from 'src/modules/user/user.service';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+import { hashToken } from '../utils/tokens';
+
+describe('MagicLinkService', () => {
+    let service: MagicLinkService;
+    let tokenRepository: any;
+
+    const mockUserService = {
+        getUserByEmail: jest.fn(),
+        markEmailVerified: jest.fn(),
+    };
+
+    const mockNotificationService = {
+        sendMagicLink: jest.fn(),
+    };
+
+    const mockLogger = {
+        warn: jest.fn(),
+    };
+
+    const mockConfigService = {
+        get: jest.fn((_key: string, defaultValue?: any) => defaultValue),
+    };
+
+    beforeEach(async () => {
+        tokenRepository = createMockRepository();
+        tokenRepository.create.mockImplementation((entity: Partial<MagicLinkToken>) => entity);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                MagicLinkService,
+                { provide: getRepositoryToken(MagicLinkToken), useValue: tokenRepository },
+                { provide: UserService, useValue: mockUserService },
+                { provide: NotificationService, useValue: mockNotificationService },
+                { provide: ConfigService, useValue: mockConfigService },
+                { provide: AppLoggerService, useValue: mockLogger },
+            ],
+        }).compile();
+
+        service = module.get<MagicLinkService>(MagicLinkService);
+        jest.clearAllMocks();
+    });
+
+    describe('requestLink', () => {
+        it('should send a link and store only its hash', async () => {
+            // Arrange
+            const user = UserFactory.create();
+            mockUserService.getUserByEmail.mockResolvedValue(user);
+            tokenRepository.count.mockResolvedValue(0);
+
+            // Act
+            await service.requestLink(user.email, { ipAddress: '127.0.0.1' });
+
+            // Assert
+            const sentToken = mockNotificationService.sendMagicLink.mock.calls[0][1];
+            expect(tokenRepository.create).toHaveBeenCalledWith({
+                tokenHash: hashToken(sentToken),
+                userId: user.id,
+                expiresAt: expect.any(Date),
+                requestedIp: '127.0.0.1',
+            });
+        });
+
+        it('should send links to OAuth-only accounts', async () => {
+            mockUserService.getUserByEmail.mockResolvedValue(UserFactory.create({ isOauth: true, hashedPassword: null }));
+            tokenRepository.count.mockResolvedValue(0);
+
+            await service.requestLink('test@example.com');
+
+            expect(mockNotificationService.sendMagicLink).toHaveBeenCalled();
+        });
+
+        it('should stop sending once the hourly limit for the email is reached', async () => {
+            mockUserService.getUserByEmail.mockResolvedValue(UserFactory.create());
+            tokenRepository.count.mockResolvedValue(5);
+
+            await expect(service.requestLink('test@example.com')).resolves.toBeUndefined();
+            expect(tokenRepository.save).not.toHaveBeenCalled();
+            expect(mockNotificationService.sendMagicLink).not.toHaveBeenCalled();
+        });
+
+        it('should resolve without sending anything for unknown emails', async () => {
+            mockUserService.getUserByEmail.mockResolvedValue(null);
+
+            await expect(service.requestLink('unknown@example.com')).resolves.toBeUndefined();
+            expect(mockNotificationService.sendMagicLink).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('consumeLink', () => {
+        it('should consume the link and verify the email address', async () => {
+            // Arrange
+            const user = UserFactory.create({ emailVerifiedAt: null });
+            tokenRepository.findOne.mockResolvedValue({ id: 7, user, expiresAt: new Date(Date.now() + 60000) });
+            tokenRepository.update.mockResolvedValue({ affected: 1 });
+
+            // Act
+            const result = await service.consumeLink('magic-token');
+
+            // Assert
+            expect(result).toBe(user);
+            expect(tokenRepository.findOne).toHaveBeenCalledWith({
+                where: { tokenHash: hashToken('magic-token'), usedAt: IsNull() },
+                relations: ['user'],
+            });
+            expect(tokenRepository.update).toHaveBeenCalledWith({ id: 7, usedAt: IsNull() }, { usedAt: expect.any(Date) });
+            expect(mockUserService.markEmailVerified).toHaveBeenCalledWith(user.id);
+        });
+
+        it('should reject a link consumed by a concurrent request', async () => {
+            tokenRepository.findOne.mockResolvedValue({
+                id: 7,
+                user: UserFactory.create(),
+                expiresAt: new Date(Date.now() + 60000),
+            });
+            tokenRepository.update.mockResolvedValue({ affected: 0 });
+
+            await expect(service.consumeLink('magic-token')).rejects.toThrow(UnauthorizedException);
+        });
+
+        it('should reject expired links', async () => {
+            tokenRepository.findOne.mockResolvedValue({
+                id: 7,
+                user: UserFactory.create(),
+                expiresAt: new Date(Date.now() - 1000),
+            });
+
+            await expect(service.consumeLink('old-token')).rejects.toThrow('Invalid or expired sign-in link');
+            expect(tokenRepository.update).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { MfaController } from '../controllers/mfa.controller';
+import { AuthService } from '../auth.service';
+import { MfaService } from '../services/mfa.service';
+import { LoginHistoryService } from '../services/login-history.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { UserFactory, mockConfigService } from 'src/test/test-utils';
+
+describe('MfaController', () => {
+    let controller: MfaController;
+
+    const mockRequest = {
+        get: jest.fn().mockReturnValue('test-agent'),
+        ip: '127.0.0.1',
+    } as unknown as Request;
+
+    const mockAuthService = {
+        createTokenForUser: jest.fn(),
+        createRefreshToken: jest.fn(),
+    };
+
+    const mockMfaService = {
+        readChallenge: jest.fn(),
+        verifyChallenge: jest.fn(),
+    };
+
+    const mockLoginHistoryService = {
+        recordSuccess: jest.fn(),
+        recordFailure: jest.fn(),
+    };
+
+    const mockTokenPolicyService = {
+        getRefreshCookieMaxAge: jest.fn().mockReturnValue(7 * 24 * 60 * 60 * 1000),
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [MfaController],
+            providers: [
+                { provide: AuthService, useValue: mockAuthService },
+                { provide: MfaService, useValue: mockMfaService },
+                { provide: ConfigService, useValue: mockConfigService },
+                { provide: TokenPolicyService, useValue: mockTokenPolicyService },
+                { provide: LoginHistoryService, useValue: mockLoginHistoryService },
+            ],
+        }).compile();
+
+        controller = module.get<MfaController>(MfaController);
+        jest.clearAllMocks();
+        mockMfaService.readChallenge.mockReturnValue({ userId: 123, method: 'magic_link' });
+    });
+
+    describe('verify', () => {
+        it('should complete the login and record it under the first factor', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 123 });
+            const tokenPayload = { accessToken: 'access-token', user: { id: 123 } };
+            mockMfaService.verifyChallenge.mockResolvedValue(user);
+            mockAuthService.createTokenForUser.mockReturnValue(tokenPayload);
+            mockAuthService.createRefreshToken.mockResolvedValue('refresh-token');
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            // Act
+            const result = await controller.verify({ mfaToken: 'mfa-token', code: '123456' }, mockRequest, mockResponse);
+
+            // Assert
+            expect(result).toBe(tokenPayload);
+            expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', 'refresh-token', expect.any(Object));
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(user, 'magic_link', {
+                userAgent: 'test-agent',
+                ipAddress: '127.0.0.1',
+            });
+        });
+
+        it('should record a wrong code as a failed login of the account', async () => {
+            mockMfaService.verifyChallenge.mockRejectedValue(new UnauthorizedException('Invalid MFA code'));
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            await expect(
+                controller.verify({ mfaToken: 'mfa-token', code: '000000' }, mockRequest, mockResponse),
+            ).rejects.toThrow(UnauthorizedException);
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenCalledWith(
+                123,
+                'magic_link',
+                expect.any(Object),
+                'Invalid MFA code',
+            );
+            expect(mockLoginHistoryService.recordSuccess).not.toHaveBeenCalled();
+            expect(mockResponse.cookie).not.toHaveBeenCalled();
+        });
+    });
+});
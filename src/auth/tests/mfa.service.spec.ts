@@ -0,0 +1,308 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, HttpException, HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { MfaService } from '../services/mfa.service';
+import { UserMfa } from '../entities/user-mfa.entity';
+import { MfaRecoveryCode } from '../entities/mfa-recovery-code.entity';
+import { SecurityEventService } from '../services/security-event.service';
+import { UserService } from 'src/modules/user/user.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+import { hashToken } from '../utils/tokens';
+import { generateTotp, generateTotpSecret, getTotpTimeStep } from '../utils/totp';
+
+describe('MfaService', () => {
+    let service: MfaService;
+    let mfaRepository: any;
+    let recoveryCodeRepository: any;
+
+    const secret = generateTotpSecret();
+    const currentCode = (): string => generateTotp(secret, getTotpTimeStep());
+
+    const mockUserService = {
+        getUserById: jest.fn(),
+        assertCanLogIn: jest.fn(),
+        lockAccount: jest.fn(),
+    };
+
+    const mockJwtService = {
+        sign: jest.fn(),
+        verify: jest.fn(),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    const mockConfigService = {
+        get: jest.fn((_key: string, defaultValue?: any) => defaultValue),
+    };
+
+    beforeEach(async () => {
+        mfaRepository = createMockRepository();
+        mfaRepository.create.mockImplementation((entity: Partial<UserMfa>) => entity);
+        recoveryCodeRepository = createMockRepository();
+        recoveryCodeRepository.create.mockImplementation((entity: Partial<MfaRecoveryCode>) => entity);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                MfaService,
+                { provide: getRepositoryToken(UserMfa), useValue: mfaRepository },
+                { provide: getRepositoryToken(MfaRecoveryCode), useValue: recoveryCodeRepository },
+                { provide: UserService, useValue: mockUserService },
+                { provide: JwtService, useValue: mockJwtService },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+                { provide: ConfigService, useValue: mockConfigService },
+            ],
+        }).compile();
+
+        service = module.get<MfaService>(MfaService);
+        jest.clearAllMocks();
+    });
+
+    describe('startEnrollment', () => {
+        it('should store a pending secret and return the otpauth URI', async () => {
+            mfaRepository.count.mockResolvedValue(0);
+
+            const result = await service.startEnrollment(123, 'test@example.com');
+
+            expect(mfaRepository.save).toHaveBeenCalledWith({
+                userId: 123,
+                secret: result.secret,
+                enabledAt: null,
+                lastUsedStep: null,
+            });
+            expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+            expect(result.otpauthUri).toContain('OALR%3Atest%40example.com');
+        });
+
+        it('should refuse to replace an enabled secret', async () => {
+            mfaRepository.count.mockResolvedValue(1);
+
+            await expect(service.startEnrollment(123, 'test@example.com')).rejects.toThrow('MFA is already enabled');
+            expect(mfaRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('confirmEnrollment', () => {
+        it('should enable MFA and return hashed-at-rest recovery codes', async () => {
+            // Arrange
+            mfaRepository.findOne.mockResolvedValue({ userId: 123, secret, enabledAt: null, lastUsedStep: null });
+
+            // Act
+            const recoveryCodes = await service.confirmEnrollment(123, currentCode());
+
+            // Assert
+            expect(recoveryCodes).toHaveLength(10);
+            expect(mfaRepository.update).toHaveBeenCalledWith(
+                { userId: 123 },
+                { enabledAt: expect.any(Date), lastUsedStep: expect.any(Number) },
+            );
+            const storedCodes = recoveryCodeRepository.save.mock.calls[0][0];
+            expect(storedCodes[0]).toEqual({ userId: 123, codeHash: hashToken(recoveryCodes[0].replace('-', '')) });
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith('mfa_enabled', 123);
+        });
+
+        it('should reject a wrong code', async () => {
+            mfaRepository.findOne.mockResolvedValue({ userId: 123, secret, enabledAt: null, lastUsedStep: null });
+
+            await expect(service.confirmEnrollment(123, '000000')).rejects.toThrow(BadRequestException);
+            expect(mfaRepository.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('readChallenge', () => {
+        it('should return the user and login method of the challenge', () => {
+            mockJwtService.verify.mockReturnValue({ sub: 123, type: 'mfa_pending', method: 'magic_link' });
+
+            expect(service.readChallenge('mfa-token')).toEqual({ userId: 123, method: 'magic_link' });
+        });
+
+        it('should treat challenges without a method as password logins', () => {
+            mockJwtService.verify.mockReturnValue({ sub: 123, type: 'mfa_pending' });
+
+            expect(service.readChallenge('mfa-token')).toEqual({ userId: 123, method: 'password' });
+        });
+
+        it('should reject tokens that are not MFA challenges', () => {
+            mockJwtService.verify.mockReturnValue({ sub: 123, type: 'refresh' });
+
+            expect(() => service.readChallenge('refresh-token')).toThrow('Invalid or expired MFA challenge');
+        });
+    });
+
+    describe('verifyChallenge', () => {
+        const user = UserFactory.create({ id: 123 });
+
+        beforeEach(() => {
+            mockJwtService.verify.mockReturnValue({ sub: 123, type: 'mfa_pending' });
+            mockUserService.getUserById.mockResolvedValue(user);
+        });
+
+        it('should accept a valid TOTP code once', async () => {
+            // Arrange
+            mfaRepository.findOne.mockResolvedValue({ userId: 123, secret, enabledAt: new Date(), lastUsedStep: null });
+            mfaRepository.update.mockResolvedValue({ affected: 1 });
+
+            // Act
+            const result = await service.verifyChallenge('mfa-token', currentCode());
+
+            // Assert
+            expect(result).toBe(user);
+            expect(mfaRepository.update).toHaveBeenCalledWith(
+                { userId: 123, lastUsedStep: IsNull() },
+                { lastUsedStep: getTotpTimeStep() },
+            );
+        });
+
+        it('should reject a TOTP code whose time step was already used', async () => {
+            mfaRepository.findOne.mockResolvedValue({
+                userId: 123,
+                secret,
+                enabledAt: new Date(),
+                lastUsedStep: getTotpTimeStep(),
+            });
+            recoveryCodeRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.verifyChallenge('mfa-token', currentCode())).rejects.toThrow('Invalid MFA code');
+        });
+
+        it('should burn a recovery code', async () => {
+            // Arrange
+            mfaRepository.findOne.mockResolvedValue({ userId: 123, secret, enabledAt: new Date(), lastUsedStep: null });
+            recoveryCodeRepository.findOne.mockResolvedValue({ id: 5, userId: 123 });
+            recoveryCodeRepository.update.mockResolvedValue({ affected: 1 });
+            recoveryCodeRepository.count.mockResolvedValue(9);
+
+            // Act
+            await service.verifyChallenge('mfa-token', 'ABCDE-12345');
+
+            // Assert
+            expect(recoveryCodeRepository.findOne).toHaveBeenCalledWith({
+                where: { userId: 123, codeHash: hashToken('abcde12345'), usedAt: IsNull() },
+            });
+            expect(recoveryCodeRepository.update).toHaveBeenCalledWith(
+                { id: 5, usedAt: IsNull() },
+                { usedAt: expect.any(Date) },
+            );
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith('mfa_recovery_code_used', 123, {
+                remaining: 9,
+            });
+        });
+
+        it('should count wrong codes and start over once a code is accepted', async () => {
+            // Arrange
+            mfaRepository.findOne.mockResolvedValue({
+                userId: 123,
+                secret,
+                enabledAt: new Date(),
+                lastUsedStep: null,
+                failedAttempts: 2,
+            });
+            mfaRepository.update.mockResolvedValue({ affected: 1 });
+            recoveryCodeRepository.findOne.mockResolvedValue(null);
+
+            // Act
+            await expect(service.verifyChallenge('mfa-token', 'wrong-code')).rejects.toThrow('Invalid MFA code');
+            await service.verifyChallenge('mfa-token', currentCode());
+
+            // Assert
+            expect(mfaRepository.update).toHaveBeenCalledWith({ userId: 123 }, { failedAttempts: 3 });
+            expect(mfaRepository.update).toHaveBeenLastCalledWith({ userId: 123 }, { failedAttempts: 0 });
+            expect(mockUserService.lockAccount).not.toHaveBeenCalled();
+        });
+
+        it('should lock the account after too many wrong codes and then refuse even a valid code', async () => {
+            // Arrange
+            const account = UserFactory.create({ id: 123 });
+            const mfa = { userId: 123, secret, enabledAt: new Date(), lastUsedStep: null, failedAttempts: 0 };
+            mockUserService.getUserById.mockResolvedValue(account);
+            mockUserService.assertCanLogIn.mockImplementation((target) => {
+                if (target.lockedUntil) {
+                    throw new HttpException('Account is temporarily locked', HttpStatus.TOO_MANY_REQUESTS);
+                }
+            });
+            mockUserService.lockAccount.mockImplementation(async (target) => {
+                target.lockedUntil = new Date(Date.now() + 15 * 60 * 1000);
+            });
+            mfaRepository.findOne.mockImplementation(async () => ({ ...mfa }));
+            mfaRepository.update.mockImplementation(async (_criteria: any, changes: Partial<UserMfa>) => {
+                Object.assign(mfa, changes);
+                return { affected: 1 };
+            });
+            recoveryCodeRepository.findOne.mockResolvedValue(null);
+
+            // Act
+            for (let attempt = 0; attempt < 5; attempt++) {
+                await expect(service.verifyChallenge('mfa-token', 'wrong-code')).rejects.toThrow('Invalid MFA code');
+            }
+
+            // Assert
+            expect(mockUserService.lockAccount).toHaveBeenCalledTimes(1);
+            expect(mockUserService.lockAccount).toHaveBeenCalledWith(account, { failedMfaAttempts: 5 });
+            await expect(service.verifyChallenge('mfa-token', currentCode())).rejects.toThrow(
+                'Account is temporarily locked',
+            );
+            expect(mfa.lastUsedStep).toBeNull();
+        });
+
+        it('should reject tokens that are not MFA challenges', async () => {
+            mockJwtService.verify.mockReturnValue({ sub: 123, type: 'refresh' });
+
+            await expect(service.verifyChallenge('refresh-token', currentCode())).rejects.toThrow(
+                'Invalid or expired MFA challenge',
+            );
+        });
+
+        it('should reject expired challenges', async () => {
+            mockJwtService.verify.mockImplementation(() => {
+                throw new Error('jwt expired');
+            });
+
+            await expect(service.verifyChallenge('mfa-token', currentCode())).rejects.toThrow(UnauthorizedException);
+        });
+    });
+
+    describe('disable', () => {
+        it('should remove the secret and recovery codes', async () => {
+            mfaRepository.findOne.mockResolvedValue({ userId: 123, secret, enabledAt: new Date(), lastUsedStep: null });
+            mfaRepository.update.mockResolvedValue({ affected: 1 });
+
+            await service.disable(123, currentCode());
+
+            expect(recoveryCodeRepository.delete).toHaveBeenCalledWith({ userId: 123 });
+            expect(mfaRepository.delete).toHaveBeenCalledWith({ userId: 123 });
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith('mfa_disabled', 123);
+        });
+
+        it('should fail when MFA is not enabled', async () => {
+            mfaRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.disable(123, '123456')).rejects.toThrow('MFA is not enabled');
+        });
+    });
+
+    describe('verifyUserCode', () => {
+        it('should accept a current code', async () => {
+            mfaRepository.findOne.mockResolvedValue({ userId: 123, secret, enabledAt: new Date(), lastUsedStep: null });
+            mfaRepository.update.mockResolvedValue({ affected: 1 });
+
+            await expect(service.verifyUserCode(123, currentCode())).resolves.toBeUndefined();
+        });
+
+        it('should reject a wrong code', async () => {
+            mfaRepository.findOne.mockResolvedValue({ userId: 123, secret, enabledAt: new Date(), lastUsedStep: null });
+            recoveryCodeRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.verifyUserCode(123, '000000')).rejects.toThrow(UnauthorizedException);
+        });
+
+        it('should reject users without MFA', async () => {
+            mfaRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.verifyUserCode(123, currentCode())).rejects.toThrow('Invalid MFA code');
+        });
+    });
+});
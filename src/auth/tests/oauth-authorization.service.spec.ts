@@ -0,0 +1,329 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { OAuthAuthorizationService } from '../services/oauth-authorization.service';
+import { OAuthTokenService } from '../services/oauth-token.service';
+import { OAuthClientService } from '../services/oauth-client.service';
+import { SecurityEventService } from '../services/security-event.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { AuthService } from '../auth.service';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { OAuthConsent } from '../entities/oauth-consent.entity';
+import { OAuthAuthorizationCode } from '../entities/oauth-authorization-code.entity';
+import { AuthorizationDecisionDto } from '../dto/oauth.dto';
+import { SecurityEventTypes } from '../constants/security-events';
+import { UserService } from 'src/modules/user/user.service';
+import { UserFactory, createMockRepository, mockConfigService } from 'src/test/test-utils';
+
+describe('OAuthAuthorizationService', () => {
+    let service: OAuthAuthorizationService;
+    let tokenService: OAuthTokenService;
+    let consentRepository: any;
+    let codeRepository: any;
+    let storedCodes: OAuthAuthorizationCode[];
+
+    const jwtService = new JwtService({ secret: 'test-secret' });
+    const user = UserFactory.create({ id: 123 });
+
+    const client = {
+        id: 1,
+        clientId: 'partner',
+        name: 'Partner App',
+        redirectUris: ['https://partner.example/callback'],
+        scopes: ['users:read', 'users:write'],
+        grantTypes: ['authorization_code', 'refresh_token', 'client_credentials'],
+    } as OAuthClient;
+
+    const codeVerifier = 'a'.repeat(64);
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+    const createDecision = (overrides: Partial<AuthorizationDecisionDto> = {}): AuthorizationDecisionDto => ({
+        response_type: 'code',
+        client_id: 'partner',
+        redirect_uri: 'https://partner.example/callback',
+        scope: 'users:read',
+        state: 'xyz',
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+        approve: true,
+        ...overrides,
+    });
+
+    const getCode = (redirectUri: string): string => new URL(redirectUri).searchParams.get('code') as string;
+
+    const mockOAuthClientService = {
+        findByClientId: jest.fn(async (clientId: string) => (clientId === client.clientId ? client : null)),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    const mockAuthService = {
+        createRefreshToken: jest.fn(),
+        rotateRefreshToken: jest.fn(),
+        revokeClientRefreshTokens: jest.fn(),
+    };
+
+    const mockSigningKeyService = {
+        signAccessToken: jest.fn((payload: object, expiresIn: string) => jwtService.sign(payload, { expiresIn })),
+    };
+
+    const mockUserService = {
+        getUserById: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        storedCodes = [];
+        consentRepository = createMockRepository();
+        consentRepository.findOne.mockResolvedValue(null);
+        consentRepository.save.mockImplementation(async (entity: OAuthConsent) => entity);
+
+        codeRepository = createMockRepository();
+        codeRepository.create.mockImplementation((entity: Partial<OAuthAuthorizationCode>) => entity);
+        codeRepository.save.mockImplementation(async (entity: OAuthAuthorizationCode) => {
+            storedCodes.push({ ...entity, id: storedCodes.length + 1 });
+            return entity;
+        });
+        codeRepository.findOne.mockImplementation(
+            async ({ where }: any) => storedCodes.find((code) => code.codeHash === where.codeHash) || null,
+        );
+        codeRepository.delete.mockImplementation(async ({ id }: any) => {
+            const before = storedCodes.length;
+            storedCodes = storedCodes.filter((code) => code.id !== id);
+            return { affected: before - storedCodes.length };
+        });
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OAuthAuthorizationService,
+                OAuthTokenService,
+                { provide: getRepositoryToken(OAuthConsent), useValue: consentRepository },
+                { provide: getRepositoryToken(OAuthAuthorizationCode), useValue: codeRepository },
+                { provide: OAuthClientService, useValue: mockOAuthClientService },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+                { provide: AuthService, useValue: mockAuthService },
+                { provide: SigningKeyService, useValue: mockSigningKeyService },
+                { provide: UserService, useValue: mockUserService },
+                { provide: ConfigService, useValue: mockConfigService },
+                TokenPolicyService,
+            ],
+        }).compile();
+
+        service = module.get<OAuthAuthorizationService>(OAuthAuthorizationService);
+        tokenService = module.get<OAuthTokenService>(OAuthTokenService);
+        jest.clearAllMocks();
+        mockUserService.getUserById.mockResolvedValue(user);
+        mockAuthService.createRefreshToken.mockResolvedValue('refresh-token');
+    });
+
+    describe('validateAuthorizationRequest', () => {
+        it('should report whether the user already consented to the requested scopes', async () => {
+            // Arrange
+            consentRepository.findOne.mockResolvedValue({ scopes: ['users:read'] });
+
+            // Act
+            const granted = await service.validateAuthorizationRequest(user.id, createDecision());
+            const wider = await service.validateAuthorizationRequest(
+                user.id,
+                createDecision({ scope: 'users:read users:write' }),
+            );
+
+            // Assert
+            expect(granted).toMatchObject({ client, scopes: ['users:read'], consentGranted: true });
+            expect(wider).toMatchObject({ scopes: ['users:read', 'users:write'], consentGranted: false });
+        });
+
+        it.each([
+            [{ client_id: 'unknown' }, 'invalid_request'],
+            [{ redirect_uri: 'https://attacker.example/callback' }, 'invalid_request'],
+            [{ response_type: 'token' }, 'unsupported_response_type'],
+            [{ code_challenge_method: 'plain' }, 'invalid_request'],
+            [{ scope: 'roles:manage' }, 'invalid_scope'],
+        ])('should reject %o with %s', async (overrides, error) => {
+            // Act & Assert
+            await expect(service.validateAuthorizationRequest(user.id, createDecision(overrides))).rejects.toMatchObject({
+                error,
+            });
+        });
+    });
+
+    describe('decide', () => {
+        it('should redirect with an authorization code and record the consent', async () => {
+            // Act
+            const redirectUri = await service.decide(user.id, createDecision());
+
+            // Assert
+            const url = new URL(redirectUri);
+            expect(url.origin + url.pathname).toBe('https://partner.example/callback');
+            expect(url.searchParams.get('state')).toBe('xyz');
+            expect(url.searchParams.get('code')).toHaveLength(43);
+            expect(consentRepository.save).toHaveBeenCalledWith(
+                expect.objectContaining({ userId: user.id, clientId: client.id, scopes: ['users:read'] }),
+            );
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith(SecurityEventTypes.OAUTH_CONSENT_GRANTED, user.id, {
+                clientId: client.id,
+                scopes: ['users:read'],
+            });
+        });
+
+        it('should redirect with access_denied when the user denies the request', async () => {
+            // Act
+            const redirectUri = await service.decide(user.id, createDecision({ approve: false }));
+
+            // Assert
+            const url = new URL(redirectUri);
+            expect(url.searchParams.get('error')).toBe('access_denied');
+            expect(url.searchParams.get('state')).toBe('xyz');
+            expect(storedCodes).toHaveLength(0);
+        });
+    });
+
+    describe('authorization_code grant', () => {
+        it('should exchange the code for scoped tokens exactly once', async () => {
+            // Arrange
+            const code = getCode(await service.decide(user.id, createDecision()));
+            const request = {
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: 'https://partner.example/callback',
+                code_verifier: codeVerifier,
+            };
+
+            // Act
+            const response = await tokenService.issueTokens(client, request);
+
+            // Assert
+            expect(response).toMatchObject({
+                token_type: 'Bearer',
+                expires_in: 900,
+                scope: 'users:read',
+                refresh_token: 'refresh-token',
+            });
+            expect(jwtService.verify(response.access_token)).toMatchObject({
+                type: 'oauth',
+                sub: user.id,
+                client_id: 'partner',
+                scope: 'users:read',
+            });
+            expect(mockAuthService.createRefreshToken).toHaveBeenCalledWith(
+                user.id,
+                { deviceName: 'Partner App' },
+                { clientId: client.id, scopes: ['users:read'] },
+            );
+            await expect(tokenService.issueTokens(client, request)).rejects.toMatchObject({ error: 'invalid_grant' });
+        });
+
+        it('should reject a wrong code verifier or redirect URI and burn the code', async () => {
+            // Arrange
+            const code = getCode(await service.decide(user.id, createDecision()));
+
+            // Act & Assert
+            await expect(
+                tokenService.issueTokens(client, {
+                    grant_type: 'authorization_code',
+                    code,
+                    redirect_uri: 'https://partner.example/callback',
+                    code_verifier: 'b'.repeat(64),
+                }),
+            ).rejects.toMatchObject({ error: 'invalid_grant' });
+            expect(storedCodes).toHaveLength(0);
+        });
+
+        it('should reject a code issued to another client', async () => {
+            // Arrange
+            const code = getCode(await service.decide(user.id, createDecision()));
+            const otherClient = { ...client, id: 2, clientId: 'other' } as OAuthClient;
+
+            // Act & Assert
+            await expect(
+                tokenService.issueTokens(otherClient, {
+                    grant_type: 'authorization_code',
+                    code,
+                    redirect_uri: 'https://partner.example/callback',
+                    code_verifier: codeVerifier,
+                }),
+            ).rejects.toMatchObject({ error: 'invalid_grant' });
+        });
+    });
+
+    describe('refresh_token grant', () => {
+        it('should rotate the refresh token and allow narrowing its scopes', async () => {
+            // Arrange
+            mockAuthService.rotateRefreshToken.mockResolvedValue({
+                user,
+                refreshToken: 'rotated-refresh-token',
+                scopes: ['users:read', 'users:write'],
+            });
+
+            // Act
+            const response = await tokenService.issueTokens(client, {
+                grant_type: 'refresh_token',
+                refresh_token: 'refresh-token',
+                scope: 'users:read',
+            });
+
+            // Assert
+            expect(mockAuthService.rotateRefreshToken).toHaveBeenCalledWith('refresh-token', {}, client.id);
+            expect(response).toMatchObject({ scope: 'users:read', refresh_token: 'rotated-refresh-token' });
+        });
+
+        it('should answer invalid_grant for an invalid refresh token', async () => {
+            // Arrange
+            mockAuthService.rotateRefreshToken.mockRejectedValue(new UnauthorizedException('Invalid refresh token'));
+
+            // Act & Assert
+            await expect(
+                tokenService.issueTokens(client, { grant_type: 'refresh_token', refresh_token: 'stolen' }),
+            ).rejects.toMatchObject({ error: 'invalid_grant' });
+        });
+    });
+
+    describe('client_credentials grant', () => {
+        it('should issue a token with the client as subject and no refresh token', async () => {
+            // Act
+            const response = await tokenService.issueTokens(client, { grant_type: 'client_credentials' });
+
+            // Assert
+            expect(response.refresh_token).toBeUndefined();
+            expect(response.scope).toBe('users:read users:write');
+            expect(jwtService.verify(response.access_token)).toMatchObject({ sub: 'partner', client_id: 'partner' });
+        });
+
+        it('should reject grants the client is not registered for', async () => {
+            // Arrange
+            const introspectionClient = { ...client, grantTypes: [] } as OAuthClient;
+
+            // Act & Assert
+            await expect(
+                tokenService.issueTokens(introspectionClient, { grant_type: 'client_credentials' }),
+            ).rejects.toMatchObject({ error: 'unauthorized_client' });
+            await expect(tokenService.issueTokens(client, { grant_type: 'password' })).rejects.toMatchObject({
+                error: 'unsupported_grant_type',
+            });
+        });
+    });
+
+    describe('revokeConsent', () => {
+        it('should delete the consent and end the sessions of the client', async () => {
+            // Arrange
+            consentRepository.findOne.mockResolvedValue({ id: 7, userId: user.id, clientId: client.id });
+
+            // Act
+            await service.revokeConsent(user.id, 7);
+
+            // Assert
+            expect(consentRepository.delete).toHaveBeenCalledWith({ id: 7 });
+            expect(mockAuthService.revokeClientRefreshTokens).toHaveBeenCalledWith(user.id, client.id);
+        });
+
+        it('should throw NotFoundException for a consent of another user', async () => {
+            // Act & Assert
+            await expect(service.revokeConsent(user.id, 7)).rejects.toThrow(NotFoundException);
+        });
+    });
+});
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ExecutionContext, NotFoundException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { OAuthClientService } from '../services/oauth-client.service';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { OAuthClientGuard } from '../guards/oauth-client.guard';
+import { OAuthException } from '../exceptions/oauth.exception';
+import { createMockRepository } from 'src/test/test-utils';
+import { hashToken } from '../utils/tokens';
+
+describe('OAuthClientService', () => {
+    let service: OAuthClientService;
+    let guard: OAuthClientGuard;
+    let clientRepository: any;
+
+    const client = {
+        id: 1,
+        clientId: 'client-id',
+        clientSecretHash: hashToken('client-secret'),
+        name: 'Billing',
+    } as OAuthClient;
+
+    const createContext = (request: Record<string, any>): ExecutionContext =>
+        ({
+            switchToHttp: () => ({ getRequest: () => request }),
+        }) as ExecutionContext;
+
+    const basic = (id: string, secret: string): string => `Basic ${Buffer.from(`${id}:${secret}`).toString('base64')}`;
+
+    beforeEach(async () => {
+        clientRepository = createMockRepository();
+        clientRepository.create.mockImplementation((entity: Partial<OAuthClient>) => entity);
+        clientRepository.save.mockImplementation(async (entity: OAuthClient) => ({ ...entity, id: 1 }));
+        clientRepository.findOne.mockImplementation(async ({ where }: any) =>
+            where.clientId === client.clientId ? client : null,
+        );
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OAuthClientService,
+                OAuthClientGuard,
+                { provide: getRepositoryToken(OAuthClient), useValue: clientRepository },
+            ],
+        }).compile();
+
+        service = module.get<OAuthClientService>(OAuthClientService);
+        guard = module.get<OAuthClientGuard>(OAuthClientGuard);
+    });
+
+    describe('createClient', () => {
+        it('should store only the hash of the generated secret', async () => {
+            // Act
+            const { client: created, clientSecret } = await service.createClient({ name: 'Billing' });
+
+            // Assert
+            expect(created).toMatchObject({
+                name: 'Billing',
+                clientSecretHash: hashToken(clientSecret),
+                redirectUris: [],
+                grantTypes: [],
+            });
+            expect(created.clientId).toMatch(/^[A-Za-z0-9_-]{22}$/);
+        });
+
+        it('should require a redirect URI for the authorization_code grant', async () => {
+            // Act & Assert
+            await expect(
+                service.createClient({ name: 'Partner', grantTypes: ['authorization_code', 'refresh_token'] }),
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should require the authorization_code grant for the refresh_token grant', async () => {
+            // Act & Assert
+            await expect(
+                service.createClient({
+                    name: 'Partner',
+                    redirectUris: ['https://partner.example/cb'],
+                    grantTypes: ['refresh_token'],
+                }),
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('deleteClient', () => {
+        it('should throw NotFoundException for an unknown client', async () => {
+            // Arrange
+            clientRepository.delete.mockResolvedValue({ affected: 0 });
+
+            // Act & Assert
+            await expect(service.deleteClient(99)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('OAuthClientGuard', () => {
+        it('should authenticate a client with HTTP Basic credentials', async () => {
+            // Arrange
+            const request = { headers: { authorization: basic('client-id', 'client-secret') }, body: {} };
+
+            // Act & Assert
+            await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+            expect(request).toHaveProperty('oauthClient', client);
+        });
+
+        it('should authenticate a client with credentials in the form body', async () => {
+            // Arrange
+            const request = { headers: {}, body: { client_id: 'client-id', client_secret: 'client-secret' } };
+
+            // Act & Assert
+            await expect(guard.canActivate(createContext(request))).resolves.toBe(true);
+            expect(request).toHaveProperty('oauthClient', client);
+        });
+
+        it('should reject a wrong secret, an unknown client and missing credentials', async () => {
+            const requests = [
+                { headers: { authorization: basic('client-id', 'wrong') }, body: {} },
+                { headers: { authorization: basic('unknown', 'client-secret') }, body: {} },
+                { headers: {}, body: {} },
+            ];
+
+            for (const request of requests) {
+                await expect(guard.canActivate(createContext(request))).rejects.toMatchObject({
+                    error: 'invalid_client',
+                });
+            }
+        });
+
+        it('should reject a request that uses both authentication methods', async () => {
+            // Arrange
+            const request = {
+                headers: { authorization: basic('client-id', 'client-secret') },
+                body: { client_id: 'client-id', client_secret: 'client-secret' },
+            };
+
+            // Act & Assert
+            await expect(guard.canActivate(createContext(request))).rejects.toThrow(OAuthException);
+            await expect(guard.canActivate(createContext(request))).rejects.toMatchObject({ error: 'invalid_request' });
+        });
+    });
+});
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { OidcController } from '../controllers/oidc.controller';
+import { AuthService } from '../auth.service';
+import { OidcService } from '../services/oidc.service';
+import { IdentityService } from '../services/identity.service';
+import { LoginHistoryService } from '../services/login-history.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { UserFactory, mockConfigService } from 'src/test/test-utils';
+
+describe('OidcController', () => {
+    let controller: OidcController;
+    let mockResponse: Response;
+
+    const mockRequest = {
+        get: jest.fn().mockReturnValue('test-agent'),
+        ip: '127.0.0.1',
+        cookies: { oidcState: 'state-token' },
+    } as unknown as Request;
+    const context = { userAgent: 'test-agent', ipAddress: '127.0.0.1' };
+    const identity = { provider: 'okta', subject: 'okta-subject-1', email: 'test@example.com' };
+
+    const mockAuthService = {
+        createRefreshToken: jest.fn(),
+    };
+
+    const mockOidcService = {
+        completeAuthorization: jest.fn(),
+    };
+
+    const mockIdentityService = {
+        verifyLinkToken: jest.fn(),
+        findUser: jest.fn(),
+    };
+
+    const mockLoginHistoryService = {
+        recordSuccess: jest.fn(),
+        recordFailure: jest.fn(),
+    };
+
+    const mockTokenPolicyService = {
+        getRefreshCookieMaxAge: jest.fn().mockReturnValue(7 * 24 * 60 * 60 * 1000),
+    };
+
+    const mockLogger = {
+        warn: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [OidcController],
+            providers: [
+                { provide: AuthService, useValue: mockAuthService },
+                { provide: OidcService, useValue: mockOidcService },
+                { provide: IdentityService, useValue: mockIdentityService },
+                { provide: ConfigService, useValue: mockConfigService },
+                { provide: AppLoggerService, useValue: mockLogger },
+                { provide: TokenPolicyService, useValue: mockTokenPolicyService },
+                { provide: LoginHistoryService, useValue: mockLoginHistoryService },
+            ],
+        }).compile();
+
+        controller = module.get<OidcController>(OidcController);
+        jest.clearAllMocks();
+        mockResponse = {
+            cookie: jest.fn(),
+            clearCookie: jest.fn(),
+            setHeader: jest.fn(),
+            redirect: jest.fn(),
+        } as unknown as Response;
+        mockIdentityService.verifyLinkToken.mockReturnValue(null);
+        mockOidcService.completeAuthorization.mockResolvedValue(identity);
+    });
+
+    describe('callback', () => {
+        it('should sign in the linked account and record the login with its provider', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 123 });
+            mockIdentityService.findUser.mockResolvedValue(user);
+            mockAuthService.createRefreshToken.mockResolvedValue('refresh-token');
+
+            // Act
+            await controller.callback('okta', 'code', 'state', undefined, mockRequest, mockResponse);
+
+            // Assert
+            expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', 'refresh-token', expect.any(Object));
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(user, 'oidc', context, {
+                provider: 'okta',
+            });
+            expect(mockResponse.redirect).toHaveBeenCalledWith('http://localhost:3000/dashboard');
+        });
+
+        it('should record a rejected sign-in with the provider', async () => {
+            // Arrange
+            mockOidcService.completeAuthorization.mockRejectedValue(new UnauthorizedException('Invalid ID token'));
+
+            // Act
+            await controller.callback('okta', 'code', 'state', undefined, mockRequest, mockResponse);
+
+            // Assert
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenCalledWith(null, 'oidc', context, 'Invalid ID token', {
+                provider: 'okta',
+            });
+            expect(mockResponse.redirect).toHaveBeenCalledWith('http://localhost:3000/login');
+        });
+
+        it('should not record an unreachable provider as a login attempt', async () => {
+            // Arrange
+            mockOidcService.completeAuthorization.mockRejectedValue(
+                new ServiceUnavailableException('Identity provider is unavailable'),
+            );
+
+            // Act
+            await controller.callback('okta', 'code', 'state', undefined, mockRequest, mockResponse);
+
+            // Assert
+            expect(mockLoginHistoryService.recordFailure).not.toHaveBeenCalled();
+            expect(mockResponse.redirect).toHaveBeenCalledWith('http://localhost:3000/login');
+        });
+
+        it('should record a sign-in to a disabled or unlinked account as failed', async () => {
+            // Arrange
+            const inactiveUser = UserFactory.create({ id: 123 });
+            inactiveUser.isActive = false;
+            mockIdentityService.findUser.mockResolvedValueOnce(inactiveUser).mockResolvedValueOnce(null);
+
+            // Act
+            await controller.callback('okta', 'code', 'state', undefined, mockRequest, mockResponse);
+            await controller.callback('okta', 'code', 'state', undefined, mockRequest, mockResponse);
+
+            // Assert
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenNthCalledWith(
+                1,
+                123,
+                'oidc',
+                context,
+                'The account is disabled',
+                { provider: 'okta' },
+            );
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenNthCalledWith(
+                2,
+                null,
+                'oidc',
+                context,
+                'The identity is not linked to an account',
+                { provider: 'okta' },
+            );
+            expect(mockAuthService.createRefreshToken).not.toHaveBeenCalled();
+            expect(mockLoginHistoryService.recordSuccess).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,203 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { OidcService } from '../services/oidc.service';
+import { OidcProviderConfig } from '../interfaces';
+import { MockOidcIssuer } from 'src/test/mock-oidc-issuer';
+
+describe('OidcService', () => {
+    const issuer = new MockOidcIssuer();
+    const jwtService = new JwtService({ secret: 'test-secret' });
+    let providers: Record<string, OidcProviderConfig>;
+    let service: OidcService;
+
+    const configService = {
+        get: jest.fn((key: string, defaultValue?: any) => (key === 'oidc.providers' ? providers : defaultValue)),
+    } as unknown as ConfigService;
+
+    const login = async (
+        claims: Record<string, unknown> = {},
+    ): Promise<{ code: string; state: string; stateToken: string }> => {
+        const { authorizationUrl, stateToken } = await service.createAuthorizationRequest('mock');
+        const code = issuer.authorize(authorizationUrl, claims);
+        const state = new URL(authorizationUrl).searchParams.get('state') as string;
+
+        return { code, state, stateToken };
+    };
+
+    beforeAll(async () => {
+        await issuer.start();
+    });
+
+    afterAll(async () => {
+        await issuer.stop();
+    });
+
+    beforeEach(() => {
+        providers = {
+            mock: {
+                name: 'mock',
+                issuer: issuer.issuer,
+                clientId: issuer.clientId,
+                clientSecret: issuer.clientSecret,
+                scopes: ['openid', 'email', 'profile'],
+                callbackUrl: 'http://localhost:3000/auth/oidc/mock/callback',
+            },
+        };
+        service = new OidcService(jwtService, configService);
+        issuer.requests = [];
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('onModuleInit', () => {
+        it('should fail when a provider is missing its settings', () => {
+            providers.broken = { ...providers.mock, name: 'broken', clientSecret: '' };
+
+            expect(() => service.onModuleInit()).toThrow("OIDC provider 'broken' is missing clientSecret");
+        });
+    });
+
+    describe('createAuthorizationRequest', () => {
+        it('should build an authorization code request with PKCE, state and nonce', async () => {
+            const { authorizationUrl, stateToken } = await service.createAuthorizationRequest('mock');
+
+            const url = new URL(authorizationUrl);
+            expect(`${url.origin}${url.pathname}`).toBe(`${issuer.issuer}/authorize`);
+            expect(url.searchParams.get('response_type')).toBe('code');
+            expect(url.searchParams.get('client_id')).toBe(issuer.clientId);
+            expect(url.searchParams.get('redirect_uri')).toBe('http://localhost:3000/auth/oidc/mock/callback');
+            expect(url.searchParams.get('scope')).toBe('openid email profile');
+            expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+            expect(url.searchParams.get('code_challenge')).toBeTruthy();
+
+            const pending = jwtService.verify(stateToken);
+            expect(pending).toMatchObject({
+                type: 'oidc_state',
+                provider: 'mock',
+                state: url.searchParams.get('state'),
+                nonce: url.searchParams.get('nonce'),
+            });
+        });
+
+        it('should reject unknown providers', async () => {
+            await expect(service.createAuthorizationRequest('unknown')).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('completeAuthorization', () => {
+        it('should exchange the code and return the validated identity', async () => {
+            const { code, state, stateToken } = await login();
+
+            const identity = await service.completeAuthorization('mock', { code, state }, stateToken);
+
+            expect(identity).toEqual({
+                provider: 'mock',
+                subject: 'mock-user-1',
+                email: 'oidc.user@example.com',
+                emailVerified: true,
+                firstName: 'Oidc',
+                lastName: 'User',
+                picture: null,
+            });
+        });
+
+        it('should cache the discovery document and JWKS between logins', async () => {
+            const first = await login();
+            await service.completeAuthorization('mock', first, first.stateToken);
+            const second = await login();
+            await service.completeAuthorization('mock', second, second.stateToken);
+
+            expect(issuer.requests.filter((path) => path === '/.well-known/openid-configuration')).toHaveLength(1);
+            expect(issuer.requests.filter((path) => path === '/jwks')).toHaveLength(1);
+        });
+
+        it('should reject a state that does not match the one issued to the browser', async () => {
+            const { code, stateToken } = await login();
+
+            await expect(service.completeAuthorization('mock', { code, state: 'forged' }, stateToken)).rejects.toThrow(
+                'Invalid OIDC state',
+            );
+        });
+
+        it('should reject a missing or foreign state token', async () => {
+            const { code, state } = await login();
+            const otherProviderToken = jwtService.sign({ type: 'oidc_state', provider: 'other', state });
+
+            await expect(service.completeAuthorization('mock', { code, state }, undefined)).rejects.toThrow(
+                UnauthorizedException,
+            );
+            await expect(service.completeAuthorization('mock', { code, state }, otherProviderToken)).rejects.toThrow(
+                UnauthorizedException,
+            );
+        });
+
+        it('should reject an error returned by the provider', async () => {
+            const { state, stateToken } = await login();
+
+            await expect(
+                service.completeAuthorization('mock', { error: 'access_denied', state }, stateToken),
+            ).rejects.toThrow(UnauthorizedException);
+        });
+
+        it('should reject an authorization code that was already used', async () => {
+            const { code, state, stateToken } = await login();
+            await service.completeAuthorization('mock', { code, state }, stateToken);
+
+            await expect(service.completeAuthorization('mock', { code, state }, stateToken)).rejects.toThrow(
+                'Authorization code could not be exchanged',
+            );
+        });
+
+        it('should reject an ID token with the wrong nonce', async () => {
+            const { code, state, stateToken } = await login({ nonce: 'replayed-nonce' });
+
+            await expect(service.completeAuthorization('mock', { code, state }, stateToken)).rejects.toThrow(
+                'Invalid ID token nonce',
+            );
+        });
+
+        it.each([
+            ['issued by another issuer', { iss: 'https://evil.example.com' }],
+            ['issued to another client', { aud: 'another-client' }],
+            ['expired', { exp: Math.floor(Date.now() / 1000) - 600 }],
+        ])('should reject an ID token %s', async (_description, claims) => {
+            const { code, state, stateToken } = await login(claims);
+
+            await expect(service.completeAuthorization('mock', { code, state }, stateToken)).rejects.toThrow(
+                'Invalid ID token',
+            );
+        });
+
+        it('should pick up a rotated signing key by refetching the JWKS', async () => {
+            const first = await login();
+            await service.completeAuthorization('mock', first, first.stateToken);
+
+            issuer.rotateKey();
+            const now = Date.now();
+            jest.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 1000);
+
+            const second = await login();
+            const identity = await service.completeAuthorization('mock', second, second.stateToken);
+
+            expect(identity.subject).toBe('mock-user-1');
+            expect(issuer.requests.filter((path) => path === '/jwks')).toHaveLength(2);
+        });
+
+        it('should fall back to the user info endpoint when the ID token has no email', async () => {
+            issuer.setUserInfo('mock-user-2', { email: 'from.userinfo@example.com', email_verified: true });
+            const { code, state, stateToken } = await login({
+                sub: 'mock-user-2',
+                email: undefined,
+                email_verified: undefined,
+            });
+
+            const identity = await service.completeAuthorization('mock', { code, state }, stateToken);
+
+            expect(identity.email).toBe('from.userinfo@example.com');
+            expect(identity.emailVerified).toBe(true);
+        });
+    });
+});
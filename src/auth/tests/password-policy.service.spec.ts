@@ -0,0 +1,75 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PasswordPolicyService } from '../services/password-policy.service';
+
+describe('PasswordPolicyService', () => {
+    const owner = { email: 'jane.doe@example.com', firstName: 'Jane', lastName: 'Doe' };
+
+    const createService = (config: Record<string, any> = {}): PasswordPolicyService =>
+        new PasswordPolicyService({
+            get: jest.fn((key: string, defaultValue?: any) => (key in config ? config[key] : defaultValue)),
+        } as unknown as ConfigService);
+
+    const getViolations = (service: PasswordPolicyService, password: string, field?: string): string[] => {
+        try {
+            service.validate(password, owner, field);
+            return [];
+        } catch (error) {
+            expect(error).toBeInstanceOf(BadRequestException);
+            return ((error as BadRequestException).getResponse() as { message: string[] }).message;
+        }
+    };
+
+    it('should accept a long password mixing character classes', () => {
+        expect(() => createService().validate('Correct-Horse-Battery-9', owner)).not.toThrow();
+    });
+
+    it('should report every violated rule prefixed with the field name', () => {
+        // Act
+        const violations = getViolations(createService(), 'jane', 'newPassword');
+
+        // Assert
+        expect(violations).toEqual([
+            'newPassword must be at least 10 characters long',
+            'newPassword must contain at least 3 of: lowercase letters, uppercase letters, digits, symbols',
+            'newPassword must not contain your name or email address',
+        ]);
+    });
+
+    it('should reject breached passwords regardless of case', () => {
+        expect(getViolations(createService(), 'PassWord123')).toEqual([
+            'password appears in a list of breached passwords, please choose another',
+        ]);
+    });
+
+    it('should reject the most common breached passwords when the other rules are relaxed', () => {
+        // Arrange
+        const service = createService({ 'passwordPolicy.minLength': 8, 'passwordPolicy.requiredCharacterClasses': 2 });
+
+        // Act & Assert
+        for (const password of ['password1', 'qwerty123', 'Abc12345']) {
+            expect(getViolations(service, password)).toEqual([
+                'password appears in a list of breached passwords, please choose another',
+            ]);
+        }
+    });
+
+    it('should reject passwords containing the name or email of the owner', () => {
+        expect(getViolations(createService(), 'My-Jane.Doe@2024!')).toEqual([
+            'password must not contain your name or email address',
+        ]);
+    });
+
+    it('should follow the configured policy', () => {
+        // Arrange
+        const service = createService({
+            'passwordPolicy.minLength': 4,
+            'passwordPolicy.requiredCharacterClasses': 0,
+            'passwordPolicy.blockPersonalInfo': false,
+            'passwordPolicy.checkBreached': false,
+        });
+
+        // Act & Assert
+        expect(() => service.validate('jane1234', owner)).not.toThrow();
+    });
+});
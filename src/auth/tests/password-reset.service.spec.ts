@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { PasswordResetService } from '../services/password-reset.service';
+import { PasswordResetToken } from '../entities/password-reset-token.entity';
+import { AuthService } from '../auth.service';
+import { SecurityEventService } from '../services/security-event.service';
+import { PasswordPolicyService } from '../services/password-policy.service';
+import { UserService } from 'src/modules/user/user.service';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+import { hashToken } from '../utils/tokens';
+
+describe('PasswordResetService', () => {
+    let service: PasswordResetService;
+    let tokenRepository: any;
+
+    const mockUserService = {
+        getUserByEmail: jest.fn(),
+        getUserById: jest.fn(),
+        setPassword: jest.fn(),
+    };
+
+    const mockAuthService = {
+        revokeAllUserRefreshTokens: jest.fn(),
+    };
+
+    const mockNotificationService = {
+        sendPasswordReset: jest.fn(),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    const mockConfigService = {
+        get: jest.fn((_key: string, defaultValue?: any) => defaultValue),
+    };
+
+    beforeEach(async () => {
+        tokenRepository = createMockRepository();
+        tokenRepository.create.mockImplementation((entity: Partial<PasswordResetToken>) => entity);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                PasswordResetService,
+                { provide: getRepositoryToken(PasswordResetToken), useValue: tokenRepository },
+                { provide: UserService, useValue: mockUserService },
+                { provide: AuthService, useValue: mockAuthService },
+                { provide: NotificationService, useValue: mockNotificationService },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+                { provide: ConfigService, useValue: mockConfigService },
+                PasswordPolicyService,
+            ],
+        }).compile();
+
+        service = module.get<PasswordResetService>(PasswordResetService);
+        jest.clearAllMocks();
+        mockUserService.getUserById.mockResolvedValue(UserFactory.create({ id: 123, email: 'jane@example.com' }));
+    });
+
+    describe('requestReset', () => {
+        it('should send a reset link and store only its hash', async () => {
+            // Arrange
+            const user = UserFactory.create();
+            mockUserService.getUserByEmail.mockResolvedValue(user);
+
+            // Act
+            await service.requestReset(user.email, { ipAddress: '127.0.0.1' });
+
+            // Assert
+            const sentToken = mockNotificationService.sendPasswordReset.mock.calls[0][1];
+            expect(tokenRepository.delete).toHaveBeenCalledWith({ userId: user.id, usedAt: IsNull() });
+            expect(tokenRepository.create).toHaveBeenCalledWith({
+                tokenHash: hashToken(sentToken),
+                userId: user.id,
+                expiresAt: expect.any(Date),
+                requestedIp: '127.0.0.1',
+            });
+        });
+
+        it('should resolve without sending anything for unknown emails', async () => {
+            mockUserService.getUserByEmail.mockResolvedValue(null);
+
+            await expect(service.requestReset('unknown@example.com')).resolves.toBeUndefined();
+            expect(tokenRepository.save).not.toHaveBeenCalled();
+            expect(mockNotificationService.sendPasswordReset).not.toHaveBeenCalled();
+        });
+
+        it('should not send reset links to accounts without a password', async () => {
+            const oauthUser = UserFactory.create({ isOauth: true });
+            oauthUser.hashedPassword = null;
+            mockUserService.getUserByEmail.mockResolvedValue(oauthUser);
+
+            await service.requestReset('test@example.com');
+
+            expect(mockNotificationService.sendPasswordReset).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resetPassword', () => {
+        it('should set the new password and revoke every session', async () => {
+            // Arrange
+            tokenRepository.findOne.mockResolvedValue({ id: 7, userId: 123, expiresAt: new Date(Date.now() + 60000) });
+            tokenRepository.update.mockResolvedValue({ affected: 1 });
+
+            // Act
+            await service.resetPassword('reset-token', 'NewPassword123!');
+
+            // Assert
+            expect(tokenRepository.findOne).toHaveBeenCalledWith({
+                where: { tokenHash: hashToken('reset-token'), usedAt: IsNull() },
+            });
+            expect(mockUserService.setPassword).toHaveBeenCalledWith(123, 'NewPassword123!');
+            expect(mockAuthService.revokeAllUserRefreshTokens).toHaveBeenCalledWith(123);
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith('password_reset', 123);
+        });
+
+        it('should reject a password that violates the policy without consuming the token', async () => {
+            // Arrange
+            tokenRepository.findOne.mockResolvedValue({ id: 7, userId: 123, expiresAt: new Date(Date.now() + 60000) });
+
+            // Act & Assert
+            await expect(service.resetPassword('reset-token', 'short')).rejects.toThrow(BadRequestException);
+            expect(tokenRepository.update).not.toHaveBeenCalled();
+            expect(mockUserService.setPassword).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown or used tokens', async () => {
+            tokenRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.resetPassword('used-token', 'NewPassword123!')).rejects.toThrow(BadRequestException);
+            expect(mockUserService.setPassword).not.toHaveBeenCalled();
+        });
+
+        it('should reject expired tokens', async () => {
+            tokenRepository.findOne.mockResolvedValue({ id: 7, userId: 123, expiresAt: new Date(Date.now() - 1000) });
+
+            await expect(service.resetPassword('old-token', 'NewPassword123!')).rejects.toThrow(
+                'Invalid or expired password reset token',
+            );
+            expect(mockAuthService.revokeAllUserRefreshTokens).not.toHaveBeenCalled();
+        });
+    });
+});
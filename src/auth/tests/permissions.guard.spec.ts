@@ -0,0 +1,52 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { AuthenticatedUser } from '../interfaces';
+
+describe('PermissionsGuard', () => {
+    let guard: PermissionsGuard;
+    let reflector: Reflector;
+
+    const createContext = (user?: Partial<AuthenticatedUser>): ExecutionContext =>
+        ({
+            getHandler: jest.fn(),
+            getClass: jest.fn(),
+            switchToHttp: () => ({
+                getRequest: () => ({ user }),
+            }),
+        }) as unknown as ExecutionContext;
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        guard = new PermissionsGuard(reflector);
+    });
+
+    it('should allow routes without required permissions', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+        expect(guard.canActivate(createContext({ permissions: [] }))).toBe(true);
+    });
+
+    it('should allow users holding every required permission', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['users:read', 'users:delete']);
+
+        const context = createContext({ permissions: ['users:read', 'users:delete', 'users:write'] });
+
+        expect(guard.canActivate(context)).toBe(true);
+    });
+
+    it('should reject users missing a required permission', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['users:read', 'users:delete']);
+
+        const context = createContext({ permissions: ['users:read'] });
+
+        expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+        expect(() => guard.canActivate(context)).toThrow('Insufficient permissions');
+    });
+
+    it('should reject requests without an authenticated user', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(['dashboard:manage']);
+
+        expect(() => guard.canActivate(createContext(undefined))).toThrow(ForbiddenException);
+    });
+});
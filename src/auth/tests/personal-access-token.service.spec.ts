@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PersonalAccessTokenService } from '../services/personal-access-token.service';
+import { PersonalAccessToken } from '../entities/personal-access-token.entity';
+import { PersonalAccessTokenStrategy } from '../strategies/personal-access-token.strategy';
+import { RoleService } from '../services/role.service';
+import { SecurityEventService } from '../services/security-event.service';
+import { SecurityEventTypes } from '../constants/security-events';
+import { Permissions } from '../constants/permissions';
+import { UserService } from 'src/modules/user/user.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+import { hashToken } from '../utils/tokens';
+
+describe('PersonalAccessTokenService', () => {
+    let service: PersonalAccessTokenService;
+    let strategy: PersonalAccessTokenStrategy;
+    let tokenRepository: any;
+
+    const user = UserFactory.create({ id: 123 });
+
+    const mockUserService = {
+        getUserById: jest.fn(),
+    };
+
+    const mockRoleService = {
+        getRoleNames: jest.fn().mockReturnValue(['admin']),
+        getPermissionNames: jest.fn(),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        tokenRepository = createMockRepository();
+        tokenRepository.create.mockImplementation((entity: Partial<PersonalAccessToken>) => entity);
+        tokenRepository.save.mockImplementation(async (entity: PersonalAccessToken) => ({ ...entity, id: 1 }));
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                PersonalAccessTokenService,
+                PersonalAccessTokenStrategy,
+                { provide: getRepositoryToken(PersonalAccessToken), useValue: tokenRepository },
+                { provide: UserService, useValue: mockUserService },
+                { provide: RoleService, useValue: mockRoleService },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+            ],
+        }).compile();
+
+        service = module.get<PersonalAccessTokenService>(PersonalAccessTokenService);
+        strategy = module.get<PersonalAccessTokenStrategy>(PersonalAccessTokenStrategy);
+        jest.clearAllMocks();
+        mockUserService.getUserById.mockResolvedValue(user);
+        mockRoleService.getPermissionNames.mockReturnValue([Permissions.USERS_READ, Permissions.USERS_WRITE]);
+    });
+
+    describe('createToken', () => {
+        it('should return a prefixed token and store only its hash', async () => {
+            // Act
+            const { token, accessToken } = await service.createToken(user.id, {
+                name: 'CI deploy',
+                scopes: [Permissions.USERS_READ],
+            });
+
+            // Assert
+            expect(token).toMatch(/^oalr_pat_[A-Za-z0-9_-]{43}$/);
+            expect(accessToken).toMatchObject({
+                userId: user.id,
+                name: 'CI deploy',
+                tokenPrefix: token.slice(0, 15),
+                tokenHash: hashToken(token),
+                scopes: [Permissions.USERS_READ],
+                expiresAt: null,
+            });
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith(SecurityEventTypes.ACCESS_TOKEN_CREATED, user.id, {
+                tokenId: 1,
+                scopes: [Permissions.USERS_READ],
+            });
+        });
+
+        it('should set the expiry from the requested lifetime', async () => {
+            const { accessToken } = await service.createToken(user.id, { name: 'Report', scopes: [], expiresInDays: 30 });
+
+            const expectedExpiry = Date.now() + 30 * 24 * 60 * 60 * 1000;
+            expect(Math.abs((accessToken.expiresAt as Date).getTime() - expectedExpiry)).toBeLessThan(2 * 60 * 60 * 1000);
+        });
+
+        it('should refuse scopes the user does not hold', async () => {
+            await expect(
+                service.createToken(user.id, { name: 'Escalation', scopes: [Permissions.ROLES_MANAGE] }),
+            ).rejects.toThrow(BadRequestException);
+            expect(tokenRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('revokeToken', () => {
+        it('should delete the token of the user', async () => {
+            tokenRepository.delete.mockResolvedValue({ affected: 1 });
+
+            await service.revokeToken(user.id, 1);
+
+            expect(tokenRepository.delete).toHaveBeenCalledWith({ id: 1, userId: user.id });
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith(SecurityEventTypes.ACCESS_TOKEN_REVOKED, user.id, {
+                tokenId: 1,
+            });
+        });
+
+        it('should throw NotFoundException for a token of another user', async () => {
+            tokenRepository.delete.mockResolvedValue({ affected: 0 });
+
+            await expect(service.revokeToken(user.id, 1)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('findValidToken', () => {
+        it('should find the token by its hash and record its use', async () => {
+            const stored = { id: 1, userId: user.id, scopes: [], expiresAt: null };
+            tokenRepository.findOne.mockResolvedValue(stored);
+
+            const result = await service.findValidToken('oalr_pat_secret');
+
+            expect(result).toBe(stored);
+            expect(tokenRepository.findOne).toHaveBeenCalledWith({ where: { tokenHash: hashToken('oalr_pat_secret') } });
+            expect(tokenRepository.update).toHaveBeenCalledWith({ id: 1 }, { lastUsedAt: expect.any(Date) });
+        });
+
+        it('should not look up bearer credentials without the token prefix', async () => {
+            await expect(service.findValidToken('eyJhbGciOiJIUzI1NiJ9.e30.sig')).resolves.toBeNull();
+            expect(tokenRepository.findOne).not.toHaveBeenCalled();
+        });
+
+        it('should reject expired tokens', async () => {
+            tokenRepository.findOne.mockResolvedValue({ id: 1, userId: user.id, expiresAt: new Date(Date.now() - 1000) });
+
+            await expect(service.findValidToken('oalr_pat_secret')).resolves.toBeNull();
+            expect(tokenRepository.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('PersonalAccessTokenStrategy', () => {
+        it('should narrow the permissions of the owner to the token scopes', async () => {
+            tokenRepository.findOne.mockResolvedValue({
+                id: 1,
+                userId: user.id,
+                scopes: [Permissions.USERS_READ, Permissions.DASHBOARD_MANAGE],
+                expiresAt: null,
+            });
+
+            const result = await strategy.validate('oalr_pat_secret');
+
+            // dashboard:manage was removed from the owner after the token was created
+            expect(result).toEqual({
+                userId: user.id,
+                username: user.email,
+                roles: ['admin'],
+                permissions: [Permissions.USERS_READ],
+            });
+        });
+
+        it('should reject unknown tokens', async () => {
+            tokenRepository.findOne.mockResolvedValue(null);
+
+            await expect(strategy.validate('oalr_pat_unknown')).rejects.toThrow(UnauthorizedException);
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RecentAuthGuard } from '../guards/recent-auth.guard';
+import { AuthenticatedUser } from '../interfaces';
+
+describe('RecentAuthGuard', () => {
+    let guard: RecentAuthGuard;
+    let reflector: Reflector;
+
+    const secondsAgo = (seconds: number): number => Math.floor(Date.now() / 1000) - seconds;
+
+    const createContext = (user?: Partial<AuthenticatedUser>): ExecutionContext =>
+        ({
+            getHandler: jest.fn(),
+            getClass: jest.fn(),
+            switchToHttp: () => ({
+                getRequest: () => ({ user }),
+            }),
+        }) as unknown as ExecutionContext;
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        guard = new RecentAuthGuard(reflector);
+    });
+
+    it('should allow routes without a max age', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+        expect(guard.canActivate(createContext({ userId: 1 }))).toBe(true);
+    });
+
+    it('should allow users who authenticated within the max age', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(300);
+
+        expect(guard.canActivate(createContext({ userId: 1, authTime: secondsAgo(60) }))).toBe(true);
+    });
+
+    it('should ask users who authenticated too long ago to reauthenticate', () => {
+        expect.assertions(2);
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(300);
+
+        const context = createContext({ userId: 1, authTime: secondsAgo(301) });
+
+        expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+        try {
+            guard.canActivate(context);
+        } catch (error) {
+            expect((error as ForbiddenException).getResponse()).toMatchObject({
+                error: 'reauthentication_required',
+                maxAge: 300,
+            });
+        }
+    });
+
+    it('should reject tokens without an auth time', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(300);
+
+        expect(() => guard.canActivate(createContext({ userId: 1 }))).toThrow(ForbiddenException);
+        expect(() => guard.canActivate(createContext(undefined))).toThrow(ForbiddenException);
+    });
+});
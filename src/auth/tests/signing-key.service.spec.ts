@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createPublicKey } from 'crypto';
+import { SigningKeyService } from '../services/signing-key.service';
+import { SigningKey } from '../entities/signing-key.entity';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { AppLoggerService } from 'src/shared/services/logger.service';
+import { createMockRepository } from 'src/test/test-utils';
+
+describe('SigningKeyService', () => {
+    let service: SigningKeyService;
+    let signingKeyRepository: any;
+    let storedKeys: SigningKey[];
+    let config: Record<string, any>;
+
+    const jwtService = new JwtService({ secret: 'test-secret' });
+
+    const mockConfigService = {
+        get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+    };
+
+    const mockLogger = {
+        log: jest.fn(),
+    };
+
+    /**
+     * Backs the repository mock with an array so rotations can be followed across calls.
+     */
+    const setUpRepository = (): void => {
+        storedKeys = [];
+
+        signingKeyRepository = createMockRepository();
+        signingKeyRepository.create.mockImplementation((entity: Partial<SigningKey>) => entity);
+        signingKeyRepository.save.mockImplementation(async (entity: SigningKey) => {
+            storedKeys.push({ ...entity });
+            return entity;
+        });
+        signingKeyRepository.find.mockImplementation(async () =>
+            [...storedKeys].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+        );
+        signingKeyRepository.update.mockImplementation(async (criteria: any, changes: Partial<SigningKey>) => {
+            storedKeys
+                .filter((key) => key.kid !== criteria.kid.value && key.retiredAt === null)
+                .forEach((key) => Object.assign(key, changes));
+        });
+        signingKeyRepository.delete.mockImplementation(async (criteria: any) => {
+            storedKeys = storedKeys.filter((key) => !key.retiredAt || key.retiredAt >= criteria.retiredAt.value);
+        });
+    };
+
+    const decodeHeader = (token: string): Record<string, any> =>
+        JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+
+    const createService = async (): Promise<void> => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SigningKeyService,
+                { provide: getRepositoryToken(SigningKey), useValue: signingKeyRepository },
+                { provide: JwtService, useValue: jwtService },
+                { provide: ConfigService, useValue: mockConfigService },
+                { provide: AppLoggerService, useValue: mockLogger },
+                TokenPolicyService,
+            ],
+        }).compile();
+
+        service = module.get<SigningKeyService>(SigningKeyService);
+        await service.onModuleInit();
+    };
+
+    beforeEach(() => {
+        setUpRepository();
+        config = { 'jwt.secret': 'test-secret', 'jwt.signingAlgorithm': 'RS256', 'jwt.keyGraceHours': 24 };
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('with HS256', () => {
+        beforeEach(async () => {
+            config['jwt.signingAlgorithm'] = 'HS256';
+            await createService();
+        });
+
+        it('should sign with the shared secret and no key ID', async () => {
+            const token = service.signAccessToken({ sub: 123 }, '15m');
+
+            expect(decodeHeader(token)).toEqual({ alg: 'HS256', typ: 'JWT' });
+            await expect(service.getVerificationKey(token)).resolves.toBe('test-secret');
+            expect(storedKeys).toHaveLength(0);
+        });
+
+        it('should refuse to rotate keys', async () => {
+            await expect(service.rotateKeys()).rejects.toThrow(BadRequestException);
+        });
+
+        it('should accept an expired token only within the clock tolerance', async () => {
+            jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+            const token = service.signAccessToken({ sub: 123 }, '60s');
+
+            jest.setSystemTime(new Date('2025-01-01T00:01:20Z'));
+            await expect(service.verifyAccessToken(token)).resolves.toMatchObject({ sub: 123 });
+
+            jest.setSystemTime(new Date('2025-01-01T00:01:31Z'));
+            await expect(service.verifyAccessToken(token)).rejects.toThrow('jwt expired');
+        });
+    });
+
+    describe.each(['RS256', 'ES256'])('with %s', (algorithm) => {
+        beforeEach(async () => {
+            config['jwt.signingAlgorithm'] = algorithm;
+            await createService();
+        });
+
+        it('should create a key on startup and sign with its key ID', async () => {
+            const token = service.signAccessToken({ sub: 123 }, '15m');
+
+            const header = decodeHeader(token);
+            expect(storedKeys).toHaveLength(1);
+            expect(header).toMatchObject({ alg: algorithm, kid: storedKeys[0].kid });
+
+            const key = await service.getVerificationKey(token);
+            expect(jwtService.verify(token, { secret: key, algorithms: [algorithm as any] })).toMatchObject({ sub: 123 });
+        });
+
+        it('should publish the public key in the JWKS', async () => {
+            const token = service.signAccessToken({ sub: 123 }, '15m');
+
+            const { keys } = await service.getJwks();
+
+            expect(keys).toHaveLength(1);
+            expect(keys[0]).toMatchObject({ kid: storedKeys[0].kid, alg: algorithm, use: 'sig' });
+            expect(keys[0]).not.toHaveProperty('d');
+
+            const publicKey = createPublicKey({ key: keys[0], format: 'jwk' }).export({ type: 'spki', format: 'pem' });
+            expect(jwtService.verify(token, { secret: publicKey.toString() })).toMatchObject({ sub: 123 });
+        });
+    });
+
+    describe('rotateKeys', () => {
+        beforeEach(async () => {
+            await createService();
+        });
+
+        it('should sign with the new key and keep verifying tokens of the retired key', async () => {
+            const oldToken = service.signAccessToken({ sub: 123 }, '15m');
+
+            const newKey = await service.rotateKeys();
+            const newToken = service.signAccessToken({ sub: 123 }, '15m');
+
+            expect(decodeHeader(newToken).kid).toBe(newKey.kid);
+            await expect(service.getVerificationKey(oldToken)).resolves.toBeDefined();
+            expect((await service.getJwks()).keys.map((key) => key.kid)).toEqual([newKey.kid, decodeHeader(oldToken).kid]);
+        });
+
+        it('should stop accepting a retired key once its grace window has passed', async () => {
+            const oldToken = service.signAccessToken({ sub: 123 }, '15m');
+            await service.rotateKeys();
+
+            jest.useFakeTimers({ now: Date.now() + 25 * 60 * 60 * 1000 });
+            await service.scheduledKeyRotation();
+
+            await expect(service.getVerificationKey(oldToken)).rejects.toThrow(UnauthorizedException);
+            expect((await service.getJwks()).keys).toHaveLength(1);
+        });
+
+        it('should rotate on schedule once the active key is older than the rotation period', async () => {
+            config['jwt.keyRotationDays'] = 30;
+            const [firstKey] = storedKeys;
+
+            await service.scheduledKeyRotation();
+            expect(storedKeys).toHaveLength(1);
+
+            jest.useFakeTimers({ now: Date.now() + 31 * 24 * 60 * 60 * 1000 });
+            await service.scheduledKeyRotation();
+
+            expect(storedKeys.find((key) => key.kid === firstKey.kid)?.retiredAt).toBeInstanceOf(Date);
+            expect(storedKeys.filter((key) => !key.retiredAt)).toHaveLength(1);
+        });
+    });
+
+    describe('getVerificationKey', () => {
+        beforeEach(async () => {
+            await createService();
+        });
+
+        it('should reject tokens signed by an unknown key', async () => {
+            const foreign = jwtService.sign({ sub: 123 }, { keyid: 'unknown-kid' });
+
+            await expect(service.getVerificationKey(foreign)).rejects.toThrow('Unknown signing key');
+        });
+
+        it('should reject HS256 tokens once a key pair is configured', async () => {
+            const legacy = jwtService.sign({ sub: 123 });
+
+            await expect(service.getVerificationKey(legacy)).rejects.toThrow(UnauthorizedException);
+        });
+
+        it('should reject a known key ID used with another algorithm', async () => {
+            const confused = jwtService.sign({ sub: 123 }, { keyid: storedKeys[0].kid });
+
+            await expect(service.getVerificationKey(confused)).rejects.toThrow('Unknown signing key');
+        });
+    });
+});
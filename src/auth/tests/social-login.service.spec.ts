@@ -0,0 +1,226 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { SocialLoginService } from '../services/social-login.service';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+import { PendingSocialLogin } from '../interfaces';
+
+describe('SocialLoginService', () => {
+    let service: SocialLoginService;
+
+    const jwtService = new JwtService({ secret: 'test-secret' });
+    const config: Record<string, any> = {
+        nodeEnv: 'test',
+        'frontend.url': 'https://app.example.com',
+        'oauth.returnPaths': ['/dashboard', '/settings/'],
+        'oauth.appRedirectUri': 'myapp://auth/callback',
+    };
+    const mockConfigService = {
+        get: jest.fn((key: string, defaultValue?: unknown) => config[key] ?? defaultValue),
+        getOrThrow: jest.fn((key: string) => config[key]),
+    };
+
+    const revokedIds = new Set<string>();
+    const mockAccessTokenDenylistService = {
+        isRevoked: jest.fn(async (jti: string) => revokedIds.has(jti)),
+        revoke: jest.fn(async (jti: string) => {
+            revokedIds.add(jti);
+        }),
+    };
+
+    const codeVerifier = 'a'.repeat(43);
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+    const createResponse = (): Response =>
+        ({
+            cookie: jest.fn(),
+            clearCookie: jest.fn(),
+            redirect: jest.fn(),
+            setHeader: jest.fn(),
+            type: jest.fn().mockReturnThis(),
+            send: jest.fn(),
+        }) as unknown as Response;
+
+    /**
+     * Runs the store half of the state store and returns the state sent to the provider along
+     * with the cookie the browser would send back on the callback.
+     */
+    const startLogin = (
+        provider: string,
+        query: Record<string, string>,
+    ): { state: string; cookie: string; response: Response } => {
+        const response = createResponse();
+        const request = { query, res: response } as unknown as Request;
+        let state = '';
+
+        service.createStateStore(provider).store(request, 'provider-verifier', undefined, {}, (error, storedState) => {
+            if (error) {
+                throw error;
+            }
+            state = storedState as string;
+        });
+
+        const cookie = (response.cookie as jest.Mock).mock.calls[0][1];
+        return { state, cookie, response };
+    };
+
+    const finishLogin = (
+        provider: string,
+        cookie: string | undefined,
+        providedState: string,
+    ): { codeVerifier: string | false; info: any } => {
+        const request = { cookies: { socialLogin: cookie }, res: createResponse() } as unknown as Request;
+        let result: { codeVerifier: string | false; info: any } = { codeVerifier: false, info: undefined };
+
+        service.createStateStore(provider).verify(request, providedState, (_error, verifier, info) => {
+            result = { codeVerifier: verifier, info };
+        });
+
+        return result;
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SocialLoginService,
+                { provide: JwtService, useValue: jwtService },
+                { provide: ConfigService, useValue: mockConfigService },
+                { provide: AccessTokenDenylistService, useValue: mockAccessTokenDenylistService },
+            ],
+        }).compile();
+
+        service = module.get<SocialLoginService>(SocialLoginService);
+        revokedIds.clear();
+        jest.clearAllMocks();
+    });
+
+    describe('createStateStore', () => {
+        it('should keep the login in a signed cookie and hand the PKCE verifier back on the callback', () => {
+            const { state, cookie, response } = startLogin('google', { returnTo: '/settings/security?tab=mfa' });
+
+            expect(response.cookie).toHaveBeenCalledWith(
+                'socialLogin',
+                expect.any(String),
+                expect.objectContaining({ httpOnly: true, sameSite: 'lax', path: '/auth' }),
+            );
+            expect(finishLogin('google', cookie, state)).toEqual({
+                codeVerifier: 'provider-verifier',
+                info: { provider: 'google', mode: 'redirect', returnTo: '/settings/security?tab=mfa', codeChallenge: null },
+            });
+        });
+
+        it('should default to the first allowed return path', () => {
+            const { state, cookie } = startLogin('google', {});
+
+            expect(finishLogin('google', cookie, state).info.returnTo).toBe('/dashboard');
+        });
+
+        it.each([
+            ['another site', 'https://evil.example/dashboard'],
+            ['a protocol-relative URL', '//evil.example/dashboard'],
+            ['a backslash trick', '/\\evil.example/dashboard'],
+            ['a path outside the allowed ones', '/admin'],
+            ['a prefix that is not a path segment', '/dashboardevil'],
+        ])('should reject %s as return path', (_description, returnTo) => {
+            expect(() => startLogin('google', { returnTo })).toThrow('returnTo is not an allowed path');
+        });
+
+        it('should reject an unknown mode', () => {
+            expect(() => startLogin('google', { mode: 'iframe' })).toThrow(BadRequestException);
+        });
+
+        it('should require a PKCE challenge for app logins', () => {
+            expect(() => startLogin('google', { mode: 'app' })).toThrow('code_challenge must be an S256 PKCE challenge');
+
+            const { state, cookie } = startLogin('google', { mode: 'app', code_challenge: codeChallenge });
+            expect(finishLogin('google', cookie, state).info).toMatchObject({ mode: 'app', codeChallenge });
+        });
+
+        it.each([
+            ['a missing cookie', 'google', (): undefined => undefined, (state: string): string => state],
+            ['a forged cookie', 'google', (): string => 'forged', (state: string): string => state],
+            ['a different state', 'google', (cookie: string): string => cookie, (): string => 'other-state'],
+            ['another provider', 'facebook', (cookie: string): string => cookie, (state: string): string => state],
+        ])('should fail the callback with %s', (_description, provider, presentCookie, presentState) => {
+            const { state, cookie } = startLogin('google', {});
+
+            const result = finishLogin(provider, presentCookie(cookie), presentState(state));
+
+            expect(result.codeVerifier).toBe(false);
+            expect(result.info).toEqual({ message: 'Invalid authorization request state' });
+        });
+    });
+
+    describe('sendResult', () => {
+        const redirectLogin: PendingSocialLogin = {
+            provider: 'google',
+            mode: 'redirect',
+            returnTo: '/settings/security',
+            codeChallenge: null,
+        };
+
+        it('should redirect to the return path of the login', () => {
+            const response = createResponse();
+
+            service.sendResult(response, redirectLogin, {});
+
+            expect(response.redirect).toHaveBeenCalledWith('https://app.example.com/settings/security');
+        });
+
+        it('should redirect failures to the login page with the reason code', () => {
+            const response = createResponse();
+
+            service.sendResult(response, null, { error: 'invalid_state' });
+
+            expect(response.redirect).toHaveBeenCalledWith('https://app.example.com/login?error=invalid_state');
+        });
+
+        it('should send app logins to the deep link', () => {
+            const response = createResponse();
+
+            service.sendResult(response, { ...redirectLogin, mode: 'app', codeChallenge }, { code: 'login-code' });
+
+            expect(response.redirect).toHaveBeenCalledWith('myapp://auth/callback?code=login-code');
+        });
+
+        it('should post popup results to the frontend origin only', () => {
+            const response = createResponse();
+
+            service.sendResult(response, { ...redirectLogin, mode: 'popup' }, { error: '</script>' });
+
+            const html = (response.send as jest.Mock).mock.calls[0][0];
+            expect(response.redirect).not.toHaveBeenCalled();
+            expect(response.setHeader).toHaveBeenCalledWith('Cache-Control', 'no-store');
+            expect(html).toContain('"targetOrigin":"https://app.example.com"');
+            expect(html.match(/<\/script>/g)).toHaveLength(1);
+            expect(html).toContain('\\u003c/script>');
+        });
+    });
+
+    describe('app login codes', () => {
+        const appLogin: PendingSocialLogin = { provider: 'google', mode: 'app', returnTo: '/dashboard', codeChallenge };
+
+        it('should redeem a code once with the matching verifier', async () => {
+            const code = service.createAppCode(7, appLogin);
+
+            await expect(service.redeemAppCode(code, codeVerifier)).resolves.toEqual({ userId: 7, provider: 'google' });
+            await expect(service.redeemAppCode(code, codeVerifier)).rejects.toThrow('Login code has already been used');
+        });
+
+        it('should reject a code presented with another verifier', async () => {
+            const code = service.createAppCode(7, appLogin);
+
+            await expect(service.redeemAppCode(code, 'b'.repeat(43))).rejects.toThrow(UnauthorizedException);
+            expect(mockAccessTokenDenylistService.revoke).not.toHaveBeenCalled();
+        });
+
+        it('should reject other tokens signed with the same key', async () => {
+            const token = jwtService.sign({ sub: 7, codeChallenge });
+
+            await expect(service.redeemAppCode(token, codeVerifier)).rejects.toThrow('Invalid login code');
+        });
+    });
+});
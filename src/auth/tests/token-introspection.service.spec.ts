@@ -0,0 +1,260 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { TokenIntrospectionService } from '../services/token-introspection.service';
+import { SigningKeyService } from '../services/signing-key.service';
+import { AccessTokenDenylistService } from '../services/access-token-denylist.service';
+import { OAuthClientService } from '../services/oauth-client.service';
+import { OAuthClient } from '../entities/oauth-client.entity';
+import { AuthService } from '../auth.service';
+import { UserService } from 'src/modules/user/user.service';
+import { UserFactory } from 'src/test/test-utils';
+
+describe('TokenIntrospectionService', () => {
+    let service: TokenIntrospectionService;
+
+    const jwtService = new JwtService({ secret: 'test-secret' });
+    const user = UserFactory.create({ id: 123, email: 'test@example.com' });
+
+    const accessToken = jwtService.sign(
+        { username: user.email, sub: user.id, roles: [], jti: 'access-jti' },
+        { expiresIn: '15m' },
+    );
+    const refreshToken = jwtService.sign({ sub: user.id, type: 'refresh', jti: 'refresh-jti' }, { expiresIn: '30d' });
+
+    const client = { id: 1, clientId: 'partner', canIntrospect: false } as OAuthClient;
+    const otherClient = { id: 2, clientId: 'other', canIntrospect: false } as OAuthClient;
+    const resourceServer = { id: 3, clientId: 'resource-server', canIntrospect: true } as OAuthClient;
+    const delegatedToken = jwtService.sign(
+        { type: 'oauth', sub: user.id, username: user.email, client_id: 'partner', scope: 'users:read', jti: 'oauth-jti' },
+        { expiresIn: '15m' },
+    );
+    const clientToken = jwtService.sign(
+        { type: 'oauth', sub: 'partner', client_id: 'partner', scope: 'users:read', jti: 'client-jti' },
+        { expiresIn: '15m' },
+    );
+
+    const mockSigningKeyService = {
+        verifyAccessToken: jest.fn(async (token: string) => jwtService.verify(token)),
+    };
+
+    const mockAccessTokenDenylistService = {
+        isRevoked: jest.fn(),
+        revoke: jest.fn(),
+    };
+
+    const mockAuthService = {
+        findActiveRefreshToken: jest.fn(),
+        findRefreshToken: jest.fn(),
+        revokeRefreshToken: jest.fn(),
+    };
+
+    const mockOAuthClientService = {
+        findByClientId: jest.fn(),
+    };
+
+    const mockUserService = {
+        getUserById: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TokenIntrospectionService,
+                { provide: SigningKeyService, useValue: mockSigningKeyService },
+                { provide: AccessTokenDenylistService, useValue: mockAccessTokenDenylistService },
+                { provide: AuthService, useValue: mockAuthService },
+                { provide: OAuthClientService, useValue: mockOAuthClientService },
+                { provide: UserService, useValue: mockUserService },
+                { provide: JwtService, useValue: jwtService },
+            ],
+        }).compile();
+
+        service = module.get<TokenIntrospectionService>(TokenIntrospectionService);
+        jest.clearAllMocks();
+        mockAccessTokenDenylistService.isRevoked.mockResolvedValue(false);
+        mockUserService.getUserById.mockResolvedValue(user);
+        mockAuthService.findActiveRefreshToken.mockResolvedValue(null);
+        mockAuthService.findRefreshToken.mockResolvedValue(null);
+        mockOAuthClientService.findByClientId.mockImplementation(async (clientId: string) =>
+            clientId === client.clientId ? client : null,
+        );
+    });
+
+    describe('introspect', () => {
+        it('should describe an access token delegated to the client', async () => {
+            // Act
+            const result = await service.introspect(client, delegatedToken);
+
+            // Assert
+            expect(result).toEqual({
+                active: true,
+                token_type: 'access_token',
+                client_id: 'partner',
+                scope: 'users:read',
+                sub: '123',
+                username: user.email,
+                exp: expect.any(Number),
+                iat: expect.any(Number),
+                jti: 'oauth-jti',
+            });
+        });
+
+        it('should describe a refresh token issued to the client', async () => {
+            // Arrange
+            mockAuthService.findActiveRefreshToken.mockResolvedValue({ user, client, scopes: ['users:read'] });
+
+            // Act
+            const result = await service.introspect(client, refreshToken, 'refresh_token');
+
+            // Assert
+            expect(result).toEqual({
+                active: true,
+                token_type: 'refresh_token',
+                client_id: 'partner',
+                scope: 'users:read',
+                sub: '123',
+                username: user.email,
+                exp: expect.any(Number),
+                iat: expect.any(Number),
+            });
+            expect(mockSigningKeyService.verifyAccessToken).not.toHaveBeenCalled();
+        });
+
+        it('should describe a client credentials token without looking up a user', async () => {
+            // Act
+            const result = await service.introspect(client, clientToken);
+
+            // Assert
+            expect(result).toMatchObject({ active: true, client_id: 'partner', sub: 'partner' });
+            expect(mockUserService.getUserById).not.toHaveBeenCalled();
+        });
+
+        it('should only describe tokens of other clients to clients allowed to introspect them', async () => {
+            // Arrange
+            mockAuthService.findActiveRefreshToken.mockResolvedValue({ user, client, scopes: ['users:read'] });
+
+            // Act & Assert
+            await expect(service.introspect(otherClient, delegatedToken)).resolves.toEqual({ active: false });
+            await expect(service.introspect(otherClient, refreshToken, 'refresh_token')).resolves.toEqual({
+                active: false,
+            });
+            await expect(service.introspect(resourceServer, delegatedToken)).resolves.toMatchObject({
+                active: true,
+                client_id: 'partner',
+            });
+        });
+
+        it('should never describe first-party tokens', async () => {
+            // Arrange
+            mockAuthService.findActiveRefreshToken.mockResolvedValue({ user, client: null, scopes: null });
+
+            // Act & Assert
+            await expect(service.introspect(resourceServer, accessToken)).resolves.toEqual({ active: false });
+            await expect(service.introspect(resourceServer, refreshToken, 'refresh_token')).resolves.toEqual({
+                active: false,
+            });
+            expect(mockAccessTokenDenylistService.isRevoked).not.toHaveBeenCalled();
+        });
+
+        it('should report tokens of a deleted client as inactive', async () => {
+            // Arrange
+            mockOAuthClientService.findByClientId.mockResolvedValue(null);
+
+            // Act & Assert
+            await expect(service.introspect(client, delegatedToken)).resolves.toEqual({ active: false });
+        });
+
+        it('should not accept a refresh token as an access token', async () => {
+            // Act
+            const result = await service.introspect(client, refreshToken, 'access_token');
+
+            // Assert
+            expect(result).toEqual({ active: false });
+            expect(mockAuthService.findActiveRefreshToken).toHaveBeenCalledWith(refreshToken);
+        });
+
+        it('should report a denylisted access token as inactive', async () => {
+            // Arrange
+            mockAccessTokenDenylistService.isRevoked.mockResolvedValue(true);
+
+            // Act & Assert
+            await expect(service.introspect(client, delegatedToken)).resolves.toEqual({ active: false });
+        });
+
+        it('should report the token of a deactivated or deleted user as inactive', async () => {
+            // Arrange
+            const inactiveUser = UserFactory.create({ id: 123 });
+            inactiveUser.isActive = false;
+            mockUserService.getUserById.mockResolvedValueOnce(inactiveUser);
+
+            // Act & Assert
+            await expect(service.introspect(client, delegatedToken)).resolves.toEqual({ active: false });
+
+            mockUserService.getUserById.mockRejectedValueOnce(new NotFoundException('User not found'));
+            await expect(service.introspect(client, delegatedToken)).resolves.toEqual({ active: false });
+
+            mockAuthService.findActiveRefreshToken.mockResolvedValue({ user: inactiveUser, client, scopes: [] });
+            await expect(service.introspect(client, refreshToken, 'refresh_token')).resolves.toEqual({ active: false });
+        });
+
+        it('should report malformed and expired tokens as inactive', async () => {
+            // Arrange
+            const expired = jwtService.sign({
+                type: 'oauth',
+                sub: user.id,
+                client_id: 'partner',
+                jti: 'old',
+                exp: Math.floor(Date.now() / 1000) - 60,
+            });
+
+            // Act & Assert
+            await expect(service.introspect(client, 'not-a-token')).resolves.toEqual({ active: false });
+            await expect(service.introspect(client, expired)).resolves.toEqual({ active: false });
+        });
+    });
+
+    describe('revoke', () => {
+        it('should denylist an access token until it expires', async () => {
+            // Act
+            await service.revoke(client, accessToken);
+
+            // Assert
+            const { exp } = jwtService.decode(accessToken);
+            expect(mockAccessTokenDenylistService.revoke).toHaveBeenCalledWith('access-jti', new Date(exp * 1000));
+            expect(mockAuthService.revokeRefreshToken).not.toHaveBeenCalled();
+        });
+
+        it('should end the session of a refresh token', async () => {
+            // Arrange
+            mockAuthService.findRefreshToken.mockResolvedValue({ familyId: 'session-1', client: null });
+
+            // Act
+            await service.revoke(client, refreshToken, 'refresh_token');
+
+            // Assert
+            expect(mockAuthService.revokeRefreshToken).toHaveBeenCalledWith(refreshToken);
+            expect(mockAccessTokenDenylistService.revoke).not.toHaveBeenCalled();
+        });
+
+        it('should ignore unknown tokens', async () => {
+            // Act & Assert
+            await expect(service.revoke(client, 'not-a-token')).resolves.toBeUndefined();
+            expect(mockAccessTokenDenylistService.revoke).not.toHaveBeenCalled();
+            expect(mockAuthService.revokeRefreshToken).not.toHaveBeenCalled();
+        });
+
+        it('should ignore tokens issued to another client', async () => {
+            // Arrange
+            mockAuthService.findRefreshToken.mockResolvedValue({ familyId: 'session-1', client });
+
+            // Act
+            await service.revoke(otherClient, delegatedToken);
+            await service.revoke(otherClient, refreshToken, 'refresh_token');
+
+            // Assert
+            expect(mockAccessTokenDenylistService.revoke).not.toHaveBeenCalled();
+            expect(mockAuthService.revokeRefreshToken).not.toHaveBeenCalled();
+        });
+    });
+});
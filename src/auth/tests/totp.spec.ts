@@ -0,0 +1,75 @@
+import {
+    buildOtpauthUri,
+    decodeBase32,
+    encodeBase32,
+    generateTotp,
+    generateTotpSecret,
+    getTotpTimeStep,
+    verifyTotp,
+} from '../utils/totp';
+
+describe('TOTP utils', () => {
+    // Secret from the RFC 6238 test vectors: ASCII "12345678901234567890"
+    const rfcSecret = encodeBase32(Buffer.from('12345678901234567890'));
+
+    describe('base32', () => {
+        it('should round-trip arbitrary bytes', () => {
+            const bytes = Buffer.from([0, 1, 2, 253, 254, 255, 42]);
+
+            expect(decodeBase32(encodeBase32(bytes))).toEqual(bytes);
+        });
+
+        it('should match the RFC 4648 test vector', () => {
+            expect(encodeBase32(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+            expect(decodeBase32('mzxw 6ytb oi======').toString()).toBe('foobar');
+        });
+
+        it('should reject characters outside the alphabet', () => {
+            expect(() => decodeBase32('ABC1')).toThrow("Invalid base32 character '1'");
+        });
+    });
+
+    describe('generateTotp', () => {
+        it.each([
+            [59, '94287082'],
+            [1111111109, '07081804'],
+            [1234567890, '89005924'],
+            [2000000000, '69279037'],
+        ])('should match the RFC 6238 SHA-1 vector at %i seconds', (seconds, expected) => {
+            expect(generateTotp(rfcSecret, getTotpTimeStep(seconds * 1000), 8)).toBe(expected);
+        });
+    });
+
+    describe('verifyTotp', () => {
+        const now = 1700000000000;
+        const secret = generateTotpSecret();
+
+        it('should accept the current code and return its time step', () => {
+            const step = getTotpTimeStep(now);
+
+            expect(verifyTotp(secret, generateTotp(secret, step), 1, now)).toBe(step);
+        });
+
+        it('should tolerate one step of clock drift', () => {
+            const step = getTotpTimeStep(now);
+
+            expect(verifyTotp(secret, generateTotp(secret, step - 1), 1, now)).toBe(step - 1);
+            expect(verifyTotp(secret, generateTotp(secret, step - 2), 1, now)).toBeNull();
+        });
+
+        it('should reject malformed codes', () => {
+            expect(verifyTotp(secret, '12345', 1, now)).toBeNull();
+            expect(verifyTotp(secret, 'abcdef', 1, now)).toBeNull();
+        });
+    });
+
+    describe('buildOtpauthUri', () => {
+        it('should label the account with the issuer', () => {
+            const uri = buildOtpauthUri('OALR', 'test@example.com', 'JBSWY3DPEHPK3PXP');
+
+            expect(uri).toBe(
+                'otpauth://totp/OALR%3Atest%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=OALR&algorithm=SHA1&digits=6&period=30',
+            );
+        });
+    });
+});
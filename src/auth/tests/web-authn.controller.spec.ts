@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { WebAuthnController } from '../controllers/web-authn.controller';
+import { AuthService } from '../auth.service';
+import { WebAuthnService } from '../services/web-authn.service';
+import { LoginHistoryService } from '../services/login-history.service';
+import { TokenPolicyService } from '../services/token-policy.service';
+import { UserFactory, mockConfigService } from 'src/test/test-utils';
+
+describe('WebAuthnController', () => {
+    let controller: WebAuthnController;
+
+    const mockRequest = {
+        get: jest.fn().mockReturnValue('test-agent'),
+        ip: '127.0.0.1',
+    } as unknown as Request;
+    const context = { userAgent: 'test-agent', ipAddress: '127.0.0.1' };
+    const assertion = { id: 'credential-1' } as AuthenticationResponseJSON;
+
+    const mockAuthService = {
+        createTokenForUser: jest.fn(),
+        createRefreshToken: jest.fn(),
+    };
+
+    const mockWebAuthnService = {
+        finishAuthentication: jest.fn(),
+        findCredentialUserId: jest.fn(),
+    };
+
+    const mockLoginHistoryService = {
+        recordSuccess: jest.fn(),
+        recordFailure: jest.fn(),
+    };
+
+    const mockTokenPolicyService = {
+        getRefreshCookieMaxAge: jest.fn().mockReturnValue(7 * 24 * 60 * 60 * 1000),
+    };
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [WebAuthnController],
+            providers: [
+                { provide: AuthService, useValue: mockAuthService },
+                { provide: WebAuthnService, useValue: mockWebAuthnService },
+                { provide: ConfigService, useValue: mockConfigService },
+                { provide: TokenPolicyService, useValue: mockTokenPolicyService },
+                { provide: LoginHistoryService, useValue: mockLoginHistoryService },
+            ],
+        }).compile();
+
+        controller = module.get<WebAuthnController>(WebAuthnController);
+        jest.clearAllMocks();
+    });
+
+    describe('verifyAuthentication', () => {
+        it('should sign the user in and record the passkey login', async () => {
+            // Arrange
+            const user = UserFactory.create({ id: 123 });
+            const tokenPayload = { accessToken: 'access-token', user: { id: 123 } };
+            mockWebAuthnService.finishAuthentication.mockResolvedValue(user);
+            mockAuthService.createTokenForUser.mockReturnValue(tokenPayload);
+            mockAuthService.createRefreshToken.mockResolvedValue('refresh-token');
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            // Act
+            const result = await controller.verifyAuthentication({ response: assertion }, mockRequest, mockResponse);
+
+            // Assert
+            expect(result).toBe(tokenPayload);
+            expect(mockResponse.cookie).toHaveBeenCalledWith('refreshToken', 'refresh-token', expect.any(Object));
+            expect(mockLoginHistoryService.recordSuccess).toHaveBeenCalledWith(user, 'passkey', context);
+        });
+
+        it('should record a rejected passkey against the account it belongs to', async () => {
+            mockWebAuthnService.finishAuthentication.mockRejectedValue(
+                new UnauthorizedException('Passkey could not be verified'),
+            );
+            mockWebAuthnService.findCredentialUserId.mockResolvedValue(123);
+            const mockResponse = { cookie: jest.fn(), setHeader: jest.fn() } as unknown as Response;
+
+            await expect(
+                controller.verifyAuthentication({ response: assertion }, mockRequest, mockResponse),
+            ).rejects.toThrow(UnauthorizedException);
+            expect(mockWebAuthnService.findCredentialUserId).toHaveBeenCalledWith('credential-1');
+            expect(mockLoginHistoryService.recordFailure).toHaveBeenCalledWith(
+                123,
+                'passkey',
+                context,
+                'Passkey could not be verified',
+            );
+            expect(mockLoginHistoryService.recordSuccess).not.toHaveBeenCalled();
+            expect(mockResponse.cookie).not.toHaveBeenCalled();
+        });
+    });
+});
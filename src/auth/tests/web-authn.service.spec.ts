@@ -0,0 +1,290 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WebAuthnService } from '../services/web-authn.service';
+import { WebAuthnCredential } from '../entities/web-authn-credential.entity';
+import { WebAuthnChallenge } from '../entities/web-authn-challenge.entity';
+import { SecurityEventService } from '../services/security-event.service';
+import { IdentityService } from '../services/identity.service';
+import { UserService } from 'src/modules/user/user.service';
+import { UserFactory, createMockRepository } from 'src/test/test-utils';
+import { SoftwareAuthenticator } from 'src/test/software-authenticator';
+
+describe('WebAuthnService', () => {
+    let service: WebAuthnService;
+    let credentialRepository: any;
+    let challengeRepository: any;
+    let credentials: WebAuthnCredential[];
+    let challenges: WebAuthnChallenge[];
+    let authenticator: SoftwareAuthenticator;
+
+    const origin = 'http://localhost:5173';
+    const user = UserFactory.create({ id: 123 });
+
+    const mockUserService = {
+        getUserById: jest.fn(),
+        getUserByEmail: jest.fn(),
+    };
+
+    const mockSecurityEventService = {
+        record: jest.fn(),
+    };
+
+    const mockIdentityService = {
+        assertCanRemoveLoginMethod: jest.fn(),
+    };
+
+    const mockConfigService = {
+        get: jest.fn((key: string, defaultValue?: any) => {
+            const config: Record<string, any> = {
+                'webauthn.rpId': 'localhost',
+                'webauthn.rpName': 'OALR',
+                'webauthn.origin': origin,
+            };
+            return config[key] ?? defaultValue;
+        }),
+    };
+
+    /**
+     * Backs the repository mocks with arrays so full ceremonies can run against them.
+     */
+    const setUpRepositories = (): void => {
+        credentials = [];
+        challenges = [];
+
+        credentialRepository = createMockRepository();
+        credentialRepository.create.mockImplementation((entity: Partial<WebAuthnCredential>) => entity);
+        credentialRepository.save.mockImplementation(async (entity: WebAuthnCredential) => {
+            const saved = { ...entity, id: credentials.length + 1, createdAt: new Date(), lastUsedAt: null };
+            credentials.push(saved);
+            return saved;
+        });
+        credentialRepository.find.mockImplementation(async ({ where }: any) =>
+            credentials.filter((credential) => credential.userId === where.userId),
+        );
+        credentialRepository.findOne.mockImplementation(
+            async ({ where }: any) =>
+                credentials.find((credential: any) =>
+                    Object.entries(where).every(([key, value]) => credential[key] === value),
+                ) || null,
+        );
+        credentialRepository.delete.mockImplementation(async ({ id }: any) => {
+            const before = credentials.length;
+            credentials = credentials.filter((credential) => credential.id !== id);
+            return { affected: before - credentials.length };
+        });
+        credentialRepository.update.mockImplementation(async ({ id }: any, changes: Partial<WebAuthnCredential>) => {
+            Object.assign(credentials.find((credential) => credential.id === id) || {}, changes);
+            return { affected: 1 };
+        });
+
+        challengeRepository = createMockRepository();
+        challengeRepository.create.mockImplementation((entity: Partial<WebAuthnChallenge>) => entity);
+        challengeRepository.save.mockImplementation(async (entity: WebAuthnChallenge) => {
+            const saved = { ...entity, id: challenges.length + 1 };
+            challenges.push(saved);
+            return saved;
+        });
+        challengeRepository.findOne.mockImplementation(
+            async ({ where }: any) =>
+                challenges.find((challenge) => challenge.challenge === where.challenge && challenge.type === where.type) ||
+                null,
+        );
+        challengeRepository.delete.mockImplementation(async (criteria: any) => {
+            const before = challenges.length;
+            challenges = challenges.filter((challenge) => criteria.id === undefined || challenge.id !== criteria.id);
+            return { affected: before - challenges.length };
+        });
+    };
+
+    beforeEach(async () => {
+        setUpRepositories();
+        authenticator = new SoftwareAuthenticator('localhost', origin);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                WebAuthnService,
+                { provide: getRepositoryToken(WebAuthnCredential), useValue: credentialRepository },
+                { provide: getRepositoryToken(WebAuthnChallenge), useValue: challengeRepository },
+                { provide: UserService, useValue: mockUserService },
+                { provide: SecurityEventService, useValue: mockSecurityEventService },
+                { provide: IdentityService, useValue: mockIdentityService },
+                { provide: ConfigService, useValue: mockConfigService },
+            ],
+        }).compile();
+
+        service = module.get<WebAuthnService>(WebAuthnService);
+        jest.clearAllMocks();
+        mockUserService.getUserById.mockResolvedValue(user);
+        mockUserService.getUserByEmail.mockResolvedValue(user);
+    });
+
+    const registerPasskey = async (): Promise<WebAuthnCredential> => {
+        const options = await service.startRegistration(user.id, user.email);
+        return await service.finishRegistration(user.id, authenticator.createCredential(options.challenge), 'Laptop');
+    };
+
+    describe('registration', () => {
+        it('should store a verified passkey for the user', async () => {
+            // Act
+            const credential = await registerPasskey();
+
+            // Assert
+            expect(credential).toMatchObject({
+                userId: user.id,
+                credentialId: authenticator.credentialId,
+                counter: 0,
+                transports: ['internal'],
+                name: 'Laptop',
+            });
+            expect(Buffer.isBuffer(credential.publicKey)).toBe(true);
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith('passkey_registered', user.id, {
+                credentialId: credential.id,
+            });
+        });
+
+        it('should exclude passkeys the user already registered', async () => {
+            await registerPasskey();
+
+            const options = await service.startRegistration(user.id, user.email);
+
+            expect(options.excludeCredentials).toEqual([
+                { id: authenticator.credentialId, transports: ['internal'], type: 'public-key' },
+            ]);
+        });
+
+        it('should not accept a challenge issued to another user', async () => {
+            const options = await service.startRegistration(456, 'other@example.com');
+
+            await expect(
+                service.finishRegistration(user.id, authenticator.createCredential(options.challenge)),
+            ).rejects.toThrow('Invalid or expired passkey challenge');
+        });
+
+        it('should reject a response for an unknown challenge', async () => {
+            await expect(service.finishRegistration(user.id, authenticator.createCredential('bm9wZQ'))).rejects.toThrow(
+                BadRequestException,
+            );
+        });
+    });
+
+    describe('authentication', () => {
+        it('should sign the user in with a registered passkey', async () => {
+            // Arrange
+            const credential = await registerPasskey();
+            const options = await service.startAuthentication();
+
+            // Act
+            const result = await service.finishAuthentication(authenticator.getAssertion(options.challenge));
+
+            // Assert
+            expect(result).toBe(user);
+            expect(credentialRepository.update).toHaveBeenCalledWith(
+                { id: credential.id },
+                { counter: 1, lastUsedAt: expect.any(Date) },
+            );
+        });
+
+        it('should only allow the passkeys of the given account', async () => {
+            await registerPasskey();
+
+            const options = await service.startAuthentication(user.email);
+
+            expect(options.allowCredentials).toEqual([
+                { id: authenticator.credentialId, transports: ['internal'], type: 'public-key' },
+            ]);
+        });
+
+        it('should refuse an assertion without user verification', async () => {
+            await registerPasskey();
+            const options = await service.startAuthentication();
+
+            expect(options.userVerification).toBe('required');
+            await expect(service.finishAuthentication(authenticator.getAssertion(options.challenge, false))).rejects.toThrow(
+                'Passkey could not be verified',
+            );
+            expect(credentialRepository.update).not.toHaveBeenCalled();
+        });
+
+        it('should not accept the same challenge twice', async () => {
+            await registerPasskey();
+            const options = await service.startAuthentication();
+            await service.finishAuthentication(authenticator.getAssertion(options.challenge));
+
+            await expect(service.finishAuthentication(authenticator.getAssertion(options.challenge))).rejects.toThrow(
+                'Invalid or expired passkey challenge',
+            );
+        });
+
+        it('should reject a signature from a different key', async () => {
+            await registerPasskey();
+            const options = await service.startAuthentication();
+            const impostor = new SoftwareAuthenticator('localhost', origin);
+            const assertion = impostor.getAssertion(options.challenge);
+
+            await expect(
+                service.finishAuthentication({
+                    ...assertion,
+                    id: authenticator.credentialId,
+                    rawId: authenticator.credentialId,
+                }),
+            ).rejects.toThrow('Passkey could not be verified');
+        });
+
+        it('should reject a replayed signature counter', async () => {
+            await registerPasskey();
+            const first = await service.startAuthentication();
+            await service.finishAuthentication(authenticator.getAssertion(first.challenge));
+
+            authenticator.signCount = 0;
+            const second = await service.startAuthentication();
+
+            await expect(service.finishAuthentication(authenticator.getAssertion(second.challenge))).rejects.toThrow(
+                UnauthorizedException,
+            );
+        });
+
+        it('should reject an assertion from the wrong origin', async () => {
+            await registerPasskey();
+            const options = await service.startAuthentication();
+            const phishing = Object.assign(Object.create(Object.getPrototypeOf(authenticator)), authenticator, {
+                origin: 'https://evil.example.com',
+            });
+
+            await expect(service.finishAuthentication(phishing.getAssertion(options.challenge))).rejects.toThrow(
+                'Passkey could not be verified',
+            );
+        });
+    });
+
+    describe('findCredentialUserId', () => {
+        it('should return the owner of a registered passkey', async () => {
+            await registerPasskey();
+
+            await expect(service.findCredentialUserId(authenticator.credentialId)).resolves.toBe(user.id);
+            await expect(service.findCredentialUserId('unknown-credential')).resolves.toBeNull();
+        });
+    });
+
+    describe('removeCredential', () => {
+        it('should remove a passkey when the account has another way to sign in', async () => {
+            const credential = await registerPasskey();
+
+            await service.removeCredential(user.id, credential.id);
+
+            expect(credentials).toHaveLength(0);
+            expect(mockIdentityService.assertCanRemoveLoginMethod).toHaveBeenCalledWith(user.id);
+        });
+
+        it('should keep the last login method of the account', async () => {
+            const credential = await registerPasskey();
+            mockIdentityService.assertCanRemoveLoginMethod.mockRejectedValueOnce(
+                new BadRequestException('Cannot remove the last login method of an account'),
+            );
+
+            await expect(service.removeCredential(user.id, credential.id)).rejects.toThrow(BadRequestException);
+            expect(credentials).toHaveLength(1);
+        });
+    });
+});
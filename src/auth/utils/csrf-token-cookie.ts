@@ -0,0 +1,39 @@
+import { Response } from 'express';
+import { generateToken } from './tokens';
+
+export const CSRF_TOKEN_COOKIE = 'csrfToken';
+export const CSRF_TOKEN_HEADER = 'X-CSRF-Token';
+
+/**
+ * Issues a double-submit CSRF token. The cookie is readable by scripts so a frontend on the same
+ * site can echo it; a frontend on another site reads the response header or GET /auth/csrf-token.
+ * Either way, requests to cookie-authenticated endpoints must send it back in the X-CSRF-Token header.
+ *
+ * @param response The response to set the cookie and header on.
+ * @param secure Whether the cookie is restricted to HTTPS, true in production.
+ * @param maxAge The cookie lifetime in milliseconds, matching the refresh token cookie.
+ * @returns The new CSRF token.
+ */
+export function setCsrfTokenCookie(response: Response, secure: boolean, maxAge: number): string {
+    const csrfToken = generateToken();
+
+    response.cookie(CSRF_TOKEN_COOKIE, csrfToken, {
+        httpOnly: false,
+        secure,
+        sameSite: 'strict',
+        maxAge,
+        path: '/',
+    });
+    response.setHeader(CSRF_TOKEN_HEADER, csrfToken);
+
+    return csrfToken;
+}
+
+export function clearCsrfTokenCookie(response: Response, secure: boolean): void {
+    response.clearCookie(CSRF_TOKEN_COOKIE, {
+        httpOnly: false,
+        secure,
+        sameSite: 'strict',
+        path: '/',
+    });
+}
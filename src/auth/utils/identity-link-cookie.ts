@@ -0,0 +1,32 @@
+import { Response } from 'express';
+
+export const IDENTITY_LINK_COOKIE = 'identityLink';
+
+const IDENTITY_LINK_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes, matching the link token
+
+/**
+ * Remembers that the browser is linking a provider rather than signing in. SameSite is lax
+ * because the provider callback is a top-level navigation from another site.
+ *
+ * @param response The response to set the cookie on.
+ * @param linkToken The signed link token.
+ * @param secure Whether the cookie is restricted to HTTPS, true in production.
+ */
+export function setIdentityLinkCookie(response: Response, linkToken: string, secure: boolean): void {
+    response.cookie(IDENTITY_LINK_COOKIE, linkToken, {
+        httpOnly: true,
+        secure,
+        sameSite: 'lax',
+        maxAge: IDENTITY_LINK_MAX_AGE_MS,
+        path: '/auth',
+    });
+}
+
+export function clearIdentityLinkCookie(response: Response, secure: boolean): void {
+    response.clearCookie(IDENTITY_LINK_COOKIE, {
+        httpOnly: true,
+        secure,
+        sameSite: 'lax',
+        path: '/auth',
+    });
+}
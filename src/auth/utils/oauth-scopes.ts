@@ -0,0 +1,24 @@
+import { OAuthException } from '../exceptions/oauth.exception';
+
+/**
+ * Resolves the space-separated scope parameter of an OAuth request.
+ *
+ * @param scope The requested scopes, or undefined to request every allowed scope.
+ * @param allowedScopes The scopes the request may ask for.
+ * @returns The requested scopes, without duplicates.
+ * @throws OAuthException invalid_scope if a scope is not allowed or none remain.
+ */
+export function resolveScopes(scope: string | undefined, allowedScopes: string[]): string[] {
+    const scopes = scope === undefined ? allowedScopes : [...new Set(scope.split(' ').filter(Boolean))];
+
+    const disallowed = scopes.filter((requested) => !allowedScopes.includes(requested));
+    if (disallowed.length > 0) {
+        throw new OAuthException('invalid_scope', `Scope not allowed: ${disallowed.join(' ')}`);
+    }
+
+    if (scopes.length === 0) {
+        throw new OAuthException('invalid_scope', 'At least one scope is required');
+    }
+
+    return scopes;
+}
@@ -0,0 +1,23 @@
+import { ForbiddenException } from '@nestjs/common';
+import { AuthenticatedUser } from '../interfaces';
+
+/**
+ * Checks that the user proved their identity at most maxAgeSeconds ago. Tokens without an
+ * auth_time claim, such as personal access tokens, never count as recent.
+ *
+ * @param user The authenticated user of the request.
+ * @param maxAgeSeconds How long ago the user may have last proven their identity.
+ * @throws ForbiddenException with the reauthentication_required error if the proof is too old.
+ */
+export function assertRecentAuth(user: AuthenticatedUser | undefined, maxAgeSeconds: number): void {
+    const authAge = user?.authTime ? Date.now() / 1000 - user.authTime : Infinity;
+
+    if (authAge > maxAgeSeconds) {
+        throw new ForbiddenException({
+            statusCode: 403,
+            error: 'reauthentication_required',
+            message: 'Confirm your identity through POST /auth/reauthenticate to continue',
+            maxAge: maxAgeSeconds,
+        });
+    }
+}
@@ -0,0 +1,34 @@
+import { Response } from 'express';
+import { clearCsrfTokenCookie, setCsrfTokenCookie } from './csrf-token-cookie';
+
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+/**
+ * Stores the refresh token in an httpOnly cookie so scripts on the page cannot read it, along with
+ * a fresh CSRF token that requests authenticated by the cookie must echo.
+ *
+ * @param response The response to set the cookie on.
+ * @param refreshToken The refresh token.
+ * @param secure Whether the cookie is restricted to HTTPS, true in production.
+ * @param maxAge The cookie lifetime in milliseconds, from TokenPolicyService.getRefreshCookieMaxAge.
+ */
+export function setRefreshTokenCookie(response: Response, refreshToken: string, secure: boolean, maxAge: number): void {
+    response.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+        httpOnly: true,
+        secure,
+        sameSite: 'strict',
+        maxAge,
+        path: '/',
+    });
+    setCsrfTokenCookie(response, secure, maxAge);
+}
+
+export function clearRefreshTokenCookie(response: Response, secure: boolean): void {
+    response.clearCookie(REFRESH_TOKEN_COOKIE, {
+        httpOnly: true,
+        secure,
+        sameSite: 'strict',
+        path: '/',
+    });
+    clearCsrfTokenCookie(response, secure);
+}
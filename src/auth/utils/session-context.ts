@@ -0,0 +1,14 @@
+import { Request } from 'express';
+import { SessionContext } from '../interfaces';
+
+/**
+ * Collects the client details stored with a session from the incoming request.
+ *
+ * @param request The incoming request.
+ */
+export function getSessionContext(request: Request): SessionContext {
+    return {
+        userAgent: request.get('User-Agent'),
+        ipAddress: request.ip,
+    };
+}
@@ -0,0 +1,33 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+/**
+ * Generates a URL-safe random token for single-use links.
+ *
+ * @param byteLength Number of random bytes, 32 by default.
+ * @returns The base64url encoded token.
+ */
+export function generateToken(byteLength = 32): string {
+    return randomBytes(byteLength).toString('base64url');
+}
+
+/**
+ * Hashes a token for storage so a database leak does not expose usable tokens.
+ *
+ * @param token The plaintext token.
+ * @returns The hex encoded SHA-256 digest.
+ */
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Hashes a token with a server-side key, so stored hashes cannot be checked against guessed
+ * tokens without the key either.
+ *
+ * @param token The plaintext token.
+ * @param key The secret key.
+ * @returns The hex encoded HMAC-SHA256 digest.
+ */
+export function hashTokenWithKey(token: string, key: string): string {
+    return createHmac('sha256', key).update(token).digest('hex');
+}
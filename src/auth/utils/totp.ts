@@ -0,0 +1,147 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32, the format authenticator apps expect secrets in.
+ *
+ * @param buffer The bytes to encode.
+ * @returns The base32 string.
+ */
+export function encodeBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+}
+
+/**
+ * Decodes a base32 string, ignoring case, spaces and padding.
+ *
+ * @param input The base32 string.
+ * @returns The decoded bytes.
+ * @throws Error if the string contains characters outside the base32 alphabet.
+ */
+export function decodeBase32(input: string): Buffer {
+    const normalized = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of normalized) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`Invalid base32 character '${char}'`);
+        }
+
+        value = (value << 5) | index;
+        bits += 5;
+
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+/**
+ * Generates a random 160-bit TOTP secret, the key size recommended by RFC 4226.
+ *
+ * @returns The base32 encoded secret.
+ */
+export function generateTotpSecret(): string {
+    return encodeBase32(randomBytes(20));
+}
+
+/**
+ * Returns the RFC 6238 time step a moment falls into.
+ *
+ * @param timestamp Milliseconds since the epoch, now by default.
+ */
+export function getTotpTimeStep(timestamp = Date.now()): number {
+    return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Computes the HOTP value (RFC 4226) of a secret for the given time step.
+ *
+ * @param secret The base32 encoded secret.
+ * @param timeStep The time step used as the moving factor.
+ * @param digits Length of the code, 6 by default.
+ * @returns The zero-padded code.
+ */
+export function generateTotp(secret: string, timeStep: number, digits = TOTP_DIGITS): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(timeStep));
+
+    const digest = createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Checks a TOTP code against the current time step and its neighbours to tolerate clock drift.
+ *
+ * @param secret The base32 encoded secret.
+ * @param code The code entered by the user.
+ * @param window Number of steps accepted on either side of the current one.
+ * @param timestamp Milliseconds since the epoch, now by default.
+ * @returns The matching time step, or null if the code is invalid.
+ */
+export function verifyTotp(secret: string, code: string, window = 1, timestamp = Date.now()): number | null {
+    if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) {
+        return null;
+    }
+
+    const currentStep = getTotpTimeStep(timestamp);
+    for (let step = currentStep - window; step <= currentStep + window; step++) {
+        const expected = generateTotp(secret, step);
+        if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+            return step;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Builds the otpauth:// URI that authenticator apps import, usually rendered as a QR code.
+ *
+ * @param issuer The service name shown in the app.
+ * @param accountName The account label, typically the email address.
+ * @param secret The base32 encoded secret.
+ */
+export function buildOtpauthUri(issuer: string, accountName: string, secret: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_PERIOD_SECONDS.toString(),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
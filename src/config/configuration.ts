@@ -1,6 +1,10 @@
-import { IsString, IsNumber, IsOptional, IsUrl, IsIn } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsUrl, IsIn, Matches, Min, Max } from 'class-validator';
 import { Type } from 'class-transformer';
 
+// A number of seconds, minutes, hours or days, such as "15m" or "30d"
+const DURATION_PATTERN = /^\d+[smhd]$/;
+const DURATION_MESSAGE = '$property must be a duration such as "15m" or "30d"';
+
 export class EnvironmentVariables {
     @IsOptional()
     @IsIn(['development', 'production', 'test'])
@@ -11,6 +15,10 @@ export class EnvironmentVariables {
     @IsNumber()
     PORT: number = 3000;
 
+    @IsOptional()
+    @IsUrl({ require_tld: false })
+    API_URL: string;
+
     // Database
     @IsString()
     DB_HOST: string;
@@ -33,9 +41,144 @@ export class EnvironmentVariables {
     @IsString()
     JWT_SECRET_KEY: string;
 
+    // Lifetime of the access tokens issued at sign-in and refresh
+    @IsOptional()
+    @Matches(DURATION_PATTERN, { message: DURATION_MESSAGE })
+    JWT_EXPIRATION_TIME: string = '15m';
+
+    @IsOptional()
+    @Matches(DURATION_PATTERN, { message: DURATION_MESSAGE })
+    JWT_IMPERSONATION_EXPIRATION_TIME: string = '10m';
+
+    // Lifetime of the access token issued by POST /auth/reauthenticate for sensitive account changes
+    @IsOptional()
+    @Matches(DURATION_PATTERN, { message: DURATION_MESSAGE })
+    JWT_REAUTHENTICATION_EXPIRATION_TIME: string = '5m';
+
+    // Sliding limit: a session ends when it is not refreshed for this long
+    @IsOptional()
+    @Matches(DURATION_PATTERN, { message: DURATION_MESSAGE })
+    JWT_REFRESH_EXPIRATION_TIME: string = '30d';
+
+    // Absolute limit: a session ends this long after sign-in however often it is refreshed
+    @IsOptional()
+    @Matches(DURATION_PATTERN, { message: DURATION_MESSAGE })
+    JWT_SESSION_MAX_AGE: string = '90d';
+
+    // Leeway for clocks of other servers running slightly ahead or behind when checking exp and nbf
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    @Max(300)
+    JWT_CLOCK_TOLERANCE_SECONDS: number = 30;
+
+    @IsOptional()
+    @IsIn(['HS256', 'RS256', 'ES256'])
+    JWT_SIGNING_ALGORITHM: string = 'HS256';
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    JWT_KEY_ROTATION_DAYS: number = 30;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    JWT_KEY_GRACE_HOURS: number = 24;
+
+    // Key of the HMAC stored for refresh tokens, JWT_SECRET_KEY if unset
+    @IsOptional()
+    @IsString()
+    REFRESH_TOKEN_HASH_KEY: string;
+
+    // Email verification
+    @IsOptional()
+    @IsIn(['true', 'false'])
+    AUTH_REQUIRE_EMAIL_VERIFICATION: string = 'false';
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    EMAIL_VERIFICATION_TTL_HOURS: number = 24;
+
+    // Password reset
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    PASSWORD_RESET_TTL_MINUTES: number = 30;
+
+    // Password policy
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    PASSWORD_MIN_LENGTH: number = 10;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(0)
+    @Max(4)
+    PASSWORD_REQUIRED_CHARACTER_CLASSES: number = 3;
+
+    @IsOptional()
+    @IsIn(['true', 'false'])
+    PASSWORD_BLOCK_PERSONAL_INFO: string = 'true';
+
+    @IsOptional()
+    @IsIn(['true', 'false'])
+    PASSWORD_CHECK_BREACHED: string = 'true';
+
+    // Failed login protection
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    LOGIN_DELAY_AFTER_ATTEMPTS: number = 3;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    LOGIN_LOCKOUT_THRESHOLD: number = 10;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    LOGIN_LOCKOUT_MINUTES: number = 15;
+
+    // Magic link login
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    MAGIC_LINK_TTL_MINUTES: number = 15;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    MAGIC_LINK_MAX_PER_HOUR: number = 5;
+
+    // Multi-factor authentication
+    @IsOptional()
+    @IsString()
+    MFA_ISSUER: string = 'OALR';
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    MFA_LOCKOUT_THRESHOLD: number = 5;
+
+    // WebAuthn / passkeys
+    @IsOptional()
+    @IsString()
+    WEBAUTHN_RP_ID: string = 'localhost';
+
     @IsOptional()
     @IsString()
-    JWT_EXPIRATION_TIME: string = '24h';
+    WEBAUTHN_RP_NAME: string = 'OALR';
+
+    @IsOptional()
+    @IsUrl({ require_tld: false })
+    WEBAUTHN_ORIGIN: string;
 
     // OAuth
     @IsString()
@@ -44,15 +187,173 @@ export class EnvironmentVariables {
     @IsString()
     GOOGLE_CLIENT_SECRET: string;
 
+    @IsOptional()
+    @IsUrl({ require_tld: false })
+    GOOGLE_CALLBACK_URL: string;
+
+    // Facebook login is offered only when both are set
+    @IsOptional()
+    @IsString()
+    FACEBOOK_CLIENT_ID: string;
+
+    @IsOptional()
+    @IsString()
+    FACEBOOK_CLIENT_SECRET: string;
+
+    @IsOptional()
+    @IsUrl({ require_tld: false })
+    FACEBOOK_CALLBACK_URL: string;
+
+    // Frontend paths a social login may return to, each allowing the paths below it
+    @IsOptional()
+    @Matches(/^\/[^,]*(,\/[^,]*)*$/, {
+        message: 'OAUTH_RETURN_PATHS must be a comma-separated list of paths starting with "/"',
+    })
+    OAUTH_RETURN_PATHS: string = '/dashboard';
+
+    // Deep link of the mobile app, such as "oalr://auth/callback", which enables the app login mode
+    @IsOptional()
+    @Matches(/^([a-z][a-z0-9+.-]*:\/\/\S+)?$/i, { message: 'OAUTH_APP_REDIRECT_URI must be an absolute URI' })
+    OAUTH_APP_REDIRECT_URI: string;
+
+    // OpenID Connect, each listed provider is configured through OIDC_<NAME>_* variables
+    @IsOptional()
+    @Matches(/^[a-z0-9-]+(,[a-z0-9-]+)*$/, {
+        message: 'OIDC_PROVIDERS must be a comma-separated list of lowercase provider names',
+    })
+    OIDC_PROVIDERS: string;
+
+    // LDAP / Active Directory, enabled when LDAP_URL is set
+    @IsOptional()
+    @Matches(/^(ldaps?:\/\/\S+)?$/, { message: 'LDAP_URL must be an ldap:// or ldaps:// URL' })
+    LDAP_URL: string;
+
+    @IsOptional()
+    @IsIn(['true', 'false'])
+    LDAP_START_TLS: string = 'false';
+
+    // Direct bind, such as "uid={{username}},ou=people,dc=example,dc=com" or "{{username}}@corp.example.com"
+    @IsOptional()
+    @IsString()
+    LDAP_BIND_DN_TEMPLATE: string;
+
+    // Search then bind: the service account finds the entry under LDAP_SEARCH_BASE, then the user binds as it
+    @IsOptional()
+    @IsString()
+    LDAP_BIND_DN: string;
+
+    @IsOptional()
+    @IsString()
+    LDAP_BIND_PASSWORD: string;
+
+    @IsOptional()
+    @IsString()
+    LDAP_SEARCH_BASE: string;
+
+    @IsOptional()
+    @Matches(/^(\(.*\{\{username\}\}.*\))?$/, {
+        message: 'LDAP_SEARCH_FILTER must be a parenthesized filter containing {{username}}',
+    })
+    LDAP_SEARCH_FILTER: string = '(mail={{username}})';
+
+    @IsOptional()
+    @IsString()
+    LDAP_ATTRIBUTE_EMAIL: string = 'mail';
+
+    @IsOptional()
+    @IsString()
+    LDAP_ATTRIBUTE_FIRST_NAME: string = 'givenName';
+
+    @IsOptional()
+    @IsString()
+    LDAP_ATTRIBUTE_LAST_NAME: string = 'sn';
+
+    @IsOptional()
+    @IsString()
+    LDAP_GROUP_ATTRIBUTE: string = 'memberOf';
+
+    // Roles granted by directory groups, such as "cn=admins,ou=groups,dc=example,dc=com:admin;cn=staff,...:user"
+    @IsOptional()
+    @IsString()
+    LDAP_GROUP_ROLES: string;
+
+    @IsOptional()
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    LDAP_TIMEOUT_MS: number = 5000;
+
     // CORS
     @IsOptional()
     @IsUrl({ require_tld: false })
     FRONTEND_URL: string = 'http://localhost:5173';
 }
 
+/**
+ * Public base URL of this API, used to build the redirect URIs registered with identity providers.
+ */
+function getApiUrl(): string {
+    return process.env.API_URL || `http://localhost:${process.env.PORT || '3000'}`;
+}
+
+/**
+ * Reads the providers named in OIDC_PROVIDERS. A provider called "corporate-sso" is
+ * configured through OIDC_CORPORATE_SSO_ISSUER, _CLIENT_ID, _CLIENT_SECRET and _SCOPES.
+ */
+function parseOidcProviders(): Record<string, any> {
+    const names = (process.env.OIDC_PROVIDERS || '').split(',').filter(Boolean);
+
+    return Object.fromEntries(
+        names.map((name) => {
+            const prefix = `OIDC_${name.toUpperCase().replace(/-/g, '_')}_`;
+            return [
+                name,
+                {
+                    name,
+                    issuer: process.env[`${prefix}ISSUER`],
+                    clientId: process.env[`${prefix}CLIENT_ID`],
+                    clientSecret: process.env[`${prefix}CLIENT_SECRET`],
+                    scopes: (process.env[`${prefix}SCOPES`] || 'openid email profile').split(/[\s,]+/).filter(Boolean),
+                    callbackUrl: `${getApiUrl()}/auth/oidc/${name}/callback`,
+                },
+            ];
+        }),
+    );
+}
+
+/**
+ * Reads LDAP_GROUP_ROLES, a list of "<group DN>:<role>" pairs separated by semicolons. The role
+ * follows the last colon, as group DNs may contain colons but role names do not.
+ */
+function parseLdapGroupRoles(): { group: string; role: string }[] {
+    return (process.env.LDAP_GROUP_ROLES || '')
+        .split(';')
+        .map((mapping) => mapping.trim())
+        .filter(Boolean)
+        .map((mapping) => {
+            const separator = mapping.lastIndexOf(':');
+            if (separator < 0) {
+                return { group: mapping, role: '' };
+            }
+
+            return { group: mapping.slice(0, separator).trim(), role: mapping.slice(separator + 1).trim() };
+        });
+}
+
+/**
+ * Converts a duration such as "15m" into seconds, using the fallback when the value is unset.
+ */
+function parseDuration(value: string | undefined, fallback: string): number {
+    const duration = value || fallback;
+    const units: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+
+    return parseInt(duration, 10) * units[duration.slice(-1)];
+}
+
 export default (): Record<string, any> => ({
     nodeEnv: process.env.NODE_ENV,
     port: parseInt(process.env.PORT || '3000', 10),
+    apiUrl: getApiUrl(),
 
     database: {
         host: process.env.DB_HOST,
@@ -64,14 +365,80 @@ export default (): Record<string, any> => ({
 
     jwt: {
         secret: process.env.JWT_SECRET_KEY,
-        expirationTime: process.env.JWT_EXPIRATION_TIME || '24h',
+        accessTokenLifetimeSeconds: parseDuration(process.env.JWT_EXPIRATION_TIME, '15m'),
+        impersonationTokenLifetimeSeconds: parseDuration(process.env.JWT_IMPERSONATION_EXPIRATION_TIME, '10m'),
+        reauthenticationTokenLifetimeSeconds: parseDuration(process.env.JWT_REAUTHENTICATION_EXPIRATION_TIME, '5m'),
+        refreshTokenLifetimeSeconds: parseDuration(process.env.JWT_REFRESH_EXPIRATION_TIME, '30d'),
+        sessionMaxAgeSeconds: parseDuration(process.env.JWT_SESSION_MAX_AGE, '90d'),
+        clockToleranceSeconds: parseInt(process.env.JWT_CLOCK_TOLERANCE_SECONDS || '30', 10),
+        signingAlgorithm: process.env.JWT_SIGNING_ALGORITHM || 'HS256',
+        keyRotationDays: parseInt(process.env.JWT_KEY_ROTATION_DAYS || '30', 10),
+        keyGraceHours: parseInt(process.env.JWT_KEY_GRACE_HOURS || '24', 10),
+        refreshTokenHashKey: process.env.REFRESH_TOKEN_HASH_KEY || process.env.JWT_SECRET_KEY,
+    },
+
+    auth: {
+        requireEmailVerification: process.env.AUTH_REQUIRE_EMAIL_VERIFICATION === 'true',
+        emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10),
+        passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10),
+        loginDelayAfterAttempts: parseInt(process.env.LOGIN_DELAY_AFTER_ATTEMPTS || '3', 10),
+        loginLockoutThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10),
+        loginLockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+        magicLinkTtlMinutes: parseInt(process.env.MAGIC_LINK_TTL_MINUTES || '15', 10),
+        magicLinkMaxPerHour: parseInt(process.env.MAGIC_LINK_MAX_PER_HOUR || '5', 10),
+        mfaIssuer: process.env.MFA_ISSUER || 'OALR',
+        mfaLockoutThreshold: parseInt(process.env.MFA_LOCKOUT_THRESHOLD || '5', 10),
+    },
+
+    passwordPolicy: {
+        minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10', 10),
+        requiredCharacterClasses: parseInt(process.env.PASSWORD_REQUIRED_CHARACTER_CLASSES || '3', 10),
+        blockPersonalInfo: process.env.PASSWORD_BLOCK_PERSONAL_INFO !== 'false',
+        checkBreached: process.env.PASSWORD_CHECK_BREACHED !== 'false',
+    },
+
+    webauthn: {
+        rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+        rpName: process.env.WEBAUTHN_RP_NAME || 'OALR',
+        // Passkey ceremonies run in the frontend, so that is the origin browsers report
+        origin: process.env.WEBAUTHN_ORIGIN || process.env.FRONTEND_URL || 'http://localhost:5173',
     },
 
     oauth: {
         google: {
             clientId: process.env.GOOGLE_CLIENT_ID,
             clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+            callbackUrl: process.env.GOOGLE_CALLBACK_URL || `${getApiUrl()}/auth/google/callback`,
+        },
+        facebook: {
+            clientId: process.env.FACEBOOK_CLIENT_ID || null,
+            clientSecret: process.env.FACEBOOK_CLIENT_SECRET || null,
+            callbackUrl: process.env.FACEBOOK_CALLBACK_URL || `${getApiUrl()}/auth/facebook/callback`,
+        },
+        returnPaths: (process.env.OAUTH_RETURN_PATHS || '/dashboard').split(','),
+        appRedirectUri: process.env.OAUTH_APP_REDIRECT_URI || null,
+    },
+
+    oidc: {
+        providers: parseOidcProviders(),
+    },
+
+    ldap: {
+        url: process.env.LDAP_URL || null,
+        startTls: process.env.LDAP_START_TLS === 'true',
+        bindDnTemplate: process.env.LDAP_BIND_DN_TEMPLATE || null,
+        bindDn: process.env.LDAP_BIND_DN || null,
+        bindPassword: process.env.LDAP_BIND_PASSWORD || null,
+        searchBase: process.env.LDAP_SEARCH_BASE || null,
+        searchFilter: process.env.LDAP_SEARCH_FILTER || '(mail={{username}})',
+        attributes: {
+            email: process.env.LDAP_ATTRIBUTE_EMAIL || 'mail',
+            firstName: process.env.LDAP_ATTRIBUTE_FIRST_NAME || 'givenName',
+            lastName: process.env.LDAP_ATTRIBUTE_LAST_NAME || 'sn',
+            groups: process.env.LDAP_GROUP_ATTRIBUTE || 'memberOf',
         },
+        groupRoles: parseLdapGroupRoles(),
+        timeoutMs: parseInt(process.env.LDAP_TIMEOUT_MS || '5000', 10),
     },
 
     frontend: {
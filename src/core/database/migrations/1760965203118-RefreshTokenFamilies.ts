@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class RefreshTokenFamilies1760965203118 implements MigrationInterface {
+    name = 'RefreshTokenFamilies1760965203118';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Every pre-existing token becomes the root of its own family
+        await queryRunner.query(`ALTER TABLE "refresh_token" ADD "familyId" uuid`);
+        await queryRunner.query(`UPDATE "refresh_token" SET "familyId" = gen_random_uuid()`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" ALTER COLUMN "familyId" SET NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" ADD "parentId" integer`);
+        await queryRunner.query(`CREATE INDEX "IDX_b803086815f2d539fe7a0349d1" ON "refresh_token" ("familyId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_19d2f98ff50bb49dd08adf5eb5" ON "refresh_token" ("parentId") `);
+        await queryRunner.query(
+            `CREATE TABLE "security_event" ("id" SERIAL NOT NULL, "userId" integer, "type" character varying NOT NULL, "metadata" jsonb, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_fb070407ce281c218223836bad4" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_27ccc08d8d15afe5a2aae04419" ON "security_event" ("userId") `);
+        await queryRunner.query(
+            `ALTER TABLE "security_event" ADD CONSTRAINT "FK_27ccc08d8d15afe5a2aae044191" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "security_event" DROP CONSTRAINT "FK_27ccc08d8d15afe5a2aae044191"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_27ccc08d8d15afe5a2aae04419"`);
+        await queryRunner.query(`DROP TABLE "security_event"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_19d2f98ff50bb49dd08adf5eb5"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_b803086815f2d539fe7a0349d1"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "parentId"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "familyId"`);
+    }
+}
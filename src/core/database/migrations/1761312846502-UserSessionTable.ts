@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class UserSessionTable1761312846502 implements MigrationInterface {
+    name = 'UserSessionTable1761312846502';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`);
+        await queryRunner.query(
+            `CREATE TABLE "user_session" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "userId" integer NOT NULL, "userAgent" text, "ipAddress" character varying, "deviceName" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "lastUsedAt" TIMESTAMP NOT NULL DEFAULT now(), "revokedAt" TIMESTAMP, CONSTRAINT "PK_adf3b49590842ac3cf54cac451a" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_b5eb7aa08382591e7c2d1244fe" ON "user_session" ("userId") `);
+
+        // Turn every existing refresh token family into a session so the foreign key can be added
+        await queryRunner.query(
+            `INSERT INTO "user_session" ("id", "userId", "createdAt", "lastUsedAt", "revokedAt") SELECT "familyId", MIN("userId"), MIN("createdAt"), MAX("createdAt"), CASE WHEN bool_and("isRevoked") THEN now() ELSE NULL END FROM "refresh_token" GROUP BY "familyId"`,
+        );
+
+        await queryRunner.query(
+            `ALTER TABLE "user_session" ADD CONSTRAINT "FK_b5eb7aa08382591e7c2d1244fe5" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "refresh_token" ADD CONSTRAINT "FK_b803086815f2d539fe7a0349d13" FOREIGN KEY ("familyId") REFERENCES "user_session"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP CONSTRAINT "FK_b803086815f2d539fe7a0349d13"`);
+        await queryRunner.query(`ALTER TABLE "user_session" DROP CONSTRAINT "FK_b5eb7aa08382591e7c2d1244fe5"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_b5eb7aa08382591e7c2d1244fe"`);
+        await queryRunner.query(`DROP TABLE "user_session"`);
+    }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EmailVerification1761658390714 implements MigrationInterface {
+    name = 'EmailVerification1761658390714';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "user" ADD "emailVerifiedAt" TIMESTAMP`);
+
+        // Existing accounts predate verification, so requiring it must not lock them out
+        await queryRunner.query(`UPDATE "user" SET "emailVerifiedAt" = COALESCE("joinedDate", now())`);
+
+        await queryRunner.query(
+            `CREATE TABLE "email_verification_token" ("id" SERIAL NOT NULL, "tokenHash" character varying NOT NULL, "userId" integer NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "usedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_8a4ba9e58712768183e862529f6" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_e2d36e6be103d1f755b53122ff" ON "email_verification_token" ("tokenHash") `,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "email_verification_token" ADD CONSTRAINT "FK_77b04d285509a2e6f5f44598be4" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "email_verification_token" DROP CONSTRAINT "FK_77b04d285509a2e6f5f44598be4"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_e2d36e6be103d1f755b53122ff"`);
+        await queryRunner.query(`DROP TABLE "email_verification_token"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "emailVerifiedAt"`);
+    }
+}
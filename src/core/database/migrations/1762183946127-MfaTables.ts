@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MfaTables1762183946127 implements MigrationInterface {
+    name = 'MfaTables1762183946127';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "user_mfa" ("userId" integer NOT NULL, "secret" character varying NOT NULL, "enabledAt" TIMESTAMP, "lastUsedStep" integer, "failedAttempts" integer NOT NULL DEFAULT '0', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_88df7f11b763ca17e13f21a1622" PRIMARY KEY ("userId"))`,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "mfa_recovery_code" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "codeHash" character varying NOT NULL, "usedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_cdbbb187d9498f3aee029649fbf" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_8b40b5199fd41b290f9441bbc6" ON "mfa_recovery_code" ("userId") `);
+        await queryRunner.query(
+            `ALTER TABLE "user_mfa" ADD CONSTRAINT "FK_88df7f11b763ca17e13f21a1622" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "mfa_recovery_code" ADD CONSTRAINT "FK_8b40b5199fd41b290f9441bbc6e" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "mfa_recovery_code" DROP CONSTRAINT "FK_8b40b5199fd41b290f9441bbc6e"`);
+        await queryRunner.query(`ALTER TABLE "user_mfa" DROP CONSTRAINT "FK_88df7f11b763ca17e13f21a1622"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_8b40b5199fd41b290f9441bbc6"`);
+        await queryRunner.query(`DROP TABLE "mfa_recovery_code"`);
+        await queryRunner.query(`DROP TABLE "user_mfa"`);
+    }
+}
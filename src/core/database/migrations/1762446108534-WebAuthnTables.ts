@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class WebAuthnTables1762446108534 implements MigrationInterface {
+    name = 'WebAuthnTables1762446108534';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "web_authn_credential" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "credentialId" character varying NOT NULL, "publicKey" bytea NOT NULL, "counter" bigint NOT NULL DEFAULT '0', "transports" text array, "deviceType" character varying NOT NULL, "backedUp" boolean NOT NULL DEFAULT false, "name" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "lastUsedAt" TIMESTAMP, CONSTRAINT "PK_75836493a407b2d7a4cb926ad97" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_609fa7bda999525a4fa55cd935" ON "web_authn_credential" ("userId") `);
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_b0d9884eca4df9e50b3d7bad18" ON "web_authn_credential" ("credentialId") `,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "web_authn_challenge" ("id" SERIAL NOT NULL, "challenge" character varying NOT NULL, "type" character varying NOT NULL, "userId" integer, "expiresAt" TIMESTAMP NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_9ce45198ad4682648926cc3d191" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_18b4e6b0aa4e8347a9d5d8361f" ON "web_authn_challenge" ("challenge") `,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "web_authn_credential" ADD CONSTRAINT "FK_609fa7bda999525a4fa55cd9354" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "web_authn_challenge" ADD CONSTRAINT "FK_ab5dc424d36a8cef31211790f69" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "web_authn_challenge" DROP CONSTRAINT "FK_ab5dc424d36a8cef31211790f69"`);
+        await queryRunner.query(`ALTER TABLE "web_authn_credential" DROP CONSTRAINT "FK_609fa7bda999525a4fa55cd9354"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_18b4e6b0aa4e8347a9d5d8361f"`);
+        await queryRunner.query(`DROP TABLE "web_authn_challenge"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_b0d9884eca4df9e50b3d7bad18"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_609fa7bda999525a4fa55cd935"`);
+        await queryRunner.query(`DROP TABLE "web_authn_credential"`);
+    }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MagicLinkTokenTable1762705532916 implements MigrationInterface {
+    name = 'MagicLinkTokenTable1762705532916';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "magic_link_token" ("id" SERIAL NOT NULL, "tokenHash" character varying NOT NULL, "userId" integer NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "usedAt" TIMESTAMP, "requestedIp" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_dd1d00fdff85260e45d6e72f979" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8bb2cb875b1b20a6d42965a879" ON "magic_link_token" ("tokenHash") `);
+        await queryRunner.query(`CREATE INDEX "IDX_addd46b404fa8329fecc16494d" ON "magic_link_token" ("userId") `);
+        await queryRunner.query(
+            `ALTER TABLE "magic_link_token" ADD CONSTRAINT "FK_addd46b404fa8329fecc16494de" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "magic_link_token" DROP CONSTRAINT "FK_addd46b404fa8329fecc16494de"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_addd46b404fa8329fecc16494d"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_8bb2cb875b1b20a6d42965a879"`);
+        await queryRunner.query(`DROP TABLE "magic_link_token"`);
+    }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class LoginLockout1762962877405 implements MigrationInterface {
+    name = 'LoginLockout1762962877405';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "user" ADD "failedLoginAttempts" integer NOT NULL DEFAULT '0'`);
+        await queryRunner.query(`ALTER TABLE "user" ADD "lastFailedLoginAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "user" ADD "lockedUntil" TIMESTAMP`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "lockedUntil"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "lastFailedLoginAt"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "failedLoginAttempts"`);
+    }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class UserIdentityTable1763224519740 implements MigrationInterface {
+    name = 'UserIdentityTable1763224519740';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "user_identity" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "provider" character varying NOT NULL, "providerSubject" character varying NOT NULL, "email" character varying, "linkedAt" TIMESTAMP NOT NULL DEFAULT now(), "lastUsedAt" TIMESTAMP, CONSTRAINT "PK_87b5856b206b5b77e6e2fa29508" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_6d46a525c55104a04b24cb6639" ON "user_identity" ("userId") `);
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_603cc00da58aefddb6b789358d" ON "user_identity" ("provider", "providerSubject") `,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "user_identity" ADD CONSTRAINT "FK_6d46a525c55104a04b24cb66391" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "user_identity" DROP CONSTRAINT "FK_6d46a525c55104a04b24cb66391"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_603cc00da58aefddb6b789358d"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_6d46a525c55104a04b24cb6639"`);
+        await queryRunner.query(`DROP TABLE "user_identity"`);
+    }
+}
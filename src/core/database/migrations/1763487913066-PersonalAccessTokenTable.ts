@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class PersonalAccessTokenTable1763487913066 implements MigrationInterface {
+    name = 'PersonalAccessTokenTable1763487913066';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "personal_access_token" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "name" character varying NOT NULL, "tokenPrefix" character varying NOT NULL, "tokenHash" character varying NOT NULL, "scopes" text array NOT NULL DEFAULT '{}', "expiresAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "lastUsedAt" TIMESTAMP, CONSTRAINT "PK_4f29b258be0b657a3f81b75f0b7" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_958b73186af6fe8399bfa53f6b" ON "personal_access_token" ("userId") `);
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_81a15948ad1501b0cd1b9569f6" ON "personal_access_token" ("tokenHash") `,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "personal_access_token" ADD CONSTRAINT "FK_958b73186af6fe8399bfa53f6ba" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "personal_access_token" DROP CONSTRAINT "FK_958b73186af6fe8399bfa53f6ba"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_81a15948ad1501b0cd1b9569f6"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_958b73186af6fe8399bfa53f6b"`);
+        await queryRunner.query(`DROP TABLE "personal_access_token"`);
+    }
+}
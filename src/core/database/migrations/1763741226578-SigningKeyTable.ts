@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class SigningKeyTable1763741226578 implements MigrationInterface {
+    name = 'SigningKeyTable1763741226578';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "signing_key" ("kid" character varying NOT NULL, "algorithm" character varying NOT NULL, "publicKey" text NOT NULL, "privateKey" text NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "retiredAt" TIMESTAMP, CONSTRAINT "PK_00d7e305393ab903d6eb06c11f9" PRIMARY KEY ("kid"))`,
+        );
+
+        // Manual key rotation is an admin-only operation
+        await queryRunner.query(
+            `INSERT INTO "permission" ("name", "description") VALUES ('keys:manage', 'Rotate the token signing keys')`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "role_permissions" ("roleId", "permissionId") SELECT "role"."id", "permission"."id" FROM "role" CROSS JOIN "permission" WHERE "role"."name" = 'admin' AND "permission"."name" = 'keys:manage'`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "permission" WHERE "name" = 'keys:manage'`);
+        await queryRunner.query(`DROP TABLE "signing_key"`);
+    }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class OAuthClientAndAccessTokenDenylist1763998560811 implements MigrationInterface {
+    name = 'OAuthClientAndAccessTokenDenylist1763998560811';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "oauth_client" ("id" SERIAL NOT NULL, "clientId" character varying NOT NULL, "clientSecretHash" character varying NOT NULL, "name" character varying NOT NULL, "canIntrospect" boolean NOT NULL DEFAULT false, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d6e58a7e0ec3ac17a67ba7f97cd" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_0c623b6d56742bcfaedc40302f" ON "oauth_client" ("clientId") `);
+        await queryRunner.query(
+            `CREATE TABLE "revoked_access_token" ("jti" character varying NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "revokedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d9113cca8b86ec5a21a6a654af0" PRIMARY KEY ("jti"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_5b5ea0f0e652d8b685244fb3f5" ON "revoked_access_token" ("expiresAt") `);
+
+        // Registering OAuth clients is an admin-only operation
+        await queryRunner.query(
+            `INSERT INTO "permission" ("name", "description") VALUES ('clients:manage', 'Register and remove OAuth clients')`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "role_permissions" ("roleId", "permissionId") SELECT "role"."id", "permission"."id" FROM "role" CROSS JOIN "permission" WHERE "role"."name" = 'admin' AND "permission"."name" = 'clients:manage'`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "permission" WHERE "name" = 'clients:manage'`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_5b5ea0f0e652d8b685244fb3f5"`);
+        await queryRunner.query(`DROP TABLE "revoked_access_token"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_0c623b6d56742bcfaedc40302f"`);
+        await queryRunner.query(`DROP TABLE "oauth_client"`);
+    }
+}
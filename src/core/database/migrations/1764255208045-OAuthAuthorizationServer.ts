@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class OAuthAuthorizationServer1764255208045 implements MigrationInterface {
+    name = 'OAuthAuthorizationServer1764255208045';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "oauth_client" ADD "redirectUris" text array NOT NULL DEFAULT '{}'`);
+        await queryRunner.query(`ALTER TABLE "oauth_client" ADD "scopes" text array NOT NULL DEFAULT '{}'`);
+        await queryRunner.query(`ALTER TABLE "oauth_client" ADD "grantTypes" text array NOT NULL DEFAULT '{}'`);
+
+        await queryRunner.query(`ALTER TABLE "refresh_token" ADD "clientId" integer`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" ADD "scopes" text array`);
+        await queryRunner.query(`CREATE INDEX "IDX_f6f07caa0ec6df39d56b0aa9f6" ON "refresh_token" ("clientId") `);
+        await queryRunner.query(
+            `ALTER TABLE "refresh_token" ADD CONSTRAINT "FK_f6f07caa0ec6df39d56b0aa9f62" FOREIGN KEY ("clientId") REFERENCES "oauth_client"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+
+        await queryRunner.query(
+            `CREATE TABLE "oauth_consent" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "clientId" integer NOT NULL, "scopes" text array NOT NULL DEFAULT '{}', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_8817a8fcbba25a5a9fcd9431af1" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_38672fe298b57f68fef518a2a8" ON "oauth_consent" ("clientId") `);
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_834f46ed4c43e4d7eef9982953" ON "oauth_consent" ("userId", "clientId") `,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "oauth_consent" ADD CONSTRAINT "FK_0da18b1342a187dd23e1f4e929d" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "oauth_consent" ADD CONSTRAINT "FK_38672fe298b57f68fef518a2a84" FOREIGN KEY ("clientId") REFERENCES "oauth_client"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+
+        await queryRunner.query(
+            `CREATE TABLE "oauth_authorization_code" ("id" SERIAL NOT NULL, "codeHash" character varying NOT NULL, "clientId" integer NOT NULL, "userId" integer NOT NULL, "redirectUri" text NOT NULL, "scopes" text array NOT NULL DEFAULT '{}', "codeChallenge" character varying NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_0bf55695b94d317034bbff8afb9" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_c6b14b7b5fac0607263a73cc22" ON "oauth_authorization_code" ("codeHash") `,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_60e42f28eed4ec64fca552aefa" ON "oauth_authorization_code" ("clientId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_6f42c19edc9bbb5a480ecbaa35" ON "oauth_authorization_code" ("userId") `);
+        await queryRunner.query(
+            `ALTER TABLE "oauth_authorization_code" ADD CONSTRAINT "FK_60e42f28eed4ec64fca552aefa2" FOREIGN KEY ("clientId") REFERENCES "oauth_client"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "oauth_authorization_code" ADD CONSTRAINT "FK_6f42c19edc9bbb5a480ecbaa359" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "oauth_authorization_code" DROP CONSTRAINT "FK_6f42c19edc9bbb5a480ecbaa359"`);
+        await queryRunner.query(`ALTER TABLE "oauth_authorization_code" DROP CONSTRAINT "FK_60e42f28eed4ec64fca552aefa2"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_6f42c19edc9bbb5a480ecbaa35"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_60e42f28eed4ec64fca552aefa"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_c6b14b7b5fac0607263a73cc22"`);
+        await queryRunner.query(`DROP TABLE "oauth_authorization_code"`);
+
+        await queryRunner.query(`ALTER TABLE "oauth_consent" DROP CONSTRAINT "FK_38672fe298b57f68fef518a2a84"`);
+        await queryRunner.query(`ALTER TABLE "oauth_consent" DROP CONSTRAINT "FK_0da18b1342a187dd23e1f4e929d"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_834f46ed4c43e4d7eef9982953"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_38672fe298b57f68fef518a2a8"`);
+        await queryRunner.query(`DROP TABLE "oauth_consent"`);
+
+        // Tokens issued to OAuth clients would otherwise become first-party sessions
+        await queryRunner.query(`DELETE FROM "refresh_token" WHERE "clientId" IS NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP CONSTRAINT "FK_f6f07caa0ec6df39d56b0aa9f62"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_f6f07caa0ec6df39d56b0aa9f6"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "scopes"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "clientId"`);
+
+        await queryRunner.query(`ALTER TABLE "oauth_client" DROP COLUMN "grantTypes"`);
+        await queryRunner.query(`ALTER TABLE "oauth_client" DROP COLUMN "scopes"`);
+        await queryRunner.query(`ALTER TABLE "oauth_client" DROP COLUMN "redirectUris"`);
+    }
+}
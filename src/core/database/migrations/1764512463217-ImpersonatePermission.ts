@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ImpersonatePermission1764512463217 implements MigrationInterface {
+    name = 'ImpersonatePermission1764512463217';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `INSERT INTO "permission" ("name", "description") VALUES ('users:impersonate', 'Act as another user for support')`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "role_permissions" ("roleId", "permissionId") SELECT "role"."id", "permission"."id" FROM "role" CROSS JOIN "permission" WHERE "role"."name" = 'admin' AND "permission"."name" = 'users:impersonate'`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "permission" WHERE "name" = 'users:impersonate'`);
+    }
+}
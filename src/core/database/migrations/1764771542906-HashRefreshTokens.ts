@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class HashRefreshTokens1764771542906 implements MigrationInterface {
+    name = 'HashRefreshTokens1764771542906';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Plaintext tokens cannot be re-hashed with the application key in SQL, so every session is ended
+        await queryRunner.query(`UPDATE "user_session" SET "revokedAt" = now() WHERE "revokedAt" IS NULL`);
+        await queryRunner.query(`DELETE FROM "refresh_token"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "token"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" ADD "tokenHash" character varying NOT NULL`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_204f27bcee2b705b8230beaf41" ON "refresh_token" ("tokenHash") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DELETE FROM "refresh_token"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_204f27bcee2b705b8230beaf41"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" DROP COLUMN "tokenHash"`);
+        await queryRunner.query(`ALTER TABLE "refresh_token" ADD "token" text NOT NULL`);
+    }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class KnownDeviceTable1765028137452 implements MigrationInterface {
+    name = 'KnownDeviceTable1765028137452';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "known_device" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "fingerprint" character varying NOT NULL, "deviceName" character varying NOT NULL, "firstSeenAt" TIMESTAMP NOT NULL DEFAULT now(), "lastSeenAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_171dbcb4a77c6a7266851eaed2d" PRIMARY KEY ("id"))`,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_4eefe6be7824647195fad7b9c3" ON "known_device" ("userId", "fingerprint") `,
+        );
+        await queryRunner.query(
+            `ALTER TABLE "known_device" ADD CONSTRAINT "FK_c40dd1afb094bec92a114057aa6" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "known_device" DROP CONSTRAINT "FK_c40dd1afb094bec92a114057aa6"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_4eefe6be7824647195fad7b9c3"`);
+        await queryRunner.query(`DROP TABLE "known_device"`);
+    }
+}
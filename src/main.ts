@@ -33,8 +33,8 @@ async function bootstrap(): Promise<void> {
         origin: configService.get('frontend.url'),
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-        allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'x-request-id', 'X-Request-ID'],
-        exposedHeaders: ['X-Total-Count'],
+        allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'x-request-id', 'X-Request-ID', 'X-CSRF-Token'],
+        exposedHeaders: ['X-Total-Count', 'X-CSRF-Token'],
         maxAge: 86400, // Cache preflight for 24 hours
     });
 
@@ -58,6 +58,14 @@ async function bootstrap(): Promise<void> {
                 },
                 'JWT-auth',
             )
+            .addBasicAuth(
+                {
+                    type: 'http',
+                    scheme: 'basic',
+                    description: 'OAuth client ID and secret',
+                },
+                'client-auth',
+            )
             .build();
 
         const document = SwaggerModule.createDocument(app, config);
@@ -4,6 +4,9 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagg
 import { DashboardService } from './dashboard.service';
 import { DashboardStatsDto } from './dto/dashboard-stats.dto';
 import { RateLimitGuard } from '../../shared/guards/rate-limit.guard';
+import { PermissionsGuard } from '../../auth/guards/permissions.guard';
+import { RequirePermissions } from '../../auth/decorators/require-permissions.decorator';
+import { Permissions } from '../../auth/constants/permissions';
 
 @ApiTags('dashboard')
 @Controller('dashboard')
@@ -11,7 +14,7 @@ class DashboardController {
     constructor(private readonly dashboardService: DashboardService) {}
 
     @Get('stats')
-    @UseGuards(AuthGuard('jwt'), RateLimitGuard)
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), RateLimitGuard)
     @ApiBearerAuth('JWT-auth')
     @ApiOperation({ summary: 'Get dashboard statistics' })
     @ApiResponse({
@@ -26,14 +29,16 @@ class DashboardController {
     }
 
     @Get('cache/clear')
-    @UseGuards(AuthGuard('jwt'))
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.DASHBOARD_MANAGE)
     public async clearCache(): Promise<{ message: string }> {
         this.dashboardService.clearCache();
         return { message: 'Dashboard cache cleared successfully' };
     }
 
     @Get('cache/info')
-    @UseGuards(AuthGuard('jwt'))
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.DASHBOARD_MANAGE)
     public async getCacheInfo(): Promise<{ size: number; keys: string[] }> {
         return this.dashboardService.getCacheInfo();
     }
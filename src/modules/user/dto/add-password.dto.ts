@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+class AddPasswordDto {
+    @IsString()
+    @IsNotEmpty()
+    newPassword: string;
+}
+
+export { AddPasswordDto };
@@ -1,3 +1,5 @@
+export { AddPasswordDto } from './add-password.dto';
 export { CreateUserDto } from './create-user.dto';
+export { UpdatePasswordDto } from './update-password.dto';
 export { UpdateUserDto } from './update-user.dto';
 export { UserWithoutPasswordDto } from './user-without-password.dto';
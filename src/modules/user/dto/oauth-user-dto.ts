@@ -1,6 +1,14 @@
 import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
 
 class OAuthUserDto {
+    @IsString()
+    @IsNotEmpty()
+    provider: string;
+
+    @IsString()
+    @IsNotEmpty()
+    providerId: string;
+
     @IsNotEmpty()
     accessToken: string;
 
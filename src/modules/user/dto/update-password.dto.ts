@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+class UpdatePasswordDto {
+    @IsString()
+    @IsNotEmpty()
+    currentPassword: string;
+
+    @IsString()
+    @IsNotEmpty()
+    newPassword: string;
+}
+
+export { UpdatePasswordDto };
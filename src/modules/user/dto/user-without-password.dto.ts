@@ -24,6 +24,9 @@ class UserWithoutPasswordDto {
     @Expose()
     joinedDate?: Date;
 
+    @Expose()
+    emailVerifiedAt?: Date | null;
+
     constructor(userEntity: Partial<User>) {
         Object.assign(this, userEntity);
     }
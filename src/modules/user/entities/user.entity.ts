@@ -1,4 +1,5 @@
-import { Entity, Column, PrimaryGeneratedColumn } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, ManyToMany, JoinTable } from 'typeorm';
+import { Role } from '../../../auth/entities/role.entity';
 
 @Entity()
 class User {
@@ -28,6 +29,32 @@ class User {
 
     @Column({ type: 'text', nullable: true })
     bio: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    emailVerifiedAt: Date | null;
+
+    /**
+     * Consecutive failed password logins since the last successful one.
+     */
+    @Column({ default: 0 })
+    failedLoginAttempts: number;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lastFailedLoginAt: Date | null;
+
+    /**
+     * Password logins are refused until this time after too many failed attempts.
+     */
+    @Column({ type: 'timestamp', nullable: true })
+    lockedUntil: Date | null;
+
+    @ManyToMany(() => Role, { eager: true })
+    @JoinTable({
+        name: 'user_roles',
+        joinColumn: { name: 'userId' },
+        inverseJoinColumn: { name: 'roleId' },
+    })
+    roles: Role[];
 }
 
 export { User };
@@ -2,9 +2,14 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { UserService } from '../user.service';
 import { User } from '../entities/user.entity';
-import { NotFoundException } from '@nestjs/common';
-import { UserCreationException } from 'src/shared/exceptions/common.exception';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
+import { ConfigService } from '@nestjs/config';
+import { HttpException, UnauthorizedException } from '@nestjs/common';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { SecurityEventService } from 'src/auth/services/security-event.service';
+import { PasswordPolicyService } from 'src/auth/services/password-policy.service';
+import { LdapService } from 'src/auth/services/ldap.service';
 
 jest.mock('bcrypt');
 const mockedBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
@@ -12,6 +17,18 @@ const mockedBcrypt = bcrypt as jest.Mocked<typeof bcrypt>;
 describe('UserService', () => {
     let userService: UserService;
     let mockRepository: any;
+    let mockConfigService: { get: jest.Mock };
+    let mockNotificationService: { sendAccountLocked: jest.Mock };
+    let mockSecurityEventService: { record: jest.Mock };
+    let mockPasswordPolicyService: { validate: jest.Mock };
+    let mockLdapService: {
+        isEnabled: jest.Mock;
+        resolveBindName: jest.Mock;
+        findLinkedUserId: jest.Mock;
+        authenticate: jest.Mock;
+        recordLogin: jest.Mock;
+        mapGroupRoles: jest.Mock;
+    };
 
     beforeEach(async () => {
         mockRepository = {
@@ -20,6 +37,32 @@ describe('UserService', () => {
             create: jest.fn(),
             delete: jest.fn(),
             find: jest.fn(),
+            update: jest.fn(),
+        };
+
+        mockConfigService = {
+            get: jest.fn(),
+        };
+
+        mockNotificationService = {
+            sendAccountLocked: jest.fn(),
+        };
+
+        mockSecurityEventService = {
+            record: jest.fn(),
+        };
+
+        mockPasswordPolicyService = {
+            validate: jest.fn(),
+        };
+
+        mockLdapService = {
+            isEnabled: jest.fn().mockReturnValue(false),
+            resolveBindName: jest.fn(),
+            findLinkedUserId: jest.fn(),
+            authenticate: jest.fn(),
+            recordLogin: jest.fn(),
+            mapGroupRoles: jest.fn(async (roles) => roles),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -29,6 +72,26 @@ describe('UserService', () => {
                     provide: getRepositoryToken(User),
                     useValue: mockRepository,
                 },
+                {
+                    provide: ConfigService,
+                    useValue: mockConfigService,
+                },
+                {
+                    provide: NotificationService,
+                    useValue: mockNotificationService,
+                },
+                {
+                    provide: SecurityEventService,
+                    useValue: mockSecurityEventService,
+                },
+                {
+                    provide: PasswordPolicyService,
+                    useValue: mockPasswordPolicyService,
+                },
+                {
+                    provide: LdapService,
+                    useValue: mockLdapService,
+                },
             ],
         }).compile();
 
@@ -100,66 +163,387 @@ describe('UserService', () => {
         });
     });
 
-    describe('createOAuthUser', () => {
-        it('should create Oauth user successfully', async () => {
+    describe('password policy', () => {
+        it('should check the password of a new user against the policy before saving', async () => {
             // Arrange
-            const oauthuserDto = {
-                email: 'test@test.com',
-                firstName: 'John',
-                lastName: 'Doe',
-                accessToken: 'fake-oauth-token',
-                picture: 'https://example.com/profile.jpg',
-            };
+            const createUserDto = { email: 'jane@test.com', password: 'jane', firstName: 'Jane', lastName: 'Doe' };
+            mockPasswordPolicyService.validate.mockImplementation(() => {
+                throw new BadRequestException(['password must be at least 10 characters long']);
+            });
 
-            const createdUser = {
-                ...oauthuserDto,
-                hashedPassword: null,
-                isOauth: true,
-            };
-            const savedUser = { id: 1, ...createdUser };
+            // Act & Assert
+            await expect(userService.createUser(createUserDto)).rejects.toThrow(BadRequestException);
+            expect(mockPasswordPolicyService.validate).toHaveBeenCalledWith('jane', createUserDto);
+            expect(mockRepository.save).not.toHaveBeenCalled();
+        });
 
-            mockRepository.create.mockReturnValue(createdUser);
-            mockRepository.save.mockResolvedValue(savedUser);
+        it('should check a changed password against the policy with the account details', async () => {
+            // Arrange
+            const user = { id: 1, email: 'jane@test.com', firstName: 'Jane', hashedPassword: 'hashedPassword123' };
+            mockRepository.findOne.mockResolvedValue(user);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
 
             // Act
-            const result = await userService.createOAuthUser(oauthuserDto);
+            await userService.updatePassword(1, 'currentPassword', 'Correct-Horse-Battery');
 
             // Assert
-            expect(result).toEqual(savedUser);
-            expect(mockRepository.create).toHaveBeenCalledWith({
-                ...oauthuserDto,
-                hashedPassword: null,
-                isOauth: true,
-            });
-            expect(mockRepository.save).toHaveBeenCalledWith(createdUser);
+            expect(mockPasswordPolicyService.validate).toHaveBeenCalledWith('Correct-Horse-Battery', user, 'newPassword');
+            expect(mockRepository.update).toHaveBeenCalledWith(1, expect.objectContaining({ failedLoginAttempts: 0 }));
         });
+    });
+
+    describe('validateUserCredentials', () => {
+        const storedUser = {
+            id: 1,
+            email: 'test@test.com',
+            hashedPassword: 'hashedPassword123',
+            isActive: true,
+            emailVerifiedAt: null,
+            failedLoginAttempts: 0,
+            lastFailedLoginAt: null,
+            lockedUntil: null,
+        };
+
+        const withConfig =
+            (config: Record<string, any>) =>
+            (key: string, defaultValue?: any): any =>
+                config[key] ?? defaultValue;
 
-        it('should throw UserCreationexception when save fails', async () => {
+        it('should accept unverified accounts when verification is not required', async () => {
             // Arrange
-            const oauthuserDto = {
-                email: 'test@test.com',
-                firstName: 'John',
+            mockRepository.findOne.mockResolvedValue(storedUser);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+            mockConfigService.get.mockImplementation(withConfig({ 'auth.requireEmailVerification': false }));
+
+            // Act
+            const result = await userService.validateUserCredentials('test@test.com', 'testPassword');
+
+            // Assert
+            expect(result).toEqual(storedUser);
+        });
+
+        it('should refuse unverified accounts when verification is required', async () => {
+            // Arrange
+            mockRepository.findOne.mockResolvedValue(storedUser);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+            mockConfigService.get.mockImplementation(withConfig({ 'auth.requireEmailVerification': true }));
+
+            // Act & Assert
+            await expect(userService.validateUserCredentials('test@test.com', 'testPassword')).rejects.toThrow(
+                UnauthorizedException,
+            );
+            await expect(userService.validateUserCredentials('test@test.com', 'testPassword')).rejects.toThrow(
+                'Email address is not verified',
+            );
+        });
+
+        it('should report invalid credentials before the verification state', async () => {
+            // Arrange
+            mockRepository.findOne.mockResolvedValue(storedUser);
+            (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+            mockConfigService.get.mockImplementation(withConfig({ 'auth.requireEmailVerification': true }));
+
+            // Act & Assert
+            await expect(userService.validateUserCredentials('test@test.com', 'wrongPassword')).rejects.toThrow(
+                'Invalid credentials',
+            );
+        });
+
+        describe('failed login protection', () => {
+            beforeEach(() => {
+                mockConfigService.get.mockImplementation(withConfig({}));
+            });
+
+            it('should count a failed attempt against the account', async () => {
+                // Arrange
+                mockRepository.findOne.mockResolvedValue({ ...storedUser, failedLoginAttempts: 1 });
+                (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+                // Act & Assert
+                await expect(userService.validateUserCredentials('test@test.com', 'wrong')).rejects.toThrow(
+                    UnauthorizedException,
+                );
+                expect(mockRepository.update).toHaveBeenCalledWith(1, {
+                    failedLoginAttempts: 2,
+                    lastFailedLoginAt: expect.any(Date),
+                    lockedUntil: null,
+                });
+            });
+
+            it('should make the next attempt wait after repeated failures', async () => {
+                // Arrange
+                mockRepository.findOne.mockResolvedValue({
+                    ...storedUser,
+                    failedLoginAttempts: 5,
+                    lastFailedLoginAt: new Date(),
+                });
+
+                // Act & Assert
+                await expect(userService.validateUserCredentials('test@test.com', 'testPassword')).rejects.toThrow(
+                    'Too many failed login attempts',
+                );
+                expect(bcrypt.compare).not.toHaveBeenCalled();
+            });
+
+            it('should allow another attempt once the delay has passed', async () => {
+                mockRepository.findOne.mockResolvedValue({
+                    ...storedUser,
+                    failedLoginAttempts: 4,
+                    lastFailedLoginAt: new Date(Date.now() - 3000),
+                });
+                (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+                await userService.validateUserCredentials('test@test.com', 'testPassword');
+
+                expect(mockRepository.update).toHaveBeenCalledWith(1, {
+                    failedLoginAttempts: 0,
+                    lastFailedLoginAt: null,
+                    lockedUntil: null,
+                });
+            });
+
+            it('should lock the account and notify the owner at the threshold', async () => {
+                // Arrange
+                const user = { ...storedUser, failedLoginAttempts: 9, lastFailedLoginAt: new Date(Date.now() - 120000) };
+                mockRepository.findOne.mockResolvedValue(user);
+                (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+                // Act
+                await expect(userService.validateUserCredentials('test@test.com', 'wrong')).rejects.toThrow(
+                    'Invalid credentials',
+                );
+
+                // Assert
+                const update = mockRepository.update.mock.calls[0][1];
+                expect(update.failedLoginAttempts).toBe(10);
+                expect(update.lockedUntil.getTime()).toBeGreaterThan(Date.now() + 14 * 60 * 1000);
+                expect(mockNotificationService.sendAccountLocked).toHaveBeenCalledWith(user, update.lockedUntil);
+                expect(mockSecurityEventService.record).toHaveBeenCalledWith('account_locked', 1, {
+                    failedLoginAttempts: 10,
+                    lockedUntil: update.lockedUntil,
+                });
+            });
+
+            it('should refuse even the correct password while locked', async () => {
+                mockRepository.findOne.mockResolvedValue({
+                    ...storedUser,
+                    failedLoginAttempts: 10,
+                    lockedUntil: new Date(Date.now() + 60000),
+                });
+
+                const attempt = userService.validateUserCredentials('test@test.com', 'testPassword');
+
+                await expect(attempt).rejects.toThrow(HttpException);
+                await expect(attempt).rejects.toThrow('Account is temporarily locked');
+                expect(bcrypt.compare).not.toHaveBeenCalled();
+            });
+
+            it('should start counting again after the lock expires', async () => {
+                mockRepository.findOne.mockResolvedValue({
+                    ...storedUser,
+                    failedLoginAttempts: 10,
+                    lastFailedLoginAt: new Date(Date.now() - 16 * 60 * 1000),
+                    lockedUntil: new Date(Date.now() - 1000),
+                });
+                (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+                await expect(userService.validateUserCredentials('test@test.com', 'wrong')).rejects.toThrow(
+                    'Invalid credentials',
+                );
+
+                expect(mockRepository.update).toHaveBeenCalledWith(1, {
+                    failedLoginAttempts: 1,
+                    lastFailedLoginAt: expect.any(Date),
+                    lockedUntil: null,
+                });
+            });
+        });
+
+        describe('directory logins', () => {
+            const profile = {
+                dn: 'uid=jdoe,ou=people,dc=example,dc=com',
+                email: 'jdoe@example.com',
+                firstName: 'Jane',
                 lastName: 'Doe',
-                accessToken: 'fake-oauth',
-                picture: 'https://example.com/profile.jpg',
+                groups: ['cn=admins,ou=groups,dc=example,dc=com'],
             };
 
-            const createdUser = {
-                ...oauthuserDto,
-                hashedPassword: null,
-                isOauth: true,
-            };
+            beforeEach(() => {
+                mockConfigService.get.mockImplementation(withConfig({}));
+                mockLdapService.isEnabled.mockReturnValue(true);
+                mockLdapService.resolveBindName.mockResolvedValue(profile.dn);
+                mockLdapService.findLinkedUserId.mockResolvedValue(null);
+                mockRepository.create.mockImplementation((user: Partial<User>) => user);
+                mockRepository.save.mockImplementation(async (user: Partial<User>) => ({ id: 7, ...user }));
+            });
 
-            mockRepository.create.mockReturnValue(createdUser);
-            mockRepository.save.mockResolvedValue(null);
+            it('should provision and link a user on their first directory login', async () => {
+                // Arrange
+                const adminRole = { id: 2, name: 'admin' };
+                mockRepository.findOne.mockResolvedValue(null);
+                mockLdapService.authenticate.mockResolvedValue(profile);
+                mockLdapService.mapGroupRoles.mockResolvedValue([adminRole]);
 
-            // Act
-            await expect(userService.createOAuthUser(oauthuserDto)).rejects.toThrow(UserCreationException);
-            await expect(userService.createOAuthUser(oauthuserDto)).rejects.toThrow('Failed to create OAuth user');
+                // Act
+                const result = await userService.validateUserCredentials('jdoe', 'directoryPassword');
 
-            // Assert
-            expect(mockRepository.create).toHaveBeenCalled();
-            expect(mockRepository.save).toHaveBeenCalledWith(createdUser);
+                // Assert
+                expect(mockLdapService.authenticate).toHaveBeenCalledWith('jdoe', 'directoryPassword');
+                expect(mockRepository.findOne).toHaveBeenLastCalledWith({ where: { email: 'jdoe@example.com' } });
+                expect(mockLdapService.mapGroupRoles).toHaveBeenCalledWith([], profile.groups);
+                expect(result).toMatchObject({
+                    id: 7,
+                    email: 'jdoe@example.com',
+                    firstName: 'Jane',
+                    lastName: 'Doe',
+                    hashedPassword: null,
+                    emailVerifiedAt: expect.any(Date),
+                    roles: [adminRole],
+                });
+                expect(mockLdapService.recordLogin).toHaveBeenCalledWith(7, profile.dn, 'jdoe@example.com');
+                expect(bcrypt.compare).not.toHaveBeenCalled();
+            });
+
+            it('should sync the names of the account linked to the entry', async () => {
+                // Arrange
+                const existing = { ...storedUser, hashedPassword: null, firstName: 'Old', lastName: 'Name', roles: [] };
+                mockRepository.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce(existing);
+                mockLdapService.findLinkedUserId.mockResolvedValue(1);
+                mockLdapService.authenticate.mockResolvedValue(profile);
+
+                // Act
+                const result = await userService.validateUserCredentials('jdoe', 'directoryPassword');
+
+                // Assert
+                expect(mockLdapService.findLinkedUserId).toHaveBeenCalledWith(profile.dn);
+                expect(mockRepository.create).not.toHaveBeenCalled();
+                expect(result).toMatchObject({ id: 1, email: 'test@test.com', firstName: 'Jane', lastName: 'Doe' });
+                expect(mockLdapService.recordLogin).toHaveBeenCalledWith(1, profile.dn, 'test@test.com');
+            });
+
+            it('should count a rejected directory password against the linked account', async () => {
+                // Arrange
+                mockRepository.findOne
+                    .mockResolvedValueOnce(null)
+                    .mockResolvedValueOnce({ ...storedUser, hashedPassword: null });
+                mockLdapService.findLinkedUserId.mockResolvedValue(1);
+                mockLdapService.authenticate.mockResolvedValue(null);
+
+                // Act & Assert
+                await expect(userService.validateUserCredentials('jdoe', 'wrong')).rejects.toThrow('Invalid credentials');
+                expect(mockRepository.update).toHaveBeenCalledWith(1, {
+                    failedLoginAttempts: 1,
+                    lastFailedLoginAt: expect.any(Date),
+                    lockedUntil: null,
+                });
+                expect(mockRepository.save).not.toHaveBeenCalled();
+            });
+
+            it('should refuse a locked account before binding, even when signing in with a username', async () => {
+                // Arrange
+                const lockedUser = { ...storedUser, hashedPassword: null, lockedUntil: new Date(Date.now() + 60_000) };
+                mockRepository.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce(lockedUser);
+                mockLdapService.findLinkedUserId.mockResolvedValue(1);
+
+                // Act & Assert
+                await expect(userService.validateUserCredentials('jdoe', 'directoryPassword')).rejects.toThrow(
+                    'Account is temporarily locked',
+                );
+                expect(mockLdapService.authenticate).not.toHaveBeenCalled();
+            });
+
+            it('should refuse an unknown directory user without binding', async () => {
+                // Arrange
+                mockRepository.findOne.mockResolvedValue(null);
+                mockLdapService.resolveBindName.mockResolvedValue(null);
+
+                // Act & Assert
+                await expect(userService.validateUserCredentials('nobody', 'directoryPassword')).rejects.toThrow(
+                    'Invalid credentials',
+                );
+                expect(mockLdapService.authenticate).not.toHaveBeenCalled();
+            });
+
+            it('should keep checking local passwords locally', async () => {
+                // Arrange
+                mockRepository.findOne.mockResolvedValue(storedUser);
+                (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+                // Act
+                await userService.validateUserCredentials('test@test.com', 'testPassword');
+
+                // Assert
+                expect(mockLdapService.authenticate).not.toHaveBeenCalled();
+            });
+
+            it.each([
+                ['a local account', storedUser],
+                ['an account without a password', { ...storedUser, hashedPassword: null, isOauth: true }],
+            ])('should not let a directory entry take over %s with the same address', async (_, account) => {
+                // Arrange
+                mockRepository.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce(account);
+                mockLdapService.authenticate.mockResolvedValue({ ...profile, email: 'test@test.com' });
+
+                // Act & Assert
+                await expect(userService.validateUserCredentials('jdoe', 'directoryPassword')).rejects.toThrow(
+                    'Invalid credentials',
+                );
+                expect(mockRepository.save).not.toHaveBeenCalled();
+                expect(mockLdapService.recordLogin).not.toHaveBeenCalled();
+            });
+
+            it('should refuse inactive accounts before asking the directory', async () => {
+                // Arrange
+                mockRepository.findOne.mockResolvedValue({ ...storedUser, hashedPassword: null, isActive: false });
+
+                // Act & Assert
+                await expect(userService.validateUserCredentials('test@test.com', 'directoryPassword')).rejects.toThrow(
+                    'Account is inactive',
+                );
+                expect(mockLdapService.authenticate).not.toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe('updateUser', () => {
+        const verifiedUser = { id: 1, email: 'test@test.com', emailVerifiedAt: new Date('2025-01-01') };
+
+        beforeEach(() => {
+            mockRepository.findOne.mockResolvedValue(verifiedUser);
+            mockRepository.save.mockImplementation(async (user: Partial<User>) => user);
+        });
+
+        it('should clear the verification when the email changes', async () => {
+            const result = await userService.updateUser(1, { email: 'new@test.com' });
+
+            expect(result).toMatchObject({ email: 'new@test.com', emailVerifiedAt: null });
+        });
+
+        it('should keep the verification when only the case of the email changes', async () => {
+            const result = await userService.updateUser(1, { email: 'Test@Test.com', bio: 'Hello' });
+
+            expect(result.emailVerifiedAt).toEqual(verifiedUser.emailVerifiedAt);
+        });
+    });
+
+    describe('unlockUser', () => {
+        it('should clear the lockout and record who lifted it', async () => {
+            mockRepository.findOne.mockResolvedValue({ id: 5 });
+
+            await userService.unlockUser(5, 1);
+
+            expect(mockRepository.update).toHaveBeenCalledWith(5, {
+                failedLoginAttempts: 0,
+                lastFailedLoginAt: null,
+                lockedUntil: null,
+            });
+            expect(mockSecurityEventService.record).toHaveBeenCalledWith('account_unlocked', 5, { unlockedBy: 1 });
+        });
+
+        it('should throw NotFoundException for unknown users', async () => {
+            mockRepository.findOne.mockResolvedValue(null);
+
+            await expect(userService.unlockUser(404, 1)).rejects.toThrow(NotFoundException);
         });
     });
 });
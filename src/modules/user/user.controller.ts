@@ -10,14 +10,31 @@ import {
     ClassSerializerInterceptor,
     UseGuards,
     Req,
+    Query,
+    HttpCode,
+    HttpStatus,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
 import { UserService } from './user.service';
-import { CreateUserDto, UpdateUserDto, UserWithoutPasswordDto } from './dto';
+import { User } from './entities/user.entity';
+import { AddPasswordDto, CreateUserDto, UpdatePasswordDto, UpdateUserDto, UserWithoutPasswordDto } from './dto';
 import { AuthService } from 'src/auth/auth.service';
 import { JwtPayloadDto } from 'src/auth/dto/jwt-payload.dto';
-import { JwtPayload } from 'src/auth/interfaces';
+import { AuthenticatedRequest, JwtPayload } from 'src/auth/interfaces';
+import { RoleService } from 'src/auth/services/role.service';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guard';
+import { NoImpersonationGuard } from 'src/auth/guards/no-impersonation.guard';
+import { RequirePermissions } from 'src/auth/decorators/require-permissions.decorator';
+import { RecentAuthGuard } from 'src/auth/guards/recent-auth.guard';
+import { RequireRecentAuth } from 'src/auth/decorators/require-recent-auth.decorator';
+import { RECENT_AUTH_MAX_AGE_SECONDS } from 'src/auth/constants/recent-auth';
+import { assertRecentAuth } from 'src/auth/utils/recent-auth';
+import { Permissions } from 'src/auth/constants/permissions';
+import { EmailVerificationService } from 'src/auth/services/email-verification.service';
+import { SecurityEventService } from 'src/auth/services/security-event.service';
+import { SecurityEventPageDto, SecurityEventQueryDto } from 'src/auth/dto/security-event.dto';
+import { RateLimitGuard } from 'src/shared/guards/rate-limit.guard';
 
 @ApiTags('users')
 @UseInterceptors(ClassSerializerInterceptor)
@@ -26,22 +43,29 @@ class UserController {
     constructor(
         private readonly userService: UserService,
         private readonly authService: AuthService,
+        private readonly roleService: RoleService,
+        private readonly emailVerificationService: EmailVerificationService,
+        private readonly securityEventService: SecurityEventService,
     ) {}
 
     @Get()
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.USERS_READ)
+    @ApiBearerAuth('JWT-auth')
     @ApiOperation({ summary: 'Get all users' })
     @ApiResponse({
         status: 200,
         description: 'List of all users',
         type: [UserWithoutPasswordDto],
     })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
     public async getAllUsers(): Promise<UserWithoutPasswordDto[]> {
         const users = await this.userService.getAllUsers();
         return users.map((user) => new UserWithoutPasswordDto(user));
     }
 
     @Get('profile')
-    @UseGuards(AuthGuard('jwt'))
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']))
     @ApiBearerAuth('JWT-auth')
     @ApiOperation({ summary: 'Get current user profile' })
     @ApiResponse({
@@ -55,7 +79,28 @@ class UserController {
         return new UserWithoutPasswordDto(user);
     }
 
+    @Get('profile/security-events')
+    @UseGuards(AuthGuard('jwt'))
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'List the login history and other security events of the current user' })
+    @ApiResponse({ status: 200, description: 'Security events, newest first', type: SecurityEventPageDto })
+    @ApiResponse({ status: 401, description: 'Unauthorized' })
+    public async getSecurityEvents(
+        @Req() req: AuthenticatedRequest,
+        @Query() query: SecurityEventQueryDto,
+    ): Promise<SecurityEventPageDto> {
+        const [events, total] = await this.securityEventService.getUserEvents(req.user.userId, query.page, query.limit);
+        return new SecurityEventPageDto(events, total, query.page, query.limit);
+    }
+
     @Get(':id')
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.USERS_READ)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Get a user' })
+    @ApiResponse({ status: 200, description: 'The user', type: UserWithoutPasswordDto })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    @ApiResponse({ status: 404, description: 'User not found' })
     public async getUser(@Param('id') id: string): Promise<UserWithoutPasswordDto> {
         const userId = Number(id);
         const user = await this.userService.getUserById(userId);
@@ -67,17 +112,31 @@ class UserController {
     @ApiBody({ type: CreateUserDto })
     @ApiResponse({
         status: 201,
-        description: 'User created successfully',
+        description: 'User created successfully; no token is issued while email verification is required',
         type: JwtPayloadDto,
     })
     @ApiResponse({ status: 400, description: 'Bad request' })
-    public async createUser(@Body() user: CreateUserDto): Promise<JwtPayload> {
+    public async createUser(@Body() user: CreateUserDto): Promise<JwtPayload | { message: string }> {
         const createdUser = await this.userService.createUser(user);
+        await this.emailVerificationService.sendVerification(createdUser);
+
+        if (this.emailVerificationService.isVerificationRequired()) {
+            return { message: 'Account created. Please verify your email address before logging in' };
+        }
+
         const token = this.authService.createTokenForUser(createdUser);
         return token;
     }
 
     @Post('validate')
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard, RateLimitGuard)
+    @RequirePermissions(Permissions.USERS_READ)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Check the credentials of a user' })
+    @ApiResponse({ status: 201, description: 'The credentials are valid', type: UserWithoutPasswordDto })
+    @ApiResponse({ status: 401, description: 'Invalid credentials' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    @ApiResponse({ status: 429, description: 'Too many requests, or the account is locked' })
     public async validateUserCredentials(
         @Body() user: { email: string; password: string },
     ): Promise<UserWithoutPasswordDto> {
@@ -86,35 +145,129 @@ class UserController {
     }
 
     @Put('profile')
-    @UseGuards(AuthGuard('jwt'))
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard)
+    @ApiResponse({ status: 403, description: 'Changing the email requires a recent reauthentication' })
     public async updateProfile(@Req() req: any, @Body() user: UpdateUserDto): Promise<UserWithoutPasswordDto> {
+        const currentUser = await this.userService.getUserById(req.user.userId);
+
+        // The email receives password resets, so changing it needs the same proof as changing the password
+        if (user.email !== undefined && user.email.toLowerCase() !== currentUser.email.toLowerCase()) {
+            assertRecentAuth(req.user, RECENT_AUTH_MAX_AGE_SECONDS);
+        }
+
         const updatedUser = await this.userService.updateUser(req.user.userId, user);
+        await this.sendVerificationOnEmailChange(currentUser, updatedUser);
+
         return new UserWithoutPasswordDto(updatedUser);
     }
 
     @Put('password')
-    @UseGuards(AuthGuard('jwt'))
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Change the password of the current user' })
+    @ApiBody({ type: UpdatePasswordDto })
+    @ApiResponse({ status: 200, description: 'Password updated' })
+    @ApiResponse({ status: 400, description: 'The new password violates the password policy' })
+    @ApiResponse({ status: 401, description: 'Current password is invalid' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
     public async updatePassword(
         @Req() req: any,
-        @Body() passwordData: { currentPassword: string; newPassword: string },
+        @Body() updatePasswordDto: UpdatePasswordDto,
     ): Promise<{ message: string }> {
-        await this.userService.updatePassword(req.user.userId, passwordData.currentPassword, passwordData.newPassword);
+        await this.userService.updatePassword(
+            req.user.userId,
+            updatePasswordDto.currentPassword,
+            updatePasswordDto.newPassword,
+        );
         return { message: 'Password updated successfully' };
     }
 
+    @Post('password')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(AuthGuard('jwt'), NoImpersonationGuard, RecentAuthGuard)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Add a password to an account that signs in with linked identities or passkeys' })
+    @ApiBody({ type: AddPasswordDto })
+    @ApiResponse({ status: 200, description: 'Password added' })
+    @ApiResponse({ status: 400, description: 'The account already has a password' })
+    @ApiResponse({ status: 403, description: 'Recent reauthentication required' })
+    public async addPassword(
+        @Req() req: AuthenticatedRequest,
+        @Body() addPasswordDto: AddPasswordDto,
+    ): Promise<{ message: string }> {
+        await this.userService.addPassword(req.user.userId, addPasswordDto.newPassword);
+        return { message: 'Password added successfully' };
+    }
+
+    @Put(':id/roles/:role')
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.ROLES_MANAGE)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Grant a role to a user' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    @ApiResponse({ status: 404, description: 'User or role not found' })
+    public async assignRole(@Param('id') id: string, @Param('role') role: string): Promise<{ roles: string[] }> {
+        const updatedUser = await this.roleService.assignRole(Number(id), role);
+        return { roles: this.roleService.getRoleNames(updatedUser) };
+    }
+
+    @Delete(':id/roles/:role')
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.ROLES_MANAGE)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Remove a role from a user' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    public async removeRole(@Param('id') id: string, @Param('role') role: string): Promise<{ roles: string[] }> {
+        const updatedUser = await this.roleService.removeRole(Number(id), role);
+        return { roles: this.roleService.getRoleNames(updatedUser) };
+    }
+
+    @Post(':id/unlock')
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.USERS_WRITE)
+    @ApiBearerAuth('JWT-auth')
+    @ApiOperation({ summary: 'Lift a failed-login lockout' })
+    @ApiResponse({ status: 200, description: 'Account unlocked' })
+    @ApiResponse({ status: 403, description: 'Insufficient permissions' })
+    @ApiResponse({ status: 404, description: 'User not found' })
+    public async unlockUser(@Req() req: AuthenticatedRequest, @Param('id') id: string): Promise<{ message: string }> {
+        await this.userService.unlockUser(Number(id), req.user.userId);
+        return { message: 'Account unlocked' };
+    }
+
     @Put(':id')
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard)
+    @RequirePermissions(Permissions.USERS_WRITE)
+    @ApiBearerAuth('JWT-auth')
     public async updateUser(@Param('id') id: string, @Body() user: UpdateUserDto): Promise<UserWithoutPasswordDto> {
         const userId = Number(id);
+        const currentUser = await this.userService.getUserById(userId);
         const updatedUser = await this.userService.updateUser(userId, user);
+        await this.sendVerificationOnEmailChange(currentUser, updatedUser);
+
         return new UserWithoutPasswordDto(updatedUser);
     }
 
     @Delete(':id')
+    @UseGuards(AuthGuard(['jwt', 'personal-access-token', 'oauth-access-token']), PermissionsGuard, RecentAuthGuard)
+    @RequirePermissions(Permissions.USERS_DELETE)
+    @RequireRecentAuth(RECENT_AUTH_MAX_AGE_SECONDS)
+    @ApiBearerAuth('JWT-auth')
+    @ApiResponse({ status: 403, description: 'Insufficient permissions, or a recent reauthentication is required' })
     public async deleteUser(@Param('id') id: string): Promise<{ message: string }> {
         const userId = Number(id);
         await this.userService.deleteUser(userId);
         return { message: `User with ${id} successfully deleted` };
     }
+
+    private async sendVerificationOnEmailChange(previousUser: User, updatedUser: User): Promise<void> {
+        if (updatedUser.email.toLowerCase() !== previousUser.email.toLowerCase()) {
+            await this.emailVerificationService.sendVerification(updatedUser);
+        }
+    }
 }
 
 export { UserController };
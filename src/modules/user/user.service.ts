@@ -1,17 +1,35 @@
-import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import {
+    BadRequestException,
+    HttpException,
+    HttpStatus,
+    Injectable,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common';
 import { CreateUserDto, UpdateUserDto } from './dto';
 import * as bcrypt from 'bcrypt';
 import { InjectRepository } from '@nestjs/typeorm';
 import { User } from './entities/user.entity';
 import { DeleteResult, Repository } from 'typeorm';
-import { OAuthUserDto } from './dto/oauth-user-dto';
-import { UserCreationException } from 'src/shared/exceptions/common.exception';
+import { ConfigService } from '@nestjs/config';
+import { NotificationService } from 'src/shared/services/notification.service';
+import { SecurityEventService } from 'src/auth/services/security-event.service';
+import { SecurityEventTypes } from 'src/auth/constants/security-events';
+import { PasswordPolicyService } from 'src/auth/services/password-policy.service';
+import { LdapService } from 'src/auth/services/ldap.service';
+
+const MAX_LOGIN_DELAY_SECONDS = 60;
 
 @Injectable()
 class UserService {
     constructor(
         @InjectRepository(User)
         private readonly userRepository: Repository<User>,
+        private readonly configService: ConfigService,
+        private readonly notificationService: NotificationService,
+        private readonly securityEventService: SecurityEventService,
+        private readonly passwordPolicyService: PasswordPolicyService,
+        private readonly ldapService: LdapService,
     ) {}
 
     public async getAllUsers(): Promise<User[]> {
@@ -33,6 +51,7 @@ class UserService {
     }
 
     public async createUser(userInput: CreateUserDto): Promise<User> {
+        this.passwordPolicyService.validate(userInput.password, userInput);
         const hashedPassword = await bcrypt.hash(userInput.password, 10);
 
         const user = this.userRepository.create({
@@ -44,25 +63,23 @@ class UserService {
         return savedUser;
     }
 
-    public async createOAuthUser(userInput: OAuthUserDto): Promise<User> {
-        const user = this.userRepository.create({
-            ...userInput,
-            hashedPassword: null,
-            isOauth: true,
-        });
-
-        const savedUser = await this.userRepository.save(user);
-        if (!savedUser) {
-            throw new UserCreationException('Failed to create OAuth user');
-        }
-
-        return savedUser;
-    }
-
+    /**
+     * Applies a profile update. A new email address has not been confirmed by its owner yet,
+     * so changing it clears the verification of the old one.
+     *
+     * @param userId The ID of the user.
+     * @param userUpdate The fields to change.
+     * @returns The updated user.
+     * @throws NotFoundException if the user does not exist.
+     */
     public async updateUser(userId: number, userUpdate: UpdateUserDto): Promise<User> {
         const existingUser = await this.getUserById(userId);
         const updatedUser = { ...existingUser, ...userUpdate };
 
+        if (userUpdate.email !== undefined && userUpdate.email.toLowerCase() !== existingUser.email.toLowerCase()) {
+            updatedUser.emailVerifiedAt = null;
+        }
+
         return await this.userRepository.save(updatedUser);
     }
 
@@ -75,29 +92,109 @@ class UserService {
         return deletionResponse;
     }
 
+    /**
+     * Checks an email and password pair. Failed attempts are counted per account: after a few
+     * of them each further attempt must wait progressively longer, and reaching the lockout
+     * threshold refuses password logins for a while and notifies the owner.
+     *
+     * When LDAP is configured, logins without a local password are checked against the directory
+     * instead. Unknown users are provisioned on their first login and linked to their directory
+     * entry, and only accounts linked that way ever sign in through the directory.
+     *
+     * @param email The email address of the account, or a directory username.
+     * @param password The plaintext password.
+     * @returns The user if the credentials are valid.
+     * @throws UnauthorizedException if the credentials are invalid or the account is inactive or unverified.
+     * @throws HttpException with status 429 if the account is locked or must wait before the next attempt.
+     * @throws ServiceUnavailableException if the directory cannot be reached.
+     */
     public async validateUserCredentials(email: string, password: string): Promise<User> {
         const user = await this.getUserByEmail(email);
-        if (!user) {
-            throw new UnauthorizedException('Invalid credentials');
+        if (user) {
+            this.assertCanLogIn(user);
         }
 
-        if (!user.isActive) {
-            throw new UnauthorizedException('Account is inactive');
+        if (!user?.hashedPassword && this.ldapService.isEnabled()) {
+            return await this.validateDirectoryCredentials(email, password);
+        }
+
+        if (!user) {
+            throw new UnauthorizedException('Invalid credentials');
         }
 
         const isPasswordValid = await bcrypt.compare(password, user.hashedPassword || '');
         if (!isPasswordValid) {
+            await this.recordFailedLogin(user);
             throw new UnauthorizedException('Invalid credentials');
         }
 
+        if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+            await this.resetFailedLogins(user.id);
+        }
+
+        // Checked after the password so the response does not reveal unverified addresses
+        if (this.configService.get('auth.requireEmailVerification') && !user.emailVerifiedAt) {
+            throw new UnauthorizedException('Email address is not verified');
+        }
+
         return user;
     }
 
+    /**
+     * Checks that an account may sign in at all: it must be active and not locked or waiting
+     * out the delay after failed logins.
+     *
+     * @param user The user signing in.
+     * @throws UnauthorizedException if the account is inactive.
+     * @throws HttpException with status 429 if the account is locked or must wait before the next attempt.
+     */
+    public assertCanLogIn(user: User): void {
+        if (!user.isActive) {
+            throw new UnauthorizedException('Account is inactive');
+        }
+
+        this.assertLoginAllowed(user);
+    }
+
+    /**
+     * Locks an account for the configured lockout period and notifies the owner, such as after
+     * too many wrong second-factor codes.
+     *
+     * @param user The user to lock out.
+     * @param details What led to the lockout, recorded with the security event.
+     * @param changes Further changes to save with the lock, such as the failed login counter.
+     */
+    public async lockAccount(user: User, details: Record<string, any>, changes: Partial<User> = {}): Promise<void> {
+        const lockedUntil = new Date();
+        lockedUntil.setMinutes(lockedUntil.getMinutes() + this.configService.get('auth.loginLockoutMinutes', 15));
+
+        await this.userRepository.update(user.id, { ...changes, lockedUntil });
+        await this.securityEventService.record(SecurityEventTypes.ACCOUNT_LOCKED, user.id, { ...details, lockedUntil });
+        await this.notificationService.sendAccountLocked(user, lockedUntil);
+    }
+
+    /**
+     * Lifts a lockout and clears the failed login counter of a user.
+     *
+     * @param userId The ID of the locked user.
+     * @param unlockedBy The ID of the administrator lifting the lock.
+     * @throws NotFoundException if the user does not exist.
+     */
+    public async unlockUser(userId: number, unlockedBy: number): Promise<void> {
+        await this.getUserById(userId);
+        await this.resetFailedLogins(userId);
+        await this.securityEventService.record(SecurityEventTypes.ACCOUNT_UNLOCKED, userId, { unlockedBy });
+    }
+
+    public async markEmailVerified(userId: number): Promise<void> {
+        await this.userRepository.update(userId, { emailVerifiedAt: new Date() });
+    }
+
     public async updatePassword(userId: number, currentPassword: string, newPassword: string): Promise<void> {
         const user = await this.getUserById(userId);
 
-        if (user.isOauth) {
-            throw new UnauthorizedException('Cannot update password for OAuth users');
+        if (!user.hashedPassword) {
+            throw new BadRequestException('No password is set for this account');
         }
 
         const isCurrentPasswordValid = await bcrypt.compare(currentPassword, user.hashedPassword || '');
@@ -105,8 +202,168 @@ class UserService {
             throw new UnauthorizedException('Current password is invalid');
         }
 
+        await this.applyNewPassword(user, newPassword);
+    }
+
+    /**
+     * Adds a password to an account that so far signs in only through linked identities or passkeys.
+     *
+     * @param userId The ID of the user.
+     * @param newPassword The new plaintext password.
+     * @throws BadRequestException if the account already has a password or the password violates the policy.
+     */
+    public async addPassword(userId: number, newPassword: string): Promise<void> {
+        const user = await this.getUserById(userId);
+        if (user.hashedPassword) {
+            throw new BadRequestException('A password is already set for this account');
+        }
+
+        await this.applyNewPassword(user, newPassword);
+    }
+
+    /**
+     * Replaces the password of a user without checking the current one and lifts any login lockout.
+     * Callers are responsible for having proven the user's identity, e.g. with a reset token.
+     *
+     * @param userId The ID of the user.
+     * @param newPassword The new plaintext password.
+     * @throws BadRequestException if the password violates the password policy.
+     */
+    public async setPassword(userId: number, newPassword: string): Promise<void> {
+        const user = await this.getUserById(userId);
+        await this.applyNewPassword(user, newPassword);
+    }
+
+    /**
+     * Checks credentials against the directory and brings the local account in line with the
+     * directory entry: names are synced on every login and roles follow the mapped groups. The
+     * account is found through the entry before the password is tried, so its lockout applies
+     * whether the user signs in with an email address or a directory username.
+     */
+    private async validateDirectoryCredentials(username: string, password: string): Promise<User> {
+        const bindName = await this.ldapService.resolveBindName(username);
+        if (!bindName) {
+            throw new UnauthorizedException('Invalid credentials');
+        }
+
+        const linkedUserId = await this.ldapService.findLinkedUserId(bindName);
+        const account = linkedUserId ? await this.getUserById(linkedUserId) : null;
+        if (account) {
+            this.assertCanLogIn(account);
+        }
+
+        const profile = await this.ldapService.authenticate(username, password);
+        if (!profile) {
+            if (account) {
+                await this.recordFailedLogin(account);
+            }
+            throw new UnauthorizedException('Invalid credentials');
+        }
+
+        let directoryUser = account;
+        if (!directoryUser) {
+            // Users may sign in with a directory username, so the account is created with the directory address
+            const email = profile.email ?? (username.includes('@') ? username.toLowerCase() : null);
+            if (!email) {
+                throw new UnauthorizedException('The directory entry has no email address');
+            }
+
+            // An account that merely shares the address, however it signs in, is never taken over
+            if (await this.getUserByEmail(email)) {
+                throw new UnauthorizedException('Invalid credentials');
+            }
+
+            directoryUser = this.userRepository.create({ email, hashedPassword: null, roles: [] });
+        }
+
+        directoryUser.firstName = profile.firstName ?? directoryUser.firstName ?? '';
+        directoryUser.lastName = profile.lastName ?? directoryUser.lastName ?? '';
+        // The directory is the authority on the addresses of its users
+        directoryUser.emailVerifiedAt = directoryUser.emailVerifiedAt ?? new Date();
+        directoryUser.roles = await this.ldapService.mapGroupRoles(directoryUser.roles || [], profile.groups);
+        directoryUser.failedLoginAttempts = 0;
+        directoryUser.lastFailedLoginAt = null;
+        directoryUser.lockedUntil = null;
+
+        const savedUser = await this.userRepository.save(directoryUser);
+        await this.ldapService.recordLogin(savedUser.id, bindName, savedUser.email);
+
+        return savedUser;
+    }
+
+    private async applyNewPassword(user: User, newPassword: string): Promise<void> {
+        this.passwordPolicyService.validate(newPassword, user, 'newPassword');
+
         const hashedNewPassword = await bcrypt.hash(newPassword, 10);
-        await this.userRepository.update(userId, { hashedPassword: hashedNewPassword });
+        await this.userRepository.update(user.id, {
+            hashedPassword: hashedNewPassword,
+            failedLoginAttempts: 0,
+            lastFailedLoginAt: null,
+            lockedUntil: null,
+        });
+    }
+
+    private assertLoginAllowed(user: User): void {
+        const now = Date.now();
+        if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+            this.throwRetryLater('Account is temporarily locked', user.lockedUntil.getTime() - now);
+        }
+
+        const delaySeconds = this.getLoginDelaySeconds(this.getActiveFailedAttempts(user));
+        if (delaySeconds > 0 && user.lastFailedLoginAt) {
+            const retryAt = user.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+            if (retryAt > now) {
+                this.throwRetryLater('Too many failed login attempts', retryAt - now);
+            }
+        }
+    }
+
+    private async recordFailedLogin(user: User): Promise<void> {
+        const failedLoginAttempts = this.getActiveFailedAttempts(user) + 1;
+        const update: Partial<User> = { failedLoginAttempts, lastFailedLoginAt: new Date(), lockedUntil: null };
+
+        if (failedLoginAttempts >= this.configService.get('auth.loginLockoutThreshold', 10)) {
+            await this.lockAccount(user, { failedLoginAttempts }, update);
+            return;
+        }
+
+        await this.userRepository.update(user.id, update);
+    }
+
+    private async resetFailedLogins(userId: number): Promise<void> {
+        await this.userRepository.update(userId, { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null });
+    }
+
+    /**
+     * Failed attempts that led to a lockout which has since expired no longer count,
+     * so the owner gets a fresh start once the lock is over.
+     */
+    private getActiveFailedAttempts(user: User): number {
+        if (user.lockedUntil && user.lockedUntil.getTime() <= Date.now()) {
+            return 0;
+        }
+
+        return user.failedLoginAttempts;
+    }
+
+    private getLoginDelaySeconds(failedLoginAttempts: number): number {
+        const freeAttempts = this.configService.get('auth.loginDelayAfterAttempts', 3);
+        if (failedLoginAttempts < freeAttempts) {
+            return 0;
+        }
+
+        return Math.min(2 ** (failedLoginAttempts - freeAttempts), MAX_LOGIN_DELAY_SECONDS);
+    }
+
+    private throwRetryLater(message: string, retryAfterMs: number): never {
+        throw new HttpException(
+            {
+                statusCode: HttpStatus.TOO_MANY_REQUESTS,
+                message,
+                retryAfter: Math.ceil(retryAfterMs / 1000),
+            },
+            HttpStatus.TOO_MANY_REQUESTS,
+        );
     }
 }
 
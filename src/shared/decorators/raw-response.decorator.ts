@@ -0,0 +1,9 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+
+export const RAW_RESPONSE_KEY = 'rawResponse';
+
+/**
+ * Sends the handler's return value as is, without the success/data envelope added by the
+ * ResponseTransformInterceptor. For documents whose format is fixed by a standard.
+ */
+export const RawResponse = (): CustomDecorator<string> => SetMetadata(RAW_RESPONSE_KEY, true);
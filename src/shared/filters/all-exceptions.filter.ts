@@ -146,7 +146,11 @@ class AllExceptionsFilter implements ExceptionFilter {
             return `${friendlyField} is not allowed`;
         }
 
-        // Default fallback
+        // Default fallback, with the field name made readable
+        if (errorMessage.startsWith(`${fieldName} `)) {
+            return `${friendlyField}${errorMessage.slice(fieldName.length)}`;
+        }
+
         return errorMessage;
     }
 
@@ -157,6 +161,8 @@ class AllExceptionsFilter implements ExceptionFilter {
             userName: 'User Name',
             email: 'Email',
             password: 'Password',
+            currentPassword: 'Current Password',
+            newPassword: 'New Password',
         };
 
         return fieldMappings[fieldName] || fieldName;
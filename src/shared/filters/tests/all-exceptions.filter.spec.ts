@@ -215,6 +215,17 @@ describe('AllExceptionsFilter', () => {
             ]);
         });
 
+        it('should name the field in password policy errors', () => {
+            const exception = new BadRequestException(['newPassword must be at least 10 characters long']);
+
+            filter.catch(exception as any, mockHost);
+
+            const responseCall = mockResponse.json.mock.calls[0][0];
+            expect(responseCall.message.errors).toEqual([
+                { field: 'newPassword', message: 'New Password must be at least 10 characters long' },
+            ]);
+        });
+
         it('should handle unknown validation error patterns', () => {
             const validationErrors = ['customField has unknown error'];
             const exception = new BadRequestException({ message: validationErrors });
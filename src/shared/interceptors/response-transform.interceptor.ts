@@ -2,6 +2,7 @@ import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nes
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import { Response } from 'express';
+import { RAW_RESPONSE_KEY } from '../decorators/raw-response.decorator';
 
 export interface ApiResponse<T> {
     success: boolean;
@@ -19,6 +20,10 @@ export class ResponseTransformInterceptor<T> implements NestInterceptor<T, ApiRe
             return next.handle();
         }
 
+        if (Reflect.getMetadata(RAW_RESPONSE_KEY, context.getHandler())) {
+            return next.handle();
+        }
+
         return next.handle().pipe(
             map((data) => ({
                 success: true,
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppLoggerService } from './logger.service';
+import { User } from 'src/modules/user/entities/user.entity';
+
+@Injectable()
+class NotificationService {
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly logger: AppLoggerService,
+    ) {}
+
+    /**
+     * Sends the link a user follows to confirm their email address.
+     *
+     * @param user The user to notify.
+     * @param token The plaintext verification token.
+     */
+    public async sendEmailVerification(user: User, token: string): Promise<void> {
+        await this.deliver(user, 'Confirm your email address', this.buildFrontendLink('/verify-email', token));
+    }
+
+    /**
+     * Sends the link a user follows to choose a new password.
+     *
+     * @param user The user to notify.
+     * @param token The plaintext reset token.
+     */
+    public async sendPasswordReset(user: User, token: string): Promise<void> {
+        await this.deliver(user, 'Reset your password', this.buildFrontendLink('/reset-password', token));
+    }
+
+    /**
+     * Sends a one-time link that signs the user in without a password.
+     *
+     * @param user The user to notify.
+     * @param token The plaintext magic link token.
+     */
+    public async sendMagicLink(user: User, token: string): Promise<void> {
+        await this.deliver(user, 'Your sign-in link', this.buildFrontendLink('/magic-link', token));
+    }
+
+    /**
+     * Tells the account owner that repeated failed logins locked their account.
+     *
+     * @param user The user to notify.
+     * @param lockedUntil When password logins will be accepted again.
+     */
+    public async sendAccountLocked(user: User, lockedUntil: Date): Promise<void> {
+        await this.deliver(user, `Your account is locked until ${lockedUntil.toISOString()} after repeated failed logins`);
+    }
+
+    /**
+     * Warns the account owner about a login from a device they have not signed in from before.
+     *
+     * @param user The user to notify.
+     * @param deviceName The name of the new device, such as "Chrome on macOS".
+     * @param ipAddress The IP address the login came from, if known.
+     */
+    public async sendNewDeviceLogin(user: User, deviceName: string, ipAddress?: string | null): Promise<void> {
+        const origin = ipAddress ? ` (${ipAddress})` : '';
+        await this.deliver(user, `New sign-in to your account from ${deviceName}${origin}`);
+    }
+
+    private buildFrontendLink(path: string, token: string): string {
+        const frontendUrl = this.configService.get('frontend.url');
+        return `${frontendUrl}${path}?token=${encodeURIComponent(token)}`;
+    }
+
+    /**
+     * Hands a notification to the delivery channel. Until an email provider is configured this only
+     * writes to the log; links carry secrets, so they are logged at debug level, which is off in production.
+     *
+     * @param user The recipient.
+     * @param subject The notification subject.
+     * @param link Optional link included in the notification.
+     */
+    private async deliver(user: User, subject: string, link?: string): Promise<void> {
+        this.logger.log(`Notification "${subject}" sent to user ${user.id}`, 'NotificationService');
+
+        if (link) {
+            this.logger.debug(`Notification link for ${user.email}: ${link}`, 'NotificationService');
+        }
+    }
+}
+
+export { NotificationService };
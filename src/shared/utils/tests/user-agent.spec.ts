@@ -0,0 +1,43 @@
+import { getDeviceName, parseUserAgent } from '../user-agent';
+
+describe('user-agent utils', () => {
+    const chromeOnMac =
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+    const safariOnIphone =
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+    const edgeOnWindows =
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0';
+    const chromeOnAndroidTablet =
+        'Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+    describe('parseUserAgent', () => {
+        it('should detect desktop browsers', () => {
+            expect(parseUserAgent(chromeOnMac)).toEqual({ browser: 'Chrome', os: 'macOS', deviceType: 'desktop' });
+            expect(parseUserAgent(edgeOnWindows)).toEqual({ browser: 'Edge', os: 'Windows', deviceType: 'desktop' });
+        });
+
+        it('should detect mobile and tablet devices', () => {
+            expect(parseUserAgent(safariOnIphone)).toEqual({ browser: 'Safari', os: 'iOS', deviceType: 'mobile' });
+            expect(parseUserAgent(chromeOnAndroidTablet)).toEqual({
+                browser: 'Chrome',
+                os: 'Android',
+                deviceType: 'tablet',
+            });
+        });
+
+        it('should handle missing user agents', () => {
+            expect(parseUserAgent(undefined)).toEqual({ browser: 'Unknown', os: 'Unknown', deviceType: 'unknown' });
+        });
+    });
+
+    describe('getDeviceName', () => {
+        it('should combine browser and operating system', () => {
+            expect(getDeviceName(chromeOnMac)).toBe('Chrome on macOS');
+        });
+
+        it('should fall back for unrecognised user agents', () => {
+            expect(getDeviceName('curl/8.4.0')).toBe('Unknown device');
+            expect(getDeviceName(null)).toBe('Unknown device');
+        });
+    });
+});
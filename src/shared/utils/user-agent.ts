@@ -0,0 +1,64 @@
+export interface ParsedUserAgent {
+    browser: string;
+    os: string;
+    deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+}
+
+// Order matters: Edge and Opera also advertise Chrome, and Chrome advertises Safari
+const BROWSER_PATTERNS: [RegExp, string][] = [
+    [/Edg(e|A|iOS)?\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/SamsungBrowser\//, 'Samsung Internet'],
+    [/Firefox\/|FxiOS\//, 'Firefox'],
+    [/Chrome\/|CriOS\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+];
+
+const OS_PATTERNS: [RegExp, string][] = [
+    [/Windows NT/, 'Windows'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+/**
+ * Extracts the browser, operating system and device type from a User-Agent header.
+ *
+ * @param userAgent The raw User-Agent header value.
+ * @returns The parsed user agent, with 'Unknown' for anything that could not be recognised.
+ */
+export function parseUserAgent(userAgent?: string | null): ParsedUserAgent {
+    if (!userAgent) {
+        return { browser: 'Unknown', os: 'Unknown', deviceType: 'unknown' };
+    }
+
+    const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown';
+    const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown';
+
+    let deviceType: ParsedUserAgent['deviceType'] = 'desktop';
+    if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+        deviceType = 'tablet';
+    } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+        deviceType = 'mobile';
+    }
+
+    return { browser, os, deviceType };
+}
+
+/**
+ * Builds a human friendly device name such as "Chrome on macOS".
+ *
+ * @param userAgent The raw User-Agent header value.
+ * @returns The device name.
+ */
+export function getDeviceName(userAgent?: string | null): string {
+    const { browser, os } = parseUserAgent(userAgent);
+
+    if (browser === 'Unknown' && os === 'Unknown') {
+        return 'Unknown device';
+    }
+
+    return `${browser} on ${os}`;
+}
@@ -0,0 +1,343 @@
+import { AddressInfo, Server, Socket, createServer } from 'net';
+
+interface BerElement {
+    tag: number;
+    value: Buffer;
+}
+
+interface DirectoryEntry {
+    dn: string;
+    password: string | null;
+    attributes: Record<string, string[]>;
+}
+
+const ResultCodes = {
+    SUCCESS: 0,
+    PROTOCOL_ERROR: 2,
+    NO_SUCH_OBJECT: 32,
+    INVALID_CREDENTIALS: 49,
+    INSUFFICIENT_ACCESS_RIGHTS: 50,
+};
+
+const ProtocolOps = {
+    BIND_REQUEST: 0x60,
+    BIND_RESPONSE: 0x61,
+    UNBIND_REQUEST: 0x42,
+    SEARCH_REQUEST: 0x63,
+    SEARCH_RESULT_ENTRY: 0x64,
+    SEARCH_RESULT_DONE: 0x65,
+};
+
+/**
+ * A minimal LDAPv3 directory served over TCP on localhost, so the LDAP client can be tested end
+ * to end: simple binds, searches with the common filter types, and unbinds. Entries are held in
+ * memory and every bind and search is recorded for assertions.
+ */
+export class MockLdapServer {
+    public url = '';
+    public binds: string[] = [];
+    public searches: { baseDn: string; filter: string; boundAs: string | null }[] = [];
+
+    private server: Server | null = null;
+    private readonly sockets = new Set<Socket>();
+    private readonly entries = new Map<string, DirectoryEntry>();
+
+    public async start(): Promise<void> {
+        this.server = createServer((socket) => this.handleConnection(socket));
+        await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+
+        const { port } = this.server.address() as AddressInfo;
+        this.url = `ldap://127.0.0.1:${port}`;
+    }
+
+    public async stop(): Promise<void> {
+        this.sockets.forEach((socket) => socket.destroy());
+        await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    }
+
+    /**
+     * Adds an entry to the directory, replacing any entry with the same DN.
+     *
+     * @param dn The distinguished name of the entry.
+     * @param attributes The attributes of the entry, single values or lists.
+     * @param password The password a simple bind as this entry must present, null if it cannot bind.
+     */
+    public addEntry(dn: string, attributes: Record<string, string | string[]>, password: string | null = null): void {
+        this.entries.set(normalizeDn(dn), {
+            dn,
+            password,
+            attributes: Object.fromEntries(
+                Object.entries(attributes).map(([name, value]) => [name, Array.isArray(value) ? value : [value]]),
+            ),
+        });
+    }
+
+    public reset(): void {
+        this.entries.clear();
+        this.binds = [];
+        this.searches = [];
+    }
+
+    private handleConnection(socket: Socket): void {
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+        socket.on('error', () => socket.destroy());
+
+        let boundAs: string | null = null;
+        let pending = Buffer.alloc(0);
+
+        socket.on('data', (chunk) => {
+            pending = Buffer.concat([pending, chunk]);
+
+            // A chunk may hold part of a message or several of them
+            let message = readElement(pending, 0);
+            while (message) {
+                pending = pending.subarray(message.end);
+                const [messageId, operation] = readChildren(message.element.value);
+                const id = readInteger(messageId.value);
+
+                if (operation.tag === ProtocolOps.UNBIND_REQUEST) {
+                    socket.end();
+                    return;
+                }
+
+                if (operation.tag === ProtocolOps.BIND_REQUEST) {
+                    const [, name, credentials] = readChildren(operation.value);
+                    const dn = name.value.toString();
+                    const result = this.bind(dn, credentials.value.toString());
+                    boundAs = result === ResultCodes.SUCCESS && dn ? dn : null;
+                    socket.write(encodeMessage(id, encodeResult(ProtocolOps.BIND_RESPONSE, result)));
+                } else if (operation.tag === ProtocolOps.SEARCH_REQUEST) {
+                    this.search(socket, id, operation, boundAs);
+                } else {
+                    socket.write(
+                        encodeMessage(id, encodeResult(ProtocolOps.SEARCH_RESULT_DONE, ResultCodes.PROTOCOL_ERROR)),
+                    );
+                }
+
+                message = readElement(pending, 0);
+            }
+        });
+    }
+
+    private bind(dn: string, password: string): number {
+        this.binds.push(dn);
+
+        // An empty DN with an empty password is an anonymous bind
+        if (!dn && !password) {
+            return ResultCodes.SUCCESS;
+        }
+
+        const entry = this.entries.get(normalizeDn(dn));
+        return entry?.password && password && entry.password === password
+            ? ResultCodes.SUCCESS
+            : ResultCodes.INVALID_CREDENTIALS;
+    }
+
+    private search(socket: Socket, id: number, operation: BerElement, boundAs: string | null): void {
+        const [base, scope, , , , , filter, attributes] = readChildren(operation.value);
+        const baseDn = normalizeDn(base.value.toString());
+        const requestedAttributes = readChildren(attributes.value).map((attribute) => attribute.value.toString());
+        this.searches.push({ baseDn: base.value.toString(), filter: describeFilter(filter), boundAs });
+
+        // Like most directories, anonymous connections may not read entries
+        if (!boundAs) {
+            socket.write(
+                encodeMessage(id, encodeResult(ProtocolOps.SEARCH_RESULT_DONE, ResultCodes.INSUFFICIENT_ACCESS_RIGHTS)),
+            );
+            return;
+        }
+
+        const scopeValue = readInteger(scope.value);
+        if (scopeValue === 0 && !this.entries.has(baseDn)) {
+            socket.write(encodeMessage(id, encodeResult(ProtocolOps.SEARCH_RESULT_DONE, ResultCodes.NO_SUCH_OBJECT)));
+            return;
+        }
+
+        for (const [dn, entry] of this.entries) {
+            if (isInScope(dn, baseDn, scopeValue) && matchesFilter(entry, filter)) {
+                socket.write(encodeMessage(id, encodeEntry(entry, requestedAttributes)));
+            }
+        }
+        socket.write(encodeMessage(id, encodeResult(ProtocolOps.SEARCH_RESULT_DONE, ResultCodes.SUCCESS)));
+    }
+}
+
+function normalizeDn(dn: string): string {
+    return dn
+        .split(/(?<!\\),/)
+        .map((rdn) => rdn.trim().toLowerCase())
+        .join(',');
+}
+
+function isInScope(dn: string, baseDn: string, scope: number): boolean {
+    if (scope === 0) {
+        return dn === baseDn;
+    }
+
+    if (!dn.endsWith(`,${baseDn}`)) {
+        return scope === 2 && dn === baseDn;
+    }
+
+    // One level down means exactly one more unescaped comma than the base
+    return scope === 2 || dn.slice(0, -baseDn.length - 1).split(/(?<!\\),/).length === 1;
+}
+
+function getValues(entry: DirectoryEntry, attribute: string): string[] {
+    const name = Object.keys(entry.attributes).find((key) => key.toLowerCase() === attribute.toLowerCase());
+    return name ? entry.attributes[name] : [];
+}
+
+/**
+ * Evaluates an RFC 4511 filter against an entry. Values compare case-insensitively, as with
+ * the caseIgnoreMatch rule most directory attributes use.
+ */
+function matchesFilter(entry: DirectoryEntry, filter: BerElement): boolean {
+    switch (filter.tag) {
+        case 0xa0:
+            return readChildren(filter.value).every((child) => matchesFilter(entry, child));
+        case 0xa1:
+            return readChildren(filter.value).some((child) => matchesFilter(entry, child));
+        case 0xa2:
+            return !matchesFilter(entry, readChildren(filter.value)[0]);
+        case 0xa3: {
+            const [attribute, value] = readChildren(filter.value).map((child) => child.value.toString());
+            return getValues(entry, attribute).some((candidate) => candidate.toLowerCase() === value.toLowerCase());
+        }
+        case 0xa4: {
+            const [attribute, substrings] = readChildren(filter.value);
+            const pattern = readChildren(substrings.value)
+                .map((part) => {
+                    const text = part.value.toString().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                    return part.tag === 0x80 ? `^${text}` : part.tag === 0x82 ? `${text}$` : text;
+                })
+                .join('.*');
+            const regex = new RegExp(pattern, 'i');
+            return getValues(entry, attribute.value.toString()).some((candidate) => regex.test(candidate));
+        }
+        case 0x87:
+            return (
+                filter.value.toString().toLowerCase() === 'objectclass' ||
+                getValues(entry, filter.value.toString()).length > 0
+            );
+        default:
+            return false;
+    }
+}
+
+function describeFilter(filter: BerElement): string {
+    switch (filter.tag) {
+        case 0xa0:
+        case 0xa1:
+        case 0xa2: {
+            const operator = { 0xa0: '&', 0xa1: '|', 0xa2: '!' }[filter.tag];
+            return `(${operator}${readChildren(filter.value).map(describeFilter).join('')})`;
+        }
+        case 0xa3: {
+            const [attribute, value] = readChildren(filter.value).map((child) => child.value.toString());
+            return `(${attribute}=${value})`;
+        }
+        case 0x87:
+            return `(${filter.value.toString()}=*)`;
+        default:
+            return `(?${filter.tag.toString(16)})`;
+    }
+}
+
+function readElement(buffer: Buffer, offset: number): { element: BerElement; end: number } | null {
+    if (buffer.length < offset + 2) {
+        return null;
+    }
+
+    const tag = buffer[offset];
+    let length = buffer[offset + 1];
+    let headerLength = 2;
+
+    // Long form: the low bits give the number of length bytes that follow
+    if (length & 0x80) {
+        const lengthBytes = length & 0x7f;
+        if (buffer.length < offset + 2 + lengthBytes) {
+            return null;
+        }
+        length = buffer.readUIntBE(offset + 2, lengthBytes);
+        headerLength += lengthBytes;
+    }
+
+    const end = offset + headerLength + length;
+    if (buffer.length < end) {
+        return null;
+    }
+
+    return { element: { tag, value: buffer.subarray(offset + headerLength, end) }, end };
+}
+
+function readChildren(buffer: Buffer): BerElement[] {
+    const children: BerElement[] = [];
+    let offset = 0;
+
+    while (offset < buffer.length) {
+        const child = readElement(buffer, offset);
+        if (!child) {
+            break;
+        }
+        children.push(child.element);
+        offset = child.end;
+    }
+
+    return children;
+}
+
+function readInteger(buffer: Buffer): number {
+    return buffer.length === 0 ? 0 : buffer.readIntBE(0, buffer.length);
+}
+
+function encode(tag: number, content: Buffer): Buffer {
+    if (content.length < 0x80) {
+        return Buffer.concat([Buffer.from([tag, content.length]), content]);
+    }
+
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(content.length);
+    return Buffer.concat([Buffer.from([tag, 0x84]), length, content]);
+}
+
+function encodeInteger(tag: number, value: number): Buffer {
+    const bytes = [];
+    do {
+        bytes.unshift(value & 0xff);
+        value >>= 8;
+    } while (value > 0);
+
+    // Keep the value positive when its high bit is set
+    if (bytes[0] & 0x80) {
+        bytes.unshift(0);
+    }
+
+    return encode(tag, Buffer.from(bytes));
+}
+
+function encodeString(value: string): Buffer {
+    return encode(0x04, Buffer.from(value));
+}
+
+function encodeMessage(messageId: number, operation: Buffer): Buffer {
+    return encode(0x30, Buffer.concat([encodeInteger(0x02, messageId), operation]));
+}
+
+function encodeResult(operation: number, resultCode: number): Buffer {
+    return encode(operation, Buffer.concat([encodeInteger(0x0a, resultCode), encodeString(''), encodeString('')]));
+}
+
+function encodeEntry(entry: DirectoryEntry, requestedAttributes: string[]): Buffer {
+    const wanted = requestedAttributes.map((attribute) => attribute.toLowerCase());
+    const attributes = Object.entries(entry.attributes)
+        .filter(([name]) => wanted.length === 0 || wanted.includes('*') || wanted.includes(name.toLowerCase()))
+        .map(([name, values]) =>
+            encode(0x30, Buffer.concat([encodeString(name), encode(0x31, Buffer.concat(values.map(encodeString)))])),
+        );
+
+    return encode(
+        ProtocolOps.SEARCH_RESULT_ENTRY,
+        Buffer.concat([encodeString(entry.dn), encode(0x30, Buffer.concat(attributes))]),
+    );
+}
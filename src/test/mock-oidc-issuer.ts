@@ -0,0 +1,175 @@
+import { KeyObject, createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+
+interface PendingCode {
+    redirectUri: string;
+    codeChallenge: string;
+    claims: Record<string, unknown>;
+}
+
+/**
+ * A minimal OpenID Connect provider served over HTTP on localhost, so the OIDC client can be
+ * tested end to end: discovery, JWKS, the token endpoint with PKCE and user info.
+ */
+export class MockOidcIssuer {
+    public readonly clientId = 'mock-client';
+    public readonly clientSecret = 'mock-secret';
+    public issuer = '';
+    public requests: string[] = [];
+
+    private server: Server | null = null;
+    private keyId = randomBytes(8).toString('hex');
+    private privateKey: KeyObject;
+    private publicKey: KeyObject;
+    private readonly codes = new Map<string, PendingCode>();
+    private readonly userInfo = new Map<string, Record<string, unknown>>();
+
+    constructor() {
+        ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 }));
+    }
+
+    public async start(): Promise<void> {
+        this.server = createServer((request, response) => this.handle(request, response));
+        await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+
+        const { port } = this.server.address() as AddressInfo;
+        this.issuer = `http://127.0.0.1:${port}`;
+    }
+
+    public async stop(): Promise<void> {
+        // fetch keeps connections alive, which would otherwise hold the server open
+        this.server?.closeAllConnections();
+        await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    }
+
+    /**
+     * Replaces the signing key, as a provider does when it rotates keys.
+     */
+    public rotateKey(): void {
+        this.keyId = randomBytes(8).toString('hex');
+        ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 }));
+    }
+
+    /**
+     * Plays the part of the user approving the login at the provider.
+     *
+     * @param authorizationUrl The URL the client redirected the browser to.
+     * @param claims Claims for the ID token, overriding the defaults.
+     * @returns The authorization code the provider would redirect back with.
+     */
+    public authorize(authorizationUrl: string, claims: Record<string, unknown> = {}): string {
+        const params = new URL(authorizationUrl).searchParams;
+        const code = randomBytes(16).toString('hex');
+
+        this.codes.set(code, {
+            redirectUri: params.get('redirect_uri') || '',
+            codeChallenge: params.get('code_challenge') || '',
+            claims: {
+                iss: this.issuer,
+                sub: 'mock-user-1',
+                aud: params.get('client_id'),
+                nonce: params.get('nonce'),
+                email: 'oidc.user@example.com',
+                email_verified: true,
+                given_name: 'Oidc',
+                family_name: 'User',
+                ...claims,
+            },
+        });
+
+        return code;
+    }
+
+    public setUserInfo(subject: string, claims: Record<string, unknown>): void {
+        this.userInfo.set(subject, { sub: subject, ...claims });
+    }
+
+    /**
+     * Signs a JWT with the current key.
+     *
+     * @param claims The payload; iat and exp are added when missing.
+     * @param header Header fields overriding the defaults.
+     */
+    public signIdToken(claims: Record<string, unknown>, header: Record<string, unknown> = {}): string {
+        const now = Math.floor(Date.now() / 1000);
+        const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+        const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: this.keyId, ...header })}.${encode({
+            iat: now,
+            exp: now + 300,
+            ...claims,
+        })}`;
+        const signature = sign('sha256', Buffer.from(signingInput), this.privateKey).toString('base64url');
+
+        return `${signingInput}.${signature}`;
+    }
+
+    private handle(request: IncomingMessage, response: ServerResponse): void {
+        const url = new URL(request.url || '/', this.issuer);
+        this.requests.push(url.pathname);
+
+        if (url.pathname === '/.well-known/openid-configuration') {
+            return this.json(response, 200, {
+                issuer: this.issuer,
+                authorization_endpoint: `${this.issuer}/authorize`,
+                token_endpoint: `${this.issuer}/token`,
+                jwks_uri: `${this.issuer}/jwks`,
+                userinfo_endpoint: `${this.issuer}/userinfo`,
+                id_token_signing_alg_values_supported: ['RS256'],
+                token_endpoint_auth_methods_supported: ['client_secret_basic'],
+            });
+        }
+
+        if (url.pathname === '/jwks') {
+            const jwk = this.publicKey.export({ format: 'jwk' });
+            return this.json(response, 200, { keys: [{ ...jwk, kid: this.keyId, use: 'sig', alg: 'RS256' }] });
+        }
+
+        if (url.pathname === '/token' && request.method === 'POST') {
+            let body = '';
+            request.on('data', (chunk) => (body += chunk));
+            request.on('end', () => this.handleToken(request, response, new URLSearchParams(body)));
+            return;
+        }
+
+        if (url.pathname === '/userinfo') {
+            const accessToken = (request.headers.authorization || '').replace(/^Bearer /, '');
+            const claims = this.userInfo.get(accessToken);
+            return claims ? this.json(response, 200, claims) : this.json(response, 401, { error: 'invalid_token' });
+        }
+
+        this.json(response, 404, { error: 'not_found' });
+    }
+
+    private handleToken(request: IncomingMessage, response: ServerResponse, params: URLSearchParams): void {
+        const expectedAuth = `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`;
+        if (request.headers.authorization !== expectedAuth) {
+            return this.json(response, 401, { error: 'invalid_client' });
+        }
+
+        const pending = this.codes.get(params.get('code') || '');
+        this.codes.delete(params.get('code') || '');
+
+        const verifier = params.get('code_verifier') || '';
+        if (
+            !pending ||
+            pending.redirectUri !== params.get('redirect_uri') ||
+            createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge
+        ) {
+            return this.json(response, 400, { error: 'invalid_grant' });
+        }
+
+        // The subject doubles as the access token so the user info endpoint can look it up
+        this.json(response, 200, {
+            token_type: 'Bearer',
+            access_token: pending.claims.sub,
+            id_token: this.signIdToken(pending.claims),
+        });
+    }
+
+    private json(response: ServerResponse, status: number, body: unknown): void {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    }
+}
@@ -0,0 +1,149 @@
+import { KeyObject, createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import type { AuthenticationResponseJSON, RegistrationResponseJSON } from '@simplewebauthn/server';
+
+type CborValue = number | string | Buffer | CborValue[] | Map<number | string, CborValue>;
+
+/**
+ * Minimal CBOR encoder covering the types used by WebAuthn attestation objects and COSE keys.
+ */
+function encodeCbor(value: CborValue): Buffer {
+    const header = (majorType: number, length: number): Buffer => {
+        if (length < 24) {
+            return Buffer.from([(majorType << 5) | length]);
+        }
+        if (length < 256) {
+            return Buffer.from([(majorType << 5) | 24, length]);
+        }
+
+        const buffer = Buffer.alloc(3);
+        buffer[0] = (majorType << 5) | 25;
+        buffer.writeUInt16BE(length, 1);
+        return buffer;
+    };
+
+    if (typeof value === 'number') {
+        return value >= 0 ? header(0, value) : header(1, -1 - value);
+    }
+    if (typeof value === 'string') {
+        const bytes = Buffer.from(value, 'utf8');
+        return Buffer.concat([header(3, bytes.length), bytes]);
+    }
+    if (Buffer.isBuffer(value)) {
+        return Buffer.concat([header(2, value.length), value]);
+    }
+    if (Array.isArray(value)) {
+        return Buffer.concat([header(4, value.length), ...value.map(encodeCbor)]);
+    }
+
+    const entries = Array.from(value.entries()).flatMap(([key, entry]) => [encodeCbor(key), encodeCbor(entry)]);
+    return Buffer.concat([header(5, value.size), ...entries]);
+}
+
+/**
+ * A software WebAuthn authenticator with a single ES256 passkey, so registration and
+ * login ceremonies can be tested without hardware.
+ */
+export class SoftwareAuthenticator {
+    public readonly credentialId = randomBytes(16).toString('base64url');
+    public signCount = 0;
+
+    private readonly privateKey: KeyObject;
+    private readonly publicKey: KeyObject;
+
+    constructor(
+        private readonly rpId: string,
+        private readonly origin: string,
+    ) {
+        const keyPair = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        this.privateKey = keyPair.privateKey;
+        this.publicKey = keyPair.publicKey;
+    }
+
+    /**
+     * Answers a registration challenge with a "none" attestation.
+     *
+     * @param challenge The challenge from the registration options.
+     */
+    public createCredential(challenge: string): RegistrationResponseJSON {
+        const jwk = this.publicKey.export({ format: 'jwk' });
+        const coseKey = new Map<number, CborValue>([
+            [1, 2], // kty: EC2
+            [3, -7], // alg: ES256
+            [-1, 1], // crv: P-256
+            [-2, Buffer.from(jwk.x as string, 'base64url')],
+            [-3, Buffer.from(jwk.y as string, 'base64url')],
+        ]);
+
+        const credentialId = Buffer.from(this.credentialId, 'base64url');
+        const credentialIdLength = Buffer.alloc(2);
+        credentialIdLength.writeUInt16BE(credentialId.length);
+
+        // Flags: user present, user verified, attested credential data included
+        const authData = Buffer.concat([
+            this.buildAuthDataHeader(0x45),
+            Buffer.alloc(16), // AAGUID
+            credentialIdLength,
+            credentialId,
+            encodeCbor(coseKey),
+        ]);
+
+        const attestationObject = encodeCbor(
+            new Map<string, CborValue>([
+                ['fmt', 'none'],
+                ['attStmt', new Map()],
+                ['authData', authData],
+            ]),
+        );
+
+        return {
+            id: this.credentialId,
+            rawId: this.credentialId,
+            type: 'public-key',
+            response: {
+                clientDataJSON: this.buildClientData('webauthn.create', challenge).toString('base64url'),
+                attestationObject: attestationObject.toString('base64url'),
+                transports: ['internal'],
+            },
+            clientExtensionResults: {},
+        };
+    }
+
+    /**
+     * Signs an authentication challenge, incrementing the signature counter.
+     *
+     * @param challenge The challenge from the authentication options.
+     * @param userVerified Whether the authenticator reports a local PIN or biometric check.
+     */
+    public getAssertion(challenge: string, userVerified = true): AuthenticationResponseJSON {
+        this.signCount++;
+
+        // Flags: user present, plus user verified when the check took place
+        const authenticatorData = this.buildAuthDataHeader(userVerified ? 0x05 : 0x01);
+        const clientData = this.buildClientData('webauthn.get', challenge);
+        const clientDataHash = createHash('sha256').update(clientData).digest();
+        const signature = sign('sha256', Buffer.concat([authenticatorData, clientDataHash]), this.privateKey);
+
+        return {
+            id: this.credentialId,
+            rawId: this.credentialId,
+            type: 'public-key',
+            response: {
+                clientDataJSON: clientData.toString('base64url'),
+                authenticatorData: authenticatorData.toString('base64url'),
+                signature: signature.toString('base64url'),
+            },
+            clientExtensionResults: {},
+        };
+    }
+
+    private buildAuthDataHeader(flags: number): Buffer {
+        const counter = Buffer.alloc(4);
+        counter.writeUInt32BE(this.signCount);
+
+        return Buffer.concat([createHash('sha256').update(this.rpId).digest(), Buffer.from([flags]), counter]);
+    }
+
+    private buildClientData(type: string, challenge: string): Buffer {
+        return Buffer.from(JSON.stringify({ type, challenge, origin: this.origin, crossOrigin: false }));
+    }
+}
@@ -27,6 +27,8 @@ export class UserFactory {
         user.isActive = overrides.isActive || true;
         user.joinedDate = overrides.joinedDate || new Date();
         user.bio = overrides.bio ?? null;
+        user.emailVerifiedAt = overrides.emailVerifiedAt ?? null;
+        user.roles = overrides.roles || [];
         return user;
     }
 
@@ -57,7 +59,13 @@ export const mockConfigService = {
             nodeEnv: 'test',
             port: 3000,
             'jwt.secret': 'test-secret-key-for-testing-purposes-only',
-            'jwt.expirationTime': '1h',
+            'jwt.accessTokenLifetimeSeconds': 15 * 60,
+            'jwt.impersonationTokenLifetimeSeconds': 10 * 60,
+            'jwt.reauthenticationTokenLifetimeSeconds': 5 * 60,
+            'jwt.refreshTokenLifetimeSeconds': 30 * 24 * 60 * 60,
+            'jwt.sessionMaxAgeSeconds': 90 * 24 * 60 * 60,
+            'jwt.clockToleranceSeconds': 30,
+            'jwt.refreshTokenHashKey': 'test-refresh-token-hash-key',
             'frontend.url': 'http://localhost:3000',
             'database.host': 'localhost',
             'database.port': 5432,
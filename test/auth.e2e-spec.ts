@@ -1,11 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import request from 'supertest';
+import cookieParser from 'cookie-parser';
 import { AppModule } from '../src/app.module';
 
 describe('Authentication E2E (HTTP Layer)', () => {
     let app: INestApplication;
     let httpServer: any;
+    let frontendOrigin: string;
 
     beforeAll(async () => {
         const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -13,7 +16,9 @@ describe('Authentication E2E (HTTP Layer)', () => {
         }).compile();
 
         app = moduleFixture.createNestApplication();
+        app.use(cookieParser());
         httpServer = app.getHttpServer();
+        frontendOrigin = new URL(app.get(ConfigService).getOrThrow('frontend.url')).origin;
 
         await app.init();
     });
@@ -98,6 +103,90 @@ describe('Authentication E2E (HTTP Layer)', () => {
         });
     });
 
+    describe('CSRF protection of cookie-authenticated endpoints', () => {
+        const sessionCookies = 'refreshToken=some-refresh-token; csrfToken=some-csrf-token';
+
+        it('should reject a refresh without the CSRF header', async () => {
+            const response = await request(httpServer)
+                .post('/auth/refresh')
+                .set('Cookie', sessionCookies)
+                .set('Origin', frontendOrigin)
+                .expect(403);
+
+            expect(response.body).toHaveProperty('message', 'Invalid CSRF token');
+        });
+
+        it('should reject a refresh whose CSRF header does not match the cookie', async () => {
+            await request(httpServer)
+                .post('/auth/refresh')
+                .set('Cookie', sessionCookies)
+                .set('Origin', frontendOrigin)
+                .set('X-CSRF-Token', 'forged-csrf-token')
+                .expect(403);
+        });
+
+        it('should reject a refresh from another origin even with a matching token', async () => {
+            const response = await request(httpServer)
+                .post('/auth/refresh')
+                .set('Cookie', sessionCookies)
+                .set('Origin', 'https://attacker.example')
+                .set('X-CSRF-Token', 'some-csrf-token')
+                .expect(403);
+
+            expect(response.body).toHaveProperty('message', 'Request origin is not allowed');
+        });
+
+        it('should reject a refresh whose Referer points to another origin', async () => {
+            await request(httpServer)
+                .post('/auth/refresh')
+                .set('Cookie', sessionCookies)
+                .set('Referer', 'https://attacker.example/page')
+                .set('X-CSRF-Token', 'some-csrf-token')
+                .expect(403);
+        });
+
+        it('should pass a refresh with a matching token on to refresh token validation', async () => {
+            // The CSRF check passes, so the made-up refresh token is what gets rejected
+            await request(httpServer)
+                .post('/auth/refresh')
+                .set('Cookie', sessionCookies)
+                .set('Origin', frontendOrigin)
+                .set('X-CSRF-Token', 'some-csrf-token')
+                .expect(401);
+        });
+
+        it('should reject a logout without the CSRF header', async () => {
+            await request(httpServer)
+                .post('/auth/logout')
+                .set('Cookie', sessionCookies)
+                .set('Origin', frontendOrigin)
+                .expect(403);
+        });
+
+        it('should log out with a matching token and clear both cookies', async () => {
+            const response = await request(httpServer)
+                .post('/auth/logout')
+                .set('Cookie', sessionCookies)
+                .set('Origin', frontendOrigin)
+                .set('X-CSRF-Token', 'some-csrf-token')
+                .expect(201);
+
+            const setCookie = ([] as string[]).concat(response.headers['set-cookie']);
+            expect(setCookie.some((cookie) => cookie.startsWith('refreshToken=;'))).toBe(true);
+            expect(setCookie.some((cookie) => cookie.startsWith('csrfToken=;'))).toBe(true);
+        });
+
+        it('should allow a logout without a session cookie', async () => {
+            await request(httpServer).post('/auth/logout').set('Origin', 'https://attacker.example').expect(201);
+        });
+
+        it('should hand the CSRF token of the session to the frontend', async () => {
+            const response = await request(httpServer).get('/auth/csrf-token').set('Cookie', sessionCookies).expect(200);
+
+            expect(response.body).toEqual({ csrfToken: 'some-csrf-token' });
+        });
+    });
+
     describe('GET /auth/google', () => {
         it('should initiate Google OAuth flow', async () => {
             const response = await request(httpServer).get('/auth/google').expect(302); // Redirect to Google
@@ -109,10 +198,20 @@ describe('Authentication E2E (HTTP Layer)', () => {
 
     describe('GET /auth/google/callback', () => {
         it('should handle OAuth callback endpoint', async () => {
-            // This endpoint requires OAuth flow, so it should reject unauthorized requests
-            const response = await request(httpServer).get('/auth/google/callback').expect(401);
+            // A callback without an authorization code is sent back to the frontend with a reason code
+            const response = await request(httpServer).get('/auth/google/callback').expect(302);
 
-            expect(response.body).toHaveProperty('statusCode', 401);
+            expect(response.headers.location).toContain('/login?error=invalid_callback');
+        });
+
+        it('should send a declined OAuth login back with access_denied', async () => {
+            const response = await request(httpServer).get('/auth/google/callback?error=access_denied').expect(302);
+
+            expect(response.headers.location).toContain('error=access_denied');
+        });
+
+        it('should reject a return path that is not allowed', async () => {
+            await request(httpServer).get('/auth/google?returnTo=https://evil.example').expect(400);
         });
     });
 